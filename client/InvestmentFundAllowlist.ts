@@ -0,0 +1,112 @@
+import { utils } from "ethers";
+
+//
+// Interfaces
+//
+
+/**
+ * Merkle tree of the allowlisted investors
+ */
+export interface AllowlistTree {
+  root: string;
+  proofs: { [investor: string]: string[] };
+}
+
+//
+// Exported functions
+//
+
+/**
+ * Compute the Merkle tree leaf of an investor, in the same way of the contract (double hashed, as OpenZeppelin standard Merkle trees)
+ * @param investor Investor address
+ * @return Leaf
+ */
+export function allowlistLeaf(
+  investor: string
+) : string {
+  return utils.keccak256(utils.keccak256(utils.defaultAbiCoder.encode(["address"], [investor])));
+}
+
+/**
+ * Build the Merkle tree of the allowlisted investors
+ * Pairs are hashed sorted, as expected by the OpenZeppelin MerkleProof library.
+ * @param investors Investors addresses (duplicates are ignored)
+ * @return Merkle root and proof of each investor (addresses are checksummed)
+ */
+export function buildAllowlistTree(
+  investors: string[]
+) : AllowlistTree {
+  const addresses: string[] = [...new Set(investors.map((investor) => utils.getAddress(investor)))];
+  if (addresses.length === 0) {
+    throw new Error("The allowlist shall contain at least one investor");
+  }
+
+  // Build the layers from the leaves up to the root
+  const layers: string[][] = [addresses.map(allowlistLeaf).sort(compareHashes)];
+  while (layers[layers.length - 1].length > 1) {
+    const curr_layer: string[] = layers[layers.length - 1];
+    const next_layer: string[] = [];
+    for (let i = 0; i < curr_layer.length; i += 2) {
+      // The last node is moved up as it is if it has no sibling
+      next_layer.push(i + 1 < curr_layer.length ? hashPair(curr_layer[i], curr_layer[i + 1]) : curr_layer[i]);
+    }
+    layers.push(next_layer);
+  }
+
+  const proofs: { [investor: string]: string[] } = {};
+  for (const address of addresses) {
+    const proof: string[] = [];
+    let index: number = layers[0].indexOf(allowlistLeaf(address));
+    for (let i = 0; i < layers.length - 1; i++) {
+      const sibling_index: number = index ^ 1;
+      if (sibling_index < layers[i].length) {
+        proof.push(layers[i][sibling_index]);
+      }
+      index = Math.floor(index / 2);
+    }
+    proofs[address] = proof;
+  }
+
+  return {
+    root: layers[layers.length - 1][0],
+    proofs: proofs,
+  };
+}
+
+/**
+ * Verify the Merkle proof of an investor
+ * @param investor Investor address
+ * @param proof    Merkle proof
+ * @param root     Merkle root
+ * @return True if valid, false otherwise
+ */
+export function verifyAllowlistProof(
+  investor: string,
+  proof: string[],
+  root: string
+) : boolean {
+  const computed_root: string = proof.reduce(hashPair, allowlistLeaf(investor));
+  return computed_root.toLowerCase() === root.toLowerCase();
+}
+
+//
+// Not exported functions
+//
+
+function compareHashes(
+  a: string,
+  b: string
+) : number {
+  const a_lower: string = a.toLowerCase();
+  const b_lower: string = b.toLowerCase();
+  return a_lower < b_lower ? -1 : (a_lower > b_lower ? 1 : 0);
+}
+
+function hashPair(
+  a: string,
+  b: string
+) : string {
+  return compareHashes(a, b) <= 0
+    ? utils.keccak256(utils.concat([a, b]))
+    : utils.keccak256(utils.concat([b, a]));
+}
@@ -0,0 +1,1035 @@
+import { BigNumber, BigNumberish, ContractReceipt, ContractTransaction, PayableOverrides, Signer, constants, providers } from "ethers";
+// Project
+import {
+  IERC20,
+  IERC20__factory,
+  IFundStrategy__factory,
+  InvestmentFund,
+  InvestmentFundOracle,
+  InvestmentFundOracle__factory,
+  InvestmentFund__factory
+} from "../typechain-types";
+import { verifyAllowlistProof } from "./InvestmentFundAllowlist";
+import { PermitSignature, signPermit } from "./InvestmentFundPermit";
+import {
+  DecodedFundError,
+  allowlistMessage,
+  checkDepositAmount,
+  checkWithdrawAmount,
+  deadlineMessage,
+  decodeFundError,
+  emergencyExitMessage,
+  explainFundError,
+  fundTokenMessage,
+  pausedMessage,
+  sharesTransferAllowlistMessage,
+  sharesTransferAmountMessage,
+  softCapMessage,
+  strategyMessage
+} from "./InvestmentFundErrorDecoder";
+import {
+  AmountError,
+  DeadlineError,
+  EmergencyExitError,
+  FundNotPausedError,
+  FundPausedError,
+  FundTokenError,
+  InvestmentStateError,
+  InvestorNotAllowedError,
+  StrategyError,
+  toInvestmentFundError
+} from "./InvestmentFundErrors";
+import { FundEvent, InvestmentParams, InvestmentStates, InvestorsPage, NATIVE_TOKEN, TransactionResult } from "./InvestmentFundTypes";
+
+/**
+ * Client wrapping an InvestmentFund contract.
+ * Transactions are checked against the current state and parameters of the fund before being sent,
+ * custom errors are decoded into InvestmentFundError exceptions and emitted events are parsed.
+ */
+export class InvestmentFundClient {
+  /**
+   * Construct from a typed contract instance
+   * @param contract InvestmentFund contract
+   */
+  constructor(readonly contract: InvestmentFund) {}
+
+  /**
+   * Construct from the fund address
+   * @param fundAddress      Fund address
+   * @param signerOrProvider Signer for sending transactions or provider for read-only access
+   */
+  static connect(
+    fundAddress: string,
+    signerOrProvider: Signer | providers.Provider
+  ) : InvestmentFundClient {
+    return new InvestmentFundClient(InvestmentFund__factory.connect(fundAddress, signerOrProvider));
+  }
+
+  /**
+   * Get a new client using the specified signer
+   * @param signer Signer
+   */
+  connect(
+    signer: Signer
+  ) : InvestmentFundClient {
+    return new InvestmentFundClient(this.contract.connect(signer));
+  }
+
+  /**
+   * Fund address
+   */
+  get address() : string {
+    return this.contract.address;
+  }
+
+  //
+  // Views
+  //
+
+  async currState() : Promise<InvestmentStates> {
+    return this.contract.currState();
+  }
+
+  async investmentParams() : Promise<InvestmentParams> {
+    return {
+      depositMultipleOf: await this.contract.depositMultipleOf(),
+      minInvestorDeposit: await this.contract.minInvestorDeposit(),
+      maxInvestorDeposit: await this.contract.maxInvestorDeposit(),
+      fundHardCap: await this.contract.fundHardCap(),
+      fundSoftCap: await this.contract.fundSoftCap(),
+    };
+  }
+
+  async fundToken() : Promise<IERC20> {
+    return IERC20__factory.connect(await this.contract.fundToken(), this.contract.signer ?? this.contract.provider);
+  }
+
+  async isNative() : Promise<boolean> {
+    return this.contract.isNative();
+  }
+
+  async rebasingToken() : Promise<boolean> {
+    return this.contract.rebasingToken();
+  }
+
+  async isMultiToken() : Promise<boolean> {
+    return this.contract.isMultiToken();
+  }
+
+  async fundTokens() : Promise<string[]> {
+    return this.contract.fundTokens();
+  }
+
+  async tokenFunds(
+    token: string
+  ) : Promise<BigNumber> {
+    return this.contract.tokenFunds(token);
+  }
+
+  async tokenOracle() : Promise<InvestmentFundOracle> {
+    return InvestmentFundOracle__factory.connect(await this.contract.tokenOracle(), this.contract.signer ?? this.contract.provider);
+  }
+
+  async payoutToken() : Promise<string> {
+    return this.contract.payoutToken();
+  }
+
+  async isStrategyMode() : Promise<boolean> {
+    return this.contract.isStrategyMode();
+  }
+
+  async strategies() : Promise<string[]> {
+    return this.contract.strategies();
+  }
+
+  async strategiesValue() : Promise<BigNumber> {
+    let total_value: BigNumber = BigNumber.from(0);
+    for (const strategy of await this.contract.strategies()) {
+      total_value = total_value.add(await IFundStrategy__factory.connect(strategy, this.contract.provider).totalValue());
+    }
+    return total_value;
+  }
+
+  async trustedForwarder() : Promise<string> {
+    return this.contract.trustedForwarder();
+  }
+
+  async numberOfInvestors() : Promise<BigNumber> {
+    return this.contract.numberOfInvestors();
+  }
+
+  async allInvestors() : Promise<string[]> {
+    return this.contract.allInvestors();
+  }
+
+  async investorsPage(
+    offset: BigNumberish,
+    limit: BigNumberish
+  ) : Promise<InvestorsPage> {
+    const page = await this.contract.investorsPage(offset, limit);
+    return {
+      investors: page.investors,
+      deposits: page.deposits,
+    };
+  }
+
+  async depositOfInvestor(
+    investor: string
+  ) : Promise<BigNumber> {
+    return this.contract.depositOfInvestor(investor);
+  }
+
+  async sharesOf(
+    investor: string
+  ) : Promise<BigNumber> {
+    return this.contract.balanceOf(investor);
+  }
+
+  async totalShares() : Promise<BigNumber> {
+    return this.contract.totalSupply();
+  }
+
+  async totalDepositedFunds() : Promise<BigNumber> {
+    return this.contract.totalDepositedFunds();
+  }
+
+  async excessFunds() : Promise<BigNumber> {
+    return this.contract.excessFunds();
+  }
+
+  async currRound() : Promise<BigNumber> {
+    return this.contract.currRound();
+  }
+
+  async roundInfo(
+    roundId: BigNumberish
+  ) : Promise<InvestmentFund.InvestmentRoundStructOutput> {
+    return this.contract.roundInfo(roundId);
+  }
+
+  async depositDuration() : Promise<BigNumber> {
+    return this.contract.depositDuration();
+  }
+
+  async maxInvestmentDuration() : Promise<BigNumber> {
+    return this.contract.maxInvestmentDuration();
+  }
+
+  async minWithdrawDuration() : Promise<BigNumber> {
+    return this.contract.minWithdrawDuration();
+  }
+
+  async stateDeadline() : Promise<BigNumber> {
+    return this.contract.stateDeadline();
+  }
+
+  async emergencyTimeout() : Promise<BigNumber> {
+    return this.contract.emergencyTimeout();
+  }
+
+  async emergencyDeadline() : Promise<BigNumber> {
+    return this.contract.emergencyDeadline();
+  }
+
+  async emergencyExitVotes() : Promise<BigNumber> {
+    return this.contract.emergencyExitVotes();
+  }
+
+  async hasVotedEmergencyExit(
+    investor: string
+  ) : Promise<boolean> {
+    return this.contract.hasVotedEmergencyExit(investor);
+  }
+
+  async allowlistEnabled() : Promise<boolean> {
+    return this.contract.allowlistEnabled();
+  }
+
+  async allowlistMerkleRoot() : Promise<string> {
+    return this.contract.allowlistMerkleRoot();
+  }
+
+  async isInvestorAllowed(
+    investor: string
+  ) : Promise<boolean> {
+    return this.contract.isInvestorAllowed(investor);
+  }
+
+  async guardian() : Promise<string> {
+    return this.contract.guardian();
+  }
+
+  async paused() : Promise<boolean> {
+    return this.contract.paused();
+  }
+
+  //
+  // Investor functions
+  //
+
+  /**
+   * Deposit the specified amount as investor, approving the fund token if needed (or sending it for native funds)
+   * @param amount Amount to deposit
+   * @param proof  Merkle proof of the investor, only needed the first time if the allowlist Merkle root is used
+   */
+  async deposit(
+    amount: BigNumberish,
+    proof?: string[]
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT);
+    await this.__checkNotPaused(proof !== undefined ? "investorDepositWithProof" : "investorDeposit");
+    await this.__checkDeadline(proof !== undefined ? "investorDepositWithProof" : "investorDeposit", false);
+    await this.__checkInvestorAllowed(proof);
+    await this.__checkDepositAmount(amount_bn);
+    const overrides: PayableOverrides = await this.__prepareFunds(amount_bn);
+
+    if (proof !== undefined) {
+      return this.__send("investorDepositWithProof", () => this.contract.investorDepositWithProof(amount_bn, proof, overrides));
+    }
+    return this.__send("investorDeposit", () => this.contract.investorDeposit(amount_bn, overrides));
+  }
+
+  /**
+   * Deposit the specified amount as investor in a single transaction, approving the fund token with an EIP-2612 permit
+   * @param amount   Amount to deposit
+   * @param deadline Timestamp after which the permit is not valid anymore
+   * @param version  Version of the fund token EIP-712 domain
+   */
+  async depositWithPermit(
+    amount: BigNumberish,
+    deadline: BigNumberish,
+    version: string = "1"
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT);
+    await this.__checkNotPaused("investorDepositWithPermit");
+    await this.__checkDeadline("investorDepositWithPermit", false);
+    await this.__checkInvestorAllowed();
+    await this.__checkDepositAmount(amount_bn);
+    if (await this.contract.isNative() || await this.contract.isMultiToken()) {
+      throw new FundTokenError(fundTokenMessage("investorDepositWithPermit"));
+    }
+
+    const permit: PermitSignature = await signPermit(
+      this.contract.signer,
+      await this.contract.fundToken(),
+      this.address,
+      amount_bn,
+      deadline,
+      version
+    );
+    return this.__send(
+      "investorDepositWithPermit",
+      () => this.contract.investorDepositWithPermit(amount_bn, permit.deadline, permit.v, permit.r, permit.s)
+    );
+  }
+
+  /**
+   * Deposit the specified amount of one of the accepted tokens of a multi-token fund as investor, approving it if needed
+   * The deposit is credited with its value returned by the token oracle.
+   * @param token  Token address
+   * @param amount Amount of tokens to deposit
+   */
+  async depositToken(
+    token: string,
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT);
+    await this.__checkNotPaused("investorDepositToken");
+    await this.__checkDeadline("investorDepositToken", false);
+    await this.__checkInvestorAllowed();
+    await this.__checkFundToken("investorDepositToken", token);
+    // Limits apply to the value, while the deposit multiplicity is not checked
+    await this.__checkDepositAmount(await (await this.tokenOracle()).tokenValue(token, amount_bn), false);
+    await this.__approveToken(token, amount_bn);
+
+    return this.__send("investorDepositToken", () => this.contract.investorDepositToken(token, amount_bn));
+  }
+
+  /**
+   * Withdraw all funds as investor (also if the fund is paused, before the investment)
+   */
+  async withdrawAll() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT, InvestmentStates.AFTER_INVESTMENT);
+    if (await this.currState() !== InvestmentStates.BEFORE_INVESTMENT) {
+      await this.__checkNotPaused("investorWithdrawAll");
+    }
+
+    const deposit: BigNumber = await this.contract.depositOfInvestor(await this.contract.signer.getAddress());
+    if (deposit.isZero()) {
+      throw new AmountError(deposit, "investor has no funds deposited");
+    }
+
+    return this.__send("investorWithdrawAll", () => this.contract.investorWithdrawAll());
+  }
+
+  /**
+   * Withdraw part of the funds as investor (also if the fund is paused, before the investment)
+   * @param amount Amount to remove from the investor deposit (scaled by the investment multiplier after the investment)
+   */
+  async withdraw(
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT, InvestmentStates.AFTER_INVESTMENT);
+    if (await this.currState() !== InvestmentStates.BEFORE_INVESTMENT) {
+      await this.__checkNotPaused("investorWithdraw");
+    }
+
+    const err_msg: string | undefined = checkWithdrawAmount(
+      amount_bn,
+      await this.contract.depositOfInvestor(await this.contract.signer.getAddress()),
+      await this.currState(),
+      await this.investmentParams()
+    );
+    if (err_msg !== undefined) {
+      throw new AmountError(amount_bn, err_msg);
+    }
+
+    return this.__send("investorWithdraw", () => this.contract.investorWithdraw(amount_bn));
+  }
+
+  /**
+   * Transfer shares to another investor, during or after the investment
+   * @param to     Receiver address
+   * @param amount Amount of shares
+   */
+  async transferShares(
+    to: string,
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT, InvestmentStates.AFTER_INVESTMENT);
+    await this.__checkNotPaused("transfer");
+
+    const shares: BigNumber = await this.contract.balanceOf(await this.contract.signer.getAddress());
+    if (amount_bn.gt(shares)) {
+      throw new AmountError(amount_bn, sharesTransferAmountMessage(amount_bn, shares));
+    }
+    if (!(await this.contract.isInvestorAllowed(to))) {
+      throw new InvestorNotAllowedError(to, sharesTransferAllowlistMessage(to));
+    }
+
+    return this.__send("transfer", () => this.contract.transfer(to, amount_bn));
+  }
+
+  /**
+   * Vote for the emergency exit as investor, which is triggered when investors holding the majority of deposits have voted
+   */
+  async voteEmergencyExit() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+
+    const investor: string = await this.contract.signer.getAddress();
+    const deposit: BigNumber = await this.contract.depositOfInvestor(investor);
+    if (deposit.isZero()) {
+      throw new AmountError(deposit, "investor has no funds deposited");
+    }
+    if (await this.contract.hasVotedEmergencyExit(investor)) {
+      throw new EmergencyExitError(`investor ${investor} already voted for the emergency exit`);
+    }
+
+    return this.__send("voteEmergencyExit", () => this.contract.voteEmergencyExit());
+  }
+
+  /**
+   * Trigger the emergency exit after the emergency timeout, by any account
+   */
+  async emergencyExit() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+
+    const emergency_deadline: BigNumber = await this.contract.emergencyDeadline();
+    if (emergency_deadline.isZero() || emergency_deadline.gt(await this.__latestTimestamp())) {
+      throw new EmergencyExitError(emergencyExitMessage(emergency_deadline));
+    }
+
+    return this.__send("emergencyExit", () => this.contract.emergencyExit());
+  }
+
+  /**
+   * Divest the funds left in the strategies after the investment, by any account
+   */
+  async divestAllAfterInvestment() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.AFTER_INVESTMENT);
+    return this.__send("divestAllAfterInvestment", () => this.contract.divestAllAfterInvestment());
+  }
+
+  //
+  // Fund manager functions
+  //
+
+  async setPendingFundManager(
+    newFundManager: string
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setPendingFundManager", () => this.contract.setPendingFundManager(newFundManager));
+  }
+
+  async acceptFundManager() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("acceptFundManager", () => this.contract.acceptFundManager());
+  }
+
+  async setRemainingFundsAddress(
+    remainingFundsAddr: string
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setRemainingFundsAddress", () => this.contract.setRemainingFundsAddress(remainingFundsAddr));
+  }
+
+  async setFundToken(
+    fundToken: string,
+    rebasing: boolean = false
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    if (rebasing && fundToken.toLowerCase() === NATIVE_TOKEN.toLowerCase()) {
+      throw new FundTokenError(fundTokenMessage("setFundToken"));
+    }
+    return this.__send("setFundToken", () => this.contract.setFundToken(fundToken, rebasing));
+  }
+
+  async setFundTokens(
+    tokens: string[],
+    oracle: string
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    if (tokens.length !== 0 && await this.contract.isStrategyMode()) {
+      throw new FundTokenError(fundTokenMessage("setFundTokens"));
+    }
+    return this.__send("setFundTokens", () => this.contract.setFundTokens(tokens, oracle));
+  }
+
+  async setStrategies(
+    strategies: string[]
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    if (strategies.length !== 0 && await this.contract.isMultiToken()) {
+      throw new FundTokenError(fundTokenMessage("setStrategies"));
+    }
+    return this.__send("setStrategies", () => this.contract.setStrategies(strategies));
+  }
+
+  async setPayoutToken(
+    token: string
+  ) : Promise<TransactionResult> {
+    if (token !== constants.AddressZero) {
+      await this.__checkState(InvestmentStates.INITIAL, InvestmentStates.BEFORE_INVESTMENT, InvestmentStates.DURING_INVESTMENT);
+      await this.__checkFundToken("setPayoutToken", token);
+    }
+    return this.__send("setPayoutToken", () => this.contract.setPayoutToken(token));
+  }
+
+  async setDepositMultipleOf(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setDepositMultipleOf", () => this.contract.setDepositMultipleOf(value));
+  }
+
+  async setMinInvestorDeposit(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setMinInvestorDeposit", () => this.contract.setMinInvestorDeposit(value));
+  }
+
+  async setMaxInvestorDeposit(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setMaxInvestorDeposit", () => this.contract.setMaxInvestorDeposit(value));
+  }
+
+  async setFeeRecipient(
+    feeRecipient: string
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setFeeRecipient", () => this.contract.setFeeRecipient(feeRecipient));
+  }
+
+  async setManagementFee(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setManagementFee", () => this.contract.setManagementFee(value));
+  }
+
+  async setPerformanceFee(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setPerformanceFee", () => this.contract.setPerformanceFee(value));
+  }
+
+  async setFundHardCap(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setFundHardCap", () => this.contract.setFundHardCap(value));
+  }
+
+  async setFundSoftCap(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setFundSoftCap", () => this.contract.setFundSoftCap(value));
+  }
+
+  async setDepositDuration(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setDepositDuration", () => this.contract.setDepositDuration(value));
+  }
+
+  async setMaxInvestmentDuration(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setMaxInvestmentDuration", () => this.contract.setMaxInvestmentDuration(value));
+  }
+
+  async setMinWithdrawDuration(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setMinWithdrawDuration", () => this.contract.setMinWithdrawDuration(value));
+  }
+
+  async setEmergencyTimeout(
+    value: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setEmergencyTimeout", () => this.contract.setEmergencyTimeout(value));
+  }
+
+  async setAllowlistEnabled(
+    enabled: boolean
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("setAllowlistEnabled", () => this.contract.setAllowlistEnabled(enabled));
+  }
+
+  /**
+   * Set the allowlist Merkle root, in any state
+   * @param root Merkle root (zero for not using it)
+   */
+  async setAllowlistMerkleRoot(
+    root: string
+  ) : Promise<TransactionResult> {
+    return this.__send("setAllowlistMerkleRoot", () => this.contract.setAllowlistMerkleRoot(root));
+  }
+
+  /**
+   * Add an investor to or remove it from the allowlist, in any state
+   * @param investor Investor address
+   * @param allowed  True for adding, false for removing
+   */
+  async setInvestorAllowed(
+    investor: string,
+    allowed: boolean
+  ) : Promise<TransactionResult> {
+    return this.__send("setInvestorAllowed", () => this.contract.setInvestorAllowed(investor, allowed));
+  }
+
+  /**
+   * Add multiple investors to or remove them from the allowlist, in any state
+   * @param investors Investors addresses
+   * @param allowed   True for adding, false for removing
+   */
+  async setInvestorsAllowed(
+    investors: string[],
+    allowed: boolean
+  ) : Promise<TransactionResult> {
+    return this.__send("setInvestorsAllowed", () => this.contract.setInvestorsAllowed(investors, allowed));
+  }
+
+  async startInvestorsDeposit() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.INITIAL);
+    return this.__send("startInvestorsDeposit", () => this.contract.startInvestorsDeposit());
+  }
+
+  async cancelInvestorsDeposit() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT);
+    return this.__send("cancelInvestorsDeposit", () => this.contract.cancelInvestorsDeposit());
+  }
+
+  /**
+   * Stop investors deposit, checking that the soft cap is reached
+   */
+  async stopInvestorsDeposit() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.BEFORE_INVESTMENT);
+
+    const total_deposited_funds: BigNumber = await this.contract.totalDepositedFunds();
+    const fund_soft_cap: BigNumber = await this.contract.fundSoftCap();
+    if (total_deposited_funds.lt(fund_soft_cap)) {
+      throw new AmountError(total_deposited_funds, softCapMessage(total_deposited_funds, fund_soft_cap));
+    }
+
+    return this.__send("stopInvestorsDeposit", () => this.contract.stopInvestorsDeposit());
+  }
+
+  /**
+   * Deposit the specified amount as fund manager, approving the fund token if needed (or sending it for native funds)
+   * @param amount Amount to deposit
+   */
+  async fundManagerDeposit(
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("fundManagerDeposit");
+    if (amount_bn.isZero()) {
+      throw new AmountError(amount_bn, "amount shall not be zero");
+    }
+    const overrides: PayableOverrides = await this.__prepareFunds(amount_bn);
+
+    return this.__send("fundManagerDeposit", () => this.contract.fundManagerDeposit(amount_bn, overrides));
+  }
+
+  async fundManagerWithdraw(
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("fundManagerWithdraw");
+    await this.__checkNotStrategyMode("fundManagerWithdraw");
+    if (amount_bn.isZero()) {
+      throw new AmountError(amount_bn, "amount shall not be zero");
+    }
+    const total_deposited_funds: BigNumber = await this.contract.totalDepositedFunds();
+    if (amount_bn.gt(total_deposited_funds)) {
+      throw new AmountError(amount_bn, `amount ${amount_bn.toString()} is higher than the deposited funds ${total_deposited_funds.toString()}`);
+    }
+
+    return this.__send("fundManagerWithdraw", () => this.contract.fundManagerWithdraw(amount_bn));
+  }
+
+  async fundManagerWithdrawAll() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("fundManagerWithdrawAll");
+    await this.__checkNotStrategyMode("fundManagerWithdrawAll");
+    return this.__send("fundManagerWithdrawAll", () => this.contract.fundManagerWithdrawAll());
+  }
+
+  /**
+   * Deposit the specified amount of one of the accepted tokens of a multi-token fund as fund manager, approving it if needed
+   * @param token  Token address
+   * @param amount Amount of tokens to deposit
+   */
+  async fundManagerDepositToken(
+    token: string,
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("fundManagerDepositToken");
+    await this.__checkFundToken("fundManagerDepositToken", token);
+    if (amount_bn.isZero()) {
+      throw new AmountError(amount_bn, "amount shall not be zero");
+    }
+    await this.__approveToken(token, amount_bn);
+
+    return this.__send("fundManagerDepositToken", () => this.contract.fundManagerDepositToken(token, amount_bn));
+  }
+
+  async fundManagerWithdrawToken(
+    token: string,
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("fundManagerWithdrawToken");
+    if (amount_bn.isZero()) {
+      throw new AmountError(amount_bn, "amount shall not be zero");
+    }
+    const token_funds: BigNumber = await this.contract.tokenFunds(token);
+    if (amount_bn.gt(token_funds)) {
+      throw new AmountError(amount_bn, `amount ${amount_bn.toString()} is higher than the token funds ${token_funds.toString()}`);
+    }
+
+    return this.__send("fundManagerWithdrawToken", () => this.contract.fundManagerWithdrawToken(token, amount_bn));
+  }
+
+  async fundManagerInvest(
+    strategy: string,
+    amount: BigNumberish
+  ) : Promise<TransactionResult> {
+    const amount_bn: BigNumber = BigNumber.from(amount);
+
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("fundManagerInvest");
+    const strategies: string[] = await this.contract.strategies();
+    if (!strategies.some((registered) => registered.toLowerCase() === strategy.toLowerCase())) {
+      throw new StrategyError(strategyMessage("fundManagerInvest"));
+    }
+    if (amount_bn.isZero()) {
+      throw new AmountError(amount_bn, "amount shall not be zero");
+    }
+    const total_deposited_funds: BigNumber = await this.contract.totalDepositedFunds();
+    if (amount_bn.gt(total_deposited_funds)) {
+      throw new AmountError(amount_bn, `amount ${amount_bn.toString()} is higher than the deposited funds ${total_deposited_funds.toString()}`);
+    }
+
+    return this.__send("fundManagerInvest", () => this.contract.fundManagerInvest(strategy, amount_bn));
+  }
+
+  async fundManagerDivestAll() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    return this.__send("fundManagerDivestAll", () => this.contract.fundManagerDivestAll());
+  }
+
+  async startInvestorsWithdraw() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.DURING_INVESTMENT);
+    await this.__checkNotPaused("startInvestorsWithdraw");
+    return this.__send("startInvestorsWithdraw", () => this.contract.startInvestorsWithdraw());
+  }
+
+  async fundManagerReturnFundsToInvestor(
+    investor: string
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.AFTER_INVESTMENT);
+    await this.__checkNotPaused("fundManagerReturnFundsToInvestor");
+    return this.__send("fundManagerReturnFundsToInvestor", () => this.contract.fundManagerReturnFundsToInvestor(investor));
+  }
+
+  async fundManagerReturnFundsToAllInvestors() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.AFTER_INVESTMENT);
+    await this.__checkNotPaused("fundManagerReturnFundsToAllInvestors");
+    return this.__send("fundManagerReturnFundsToAllInvestors", () => this.contract.fundManagerReturnFundsToAllInvestors());
+  }
+
+  async fundManagerReturnFundsToInvestorsBatch(
+    start: BigNumberish,
+    count: BigNumberish
+  ) : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.AFTER_INVESTMENT);
+    await this.__checkNotPaused("fundManagerReturnFundsToInvestorsBatch");
+    return this.__send(
+      "fundManagerReturnFundsToInvestorsBatch",
+      () => this.contract.fundManagerReturnFundsToInvestorsBatch(start, count)
+    );
+  }
+
+  /**
+   * Stop investors withdraw, checking that the minimum withdraw duration is passed
+   */
+  async stopInvestorsWithdraw() : Promise<TransactionResult> {
+    await this.__checkState(InvestmentStates.AFTER_INVESTMENT);
+    await this.__checkNotPaused("stopInvestorsWithdraw");
+    await this.__checkDeadline("stopInvestorsWithdraw", true);
+    return this.__send("stopInvestorsWithdraw", () => this.contract.stopInvestorsWithdraw());
+  }
+
+  /**
+   * Send the excess funds (i.e. tokens sent directly to the fund) to the remaining funds address, in any state
+   */
+  async sweepExcess() : Promise<TransactionResult> {
+    await this.__checkNotPaused("sweepExcess");
+    if (await this.contract.rebasingToken() || await this.contract.isMultiToken()) {
+      throw new FundTokenError(fundTokenMessage("sweepExcess"));
+    }
+
+    const excess_funds: BigNumber = await this.contract.excessFunds();
+    if (excess_funds.isZero()) {
+      throw new AmountError(excess_funds, "there are no excess funds to sweep");
+    }
+
+    return this.__send("sweepExcess", () => this.contract.sweepExcess());
+  }
+
+  //
+  // Guardian functions
+  //
+
+  /**
+   * Pause deposits, withdrawals and fund manager funds movements, in any state
+   */
+  async pause() : Promise<TransactionResult> {
+    await this.__checkNotPaused("pause");
+    return this.__send("pause", () => this.contract.pause());
+  }
+
+  /**
+   * Unpause the fund, in any state
+   */
+  async unpause() : Promise<TransactionResult> {
+    if (!(await this.contract.paused())) {
+      throw new FundNotPausedError();
+    }
+    return this.__send("unpause", () => this.contract.unpause());
+  }
+
+  /**
+   * Transfer the guardian role to a new address, in any state
+   * @param newGuardian New guardian address
+   */
+  async setGuardian(
+    newGuardian: string
+  ) : Promise<TransactionResult> {
+    return this.__send("setGuardian", () => this.contract.setGuardian(newGuardian));
+  }
+
+  //
+  // Private functions
+  //
+
+  private async __checkState(
+    ...allowedStates: InvestmentStates[]
+  ) : Promise<void> {
+    const curr_state: InvestmentStates = await this.currState();
+    if (allowedStates.indexOf(curr_state) === -1) {
+      throw new InvestmentStateError(curr_state);
+    }
+  }
+
+  private async __checkNotPaused(
+    functionName: string
+  ) : Promise<void> {
+    if (await this.contract.paused()) {
+      throw new FundPausedError(pausedMessage(functionName));
+    }
+  }
+
+  private async __checkDeadline(
+    functionName: string,
+    shallBePassed: boolean
+  ) : Promise<void> {
+    const state_deadline: BigNumber = await this.contract.stateDeadline();
+    if (state_deadline.isZero()) {
+      return;
+    }
+
+    if (state_deadline.lte(await this.__latestTimestamp()) !== shallBePassed) {
+      throw new DeadlineError(state_deadline, deadlineMessage(functionName, state_deadline));
+    }
+  }
+
+  private async __latestTimestamp() : Promise<number> {
+    // The transaction is mined in a later block, so checks based on it are only indicative
+    return (await this.contract.provider.getBlock("latest")).timestamp;
+  }
+
+  private async __checkInvestorAllowed(
+    proof?: string[]
+  ) : Promise<void> {
+    const investor: string = await this.contract.signer.getAddress();
+    if (await this.contract.isInvestorAllowed(investor)) {
+      return;
+    }
+
+    if (proof === undefined || !verifyAllowlistProof(investor, proof, await this.contract.allowlistMerkleRoot())) {
+      throw new InvestorNotAllowedError(investor, allowlistMessage(investor, proof !== undefined));
+    }
+  }
+
+  private async __checkFundToken(
+    functionName: string,
+    token: string
+  ) : Promise<void> {
+    const fund_tokens: string[] = await this.contract.fundTokens();
+    if (!fund_tokens.some((fund_token) => fund_token.toLowerCase() === token.toLowerCase())) {
+      throw new FundTokenError(fundTokenMessage(functionName));
+    }
+  }
+
+  private async __checkNotStrategyMode(
+    functionName: string
+  ) : Promise<void> {
+    if (await this.contract.isStrategyMode()) {
+      throw new StrategyError(strategyMessage(functionName));
+    }
+  }
+
+  private async __checkDepositAmount(
+    amount: BigNumber,
+    checkMultipleOf: boolean = true
+  ) : Promise<void> {
+    const params: InvestmentParams = await this.investmentParams();
+    const err_msg: string | undefined = checkDepositAmount(
+      amount,
+      checkMultipleOf ? params : { ...params, depositMultipleOf: BigNumber.from(1) },
+      await this.contract.depositOfInvestor(await this.contract.signer.getAddress()),
+      await this.contract.totalDepositedFunds()
+    );
+    if (err_msg !== undefined) {
+      throw new AmountError(amount, err_msg);
+    }
+  }
+
+  private async __prepareFunds(
+    amount: BigNumber
+  ) : Promise<PayableOverrides> {
+    if (await this.contract.isNative()) {
+      return { value: amount };
+    }
+
+    await this.__approveToken(await this.contract.fundToken(), amount);
+    return {};
+  }
+
+  private async __approveToken(
+    token: string,
+    amount: BigNumber
+  ) : Promise<void> {
+    const erc20: IERC20 = IERC20__factory.connect(token, this.contract.signer);
+    const allowance: BigNumber = await erc20.allowance(await this.contract.signer.getAddress(), this.address);
+
+    if (allowance.lt(amount)) {
+      await (await erc20.approve(this.address, amount)).wait();
+    }
+  }
+
+  private async __send(
+    functionName: string,
+    txFunction: () => Promise<ContractTransaction>
+  ) : Promise<TransactionResult> {
+    let tx: ContractTransaction;
+    let receipt: ContractReceipt;
+    try {
+      tx = await txFunction();
+      receipt = await tx.wait();
+    }
+    catch (err) {
+      const decoded_err: DecodedFundError | undefined = decodeFundError(err);
+      if (decoded_err === undefined) {
+        throw err;
+      }
+      throw toInvestmentFundError(
+        await explainFundError(decoded_err, this.contract, {
+          functionName: functionName,
+          caller: await this.contract.signer.getAddress(),
+        })
+      );
+    }
+
+    const events: FundEvent[] = [];
+    for (const log of receipt.logs) {
+      if (log.address !== this.address) {
+        continue;
+      }
+
+      const log_desc = this.contract.interface.parseLog(log);
+      events.push({
+        name: log_desc.name,
+        args: log_desc.args,
+      });
+    }
+
+    return {
+      tx,
+      receipt,
+      events,
+    };
+  }
+}
@@ -0,0 +1,628 @@
+import { BigNumber, Contract, utils } from "ethers";
+// Project
+import InvestmentFundAbi from "../abi/contracts/InvestmentFund.sol/InvestmentFund.json";
+import { InvestmentParams, InvestmentStates } from "./InvestmentFundTypes";
+
+//
+// Interfaces
+//
+
+/**
+ * Custom error decoded from revert data
+ */
+export interface DecodedFundError {
+  name: string;
+  selector: string;
+  args: { [key: string]: BigNumber | string };
+  message: string;
+}
+
+/**
+ * Context of the call that reverted, used to explain the error
+ */
+export interface FundErrorContext {
+  functionName?: string;
+  caller?: string;
+}
+
+/**
+ * Fund functions needed for explaining errors (satisfied by typed contract instances)
+ */
+export interface FundErrorReader {
+  currState(): Promise<number>;
+  fundManager(): Promise<string>;
+  pendingFundManager(): Promise<string>;
+  guardian(): Promise<string>;
+  depositMultipleOf(): Promise<BigNumber>;
+  minInvestorDeposit(): Promise<BigNumber>;
+  maxInvestorDeposit(): Promise<BigNumber>;
+  fundHardCap(): Promise<BigNumber>;
+  fundSoftCap(): Promise<BigNumber>;
+  totalDepositedFunds(): Promise<BigNumber>;
+  depositOfInvestor(investor: string): Promise<BigNumber>;
+  stateDeadline(): Promise<BigNumber>;
+  emergencyDeadline(): Promise<BigNumber>;
+}
+
+//
+// Constants
+//
+
+// Fund interface built from the exported ABI
+const FUND_INTERFACE: utils.Interface = new utils.Interface(InvestmentFundAbi);
+// Basis points denominator of the fees
+const BPS_DENOMINATOR: number = 10000;
+// Maximum duration of a state in seconds
+const MAX_DURATION: number = 3650 * 24 * 60 * 60;
+// Setters of durations
+const DURATION_SETTERS: string[] = [
+  "setDepositDuration",
+  "setMaxInvestmentDuration",
+  "setMinWithdrawDuration",
+  "setEmergencyTimeout",
+];
+// Functions that can be called by anyone after the deadline of the current state
+const DEADLINE_FUNCTIONS: string[] = [
+  "stopInvestorsDeposit",
+  "startInvestorsWithdraw",
+  "stopInvestorsWithdraw",
+];
+
+//
+// Exported functions
+//
+
+/**
+ * Find the revert data in an error thrown by ethers, which can be nested depending on the provider
+ * @param err Error thrown by ethers
+ * @return Revert data, undefined if not found
+ */
+export function extractRevertData(
+  err: unknown
+) : string | undefined {
+  let curr_err: unknown = err;
+
+  for (let i = 0; (i < 5) && (typeof curr_err === "object") && (curr_err !== null); i++) {
+    if ("data" in curr_err) {
+      const data: unknown = curr_err.data;
+      if (isRevertData(data)) {
+        return data;
+      }
+      if ((typeof data === "object") && (data !== null) && ("data" in data) && isRevertData(data.data)) {
+        return data.data;
+      }
+    }
+    curr_err = ("error" in curr_err) ? curr_err.error : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Decode a custom error of the fund from revert data
+ * @param revertData Revert data
+ * @return Decoded error, undefined if the data is not a custom error of the fund
+ */
+export function decodeFundErrorData(
+  revertData: string
+) : DecodedFundError | undefined {
+  let error_fragment: utils.ErrorFragment;
+  let error_args: utils.Result;
+  try {
+    error_fragment = FUND_INTERFACE.getError(utils.hexDataSlice(revertData, 0, 4));
+    error_args = FUND_INTERFACE.decodeErrorResult(error_fragment, revertData);
+  }
+  catch {
+    return undefined;
+  }
+
+  const args: { [key: string]: BigNumber | string } = {};
+  error_fragment.inputs.forEach((input, i) => args[input.name] = error_args[i]);
+
+  return {
+    name: error_fragment.name,
+    selector: FUND_INTERFACE.getSighash(error_fragment),
+    args: args,
+    message: fundErrorMessage(error_fragment.name, args),
+  };
+}
+
+/**
+ * Decode a custom error of the fund from an error thrown by ethers
+ * @param err Error thrown by ethers
+ * @return Decoded error, undefined if the error is not a custom error of the fund
+ */
+export function decodeFundError(
+  err: unknown
+) : DecodedFundError | undefined {
+  const revert_data: string | undefined = extractRevertData(err);
+  return revert_data !== undefined ? decodeFundErrorData(revert_data) : undefined;
+}
+
+/**
+ * Explain a decoded error by cross-checking it against the current fund state and parameters
+ * @param decodedError Decoded error
+ * @param fund         Fund contract
+ * @param context      Context of the call that reverted
+ * @return Decoded error with the explained message
+ */
+export async function explainFundError(
+  decodedError: DecodedFundError,
+  fund: FundErrorReader | Contract,
+  context: FundErrorContext = {}
+) : Promise<DecodedFundError> {
+  let message: string | undefined;
+
+  switch (decodedError.name) {
+    case "AmountError": {
+      const amount: BigNumber = BigNumber.from(decodedError.args.amount);
+      if (context.functionName === "investorDeposit") {
+        message = checkDepositAmount(
+          amount,
+          await readInvestmentParams(fund),
+          context.caller !== undefined ? await fund.depositOfInvestor(context.caller) : BigNumber.from(0),
+          await fund.totalDepositedFunds()
+        );
+      }
+      else if (context.functionName === "stopInvestorsDeposit") {
+        message = softCapMessage(amount, await fund.fundSoftCap());
+      }
+      else if (context.functionName === "investorWithdraw" && context.caller !== undefined) {
+        message = checkWithdrawAmount(
+          amount,
+          await fund.depositOfInvestor(context.caller),
+          await fund.currState(),
+          await readInvestmentParams(fund)
+        );
+      }
+      else if (context.functionName === "sweepExcess") {
+        message = "there are no excess funds to sweep";
+      }
+      else if (amount.isZero() && context.functionName !== undefined) {
+        message = isInvestorWithdrawFunction(context.functionName) ? "investor has no funds deposited" : "amount shall not be zero";
+      }
+      else if (context.functionName === "fundManagerWithdraw") {
+        message = `amount ${amount.toString()} is higher than the deposited funds ${(await fund.totalDepositedFunds()).toString()}`;
+      }
+      break;
+    }
+    case "ValueError": {
+      const value: BigNumber = BigNumber.from(decodedError.args.value);
+      if (context.functionName !== undefined) {
+        message = checkInvestmentParam(context.functionName, value, await readInvestmentParams(fund));
+      }
+      break;
+    }
+    case "FundManagerCallerError": {
+      message = `caller${context.caller !== undefined ? " " + context.caller : ""} is not the fund manager ${await fund.fundManager()}`;
+      if (context.functionName !== undefined && DEADLINE_FUNCTIONS.indexOf(context.functionName) !== -1) {
+        const state_deadline: BigNumber = await fund.stateDeadline();
+        message += state_deadline.isZero()
+          ? " and no deadline is set"
+          : ` and the deadline ${state_deadline.toString()} is not reached yet`;
+      }
+      break;
+    }
+    case "FundTokenError":
+      if (context.functionName !== undefined) {
+        message = fundTokenMessage(context.functionName);
+      }
+      break;
+    case "StrategyError":
+      if (context.functionName !== undefined) {
+        message = strategyMessage(context.functionName);
+      }
+      break;
+    case "GuardianCallerError":
+      message = `caller${context.caller !== undefined ? " " + context.caller : ""} is not the guardian ${await fund.guardian()}`;
+      break;
+    case "FundPausedError":
+      if (context.functionName !== undefined) {
+        message = pausedMessage(context.functionName);
+      }
+      break;
+    case "EmergencyExitError":
+      if (context.functionName === "voteEmergencyExit") {
+        message = `investor${context.caller !== undefined ? " " + context.caller : ""} already voted for the emergency exit`;
+      }
+      else if (context.functionName === "emergencyExit") {
+        message = emergencyExitMessage(await fund.emergencyDeadline());
+      }
+      break;
+    case "DeadlineError":
+      if (context.functionName !== undefined) {
+        message = deadlineMessage(context.functionName, BigNumber.from(decodedError.args.deadline));
+      }
+      break;
+    case "FundManagerChangeError": {
+      const pending_fund_manager: string = await fund.pendingFundManager();
+      if (context.functionName === "acceptFundManager") {
+        message = `caller${context.caller !== undefined ? " " + context.caller : ""} is not the pending fund manager ${pending_fund_manager}`;
+      }
+      else if (context.functionName === "setPendingFundManager") {
+        message = "new fund manager shall not be the zero address or the current fund manager";
+      }
+      break;
+    }
+    case "InvestorNotAllowedError":
+      message = isSharesTransferFunction(context.functionName)
+        ? sharesTransferAllowlistMessage(decodedError.args.investor as string)
+        : allowlistMessage(decodedError.args.investor as string, context.functionName === "investorDepositWithProof");
+      break;
+    case "ERC20InsufficientBalance":
+      message = sharesTransferAmountMessage(BigNumber.from(decodedError.args.needed), BigNumber.from(decodedError.args.balance));
+      break;
+    case "InvestmentStateError": {
+      const curr_state: InvestmentStates = await fund.currState();
+      message = `${context.functionName ?? "function"} cannot be called in the ${InvestmentStates[curr_state]} state`;
+      break;
+    }
+  }
+
+  return {
+    ...decodedError,
+    message: message ?? decodedError.message,
+  };
+}
+
+/**
+ * Check an investor deposit against the investment parameters
+ * @param amount          Amount to deposit
+ * @param params          Investment parameters
+ * @param investorDeposit Current investor deposit
+ * @param totalDeposited  Current total deposited funds
+ * @return Message explaining why the deposit is not valid, undefined if valid
+ */
+export function checkDepositAmount(
+  amount: BigNumber,
+  params: InvestmentParams,
+  investorDeposit: BigNumber = BigNumber.from(0),
+  totalDeposited: BigNumber = BigNumber.from(0)
+) : string | undefined {
+  if (amount.isZero()) {
+    return "deposit shall not be zero";
+  }
+  if (amount.lt(params.minInvestorDeposit)) {
+    return `deposit ${amount.toString()} is lower than the minimum investor deposit ${params.minInvestorDeposit.toString()}`;
+  }
+  // Maximum investor deposit and hard cap are cumulative
+  if (amount.gt(params.maxInvestorDeposit.sub(investorDeposit))) {
+    return investorDeposit.isZero()
+      ? `deposit ${amount.toString()} is higher than the maximum investor deposit ${params.maxInvestorDeposit.toString()}`
+      : `investor deposit ${investorDeposit.add(amount).toString()} would be higher than the maximum investor deposit ${params.maxInvestorDeposit.toString()}`;
+  }
+  if (amount.gt(params.fundHardCap.sub(totalDeposited))) {
+    return `total deposited funds ${totalDeposited.add(amount).toString()} would be higher than the fund hard cap ${params.fundHardCap.toString()}`;
+  }
+  if (!amount.mod(params.depositMultipleOf).isZero()) {
+    return `deposit ${amount.toString()} is not a multiple of ${params.depositMultipleOf.toString()}`;
+  }
+  return undefined;
+}
+
+/**
+ * Get the message explaining why investors deposit cannot be stopped
+ * @param totalDeposited Current total deposited funds
+ * @param fundSoftCap    Fund soft cap
+ * @return Message
+ */
+export function softCapMessage(
+  totalDeposited: BigNumber,
+  fundSoftCap: BigNumber
+) : string {
+  return `total deposited funds ${totalDeposited.toString()} are lower than the fund soft cap ${fundSoftCap.toString()}, ` +
+    "investors deposit can only be cancelled";
+}
+
+/**
+ * Get the message explaining why a function cannot be called because of the deadline of the current state
+ * @param functionName Function name
+ * @param deadline     Deadline timestamp
+ * @return Message, undefined if the function is not affected by deadlines
+ */
+export function deadlineMessage(
+  functionName: string,
+  deadline: BigNumber
+) : string | undefined {
+  switch (functionName) {
+    case "investorDeposit":
+    case "investorDepositWithProof":
+    case "investorDepositWithPermit":
+      return `investors deposit closed at ${deadline.toString()}`;
+    case "stopInvestorsWithdraw":
+      return `investors withdraw cannot be stopped before ${deadline.toString()}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the message explaining why the emergency exit cannot be triggered by timeout
+ * @param emergencyDeadline Time after which the emergency exit can be triggered
+ * @return Message
+ */
+export function emergencyExitMessage(
+  emergencyDeadline: BigNumber
+) : string {
+  return emergencyDeadline.isZero()
+    ? "emergency timeout is not set, the emergency exit can only be voted by investors"
+    : `emergency exit cannot be triggered before ${emergencyDeadline.toString()}`;
+}
+
+/**
+ * Get the message explaining why a function cannot be called with the fund token
+ * @param functionName Function name
+ * @return Message
+ */
+export function fundTokenMessage(
+  functionName: string
+) : string {
+  switch (functionName) {
+    case "setFundToken":
+      return "the native currency cannot be rebasing";
+    case "setFundTokens":
+    case "setStrategies":
+      return "multi-token funds cannot be in strategy mode";
+    case "investorDepositWithPermit":
+      return "permits are not supported by the native currency and multi-token funds";
+    case "investorDeposit":
+    case "investorDepositWithProof":
+    case "fundManagerDeposit":
+      return "multi-token funds only accept deposits of their tokens";
+    case "investorDepositToken":
+    case "fundManagerDepositToken":
+    case "setPayoutToken":
+      return "token is not accepted by the fund";
+    case "sweepExcess":
+      return "excess funds cannot be swept for rebasing tokens, since rebases belong to investors, nor for multi-token funds";
+    default:
+      return fundErrorMessage("FundTokenError");
+  }
+}
+
+/**
+ * Get the message explaining why a function cannot be called with the strategies of the fund
+ * @param functionName Function name
+ * @return Message
+ */
+export function strategyMessage(
+  functionName: string
+) : string {
+  switch (functionName) {
+    case "fundManagerWithdraw":
+    case "fundManagerWithdrawAll":
+      return "in strategy mode, funds can only be invested in the strategies";
+    case "fundManagerInvest":
+      return "strategy is not registered";
+    case "fundManagerDivestAll":
+    case "startInvestorsWithdraw":
+    case "voteEmergencyExit":
+    case "emergencyExit":
+    case "divestAllAfterInvestment":
+      return "a strategy ran out of gas when divesting, the gas limit shall be higher";
+    default:
+      return fundErrorMessage("StrategyError");
+  }
+}
+
+/**
+ * Get the message explaining why a function cannot be called while the fund is paused
+ * @param functionName Function name
+ * @return Message
+ */
+export function pausedMessage(
+  functionName: string
+) : string {
+  if (functionName === "pause") {
+    return "fund is already paused";
+  }
+  return (functionName === "investorWithdrawAll") || (functionName === "investorWithdraw")
+    ? "fund is paused, investors can only withdraw their funds before the investment"
+    : `fund is paused, ${functionName} cannot be called until the guardian unpauses it`;
+}
+
+/**
+ * Get the message explaining why an investor is not allowed to deposit
+ * @param investor  Investor address
+ * @param withProof True if the deposit was done with a Merkle proof
+ * @return Message
+ */
+export function allowlistMessage(
+  investor: string,
+  withProof: boolean
+) : string {
+  return withProof
+    ? `investor ${investor} is not in the allowlist and the Merkle proof is not valid`
+    : `investor ${investor} is not in the allowlist, a Merkle proof is needed if the allowlist Merkle root is used`;
+}
+
+/**
+ * Get the message explaining why shares cannot be transferred to an investor
+ * @param investor Receiver address
+ * @return Message
+ */
+export function sharesTransferAllowlistMessage(
+  investor: string
+) : string {
+  return `shares cannot be transferred to ${investor}, that is not in the allowlist`;
+}
+
+/**
+ * Get the message explaining why an amount of shares cannot be transferred
+ * @param amount Amount of shares
+ * @param shares Current shares of the sender
+ * @return Message
+ */
+export function sharesTransferAmountMessage(
+  amount: BigNumber,
+  shares: BigNumber
+) : string {
+  return `amount ${amount.toString()} is higher than the investor shares ${shares.toString()}`;
+}
+
+/**
+ * Check a partial investor withdraw against the investor deposit and the investment parameters
+ * @param amount    Amount to remove from the deposit
+ * @param deposit   Current investor deposit
+ * @param currState Current investment state
+ * @param params    Investment parameters
+ * @return Message explaining why the withdraw is not valid, undefined if valid
+ */
+export function checkWithdrawAmount(
+  amount: BigNumber,
+  deposit: BigNumber,
+  currState: InvestmentStates,
+  params: InvestmentParams
+) : string | undefined {
+  if (deposit.isZero()) {
+    return "investor has no funds deposited";
+  }
+  if (amount.isZero()) {
+    return "amount shall not be zero";
+  }
+  if (amount.gt(deposit)) {
+    return `amount ${amount.toString()} is higher than the investor deposit ${deposit.toString()}`;
+  }
+
+  // Before the investment, the remaining deposit shall be valid as well
+  const remaining_amount: BigNumber = deposit.sub(amount);
+  if (currState === InvestmentStates.BEFORE_INVESTMENT && !remaining_amount.isZero()) {
+    if (remaining_amount.lt(params.minInvestorDeposit)) {
+      return `remaining deposit ${remaining_amount.toString()} is lower than the minimum investor deposit ${params.minInvestorDeposit.toString()}`;
+    }
+    if (!remaining_amount.mod(params.depositMultipleOf).isZero()) {
+      return `remaining deposit ${remaining_amount.toString()} is not a multiple of ${params.depositMultipleOf.toString()}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the generic message of a custom error of the fund
+ * @param name Error name
+ * @param args Error arguments
+ * @return Error message
+ */
+export function fundErrorMessage(
+  name: string,
+  args: { [key: string]: BigNumber | string } = {}
+) : string {
+  switch (name) {
+    case "AddressError":
+      return `address ${args.addr} is not valid`;
+    case "AmountError":
+      return `amount ${args.amount?.toString()} is not valid`;
+    case "DeadlineError":
+      return `deadline ${args.deadline?.toString()} is passed or not reached yet`;
+    case "EmergencyExitError":
+      return "emergency exit cannot be triggered or voted";
+    case "FundManagerCallerError":
+      return "caller is not the fund manager";
+    case "FundManagerChangeError":
+      return "fund manager cannot be changed";
+    case "FundNotPausedError":
+      return "fund is not paused";
+    case "FundPausedError":
+      return "fund is paused";
+    case "FundTokenError":
+      return "fund token is not valid";
+    case "GuardianCallerError":
+      return "caller is not the guardian";
+    case "InvestmentStateError":
+      return "function cannot be called in the current investment state";
+    case "InvestorNotAllowedError":
+      return `investor ${args.investor} is not allowed to deposit`;
+    case "NativeTransferError":
+      return `native currency transfer of ${args.amount?.toString()} to ${args.to} failed`;
+    case "NoInvestorError":
+      return "there are no investors in the fund";
+    case "PermitError":
+      return `permit of investor ${args.investor} is not valid and the allowance is lower than ${args.amount?.toString()}`;
+    case "StrategyError":
+      return "strategy is not registered, funds cannot be withdrawn in strategy mode or a strategy ran out of gas when divesting";
+    case "ValueError":
+      return `value ${args.value?.toString()} is not valid`;
+    case "ERC20InsufficientAllowance":
+      return `shares allowance ${args.allowance?.toString()} of ${args.spender} is lower than ${args.needed?.toString()}`;
+    case "ERC20InsufficientBalance":
+      return `shares ${args.balance?.toString()} of ${args.sender} are lower than ${args.needed?.toString()}`;
+    default:
+      return `${name} error`;
+  }
+}
+
+//
+// Not exported functions
+//
+
+function isRevertData(
+  data: unknown
+) : data is string {
+  // At least the 4-byte selector
+  return typeof data === "string" && utils.isHexString(data) && data.length >= 10;
+}
+
+function isInvestorWithdrawFunction(
+  functionName: string
+) : boolean {
+  return functionName === "investorWithdrawAll" || functionName === "fundManagerReturnFundsToInvestor";
+}
+
+function isSharesTransferFunction(
+  functionName?: string
+) : boolean {
+  return functionName === "transfer" || functionName === "transferFrom";
+}
+
+async function readInvestmentParams(
+  fund: FundErrorReader | Contract
+) : Promise<InvestmentParams> {
+  return {
+    depositMultipleOf: await fund.depositMultipleOf(),
+    minInvestorDeposit: await fund.minInvestorDeposit(),
+    maxInvestorDeposit: await fund.maxInvestorDeposit(),
+    fundHardCap: await fund.fundHardCap(),
+    fundSoftCap: await fund.fundSoftCap(),
+  };
+}
+
+function checkInvestmentParam(
+  functionName: string,
+  value: BigNumber,
+  params: InvestmentParams
+) : string | undefined {
+  // Fees, durations and soft cap can be zero, so they can only be too high
+  if (functionName === "setManagementFee" || functionName === "setPerformanceFee") {
+    return `fee ${value.toString()} bps shall not be higher than ${BPS_DENOMINATOR} bps`;
+  }
+  if (DURATION_SETTERS.indexOf(functionName) !== -1) {
+    return `duration ${value.toString()} seconds shall not be higher than ${MAX_DURATION} seconds`;
+  }
+  if (functionName === "setFundSoftCap") {
+    return `fund soft cap ${value.toString()} shall not be higher than the fund hard cap ${params.fundHardCap.toString()}`;
+  }
+  if (value.isZero()) {
+    return "value shall not be zero";
+  }
+
+  switch (functionName) {
+    case "setMinInvestorDeposit":
+      if (value.gte(params.maxInvestorDeposit)) {
+        return `minimum investor deposit ${value.toString()} shall be lower than the maximum investor deposit ${params.maxInvestorDeposit.toString()}`;
+      }
+      break;
+    case "setMaxInvestorDeposit":
+      if (value.lte(params.minInvestorDeposit)) {
+        return `maximum investor deposit ${value.toString()} shall be higher than the minimum investor deposit ${params.minInvestorDeposit.toString()}`;
+      }
+      break;
+    case "setFundHardCap":
+      return `fund hard cap ${value.toString()} shall not be lower than the fund soft cap ${params.fundSoftCap.toString()}`;
+    default:
+      return undefined;
+  }
+
+  if (!value.mod(params.depositMultipleOf).isZero()) {
+    return `value ${value.toString()} is not a multiple of ${params.depositMultipleOf.toString()}`;
+  }
+  return undefined;
+}
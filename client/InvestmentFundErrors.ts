@@ -0,0 +1,233 @@
+import { BigNumber } from "ethers";
+// Project
+import { DecodedFundError, fundErrorMessage } from "./InvestmentFundErrorDecoder";
+import { InvestmentStates } from "./InvestmentFundTypes";
+
+//
+// Base class
+//
+
+/**
+ * Base class for all errors raised by the InvestmentFund contract or detected by the client before sending a transaction
+ */
+export class InvestmentFundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+//
+// Contract errors
+//
+
+/**
+ * Address is not valid (AddressError)
+ */
+export class AddressError extends InvestmentFundError {
+  constructor(readonly addr: string, message?: string) {
+    super(message ?? fundErrorMessage("AddressError", { addr }));
+  }
+}
+
+/**
+ * Amount is not valid (AmountError)
+ */
+export class AmountError extends InvestmentFundError {
+  constructor(readonly amount: BigNumber, message?: string) {
+    super(message ?? fundErrorMessage("AmountError", { amount }));
+  }
+}
+
+/**
+ * Deadline is passed or not reached yet (DeadlineError)
+ */
+export class DeadlineError extends InvestmentFundError {
+  constructor(readonly deadline: BigNumber, message?: string) {
+    super(message ?? fundErrorMessage("DeadlineError", { deadline }));
+  }
+}
+
+/**
+ * Emergency exit cannot be triggered or voted (EmergencyExitError)
+ */
+export class EmergencyExitError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("EmergencyExitError"));
+  }
+}
+
+/**
+ * Caller is not the fund manager (FundManagerCallerError)
+ */
+export class FundManagerCallerError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("FundManagerCallerError"));
+  }
+}
+
+/**
+ * Fund manager cannot be changed (FundManagerChangeError)
+ */
+export class FundManagerChangeError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("FundManagerChangeError"));
+  }
+}
+
+/**
+ * Fund is not paused (FundNotPausedError)
+ */
+export class FundNotPausedError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("FundNotPausedError"));
+  }
+}
+
+/**
+ * Fund is paused (FundPausedError)
+ */
+export class FundPausedError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("FundPausedError"));
+  }
+}
+
+/**
+ * Fund token is not valid (FundTokenError)
+ */
+export class FundTokenError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("FundTokenError"));
+  }
+}
+
+/**
+ * Caller is not the guardian (GuardianCallerError)
+ */
+export class GuardianCallerError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("GuardianCallerError"));
+  }
+}
+
+/**
+ * Operation not allowed in the current investment state (InvestmentStateError)
+ * The current state is only known if the error is detected by the client
+ */
+export class InvestmentStateError extends InvestmentFundError {
+  constructor(readonly currState?: InvestmentStates, message?: string) {
+    super(
+      message ??
+      (currState !== undefined ? `function cannot be called in the ${InvestmentStates[currState]} state` : fundErrorMessage("InvestmentStateError"))
+    );
+  }
+}
+
+/**
+ * Investor is not allowed to deposit (InvestorNotAllowedError)
+ */
+export class InvestorNotAllowedError extends InvestmentFundError {
+  constructor(readonly investor: string, message?: string) {
+    super(message ?? fundErrorMessage("InvestorNotAllowedError", { investor }));
+  }
+}
+
+/**
+ * Native currency cannot be sent (NativeTransferError)
+ */
+export class NativeTransferError extends InvestmentFundError {
+  constructor(readonly to: string, readonly amount: BigNumber, message?: string) {
+    super(message ?? fundErrorMessage("NativeTransferError", { to, amount }));
+  }
+}
+
+/**
+ * No investor in the fund (NoInvestorError)
+ */
+export class NoInvestorError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("NoInvestorError"));
+  }
+}
+
+/**
+ * Permit is not valid and the allowance is not enough for the deposit (PermitError)
+ */
+export class PermitError extends InvestmentFundError {
+  constructor(readonly investor: string, readonly amount: BigNumber, message?: string) {
+    super(message ?? fundErrorMessage("PermitError", { investor, amount }));
+  }
+}
+
+/**
+ * Strategy is not registered, funds cannot be withdrawn in strategy mode or a strategy ran out of gas when divesting (StrategyError)
+ */
+export class StrategyError extends InvestmentFundError {
+  constructor(message?: string) {
+    super(message ?? fundErrorMessage("StrategyError"));
+  }
+}
+
+/**
+ * Value is not valid (ValueError)
+ */
+export class ValueError extends InvestmentFundError {
+  constructor(readonly value: BigNumber, message?: string) {
+    super(message ?? fundErrorMessage("ValueError", { value }));
+  }
+}
+
+//
+// Exported functions
+//
+
+/**
+ * Convert a decoded custom error of the InvestmentFund contract to the corresponding exception
+ * @param decodedError Decoded error
+ * @return Exception
+ */
+export function toInvestmentFundError(
+  decodedError: DecodedFundError
+) : InvestmentFundError {
+  const args = decodedError.args;
+
+  switch (decodedError.name) {
+    case "AddressError":
+      return new AddressError(args.addr as string, decodedError.message);
+    case "AmountError":
+      return new AmountError(BigNumber.from(args.amount), decodedError.message);
+    case "DeadlineError":
+      return new DeadlineError(BigNumber.from(args.deadline), decodedError.message);
+    case "EmergencyExitError":
+      return new EmergencyExitError(decodedError.message);
+    case "FundManagerCallerError":
+      return new FundManagerCallerError(decodedError.message);
+    case "FundManagerChangeError":
+      return new FundManagerChangeError(decodedError.message);
+    case "FundNotPausedError":
+      return new FundNotPausedError(decodedError.message);
+    case "FundPausedError":
+      return new FundPausedError(decodedError.message);
+    case "FundTokenError":
+      return new FundTokenError(decodedError.message);
+    case "GuardianCallerError":
+      return new GuardianCallerError(decodedError.message);
+    case "InvestmentStateError":
+      return new InvestmentStateError(undefined, decodedError.message);
+    case "InvestorNotAllowedError":
+      return new InvestorNotAllowedError(args.investor as string, decodedError.message);
+    case "NativeTransferError":
+      return new NativeTransferError(args.to as string, BigNumber.from(args.amount), decodedError.message);
+    case "NoInvestorError":
+      return new NoInvestorError(decodedError.message);
+    case "PermitError":
+      return new PermitError(args.investor as string, BigNumber.from(args.amount), decodedError.message);
+    case "StrategyError":
+      return new StrategyError(decodedError.message);
+    case "ValueError":
+      return new ValueError(BigNumber.from(args.value), decodedError.message);
+    default:
+      return new InvestmentFundError(decodedError.message);
+  }
+}
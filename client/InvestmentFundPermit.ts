@@ -0,0 +1,92 @@
+import { BigNumber, BigNumberish, Contract, Signer, utils } from "ethers";
+
+//
+// Constants
+//
+
+/**
+ * Minimal ABI of an EIP-2612 token, for reading the values needed to sign a permit
+ */
+const PERMIT_TOKEN_ABI: string[] = [
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+];
+
+/**
+ * EIP-712 types of a permit
+ */
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+//
+// Interfaces
+//
+
+/**
+ * Signed EIP-2612 permit
+ */
+export interface PermitSignature {
+  deadline: BigNumber;
+  v: number;
+  r: string;
+  s: string;
+}
+
+//
+// Exported functions
+//
+
+/**
+ * Sign an EIP-2612 permit, allowing the spender to transfer the specified amount of tokens of the signer
+ * The token name and the current nonce of the signer are read from the token contract.
+ * @param signer       Tokens owner
+ * @param tokenAddress Token address
+ * @param spender      Spender address (e.g. the fund address)
+ * @param value        Allowed amount
+ * @param deadline     Timestamp after which the permit is not valid anymore
+ * @param version      Version of the token EIP-712 domain
+ * @return Permit signature
+ */
+export async function signPermit(
+  signer: Signer,
+  tokenAddress: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish,
+  version: string = "1"
+) : Promise<PermitSignature> {
+  const token: Contract = new Contract(tokenAddress, PERMIT_TOKEN_ABI, signer);
+  const owner: string = await signer.getAddress();
+
+  const domain = {
+    name: await token.name(),
+    version: version,
+    chainId: await signer.getChainId(),
+    verifyingContract: tokenAddress,
+  };
+  const message = {
+    owner: owner,
+    spender: spender,
+    value: BigNumber.from(value),
+    nonce: await token.nonces(owner),
+    deadline: BigNumber.from(deadline),
+  };
+
+  // Typed data signing is only exposed by the signer implementations in ethers v5
+  const signature: string = await (signer as Signer & { _signTypedData: Function })._signTypedData(domain, PERMIT_TYPES, message);
+  const split_sig = utils.splitSignature(signature);
+
+  return {
+    deadline: message.deadline,
+    v: split_sig.v,
+    r: split_sig.r,
+    s: split_sig.s,
+  };
+}
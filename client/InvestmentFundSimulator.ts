@@ -0,0 +1,199 @@
+//
+// Constants
+//
+
+// Multiplier decimals, same of the contract
+const MULTIPLIER_DECIMALS: bigint = 10n ** 12n;
+// Basis points denominator of the fees, same of the contract
+const BPS_DENOMINATOR: bigint = 10000n;
+
+//
+// Interfaces
+//
+
+/**
+ * Parameters of a simulated investment round
+ */
+export interface SimulationParams {
+  // Deposit of each investor (i.e. his shares)
+  deposits: bigint[];
+  // Funds held by the fund when investors withdraw is started, before collecting fees
+  finalAmount: bigint;
+  // Management fee in basis points of the initial amount (zero if not specified)
+  managementFeeBps?: bigint;
+  // Performance fee in basis points of the profit (zero if not specified)
+  performanceFeeBps?: bigint;
+}
+
+/**
+ * Fees collected when investors withdraw is started
+ */
+export interface SimulatedFees {
+  managementFee: bigint;
+  performanceFee: bigint;
+}
+
+/**
+ * Simulated payout of an investor
+ */
+export interface SimulatedPayout {
+  deposit: bigint;
+  payout: bigint;
+  // Rounding dust included in the payout (only received by the last withdrawing investor)
+  dust: bigint;
+  // Effective return in basis points of the deposit (negative in case of loss)
+  returnBps: bigint;
+}
+
+/**
+ * Result of a simulated investment round
+ */
+export interface SimulationResult {
+  totalAmountBeforeInvestment: bigint;
+  managementFee: bigint;
+  performanceFee: bigint;
+  totalAmountAfterInvestment: bigint;
+  // Investment multiplier, only informational since payouts are computed from the final and initial amounts
+  investmentMultiplier: bigint;
+  payouts: SimulatedPayout[];
+  totalPayouts: bigint;
+  // Rounding dust received by the last withdrawing investor
+  dust: bigint;
+  // Return of the final amount before fees, in basis points of the initial amount
+  grossReturnBps: bigint;
+  // Return of the total payouts, in basis points of the initial amount
+  netReturnBps: bigint;
+}
+
+//
+// Exported functions
+//
+
+/**
+ * Compute the fees in the same way of the contract (__computeFees): the management fee is computed on the initial amount
+ * (capped to the available funds), the performance fee on the profit left after the management fee
+ * @param totalAmount       Funds held by the fund before collecting fees
+ * @param totalAmountBefore Initial amount before investing
+ * @param managementFeeBps  Management fee in basis points
+ * @param performanceFeeBps Performance fee in basis points
+ * @return Fees
+ */
+export function computeFees(
+  totalAmount: bigint,
+  totalAmountBefore: bigint,
+  managementFeeBps: bigint,
+  performanceFeeBps: bigint
+) : SimulatedFees {
+  let management_fee: bigint = (totalAmountBefore * managementFeeBps) / BPS_DENOMINATOR;
+  if (management_fee > totalAmount) {
+    management_fee = totalAmount;
+  }
+
+  const net_amount: bigint = totalAmount - management_fee;
+  const performance_fee: bigint = net_amount > totalAmountBefore
+    ? ((net_amount - totalAmountBefore) * performanceFeeBps) / BPS_DENOMINATOR
+    : 0n;
+
+  return {
+    managementFee: management_fee,
+    performanceFee: performance_fee,
+  };
+}
+
+/**
+ * Compute the investment multiplier in the same way of the contract (__computeMultiplier)
+ * @param totalAmountAfter  Final amount after investing (fees excluded)
+ * @param totalAmountBefore Initial amount before investing
+ * @return Investment multiplier, with 12 decimals
+ */
+export function computeMultiplier(
+  totalAmountAfter: bigint,
+  totalAmountBefore: bigint
+) : bigint {
+  return (totalAmountAfter * MULTIPLIER_DECIMALS) / totalAmountBefore;
+}
+
+/**
+ * Compute the amount withdrawn by an investor in the same way of the contract (__computeAmountToWithdraw), i.e. the deposit
+ * fraction of the final amount rounded down
+ * The last withdrawing investor receives all the remaining funds instead, which include the rounding dust of the other payouts.
+ * @param initialAmount     Investor deposit
+ * @param totalAmountAfter  Final amount after investing (fees excluded)
+ * @param totalAmountBefore Initial amount before investing
+ * @return Amount to withdraw
+ */
+export function computeAmountToWithdraw(
+  initialAmount: bigint,
+  totalAmountAfter: bigint,
+  totalAmountBefore: bigint
+) : bigint {
+  return (initialAmount * totalAmountAfter) / totalAmountBefore;
+}
+
+/**
+ * Simulate an investment round, reproducing the integer math of the contract
+ * All investors are assumed to withdraw in the order of the deposits, so the last one receives the rounding dust.
+ * @param params Simulation parameters
+ * @return Simulation result
+ */
+export function simulateRound(
+  params: SimulationParams
+) : SimulationResult {
+  if (params.deposits.length === 0) {
+    throw new Error("At least one deposit shall be specified");
+  }
+  if (params.deposits.some((deposit) => deposit <= 0n)) {
+    throw new Error("Deposits shall be greater than zero");
+  }
+  if (params.finalAmount < 0n) {
+    throw new Error("Final amount shall not be negative");
+  }
+
+  const total_amount_before: bigint = params.deposits.reduce((sum, deposit) => sum + deposit, 0n);
+  const fees: SimulatedFees = computeFees(
+    params.finalAmount,
+    total_amount_before,
+    params.managementFeeBps ?? 0n,
+    params.performanceFeeBps ?? 0n
+  );
+  const total_amount_after: bigint = params.finalAmount - fees.managementFee - fees.performanceFee;
+  const multiplier: bigint = computeMultiplier(total_amount_after, total_amount_before);
+
+  let remaining_amount: bigint = total_amount_after;
+  const payouts: SimulatedPayout[] = params.deposits.map((deposit, i) => {
+    const pro_rata_payout: bigint = computeAmountToWithdraw(deposit, total_amount_after, total_amount_before);
+    const payout: bigint = i === params.deposits.length - 1 ? remaining_amount : pro_rata_payout;
+    remaining_amount -= payout;
+    return {
+      deposit: deposit,
+      payout: payout,
+      dust: payout - pro_rata_payout,
+      returnBps: computeReturnBps(payout, deposit),
+    };
+  });
+  const total_payouts: bigint = payouts.reduce((sum, payout) => sum + payout.payout, 0n);
+
+  return {
+    totalAmountBeforeInvestment: total_amount_before,
+    managementFee: fees.managementFee,
+    performanceFee: fees.performanceFee,
+    totalAmountAfterInvestment: total_amount_after,
+    investmentMultiplier: multiplier,
+    payouts: payouts,
+    totalPayouts: total_payouts,
+    dust: payouts[payouts.length - 1].dust,
+    grossReturnBps: computeReturnBps(params.finalAmount, total_amount_before),
+    netReturnBps: computeReturnBps(total_payouts, total_amount_before),
+  };
+}
+
+//
+// Not exported functions
+//
+
+function computeReturnBps(
+  finalAmount: bigint,
+  initialAmount: bigint
+) : bigint {
+  return ((finalAmount - initialAmount) * BPS_DENOMINATOR) / initialAmount;
+}
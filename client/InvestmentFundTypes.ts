@@ -0,0 +1,64 @@
+import { BigNumber, ContractReceipt, ContractTransaction, utils } from "ethers";
+
+//
+// Constants
+//
+
+/**
+ * Fund token address of funds denominated in the native currency (e.g. ETH, BNB, MATIC)
+ */
+export const NATIVE_TOKEN: string = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+//
+// Enumeratives
+//
+
+/**
+ * Investment states, in the same order of the contract enumerative
+ */
+export enum InvestmentStates {
+  INITIAL,
+  BEFORE_INVESTMENT,
+  DURING_INVESTMENT,
+  AFTER_INVESTMENT,
+}
+
+//
+// Interfaces
+//
+
+/**
+ * Investment parameters configured in the INITIAL state
+ */
+export interface InvestmentParams {
+  depositMultipleOf: BigNumber;
+  minInvestorDeposit: BigNumber;
+  maxInvestorDeposit: BigNumber;
+  fundHardCap: BigNumber;
+  fundSoftCap: BigNumber;
+}
+
+/**
+ * Page of investors, with their deposits at the same indexes
+ */
+export interface InvestorsPage {
+  investors: string[];
+  deposits: BigNumber[];
+}
+
+/**
+ * Event emitted by the fund
+ */
+export interface FundEvent {
+  name: string;
+  args: utils.Result;
+}
+
+/**
+ * Result of a transaction sent to the fund
+ */
+export interface TransactionResult {
+  tx: ContractTransaction;
+  receipt: ContractReceipt;
+  events: FundEvent[];
+}
@@ -0,0 +1,7 @@
+export * from "./InvestmentFundAllowlist";
+export * from "./InvestmentFundClient";
+export * from "./InvestmentFundErrorDecoder";
+export * from "./InvestmentFundErrors";
+export * from "./InvestmentFundPermit";
+export * from "./InvestmentFundSimulator";
+export * from "./InvestmentFundTypes";
@@ -5,18 +5,32 @@ pragma solidity ^0.8.20;
 //=============================================================//
 //                           IMPORTS                           //
 //=============================================================//
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {IterableMapping} from "./libs/IterableMapping.sol";
+import {IFundStrategy} from "./interfaces/IFundStrategy.sol";
+import {InvestmentFundOracle} from "./InvestmentFundOracle.sol";
 
 /**
  * @author Emanuele Bellocchia (ebellocchia@gmail.com)
  * @title  Smart contract implementing an investment fund
+ * @notice Investors positions are ERC-20 shares of the fund, minted 1:1 with the deposited amount
+ *         (or with the deposited value for multi-token funds).
+ *         In strategy mode, funds can only be invested in the registered strategies instead of being withdrawn by the fund manager.
+ *         Calls can be relayed by an ERC-2771 trusted forwarder (meta-transactions).
  */
 contract InvestmentFund is
     Context,
+    ERC20,
+    ERC2771Context,
     ReentrancyGuard
 {
     using IterableMapping for IterableMapping.Map;
@@ -32,6 +46,18 @@ contract InvestmentFund is
     uint256 constant MULTIPLIER_DECIMALS = 1e12;
     /// Minimum multiplier
     uint256 constant MIN_MULTIPLIER = 1e12;
+    /// Basis points denominator (i.e. 100%)
+    uint256 constant BPS_DENOMINATOR = 10000;
+    /// Maximum duration of a state
+    uint256 constant MAX_DURATION = 3650 days;
+    /// Shares name
+    string constant SHARES_NAME = "Investment Fund Share";
+    /// Shares symbol
+    string constant SHARES_SYMBOL = "IFS";
+    /// Shares decimals, if the fund token doesn't expose them
+    uint8 constant DEFAULT_SHARES_DECIMALS = 18;
+    /// Fund token address for funds denominated in the native currency (e.g. ETH, BNB, MATIC)
+    address constant NATIVE_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
 
     //=============================================================//
     //                        ENUMERATIVES                         //
@@ -55,6 +81,20 @@ contract InvestmentFund is
         uint256 index;      // Investor index in array
     }
 
+    /// Investment round structure
+    struct InvestmentRound {
+        uint256 startBlock;                     // Block where investors deposit was started
+        uint256 endBlock;                       // Block where investors withdraw was stopped (zero if not stopped yet)
+        uint256 totalAmountBeforeInvestment;    // Initial amount before investing
+        uint256 totalAmountAfterInvestment;     // Final amount after investing
+        uint256 investmentMultiplier;           // Multiplier (final amount / initial amount)
+        uint256 numberOfInvestors;              // Number of investors when investors deposit was stopped
+        uint256 managementFee;                  // Management fee sent to the fee recipient
+        uint256 performanceFee;                 // Performance fee sent to the fee recipient
+        uint256 remainingFunds;                 // Amount sent to the remaining funds address
+        bool emergencyExit;                     // True if investors withdraw was started by emergency exit
+    }
+
     //=============================================================//
     //                            ERRORS                           //
     //=============================================================//
@@ -75,6 +115,19 @@ contract InvestmentFund is
         uint256 amount
     );
 
+    /**
+     * Error raised if a deadline is passed or not reached yet
+     * @param deadline Deadline timestamp
+     */
+    error DeadlineError(
+        uint256 deadline
+    );
+
+    /**
+     * Error raised if the emergency exit cannot be triggered or voted
+     */
+    error EmergencyExitError();
+
     /**
      * Error raised if the fund manager is not the caller
      */
@@ -85,21 +138,70 @@ contract InvestmentFund is
      */
     error FundManagerChangeError();
 
+    /**
+     * Error raised if the fund is not paused
+     */
+    error FundNotPausedError();
+
+    /**
+     * Error raised if the fund is paused
+     */
+    error FundPausedError();
+
     /**
      * Error raised if the fund token is not valid
      */
     error FundTokenError();
 
+    /**
+     * Error raised if the guardian is not the caller
+     */
+    error GuardianCallerError();
+
     /**
      * Error raised if the investment state is not valid
      */
     error InvestmentStateError();
 
+    /**
+     * Error raised if the investor is not allowed to deposit
+     * @param investor Investor address
+     */
+    error InvestorNotAllowedError(
+        address investor
+    );
+
+    /**
+     * Error raised if native currency cannot be sent to the specified address
+     * @param to     Receiver address
+     * @param amount Amount
+     */
+    error NativeTransferError(
+        address to,
+        uint256 amount
+    );
+
     /**
      * Error raised if no investor
      */
     error NoInvestorError();
 
+    /**
+     * Error raised if the permit is not valid and the allowance is not enough for the deposit
+     * @param investor Investor address
+     * @param amount   Amount
+     */
+    error PermitError(
+        address investor,
+        uint256 amount
+    );
+
+    /**
+     * Error raised if a strategy is not registered, if the fund manager withdraws funds in strategy mode, or if a strategy
+     * runs out of gas when divesting
+     */
+    error StrategyError();
+
     /**
      * Error raised if the value is not valid
      * @param value Value
@@ -116,7 +218,35 @@ contract InvestmentFund is
      * Modifier to check if the caller is the fund manager
      */
     modifier onlyFundManager() {
-        if (fundManager != _msgSender()) {
+        __checkFundManager();
+        _;
+    }
+
+    /**
+     * Modifier to check if the caller is the guardian
+     */
+    modifier onlyGuardian() {
+        if (guardian != _msgSender()) {
+            revert GuardianCallerError();
+        }
+        _;
+    }
+
+    /**
+     * Modifier to check if the fund is not paused
+     */
+    modifier whenNotPaused() {
+        if (paused) {
+            revert FundPausedError();
+        }
+        _;
+    }
+
+    /**
+     * Modifier to check if the caller is the fund manager or the deadline of the current state is passed
+     */
+    modifier onlyFundManagerOrAfterDeadline() {
+        if ((fundManager != _msgSender()) && ((stateDeadline == 0) || (block.timestamp < stateDeadline))) {
             revert FundManagerCallerError();
         }
         _;
@@ -126,9 +256,7 @@ contract InvestmentFund is
      * Modifier to check if the investment state is initial
      */
     modifier onlyInitialState() {
-        if (currState != InvestmentStates.INITIAL) {
-            revert InvestmentStateError();
-        }
+        __checkState(InvestmentStates.INITIAL);
         _;
     }
 
@@ -136,9 +264,7 @@ contract InvestmentFund is
      * Modifier to check if the investment state is before investment
      */
     modifier onlyBeforeInvestment() {
-        if (currState != InvestmentStates.BEFORE_INVESTMENT) {
-            revert InvestmentStateError();
-        }
+        __checkState(InvestmentStates.BEFORE_INVESTMENT);
         _;
     }
 
@@ -146,9 +272,7 @@ contract InvestmentFund is
      * Modifier to check if the investment state is during investment
      */
     modifier onlyDuringInvestment() {
-        if (currState != InvestmentStates.DURING_INVESTMENT) {
-            revert InvestmentStateError();
-        }
+        __checkState(InvestmentStates.DURING_INVESTMENT);
         _;
     }
 
@@ -156,9 +280,7 @@ contract InvestmentFund is
      * Modifier to check if the investment state is after investment
      */
     modifier onlyAfterInvestment() {
-        if (currState != InvestmentStates.AFTER_INVESTMENT) {
-            revert InvestmentStateError();
-        }
+        __checkState(InvestmentStates.AFTER_INVESTMENT);
         _;
     }
 
@@ -196,6 +318,18 @@ contract InvestmentFund is
         uint256 amount
     );
 
+    /**
+     * Event emitted when part of the funds are withdrawn by investor
+     * @param investor      Investor addres
+     * @param depositAmount Amount removed from the investor deposit
+     * @param amount        Withdrawn amount
+     */
+    event InvestorFundsWithdrawn(
+        address indexed investor,
+        uint256 depositAmount,
+        uint256 amount
+    );
+
     /**
      * Event emitted when funds are deposited by fund manager during investment
      * @param fundManager Fund manager addres
@@ -249,6 +383,32 @@ contract InvestmentFund is
         address indexed newFundManager
     );
 
+    /**
+     * Event emitted when changing the guardian
+     * @param oldGuardian Old guardian address
+     * @param newGuardian New guardian address
+     */
+    event GuardianChanged(
+        address indexed oldGuardian,
+        address indexed newGuardian
+    );
+
+    /**
+     * Event emitted when the fund is paused
+     * @param guardian Guardian address
+     */
+    event FundPaused(
+        address indexed guardian
+    );
+
+    /**
+     * Event emitted when the fund is unpaused
+     * @param guardian Guardian address
+     */
+    event FundUnpaused(
+        address indexed guardian
+    );
+
     /**
      * Event emitted when changing the remaining funds address
      * @param oldAddress Old fund manager address
@@ -263,12 +423,85 @@ contract InvestmentFund is
      * Event emitted when changing the fund token
      * @param oldToken Old token address
      * @param newToken New token address
+     * @param rebasing True if the new token is rebasing
      */
     event FundTokenChanged(
+        address oldToken,
+        address newToken,
+        bool rebasing
+    );
+
+    /**
+     * Event emitted when changing the tokens of multi-token funds
+     * @param tokens Token addresses (empty for single-token funds)
+     * @param oracle Oracle address
+     */
+    event FundTokensChanged(
+        address[] tokens,
+        address oracle
+    );
+
+    /**
+     * Event emitted when changing the payout token of multi-token funds
+     * @param oldToken Old token address
+     * @param newToken New token address (zero for paying out pro-rata in the held tokens)
+     */
+    event PayoutTokenChanged(
         address oldToken,
         address newToken
     );
 
+    /**
+     * Event emitted when tokens are deposited in multi-token funds (followed by InvestorFundsDeposited for investors)
+     * @param account Depositor address (investor or fund manager)
+     * @param token   Token address
+     * @param amount  Amount of tokens
+     */
+    event TokenFundsDeposited(
+        address indexed account,
+        address indexed token,
+        uint256 amount
+    );
+
+    /**
+     * Event emitted when the fund manager withdraws tokens from multi-token funds
+     * @param fundManager Fund manager address
+     * @param token       Token address
+     * @param amount      Amount of tokens
+     */
+    event TokenFundsWithdrawn(
+        address indexed fundManager,
+        address indexed token,
+        uint256 amount
+    );
+
+    /**
+     * Event emitted when changing the strategies of the strategy mode
+     * @param strategies Strategy addresses (empty if the strategy mode is not used)
+     */
+    event StrategiesChanged(
+        address[] strategies
+    );
+
+    /**
+     * Event emitted when the fund manager invests funds in a strategy
+     * @param strategy Strategy address
+     * @param amount   Amount
+     */
+    event StrategyInvested(
+        address indexed strategy,
+        uint256 amount
+    );
+
+    /**
+     * Event emitted when funds are divested from all the strategies (by the fund manager, when starting investors withdraw,
+     * in the emergency exit or after investment)
+     * @param amount Amount received back from the strategies
+     */
+    event StrategiesDivested(
+        uint256 amount
+    );
+
     /**
      * Event emitted when changing the minimum investor deposit
      * @param oldValue Old value
@@ -299,25 +532,215 @@ contract InvestmentFund is
         uint256 newValue
     );
 
+    /**
+     * Event emitted when the fund hard cap is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event FundHardCapChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the fund soft cap is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event FundSoftCapChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the deposit duration is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event DepositDurationChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the maximum investment duration is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event MaxInvestmentDurationChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the minimum withdraw duration is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event MinWithdrawDurationChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the emergency timeout is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event EmergencyTimeoutChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the fee recipient is changed
+     * @param oldAddress Old address
+     * @param newAddress New address
+     */
+    event FeeRecipientChanged(
+        address oldAddress,
+        address newAddress
+    );
+
+    /**
+     * Event emitted when the management fee is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event ManagementFeeChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the performance fee is changed
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event PerformanceFeeChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when the allowlist is enabled or disabled
+     * @param enabled True if enabled, false otherwise
+     */
+    event AllowlistEnabledChanged(
+        bool enabled
+    );
+
+    /**
+     * Event emitted when the allowlist Merkle root is changed
+     * @param oldRoot Old root
+     * @param newRoot New root
+     */
+    event AllowlistMerkleRootChanged(
+        bytes32 oldRoot,
+        bytes32 newRoot
+    );
+
+    /**
+     * Event emitted when an investor is added to or removed from the allowlist
+     * @param investor Investor address
+     * @param allowed  True if added, false if removed
+     */
+    event InvestorAllowlistChanged(
+        address indexed investor,
+        bool allowed
+    );
+
+    /**
+     * Event emitted when fees are collected after investment
+     * @param roundId        Round ID
+     * @param feeRecipient   Fee recipient address
+     * @param managementFee  Management fee
+     * @param performanceFee Performance fee
+     */
+    event FeesCollected(
+        uint256 indexed roundId,
+        address indexed feeRecipient,
+        uint256 managementFee,
+        uint256 performanceFee
+    );
+
+    /**
+     * Event emitted when excess funds (i.e. not accounted by the fund) are swept
+     * @param to     Address receiving the funds
+     * @param amount Amount
+     */
+    event ExcessFundsSwept(
+        address indexed to,
+        uint256 amount
+    );
+
     /**
      * Event emitted when starting investor deposit
+     * @param roundId Round ID
+     */
+    event InvestorsDepositStarted(
+        uint256 indexed roundId
+    );
+
+    /**
+     * Event emitted when investor deposit is cancelled and all investors are refunded
+     * @param roundId        Round ID
+     * @param refundedAmount Total amount refunded to investors
      */
-    event InvestorsDepositStarted();
+    event InvestorsDepositCancelled(
+        uint256 indexed roundId,
+        uint256 refundedAmount
+    );
 
     /**
      * Event emitted when stopping investor deposit
+     * @param roundId Round ID
      */
-    event InvestorsDepositStopped();
+    event InvestorsDepositStopped(
+        uint256 indexed roundId
+    );
 
     /**
      * Event emitted when starting investor withdraw
+     * @param roundId Round ID
+     */
+    event InvestorsWithdrawStarted(
+        uint256 indexed roundId
+    );
+
+    /**
+     * Event emitted when an investor votes for the emergency exit
+     * @param roundId  Round ID
+     * @param investor Investor address
+     * @param votes    Total deposits of the investors that voted
+     */
+    event EmergencyExitVoted(
+        uint256 indexed roundId,
+        address indexed investor,
+        uint256 votes
+    );
+
+    /**
+     * Event emitted when the emergency exit is triggered (followed by InvestorsWithdrawStarted)
+     * @param roundId     Round ID
+     * @param byVote      True if triggered by investors vote, false if triggered by timeout
+     * @param totalAmount Amount distributed to investors
      */
-    event InvestorsWithdrawStarted();
+    event EmergencyExitTriggered(
+        uint256 indexed roundId,
+        bool byVote,
+        uint256 totalAmount
+    );
 
     /**
      * Event emitted when stopping investor withdraw
+     * @param roundId        Round ID
+     * @param remainingFunds Amount sent to the remaining funds address
      */
-    event InvestorsWithdrawStopped();
+    event InvestorsWithdrawStopped(
+        uint256 indexed roundId,
+        uint256 remainingFunds
+    );
 
     //=============================================================//
     //                           STORAGE                           //
@@ -327,26 +750,82 @@ contract InvestmentFund is
     address public fundManager;
     /// Pending fund manager address
     address public pendingFundManager;
-    /// Token accepted by the fund
+    /// Guardian address, allowed to pause and unpause the fund
+    address public guardian;
+    /// True if deposits, withdrawals, shares transfers and fund manager funds movements are paused
+    bool public paused;
+    /// Token accepted by the fund (NATIVE_TOKEN if the fund is denominated in the native currency)
     IERC20 public fundToken;
+    /// True if the fund token is rebasing, so its balance changes are accounted to investors
+    bool public rebasingToken;
+    /// Oracle used for valuing the tokens of multi-token funds
+    InvestmentFundOracle public tokenOracle;
+    /// Token used for paying out investors of multi-token funds (zero for paying out pro-rata in the held tokens)
+    address public payoutToken;
     /// Current state
     InvestmentStates public currState;
     /// Force the deposit to be multiple of the specified value
     uint256 public depositMultipleOf;
     /// Minimum investor deposit
     uint256 public minInvestorDeposit;
-    /// Maximum investor deposit
+    /// Maximum investor deposit (cumulative of all the deposits of an investor)
     uint256 public maxInvestorDeposit;
+    /// Maximum total amount of investors deposits
+    uint256 public fundHardCap;
+    /// Minimum total amount of investors deposits for stopping investors deposit (zero if not used)
+    uint256 public fundSoftCap;
+    /// Duration of investors deposit in seconds, after that anyone can stop it (zero if not used)
+    uint256 public depositDuration;
+    /// Maximum duration of the investment in seconds, after that anyone can start investors withdraw (zero if not used)
+    uint256 public maxInvestmentDuration;
+    /// Minimum duration of investors withdraw in seconds, before that it cannot be stopped (zero if not used)
+    uint256 public minWithdrawDuration;
+    /// Deadline of the current state, computed from the durations when entering it (zero if not used)
+    uint256 public stateDeadline;
+    /// Time in seconds after the investment start when anyone can trigger the emergency exit (zero if not used)
+    uint256 public emergencyTimeout;
+    /// Time after which anyone can trigger the emergency exit, computed from the timeout when the investment starts (zero if not used)
+    uint256 public emergencyDeadline;
+    /// Total deposits of the investors that voted for the emergency exit in the current round
+    uint256 public emergencyExitVotes;
     /// Initial amount before investing
     uint256 public totalAmountBeforeInvestment;
     /// Final amount after investing
     uint256 public totalAmountAfterInvestment;
-    /// Multiplier (final amount / initial amount)
+    /// Multiplier (final amount / initial amount), only informational since payouts are computed from the final and initial amounts
     uint256 public investmentMultiplier;
     /// Address for storing funds that were not withdrawn
     address public remainingFundsAddr;
-    /// List of investors addresses
+    /// Address receiving the fees
+    address public feeRecipient;
+    /// Management fee in basis points of the initial amount before investing
+    uint256 public managementFeeBps;
+    /// Performance fee in basis points of the profit
+    uint256 public performanceFeeBps;
+    /// True if only allowlisted investors can deposit
+    bool public allowlistEnabled;
+    /// Merkle root of the allowlisted investors, for proving allowance without adding them one by one (zero if not used)
+    bytes32 public allowlistMerkleRoot;
+    /// Current round ID (zero if no round was ever started)
+    uint256 public currRound;
+    /// Investors addresses and shares (i.e. share balances, so shares holders are investors)
     IterableMapping.Map private _investors;
+    /// Total shares
+    uint256 private _totalShares;
+    /// Funds accounted by the fund (tokens sent directly to the contract are not included)
+    uint256 private _accountedFunds;
+    /// Tokens accepted by multi-token funds (empty for single-token funds)
+    address[] private _fundTokens;
+    /// Amount of each token held by multi-token funds
+    mapping(address => uint256) private _tokenFunds;
+    /// Strategies where funds can be invested in strategy mode (empty if not used)
+    address[] private _strategies;
+    /// Rounds history
+    mapping(uint256 => InvestmentRound) private _rounds;
+    /// Allowlisted investors (either added by the fund manager or proved with the Merkle root)
+    mapping(address => bool) private _allowlist;
+    /// Investors that voted for the emergency exit in each round
+    mapping(uint256 => mapping(address => bool)) private _emergencyExitVoters;
 
     //=============================================================//
     //                         CONSTRUCTOR                         //
@@ -354,11 +833,14 @@ contract InvestmentFund is
 
     /**
      * Initialize the contract
-     * @param fundToken_ Contract address of the token to be used for depositing/withdrawing funds (e.g. BUSD, BNB, ...)
+     * @param fundToken_ Contract address of the token to be used for depositing/withdrawing funds (e.g. BUSD, USDT, ...),
+     *                   or NATIVE_TOKEN for using the native currency
+     * @param trustedForwarder_ ERC-2771 trusted forwarder address for relaying calls (zero address if not used)
      */
     constructor(
-        address fundToken_
-    ) {
+        address fundToken_,
+        address trustedForwarder_
+    ) ERC20(SHARES_NAME, SHARES_SYMBOL) ERC2771Context(trustedForwarder_) {
         if (fundToken_ == address(0)) {
             revert FundTokenError();
         }
@@ -366,14 +848,31 @@ contract InvestmentFund is
         fundToken = IERC20(fundToken_);
         fundManager = _msgSender();
         pendingFundManager = address(0);
+        guardian = _msgSender();
         remainingFundsAddr = _msgSender();
+        feeRecipient = _msgSender();
         depositMultipleOf = 1;
         minInvestorDeposit = 1;
         maxInvestorDeposit = UNLIMITED_AMOUNT;
+        fundHardCap = UNLIMITED_AMOUNT;
+        fundSoftCap = 0;
 
         __resetState();
     }
 
+    //=============================================================//
+    //                           RECEIVE                           //
+    //=============================================================//
+
+    /**
+     * Receive native currency sent directly to the contract, that is not accounted by the fund (only for native funds)
+     */
+    receive() external payable {
+        if (!isNative()) {
+            revert FundTokenError();
+        }
+    }
+
     //=============================================================//
     //                   PUBLIC FUNCTIONS (ALL)                    //
     //=============================================================//
@@ -388,12 +887,35 @@ contract InvestmentFund is
 
     /**
      * Get all investors addresses
+     * @dev It can be expensive in terms of gas with many investors, investorsPage can be used instead
      * @return Array of investor addresses
      */
     function allInvestors() external view returns (address[] memory) {
         return _investors.allKeys();
     }
 
+    /**
+     * Get a page of investors, i.e. the ones from the offset index (included) to the offset plus limit (excluded)
+     * @param offset_ Index of the first investor
+     * @param limit_  Maximum number of investors
+     * @return investors Investors addresses (empty if the offset is not lower than the number of investors)
+     * @return deposits  Investors deposits
+     */
+    function investorsPage(
+        uint256 offset_,
+        uint256 limit_
+    ) external view returns (address[] memory investors, uint256[] memory deposits) {
+        uint256 end = __batchEnd(offset_, limit_);
+        uint256 page_len = end > offset_ ? end - offset_ : 0;
+
+        investors = new address[](page_len);
+        deposits = new uint256[](page_len);
+        for (uint256 i = 0; i < page_len; i++) {
+            investors[i] = _investors.keyAtIndex(offset_ + i);
+            deposits[i] = _investors.getByIndex(offset_ + i);
+        }
+    }
+
     /**
      * Get the deposited amount of the specified investor
      * @param investor_ Investor address
@@ -406,46 +928,257 @@ contract InvestmentFund is
     }
 
     /**
-     * Get the total amount of deposited funds
-     * @return Total amount deposited funds
+     * Get the shares of the specified investor
+     * @param account_ Investor address
+     * @return Investor shares (equal to his deposit)
      */
-    function totalDepositedFunds() public view returns (uint256) {
-        return fundToken.balanceOf(address(this));
+    function balanceOf(
+        address account_
+    ) public view override returns (uint256) {
+        return _investors.getByKey(account_);
     }
 
     /**
-     * Called by investor to deposit the specified amount before investment is started
-     * @param amount_ Amount to deposit
+     * Get the total shares
+     * @return Total shares
      */
-    function investorDeposit(
-        uint256 amount_
-    ) public onlyBeforeInvestment nonReentrant {
-        // Check amount
-        if (
-                (amount_ == 0) ||
-                (amount_ < minInvestorDeposit) || (amount_ > maxInvestorDeposit) ||
-                ((amount_ % depositMultipleOf) != 0)
-        ) {
-            revert AmountError(amount_);
+    function totalSupply() public view override returns (uint256) {
+        return _totalShares;
+    }
+
+    /**
+     * Get the shares decimals, that are the same of the fund token since shares are minted 1:1 with deposits
+     * For multi-token funds, they are the same of the values returned by the token oracle.
+     * @return Shares decimals
+     */
+    function decimals() public view override returns (uint8) {
+        if (isNative() || isMultiToken()) {
+            return DEFAULT_SHARES_DECIMALS;
+        }
+        try IERC20Metadata(address(fundToken)).decimals() returns (uint8 token_decimals) {
+            return token_decimals;
+        }
+        catch {
+            return DEFAULT_SHARES_DECIMALS;
+        }
+    }
+
+    /**
+     * Get the information of the specified round
+     * @param roundId_ Round ID (from 1 to the current round)
+     * @return Round information
+     */
+    function roundInfo(
+        uint256 roundId_
+    ) external view returns (InvestmentRound memory) {
+        if ((roundId_ == 0) || (roundId_ > currRound)) {
+            revert ValueError(roundId_);
+        }
+        return _rounds[roundId_];
+    }
+
+    /**
+     * Get the total amount of deposited funds
+     * Tokens sent directly to the contract are not included, so they cannot alter the investment multiplier
+     * @return Total amount deposited funds
+     */
+    function totalDepositedFunds() public view returns (uint256) {
+        return _accountedFunds;
+    }
+
+    /**
+     * Get the amount of excess funds, i.e. tokens held by the contract but not accounted by the fund
+     * @return Amount of excess funds (always zero for multi-token funds)
+     */
+    function excessFunds() public view returns (uint256) {
+        if (isMultiToken()) {
+            return 0;
+        }
+        uint256 balance = __fundsBalance();
+        return balance > _accountedFunds ? balance - _accountedFunds : 0;
+    }
+
+    /**
+     * Get if the fund is denominated in the native currency
+     * @return True if native, false otherwise
+     */
+    function isNative() public view returns (bool) {
+        return address(fundToken) == NATIVE_TOKEN;
+    }
+
+    /**
+     * Get if the fund accepts multiple tokens, valued by the token oracle
+     * @return True if multi-token, false otherwise
+     */
+    function isMultiToken() public view returns (bool) {
+        return _fundTokens.length != 0;
+    }
+
+    /**
+     * Get the tokens accepted by multi-token funds
+     * @return Token addresses (empty for single-token funds)
+     */
+    function fundTokens() external view returns (address[] memory) {
+        return _fundTokens;
+    }
+
+    /**
+     * Get if the fund is in strategy mode, i.e. funds can only be invested in the registered strategies
+     * @return True if in strategy mode, false otherwise
+     */
+    function isStrategyMode() public view returns (bool) {
+        return _strategies.length != 0;
+    }
+
+    /**
+     * Get the strategies where funds can be invested in strategy mode
+     * @return Strategy addresses (empty if the strategy mode is not used)
+     */
+    function strategies() external view returns (address[] memory) {
+        return _strategies;
+    }
+
+    /**
+     * Get the amount of the specified token held by multi-token funds
+     * @param token_ Token address
+     * @return Amount of tokens
+     */
+    function tokenFunds(
+        address token_
+    ) external view returns (uint256) {
+        return _tokenFunds[token_];
+    }
+
+    /**
+     * Get if the specified investor is allowed to deposit without a Merkle proof
+     * @param investor_ Investor address
+     * @return True if allowed, false otherwise
+     */
+    function isInvestorAllowed(
+        address investor_
+    ) external view returns (bool) {
+        return !allowlistEnabled || _allowlist[investor_];
+    }
+
+    /**
+     * Get if the specified investor voted for the emergency exit in the current round
+     * @param investor_ Investor address
+     * @return True if voted, false otherwise
+     */
+    function hasVotedEmergencyExit(
+        address investor_
+    ) external view returns (bool) {
+        return _emergencyExitVoters[currRound][investor_];
+    }
+
+    /**
+     * Called by investor to deposit the specified amount before investment is started
+     * For native funds, the amount shall be sent with the call.
+     * @param amount_ Amount to deposit
+     */
+    function investorDeposit(
+        uint256 amount_
+    ) public payable onlyBeforeInvestment whenNotPaused nonReentrant {
+        address investor_addr = _msgSender();
+        __checkDeposit(investor_addr, amount_, depositMultipleOf);
+
+        // Transfer tokens, crediting the received amount in case of fee-on-transfer tokens (so it shall be valid as well)
+        uint256 received_amount = __receiveFunds(amount_);
+        if (received_amount != amount_) {
+            __checkDeposit(investor_addr, received_amount, depositMultipleOf);
+        }
+        __mintDeposit(investor_addr, received_amount);
+    }
+
+    /**
+     * Called by investor to deposit the specified amount of one of the accepted tokens of multi-token funds before investment is started
+     * The deposit is credited with its value returned by the token oracle, so the minimum/maximum investor deposit and the hard cap
+     * apply to values, while the deposit multiplicity is not checked.
+     * @param token_  Token address
+     * @param amount_ Amount of tokens to deposit
+     */
+    function investorDepositToken(
+        address token_,
+        uint256 amount_
+    ) public onlyBeforeInvestment whenNotPaused nonReentrant {
+        address investor_addr = _msgSender();
+        if (!__isListed(_fundTokens, token_)) {
+            revert FundTokenError();
         }
 
+        uint256 received_amount = __receiveTokens(IERC20(token_), amount_);
+        uint256 value = tokenOracle.tokenValue(token_, received_amount);
+        __checkDeposit(investor_addr, value, 1);
+        _tokenFunds[token_] += received_amount;
+
+        emit TokenFundsDeposited(investor_addr, token_, received_amount);
+
+        __mintDeposit(investor_addr, value);
+    }
+
+    /**
+     * Called by investor to deposit the specified amount before investment is started, proving to be in the allowlist Merkle tree
+     * The investor is added to the allowlist, so the proof is not needed for next deposits.
+     * @param amount_ Amount to deposit
+     * @param proof_  Merkle proof of the investor address
+     */
+    function investorDepositWithProof(
+        uint256 amount_,
+        bytes32[] calldata proof_
+    ) public payable whenNotPaused {
         address investor_addr = _msgSender();
 
-        // Update investor
-        _investors.add(investor_addr, amount_);
-        // Transfer tokens
-        fundToken.safeTransferFrom(investor_addr, address(this), amount_);
+        if (!_allowlist[investor_addr]) {
+            if (!MerkleProof.verifyCalldata(proof_, allowlistMerkleRoot, __allowlistLeaf(investor_addr))) {
+                revert InvestorNotAllowedError(investor_addr);
+            }
+            __setInvestorAllowed(investor_addr, true);
+        }
+
+        investorDeposit(amount_);
+    }
+
+    /**
+     * Called by investor to deposit the specified amount before investment is started, approving it with an EIP-2612 permit
+     * If the permit fails (e.g. because it was front-run), the deposit proceeds as long as the allowance is enough.
+     * @param amount_   Amount to deposit
+     * @param deadline_ Permit deadline
+     * @param v_        Permit signature v
+     * @param r_        Permit signature r
+     * @param s_        Permit signature s
+     */
+    function investorDepositWithPermit(
+        uint256 amount_,
+        uint256 deadline_,
+        uint8 v_,
+        bytes32 r_,
+        bytes32 s_
+    ) external whenNotPaused {
+        if (isNative()) {
+            revert FundTokenError();
+        }
+
+        address investor_addr = _msgSender();
+        try IERC20Permit(address(fundToken)).permit(investor_addr, address(this), amount_, deadline_, v_, r_, s_) {
+        }
+        catch {
+            if (fundToken.allowance(investor_addr, address(this)) < amount_) {
+                revert PermitError(investor_addr, amount_);
+            }
+        }
 
-        emit InvestorFundsDeposited(investor_addr, amount_);
+        investorDeposit(amount_);
     }
 
     /**
      * Called by investor to withdraw all the funds before of after the investment
+     * Before the investment it can be called even if the fund is paused, so investors can always exit.
      */
     function investorWithdrawAll() public onlyBeforeOrAfterInvestment nonReentrant {
         address investor_addr = _msgSender();
         uint256 amount = _investors.getByKey(investor_addr);
 
+        __checkWithdrawNotPaused();
         // Check amount
         if (amount == 0) {
             revert AmountError(amount);
@@ -453,14 +1186,114 @@ contract InvestmentFund is
 
         // Compute amount
         uint256 withdraw_amount = __computeAmountToWithdraw(amount);
-        // Delete investor
-        _investors.removeByKey(investor_addr);
+        // Burn all shares
+        _burn(investor_addr, amount);
+        _accountedFunds -= withdraw_amount;
         // Transfer token
-        fundToken.safeTransfer(investor_addr, withdraw_amount);
+        __sendFunds(investor_addr, withdraw_amount);
 
         emit InvestorAllFundsWithdrawn(investor_addr, withdraw_amount);
     }
 
+    /**
+     * Called by investor to withdraw part of the funds before or after the investment
+     * Before the investment, the remaining deposit shall still be valid (i.e. not lower than the minimum deposit and multiple of the deposit multiplicity).
+     * After the investment, the withdrawn amount is scaled by the investment multiplier.
+     * Like investorWithdrawAll, it can be called even if the fund is paused before the investment.
+     * @param amount_ Amount to remove from the investor deposit
+     */
+    function investorWithdraw(
+        uint256 amount_
+    ) public onlyBeforeOrAfterInvestment nonReentrant {
+        address investor_addr = _msgSender();
+        uint256 amount = _investors.getByKey(investor_addr);
+
+        __checkWithdrawNotPaused();
+        // Check amount
+        if ((amount_ == 0) || (amount_ > amount)) {
+            revert AmountError(amount_);
+        }
+
+        uint256 remaining_amount = amount - amount_;
+        if (
+                (currState == InvestmentStates.BEFORE_INVESTMENT) && (remaining_amount != 0) &&
+                ((remaining_amount < minInvestorDeposit) || ((remaining_amount % depositMultipleOf) != 0))
+        ) {
+            revert AmountError(amount_);
+        }
+
+        // Compute amount
+        uint256 withdraw_amount = __computeAmountToWithdraw(amount_);
+        // Burn shares
+        _burn(investor_addr, amount_);
+        _accountedFunds -= withdraw_amount;
+        // Transfer token
+        __sendFunds(investor_addr, withdraw_amount);
+
+        emit InvestorFundsWithdrawn(investor_addr, amount_, withdraw_amount);
+    }
+
+    /**
+     * Called by investor to vote for the emergency exit during investment, with a weight equal to his deposit
+     * When investors holding the majority of deposits have voted, the emergency exit is triggered.
+     */
+    function voteEmergencyExit() public onlyDuringInvestment nonReentrant {
+        address investor_addr = _msgSender();
+        uint256 amount = _investors.getByKey(investor_addr);
+
+        if (amount == 0) {
+            revert AmountError(amount);
+        }
+        if (_emergencyExitVoters[currRound][investor_addr]) {
+            revert EmergencyExitError();
+        }
+
+        _emergencyExitVoters[currRound][investor_addr] = true;
+        emergencyExitVotes += amount;
+
+        emit EmergencyExitVoted(currRound, investor_addr, emergencyExitVotes);
+
+        if ((emergencyExitVotes * 2) > totalAmountBeforeInvestment) {
+            __emergencyExit(true);
+        }
+    }
+
+    /**
+     * Called by anyone to trigger the emergency exit after the emergency timeout
+     * Investors withdraw is started using the funds held by the contract, without collecting fees.
+     */
+    function emergencyExit() public onlyDuringInvestment nonReentrant {
+        if ((emergencyDeadline == 0) || (block.timestamp < emergencyDeadline)) {
+            revert EmergencyExitError();
+        }
+
+        __emergencyExit(false);
+    }
+
+    /**
+     * Called by anyone after investment to divest the funds left in the strategies (e.g. if divesting failed when starting
+     * investors withdraw), distributing them to the shares not withdrawn yet.
+     * It cannot be called if all shares are withdrawn, so the funds are not left to the remaining funds address.
+     * It can be called also if the fund is paused, since funds are only sent back to the fund.
+     */
+    function divestAllAfterInvestment() public onlyAfterInvestment nonReentrant {
+        if (_totalShares == 0) {
+            revert NoInvestorError();
+        }
+
+        uint256 received_amount = __divestAll();
+        if (received_amount == 0) {
+            return;
+        }
+
+        totalAmountAfterInvestment += Math.mulDiv(received_amount, totalAmountBeforeInvestment, _totalShares);
+        investmentMultiplier = __computeMultiplier();
+        // Update round
+        InvestmentRound storage round = _rounds[currRound];
+        round.totalAmountAfterInvestment = totalAmountAfterInvestment;
+        round.investmentMultiplier = investmentMultiplier;
+    }
+
     //=============================================================//
     //              PUBLIC FUNCTIONS (FUND MANAGER)                //
     //=============================================================//
@@ -491,6 +1324,7 @@ contract InvestmentFund is
 
         fundManager = pendingFundManager;
         remainingFundsAddr = pendingFundManager;
+        feeRecipient = pendingFundManager;
         pendingFundManager = address(0);
 
         emit FundManagerChanged(old_fund_manager, _msgSender());
@@ -498,18 +1332,20 @@ contract InvestmentFund is
 
     /**
      * Called by the fund manager to deposit funds during investment
+     * For native funds, the amount shall be sent with the call.
      * @param amount_ Amount to deposit
      */
     function fundManagerDeposit(
         uint256 amount_
-    ) public onlyFundManager onlyDuringInvestment {
+    ) public payable onlyFundManager onlyDuringInvestment whenNotPaused nonReentrant {
         if (amount_ == 0) {
             revert AmountError(amount_);
         }
 
-        fundToken.safeTransferFrom(_msgSender(), address(this), amount_);
+        uint256 received_amount = __receiveFunds(amount_);
+        _accountedFunds += received_amount;
 
-        emit FundManagerFundsDeposited(_msgSender(), amount_);
+        emit FundManagerFundsDeposited(_msgSender(), received_amount);
     }
 
     /**
@@ -518,12 +1354,17 @@ contract InvestmentFund is
      */
     function fundManagerWithdraw(
         uint256 amount_
-    ) public onlyFundManager onlyDuringInvestment {
-        if (amount_ == 0) {
+    ) public onlyFundManager onlyDuringInvestment whenNotPaused nonReentrant {
+        // Funds can only be invested in the strategies
+        if (isStrategyMode()) {
+            revert StrategyError();
+        }
+        if ((amount_ == 0) || (amount_ > _accountedFunds)) {
             revert AmountError(amount_);
         }
 
-        fundToken.safeTransfer(_msgSender(), amount_);
+        _accountedFunds -= amount_;
+        __sendFunds(_msgSender(), amount_);
 
         emit FundManagerFundsWithdrawn(_msgSender(), amount_);
     }
@@ -535,6 +1376,77 @@ contract InvestmentFund is
         fundManagerWithdraw(totalDepositedFunds());
     }
 
+    /**
+     * Called by the fund manager to deposit one of the accepted tokens of multi-token funds during investment
+     * @param token_  Token address
+     * @param amount_ Amount of tokens to deposit
+     */
+    function fundManagerDepositToken(
+        address token_,
+        uint256 amount_
+    ) public onlyFundManager onlyDuringInvestment whenNotPaused nonReentrant {
+        if (!__isListed(_fundTokens, token_)) {
+            revert FundTokenError();
+        }
+        if (amount_ == 0) {
+            revert AmountError(amount_);
+        }
+
+        uint256 received_amount = __receiveTokens(IERC20(token_), amount_);
+        _tokenFunds[token_] += received_amount;
+
+        emit TokenFundsDeposited(_msgSender(), token_, received_amount);
+    }
+
+    /**
+     * Called by the fund manager to withdraw one of the accepted tokens of multi-token funds during investment
+     * @param token_  Token address
+     * @param amount_ Amount of tokens to withdraw
+     */
+    function fundManagerWithdrawToken(
+        address token_,
+        uint256 amount_
+    ) public onlyFundManager onlyDuringInvestment whenNotPaused nonReentrant {
+        if ((amount_ == 0) || (amount_ > _tokenFunds[token_])) {
+            revert AmountError(amount_);
+        }
+
+        __transferToken(token_, _msgSender(), amount_);
+
+        emit TokenFundsWithdrawn(_msgSender(), token_, amount_);
+    }
+
+    /**
+     * Called by the fund manager to invest the specified amount of funds in a strategy during investment (only in strategy mode)
+     * @param strategy_ Strategy address
+     * @param amount_   Amount to invest
+     */
+    function fundManagerInvest(
+        address strategy_,
+        uint256 amount_
+    ) public onlyFundManager onlyDuringInvestment whenNotPaused nonReentrant {
+        if (!__isListed(_strategies, strategy_)) {
+            revert StrategyError();
+        }
+        if ((amount_ == 0) || (amount_ > _accountedFunds)) {
+            revert AmountError(amount_);
+        }
+
+        _accountedFunds -= amount_;
+        __sendFunds(strategy_, amount_);
+        IFundStrategy(strategy_).invest(amount_);
+
+        emit StrategyInvested(strategy_, amount_);
+    }
+
+    /**
+     * Called by the fund manager to divest all funds from the strategies during investment (e.g. for investing them again)
+     * It can be called also if the fund is paused, since funds are only sent back to the fund.
+     */
+    function fundManagerDivestAll() public onlyFundManager onlyDuringInvestment nonReentrant {
+        __divestAll();
+    }
+
     /**
      * Called by the fund manager to return funds to a specific investor after investment
      * Useful for forcing the withdraw of funds to a specific investor
@@ -542,52 +1454,136 @@ contract InvestmentFund is
      */
     function fundManagerReturnFundsToInvestor(
         address investor_
-    ) public onlyFundManager onlyAfterInvestment {
+    ) public onlyFundManager onlyAfterInvestment whenNotPaused nonReentrant {
         uint256 amount = _investors.getByKey(investor_);
 
         if (amount == 0) {
             revert AmountError(amount);
         }
 
-        // Compute amount
-        uint256 withdraw_amount = __computeAmountToWithdraw(amount);
-
-        // Delete investor
-        _investors.removeByKey(investor_);
-        // Transfer token
-        fundToken.safeTransfer(investor_, withdraw_amount);
+        uint256 withdraw_amount = __returnFundsToInvestor(investor_, amount);
 
         emit FundManagerFundsReturnedToInvestor(investor_, withdraw_amount);
     }
 
+    /**
+     * Called by the fund manager to return funds to a batch of investors after investment, i.e. the ones from the start index
+     * (included) to the start index plus count (excluded, limited to the number of investors)
+     * Since investors are removed when their funds are returned (and the last ones take their indexes), it can be called
+     * repeatedly with a zero start index to return funds to all investors in batches, without exceeding the block gas limit.
+     * @param start_ Start index
+     * @param count_ Maximum number of investors
+     */
+    function fundManagerReturnFundsToInvestorsBatch(
+        uint256 start_,
+        uint256 count_
+    ) public onlyFundManager onlyAfterInvestment whenNotPaused nonReentrant {
+        uint256 end = __batchEnd(start_, count_);
+        if (start_ >= end) {
+            revert NoInvestorError();
+        }
+
+        // Start from the last one, so the removed investors are replaced by the ones after the batch
+        for (uint256 i = end; i > start_; i--) {
+            address investor_addr = _investors.keyAtIndex(i - 1);
+            uint256 withdraw_amount = __returnFundsToInvestor(investor_addr, _investors.getByIndex(i - 1));
+
+            emit FundManagerFundsReturnedToInvestor(investor_addr, withdraw_amount);
+        }
+    }
+
     /**
      * Called by the fund manager to return all funds to investors after investment
      * Useful for forcing the withdraw of funds to all investors
      * @dev It can be expensive in terms of gas, it's better to call it only if there are few investors remaining
      */
-    function fundManagerReturnFundsToAllInvestors() public onlyFundManager onlyAfterInvestment {
+    function fundManagerReturnFundsToAllInvestors() public onlyFundManager onlyAfterInvestment whenNotPaused nonReentrant {
         if (_investors.isEmpty()) {
             revert NoInvestorError();
         }
 
-        // Withdraw to all investors
-        for (uint256 i = 0; i < _investors.length(); i++) {
-            // Get investor amount
-            uint256 amount = _investors.getByIndex(i);
-
-            if (amount != 0) {
-                // Compute amount
-                uint256 withdraw_amount = __computeAmountToWithdraw(amount);
-                // Transfer token
-                fundToken.safeTransfer(_investors.keyAtIndex(i), withdraw_amount);
-            }
+        // Withdraw to all investors, starting from the last one since burning all shares removes the investor
+        for (uint256 i = _investors.length(); i > 0; i--) {
+            __returnFundsToInvestor(_investors.keyAtIndex(i - 1), _investors.getByIndex(i - 1));
         }
-        // Delete all investors
-        _investors.removeAll();
 
         emit FundManagerFundsReturnedToAllInvestors();
     }
 
+    /**
+     * Called by the fund manager to send the excess funds (i.e. tokens sent directly to the contract) to the remaining funds address
+     * It can be called in any state, since excess funds never belong to investors
+     * It cannot be called for rebasing tokens, since excess funds include the rebases that belong to investors
+     */
+    function sweepExcess() public onlyFundManager whenNotPaused nonReentrant {
+        if (rebasingToken || isMultiToken()) {
+            revert FundTokenError();
+        }
+
+        uint256 amount = excessFunds();
+
+        if (amount == 0) {
+            revert AmountError(amount);
+        }
+
+        __sendFunds(remainingFundsAddr, amount);
+
+        emit ExcessFundsSwept(remainingFundsAddr, amount);
+    }
+
+    /**
+     * Called by the fund manager to add an investor to or remove it from the allowlist
+     * It can be called in any state, so investors can be approved while deposits are open
+     * @param investor_ Investor address
+     * @param allowed_  True for adding, false for removing
+     */
+    function setInvestorAllowed(
+        address investor_,
+        bool allowed_
+    ) public onlyFundManager {
+        __setInvestorAllowed(investor_, allowed_);
+    }
+
+    /**
+     * Called by the fund manager to add multiple investors to or remove them from the allowlist
+     * @param investors_ Investors addresses
+     * @param allowed_   True for adding, false for removing
+     */
+    function setInvestorsAllowed(
+        address[] calldata investors_,
+        bool allowed_
+    ) public onlyFundManager {
+        for (uint256 i = 0; i < investors_.length; i++) {
+            __setInvestorAllowed(investors_[i], allowed_);
+        }
+    }
+
+    /**
+     * Called by the fund manager to set the allowlist Merkle root
+     * It can be called in any state, so the allowlist can be updated while deposits are open
+     * @param root_ Merkle root (zero for not using it)
+     */
+    function setAllowlistMerkleRoot(
+        bytes32 root_
+    ) public onlyFundManager {
+        bytes32 old_root = allowlistMerkleRoot;
+        allowlistMerkleRoot = root_;
+
+        emit AllowlistMerkleRootChanged(old_root, root_);
+    }
+
+    /**
+     * Called by the fund manager to enable or disable the allowlist
+     * @param enabled_ True for enabling, false for disabling
+     */
+    function setAllowlistEnabled(
+        bool enabled_
+    ) public onlyFundManager onlyInitialState {
+        allowlistEnabled = enabled_;
+
+        emit AllowlistEnabledChanged(enabled_);
+    }
+
     /**
      * Called by the fund manager to set the address to withdraw remaining funds
      * @param remainingFundsAddr_ Address to withdraw remaining funds
@@ -605,43 +1601,131 @@ contract InvestmentFund is
 
     /**
      * Called by the fund manager to set the fund token address
-     * @param fundToken_ Fund token address
+     * Rebasing tokens shall be declared, so that their balance changes are accounted when investors withdraw is started.
+     * @param fundToken_ Fund token address (NATIVE_TOKEN for the native currency)
+     * @param rebasing_  True if the token is rebasing (not allowed for the native currency)
      */
     function setFundToken(
-        address fundToken_
+        address fundToken_,
+        bool rebasing_
     ) public onlyFundManager onlyInitialState {
         if (fundToken_ == address(0)) {
             revert AddressError(fundToken_);
         }
+        if (rebasing_ && (fundToken_ == NATIVE_TOKEN)) {
+            revert FundTokenError();
+        }
 
         address old_token = address(fundToken);
         fundToken = IERC20(fundToken_);
+        rebasingToken = rebasing_;
 
-        emit FundTokenChanged(old_token, fundToken_);
+        emit FundTokenChanged(old_token, fundToken_, rebasing_);
     }
 
     /**
-     * Called by the fund manager to set the deposit multiple of
-     * @param value_ Deposit multiple of
+     * Called by the fund manager to set the tokens accepted by multi-token funds, which are valued by the specified oracle
+     * The fund token is not used by multi-token funds. The payout token is reset.
+     * @param tokens_ Token addresses (empty for going back to a single-token fund)
+     * @param oracle_ Token oracle address (not used if tokens are empty)
      */
-    function setDepositMultipleOf(
-        uint256 value_
+    function setFundTokens(
+        address[] calldata tokens_,
+        address oracle_
     ) public onlyFundManager onlyInitialState {
-        if (value_ == 0) {
-            revert ValueError(value_);
+        if ((tokens_.length != 0) && (oracle_ == address(0))) {
+            revert AddressError(oracle_);
+        }
+        if ((tokens_.length != 0) && isStrategyMode()) {
+            revert FundTokenError();
+        }
+        for (uint256 i = 0; i < tokens_.length; i++) {
+            if ((tokens_[i] == address(0)) || (tokens_[i] == NATIVE_TOKEN)) {
+                revert AddressError(tokens_[i]);
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (tokens_[i] == tokens_[j]) {
+                    revert AddressError(tokens_[i]);
+                }
+            }
         }
 
-        uint256 old_value = depositMultipleOf;
-        depositMultipleOf = value_;
+        _fundTokens = tokens_;
+        tokenOracle = InvestmentFundOracle(oracle_);
+        payoutToken = address(0);
 
-        emit DepositMultipleOfChanged(old_value, value_);
+        emit FundTokensChanged(tokens_, oracle_);
     }
 
     /**
-     * Called by the fund manager to set the minimum investor deposit
-     * @param value_ Minimum investor deposit amount
+     * Called by the fund manager to set the strategies of the strategy mode, which is not supported by multi-token funds
+     * In strategy mode, funds cannot be withdrawn by the fund manager but only invested in the strategies, and they are divested
+     * from all the strategies when investors withdraw is started.
+     * @param strategies_ Strategy addresses (empty for not using the strategy mode)
      */
-    function setMinInvestorDeposit(
+    function setStrategies(
+        address[] calldata strategies_
+    ) public onlyFundManager onlyInitialState {
+        if ((strategies_.length != 0) && isMultiToken()) {
+            revert FundTokenError();
+        }
+        for (uint256 i = 0; i < strategies_.length; i++) {
+            if (strategies_[i].code.length == 0) {
+                revert AddressError(strategies_[i]);
+            }
+        }
+
+        _strategies = strategies_;
+
+        emit StrategiesChanged(strategies_);
+    }
+
+    /**
+     * Called by the fund manager to set the token used for paying out investors of multi-token funds
+     * Payouts are converted to the payout token at the oracle price when they are sent, so the fund shall hold enough of it
+     * (e.g. by depositing it back with fundManagerDepositToken), otherwise they are sent pro-rata in the held tokens.
+     * Fees are always collected pro-rata in the held tokens.
+     * After investors withdraw is started, it can only be reset to zero (e.g. if the oracle is not available anymore).
+     * @param token_ Token address (zero for paying out pro-rata in the held tokens)
+     */
+    function setPayoutToken(
+        address token_
+    ) public onlyFundManager {
+        if ((currState == InvestmentStates.AFTER_INVESTMENT) && (token_ != address(0))) {
+            revert InvestmentStateError();
+        }
+        if ((token_ != address(0)) && !__isListed(_fundTokens, token_)) {
+            revert FundTokenError();
+        }
+
+        address old_token = payoutToken;
+        payoutToken = token_;
+
+        emit PayoutTokenChanged(old_token, token_);
+    }
+
+    /**
+     * Called by the fund manager to set the deposit multiple of
+     * @param value_ Deposit multiple of
+     */
+    function setDepositMultipleOf(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ == 0) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = depositMultipleOf;
+        depositMultipleOf = value_;
+
+        emit DepositMultipleOfChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the minimum investor deposit
+     * @param value_ Minimum investor deposit amount
+     */
+    function setMinInvestorDeposit(
         uint256 value_
     ) public onlyFundManager onlyInitialState {
         if ((value_ == 0) || (value_ >= maxInvestorDeposit) || ((value_ % depositMultipleOf) != 0)) {
@@ -671,53 +1755,393 @@ contract InvestmentFund is
         emit MaxInvestorDepositChanged(old_value, value_);
     }
 
+    /**
+     * Called by the fund manager to set the fund hard cap
+     * @param value_ Fund hard cap
+     */
+    function setFundHardCap(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if ((value_ == 0) || (value_ < fundSoftCap)) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = fundHardCap;
+        fundHardCap = value_;
+
+        emit FundHardCapChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the fund soft cap
+     * @param value_ Fund soft cap (zero for not using it)
+     */
+    function setFundSoftCap(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > fundHardCap) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = fundSoftCap;
+        fundSoftCap = value_;
+
+        emit FundSoftCapChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the duration of investors deposit
+     * @param value_ Duration in seconds (zero for not using it)
+     */
+    function setDepositDuration(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > MAX_DURATION) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = depositDuration;
+        depositDuration = value_;
+
+        emit DepositDurationChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the maximum duration of the investment
+     * @param value_ Duration in seconds (zero for not using it)
+     */
+    function setMaxInvestmentDuration(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > MAX_DURATION) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = maxInvestmentDuration;
+        maxInvestmentDuration = value_;
+
+        emit MaxInvestmentDurationChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the minimum duration of investors withdraw
+     * @param value_ Duration in seconds (zero for not using it)
+     */
+    function setMinWithdrawDuration(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > MAX_DURATION) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = minWithdrawDuration;
+        minWithdrawDuration = value_;
+
+        emit MinWithdrawDurationChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the emergency timeout
+     * @param value_ Timeout in seconds (zero for not using it)
+     */
+    function setEmergencyTimeout(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > MAX_DURATION) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = emergencyTimeout;
+        emergencyTimeout = value_;
+
+        emit EmergencyTimeoutChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the address receiving the fees
+     * @param feeRecipient_ Fee recipient address
+     */
+    function setFeeRecipient(
+        address feeRecipient_
+    ) public onlyFundManager onlyInitialState {
+        if (feeRecipient_ == address(0)) {
+            revert AddressError(feeRecipient_);
+        }
+
+        address old_addr = feeRecipient;
+        feeRecipient = feeRecipient_;
+
+        emit FeeRecipientChanged(old_addr, feeRecipient_);
+    }
+
+    /**
+     * Called by the fund manager to set the management fee
+     * @param value_ Management fee in basis points (zero for no fee)
+     */
+    function setManagementFee(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > BPS_DENOMINATOR) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = managementFeeBps;
+        managementFeeBps = value_;
+
+        emit ManagementFeeChanged(old_value, value_);
+    }
+
+    /**
+     * Called by the fund manager to set the performance fee
+     * @param value_ Performance fee in basis points (zero for no fee)
+     */
+    function setPerformanceFee(
+        uint256 value_
+    ) public onlyFundManager onlyInitialState {
+        if (value_ > BPS_DENOMINATOR) {
+            revert ValueError(value_);
+        }
+
+        uint256 old_value = performanceFeeBps;
+        performanceFeeBps = value_;
+
+        emit PerformanceFeeChanged(old_value, value_);
+    }
+
     /**
      * Called by the fund manager to start investors deposit.
      */
     function startInvestorsDeposit() public onlyFundManager onlyInitialState {
+        // Update state
         currState = InvestmentStates.BEFORE_INVESTMENT;
+        stateDeadline = __computeDeadline(depositDuration);
+        // Start new round
+        currRound++;
+        _rounds[currRound].startBlock = block.number;
 
-        emit InvestorsDepositStarted();
+        emit InvestorsDepositStarted(currRound);
     }
 
     /**
-     * Called by the fund manager to stop investors deposit
+     * Called by the fund manager to cancel investors deposit, refunding all investors and going back to the initial state
+     * Useful if the soft cap cannot be reached. Like investors withdrawals before the investment, it can be called even if the fund is paused.
+     * @dev It can be expensive in terms of gas, like fundManagerReturnFundsToAllInvestors
      */
-    function stopInvestorsDeposit() public onlyFundManager onlyBeforeInvestment {
+    function cancelInvestorsDeposit() public onlyFundManager onlyBeforeInvestment nonReentrant {
+        uint256 refunded_amount = 0;
+
+        // Refund all investors, starting from the last one since burning all shares removes the investor
+        for (uint256 i = _investors.length(); i > 0; i--) {
+            address investor_addr = _investors.keyAtIndex(i - 1);
+            uint256 amount = _investors.getByIndex(i - 1);
+
+            refunded_amount += amount;
+            _burn(investor_addr, amount);
+            // Removed before sending, since multi-token funds send the tokens pro-rata on the remaining funds
+            _accountedFunds -= amount;
+            __sendFunds(investor_addr, amount);
+        }
+        // Reset state
+        __resetState();
+        // Close round
+        _rounds[currRound].endBlock = block.number;
+
+        emit InvestorsDepositCancelled(currRound, refunded_amount);
+    }
+
+    /**
+     * Called by the fund manager, or by anyone after the deposit deadline, to stop investors deposit
+     * The soft cap, if set, shall be reached and there shall be deposits, otherwise the investment result cannot be computed
+     */
+    function stopInvestorsDeposit() public onlyFundManagerOrAfterDeadline onlyBeforeInvestment {
+        if (_investors.isEmpty() || (totalDepositedFunds() == 0)) {
+            revert NoInvestorError();
+        }
+        if (totalDepositedFunds() < fundSoftCap) {
+            revert AmountError(totalDepositedFunds());
+        }
+
         // Update state
         currState = InvestmentStates.DURING_INVESTMENT;
+        stateDeadline = __computeDeadline(maxInvestmentDuration);
+        emergencyDeadline = __computeDeadline(emergencyTimeout);
+        emergencyExitVotes = 0;
         // Get initial amount before investment
         totalAmountBeforeInvestment = totalDepositedFunds();
+        // Update round
+        InvestmentRound storage round = _rounds[currRound];
+        round.totalAmountBeforeInvestment = totalAmountBeforeInvestment;
+        round.numberOfInvestors = _investors.length();
 
-        emit InvestorsDepositStopped();
+        emit InvestorsDepositStopped(currRound);
     }
 
     /**
-     * Called by the fund manager to start investors withdraw
+     * Called by the fund manager, or by anyone after the maximum investment duration, to start investors withdraw
+     * It cannot be called if the fund is paused, since fees are sent to the fee recipient
      */
-    function startInvestorsWithdraw() public onlyFundManager onlyDuringInvestment {
-        // Update state
-        currState = InvestmentStates.AFTER_INVESTMENT;
-        // Get final amount after investment
-        totalAmountAfterInvestment = totalDepositedFunds();
-        // Compute multiplier
-        investmentMultiplier = __computeMultiplier();
-
-        emit InvestorsWithdrawStarted();
+    function startInvestorsWithdraw() public onlyFundManagerOrAfterDeadline onlyDuringInvestment whenNotPaused nonReentrant {
+        // The investment result is what came back from the strategies
+        __divestAll();
+        // Account rebases and value the tokens of multi-token funds, so they are included in the investment result
+        if (rebasingToken || isMultiToken()) {
+            __syncFunds();
+        }
+        // Collect fees
+        (uint256 management_fee, uint256 performance_fee) = __collectFees();
+        // Update round
+        InvestmentRound storage round = _rounds[currRound];
+        round.managementFee = management_fee;
+        round.performanceFee = performance_fee;
+
+        __startInvestorsWithdraw();
     }
 
     /**
-     * Called by the fund manager to stop investors withdraw
+     * Called by the fund manager, or by anyone after the minimum withdraw duration, to stop investors withdraw
+     * If the minimum withdraw duration is set, it cannot be called before it's passed (not even by the fund manager)
+     * It cannot be called if the fund is paused, so the remaining funds are not sent while investors cannot withdraw
      */
-    function stopInvestorsWithdraw() public onlyFundManager onlyAfterInvestment {
+    function stopInvestorsWithdraw() public onlyFundManagerOrAfterDeadline onlyAfterInvestment whenNotPaused nonReentrant {
+        if (block.timestamp < stateDeadline) {
+            revert DeadlineError(stateDeadline);
+        }
+
+        // Account rebases, so the remaining funds can always be withdrawn
+        if (rebasingToken) {
+            __syncFunds();
+        }
         // Withdraw any remaining funds
-        __withdrawRemainingFunds();
-        // Delete all investors
-        _investors.removeAll();
+        uint256 remaining_funds = __withdrawRemainingFunds();
+        // Burn the shares of the investors that didn't withdraw
+        for (uint256 i = _investors.length(); i > 0; i--) {
+            _burn(_investors.keyAtIndex(i - 1), _investors.getByIndex(i - 1));
+        }
         // Reset state
         __resetState();
+        // Close round
+        InvestmentRound storage round = _rounds[currRound];
+        round.endBlock = block.number;
+        round.remainingFunds = remaining_funds;
+
+        emit InvestorsWithdrawStopped(currRound, remaining_funds);
+    }
+
+    //=============================================================//
+    //                PUBLIC FUNCTIONS (GUARDIAN)                  //
+    //=============================================================//
+
+    /**
+     * Called by the guardian to pause deposits, withdrawals, shares transfers and fund manager funds movements, in any state
+     * Investors can still get their funds back before the investment (i.e. withdrawals and cancelInvestorsDeposit).
+     */
+    function pause() public onlyGuardian whenNotPaused {
+        paused = true;
+
+        emit FundPaused(_msgSender());
+    }
+
+    /**
+     * Called by the guardian to unpause the fund
+     */
+    function unpause() public onlyGuardian {
+        if (!paused) {
+            revert FundNotPausedError();
+        }
+
+        paused = false;
+
+        emit FundUnpaused(_msgSender());
+    }
+
+    /**
+     * Called by the guardian to transfer the role to a new address, in any state
+     * @param newGuardian_ New guardian address
+     */
+    function setGuardian(
+        address newGuardian_
+    ) public onlyGuardian {
+        if (newGuardian_ == address(0)) {
+            revert AddressError(newGuardian_);
+        }
+
+        address old_guardian = guardian;
+        guardian = newGuardian_;
+
+        emit GuardianChanged(old_guardian, newGuardian_);
+    }
+
+    //=============================================================//
+    //                     INTERNAL FUNCTIONS                      //
+    //=============================================================//
+
+    /**
+     * Update shares balances, keeping track of investors.
+     * Shares can be transferred between investors only during and after the investment, since before it deposits are still
+     * subject to the investment parameters. Emergency exit votes follow the transferred shares.
+     * @param from_  Sender address (zero when minting)
+     * @param to_    Receiver address (zero when burning)
+     * @param value_ Amount of shares
+     */
+    function _update(
+        address from_,
+        address to_,
+        uint256 value_
+    ) internal override {
+        if ((from_ != address(0)) && (to_ != address(0))) {
+            __checkSharesTransfer(to_);
+            __moveEmergencyExitVotes(from_, to_, value_);
+        }
+
+        if (from_ == address(0)) {
+            _totalShares += value_;
+        }
+        else {
+            uint256 from_balance = _investors.getByKey(from_);
+            if (from_balance < value_) {
+                revert ERC20InsufficientBalance(from_, from_balance, value_);
+            }
+
+            if (from_balance == value_) {
+                _investors.removeByKey(from_);
+            }
+            else {
+                _investors.set(from_, from_balance - value_);
+            }
+        }
+
+        if (to_ == address(0)) {
+            _totalShares -= value_;
+        }
+        else if (value_ != 0) {
+            _investors.add(to_, value_);
+        }
+
+        emit Transfer(from_, to_, value_);
+    }
+
+    /**
+     * Get the caller address, i.e. the original sender if the call is relayed by the trusted forwarder
+     * @return Caller address
+     */
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
 
-        emit InvestorsWithdrawStopped();
+    /**
+     * Get the call data, without the sender address appended by the trusted forwarder
+     * @return Call data
+     */
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    /**
+     * Get the length of the suffix appended to the call data by the trusted forwarder
+     * @return Suffix length
+     */
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
     }
 
     //=============================================================//
@@ -729,29 +2153,505 @@ contract InvestmentFund is
         * @return Investment multiplier
         */
     function __computeMultiplier() private view returns (uint256) {
-        return ((totalAmountAfterInvestment * MULTIPLIER_DECIMALS) / totalAmountBeforeInvestment);
+        return Math.mulDiv(totalAmountAfterInvestment, MULTIPLIER_DECIMALS, totalAmountBeforeInvestment);
+    }
+
+    /**
+     * Compute the fees on the current funds.
+     * The management fee is computed on the initial amount, the performance fee on the profit left after the management fee.
+     * @return managementFee  Management fee
+     * @return performanceFee Performance fee
+     */
+    function __computeFees() private view returns (uint256 managementFee, uint256 performanceFee) {
+        uint256 total_amount = totalDepositedFunds();
+
+        managementFee = (totalAmountBeforeInvestment * managementFeeBps) / BPS_DENOMINATOR;
+        // In case of big losses, the fee cannot be higher than the available funds
+        if (managementFee > total_amount) {
+            managementFee = total_amount;
+        }
+
+        uint256 net_amount = total_amount - managementFee;
+        if (net_amount > totalAmountBeforeInvestment) {
+            performanceFee = ((net_amount - totalAmountBeforeInvestment) * performanceFeeBps) / BPS_DENOMINATOR;
+        }
     }
 
     /**
-     * Compute the amount to withdraw after investment.
-     * @param  initialAmount_ Initial amount
-     * @return Amount to withdraw after investment
+     * Collect the fees by sending them to the fee recipient.
+     * @return managementFee  Management fee
+     * @return performanceFee Performance fee
+     */
+    function __collectFees() private returns (uint256 managementFee, uint256 performanceFee) {
+        (managementFee, performanceFee) = __computeFees();
+
+        uint256 total_fees = managementFee + performanceFee;
+        if (total_fees != 0) {
+            _accountedFunds -= total_fees;
+            __sendFunds(feeRecipient, total_fees);
+
+            emit FeesCollected(currRound, feeRecipient, managementFee, performanceFee);
+        }
+    }
+
+    /**
+     * Compute the amount to withdraw for the specified shares.
+     * After investment, the amount is the shares fraction of the final amount computed in full precision and rounded down,
+     * while the last shares receive all the remaining funds, so no rounding dust is left in the fund.
+     * @param  initialAmount_ Initial amount (i.e. shares)
+     * @return Amount to withdraw
      */
     function __computeAmountToWithdraw(
         uint256 initialAmount_
     ) private view returns (uint256) {
-        return ((initialAmount_ * investmentMultiplier) / MULTIPLIER_DECIMALS);
+        if (currState != InvestmentStates.AFTER_INVESTMENT) {
+            return initialAmount_;
+        }
+        if (initialAmount_ == _totalShares) {
+            return totalDepositedFunds();
+        }
+        return Math.mulDiv(initialAmount_, totalAmountAfterInvestment, totalAmountBeforeInvestment);
+    }
+
+    /**
+     * Return funds to the specified investor after investment, burning all its shares
+     * @param investor_ Investor address
+     * @param shares_   Investor shares
+     * @return Amount sent to the investor
+     */
+    function __returnFundsToInvestor(
+        address investor_,
+        uint256 shares_
+    ) private returns (uint256) {
+        // Compute amount
+        uint256 withdraw_amount = __computeAmountToWithdraw(shares_);
+        // Burn all shares
+        _burn(investor_, shares_);
+        _accountedFunds -= withdraw_amount;
+        // Transfer token
+        __sendFunds(investor_, withdraw_amount);
+
+        return withdraw_amount;
+    }
+
+    /**
+     * Get the end index (excluded) of a batch of investors, limited to the number of investors
+     * @param start_ Start index
+     * @param count_ Maximum number of investors
+     * @return End index
+     */
+    function __batchEnd(
+        uint256 start_,
+        uint256 count_
+    ) private view returns (uint256) {
+        uint256 len = _investors.length();
+        return (start_ >= len || count_ >= len - start_) ? len : start_ + count_;
+    }
+
+    /**
+     * Check a deposit of an investor.
+     * @param investor_   Investor address
+     * @param amount_     Amount to deposit
+     * @param multipleOf_ Deposit multiplicity
+     */
+    function __checkDeposit(
+        address investor_,
+        uint256 amount_,
+        uint256 multipleOf_
+    ) private view {
+        // Check deadline
+        if ((stateDeadline != 0) && (block.timestamp >= stateDeadline)) {
+            revert DeadlineError(stateDeadline);
+        }
+        // Check investor
+        if (allowlistEnabled && !_allowlist[investor_]) {
+            revert InvestorNotAllowedError(investor_);
+        }
+        // Check amount (maximum deposit and hard cap are cumulative)
+        if (
+                (amount_ == 0) ||
+                (amount_ < minInvestorDeposit) || (amount_ > maxInvestorDeposit - _investors.getByKey(investor_)) ||
+                (amount_ > fundHardCap - _accountedFunds) ||
+                ((amount_ % multipleOf_) != 0)
+        ) {
+            revert AmountError(amount_);
+        }
+    }
+
+    /**
+     * Mint the shares of a deposit of an investor.
+     * @param investor_ Investor address
+     * @param amount_   Deposited amount
+     */
+    function __mintDeposit(
+        address investor_,
+        uint256 amount_
+    ) private {
+        _mint(investor_, amount_);
+        _accountedFunds += amount_;
+
+        emit InvestorFundsDeposited(investor_, amount_);
+    }
+
+    /**
+     * Get if the specified address is in a list (i.e. a token accepted by multi-token funds or a registered strategy).
+     * @param list_ List of addresses
+     * @param addr_ Address
+     * @return True if in the list, false otherwise
+     */
+    function __isListed(
+        address[] storage list_,
+        address addr_
+    ) private view returns (bool) {
+        for (uint256 i = 0; i < list_.length; i++) {
+            if (list_[i] == addr_) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Divest all funds from the strategies, accounting the funds actually received back.
+     * Failures are ignored, so a broken strategy cannot block investors withdraw. Running out of gas reverts instead, since
+     * it may be caused by the gas limit chosen by the caller for skipping the strategy.
+     * @return received_amount Amount received back from the strategies
+     */
+    function __divestAll() private returns (uint256 received_amount) {
+        if (!isStrategyMode()) {
+            return 0;
+        }
+
+        uint256 balance = __fundsBalance();
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            uint256 gas_before = gasleft();
+            try IFundStrategy(_strategies[i]).divest() {}
+            catch {
+                // At most 1/64 of the gas is left if the strategy used all the forwarded gas
+                if (gasleft() <= gas_before / 64) {
+                    revert StrategyError();
+                }
+            }
+        }
+        received_amount = __fundsBalance() - balance;
+        _accountedFunds += received_amount;
+
+        emit StrategiesDivested(received_amount);
+    }
+
+    /**
+     * Get the value of the tokens held by multi-token funds, at the current oracle prices.
+     * @return value Value of the held tokens
+     */
+    function __tokensValue() private view returns (uint256 value) {
+        for (uint256 i = 0; i < _fundTokens.length; i++) {
+            value += tokenOracle.tokenValue(_fundTokens[i], _tokenFunds[_fundTokens[i]]);
+        }
+    }
+
+    /**
+     * Receive funds from the caller, i.e. the native currency sent with the call or the tokens transferred from the caller.
+     * @param amount_ Amount to receive
+     * @return Received amount, measured from the balance change (it can be lower than the amount for fee-on-transfer tokens)
+     */
+    function __receiveFunds(
+        uint256 amount_
+    ) private returns (uint256) {
+        // Multi-token funds only receive tokens by means of the token functions
+        if (isMultiToken()) {
+            revert FundTokenError();
+        }
+        if (isNative()) {
+            if (msg.value != amount_) {
+                revert AmountError(msg.value);
+            }
+            return amount_;
+        }
+
+        if (msg.value != 0) {
+            revert AmountError(msg.value);
+        }
+        return __receiveTokens(fundToken, amount_);
+    }
+
+    /**
+     * Receive the specified tokens from the caller.
+     * @param token_  Token
+     * @param amount_ Amount to receive
+     * @return Received amount, measured from the balance change (it can be lower than the amount for fee-on-transfer tokens)
+     */
+    function __receiveTokens(
+        IERC20 token_,
+        uint256 amount_
+    ) private returns (uint256) {
+        uint256 balance = token_.balanceOf(address(this));
+        token_.safeTransferFrom(_msgSender(), address(this), amount_);
+        return token_.balanceOf(address(this)) - balance;
+    }
+
+    /**
+     * Send funds to the specified address, either native currency or tokens.
+     * @param to_     Receiver address
+     * @param amount_ Amount to send
+     */
+    function __sendFunds(
+        address to_,
+        uint256 amount_
+    ) private {
+        if (isMultiToken()) {
+            __sendTokens(to_, amount_);
+        }
+        else if (isNative()) {
+            (bool success, ) = to_.call{value: amount_}("");
+            if (!success) {
+                revert NativeTransferError(to_, amount_);
+            }
+        }
+        else {
+            fundToken.safeTransfer(to_, amount_);
+        }
+    }
+
+    /**
+     * Send the specified value in the tokens of multi-token funds, either in the payout token after investment or pro-rata in the held tokens
+     * (also if there is not enough payout token).
+     * The value shall be already removed from the accounted funds.
+     * @param to_    Receiver address
+     * @param value_ Value to send
+     */
+    function __sendTokens(
+        address to_,
+        uint256 value_
+    ) private {
+        if (value_ == 0) {
+            return;
+        }
+        // The emergency exit pays out pro-rata, so it doesn't depend on prices
+        if ((payoutToken != address(0)) && (currState == InvestmentStates.AFTER_INVESTMENT) && !_rounds[currRound].emergencyExit) {
+            uint256 amount = tokenOracle.tokenAmount(payoutToken, value_);
+            // Pro-rata if the fund doesn't hold enough payout token, so withdrawals never get stuck
+            if (amount <= _tokenFunds[payoutToken]) {
+                __transferToken(payoutToken, to_, amount);
+                return;
+            }
+        }
+
+        uint256 total_value = _accountedFunds + value_;
+        for (uint256 i = 0; i < _fundTokens.length; i++) {
+            address token = _fundTokens[i];
+            __transferToken(token, to_, Math.mulDiv(_tokenFunds[token], value_, total_value));
+        }
+    }
+
+    /**
+     * Transfer the specified amount of a token held by multi-token funds.
+     * @param token_  Token address
+     * @param to_     Receiver address
+     * @param amount_ Amount of tokens
+     */
+    function __transferToken(
+        address token_,
+        address to_,
+        uint256 amount_
+    ) private {
+        if (amount_ > _tokenFunds[token_]) {
+            revert AmountError(amount_);
+        }
+        if (amount_ != 0) {
+            _tokenFunds[token_] -= amount_;
+            IERC20(token_).safeTransfer(to_, amount_);
+        }
+    }
+
+    /**
+     * Get the funds held by the contract, either native currency or tokens.
+     * @return Funds balance
+     */
+    function __fundsBalance() private view returns (uint256) {
+        return isNative() ? address(this).balance : fundToken.balanceOf(address(this));
+    }
+
+    /**
+     * Account all the funds held by the contract, including excess funds and rebases.
+     * For multi-token funds, the held tokens are valued at the current oracle prices.
+     */
+    function __syncFunds() private {
+        _accountedFunds = isMultiToken() ? __tokensValue() : __fundsBalance();
     }
 
     /**
      * Withdraw remaining funds.
+     * @return Amount of withdrawn funds
      */
-    function __withdrawRemainingFunds() private {
+    function __withdrawRemainingFunds() private returns (uint256) {
         uint256 remaining_funds = totalDepositedFunds();
+        _accountedFunds = 0;
 
-        if (remaining_funds != 0) {
-            fundToken.safeTransfer(remainingFundsAddr, remaining_funds);
+        if (isMultiToken()) {
+            // All held tokens, including the ones not used for paying out in the payout token
+            for (uint256 i = 0; i < _fundTokens.length; i++) {
+                __transferToken(_fundTokens[i], remainingFundsAddr, _tokenFunds[_fundTokens[i]]);
+            }
+        }
+        else if (remaining_funds != 0) {
+            __sendFunds(remainingFundsAddr, remaining_funds);
         }
+        return remaining_funds;
+    }
+
+    /**
+     * Add an investor to or remove it from the allowlist.
+     * @param investor_ Investor address
+     * @param allowed_  True for adding, false for removing
+     */
+    function __setInvestorAllowed(
+        address investor_,
+        bool allowed_
+    ) private {
+        if (investor_ == address(0)) {
+            revert AddressError(investor_);
+        }
+
+        _allowlist[investor_] = allowed_;
+
+        emit InvestorAllowlistChanged(investor_, allowed_);
+    }
+
+    /**
+     * Check if the caller is the fund manager.
+     */
+    function __checkFundManager() private view {
+        if (fundManager != _msgSender()) {
+            revert FundManagerCallerError();
+        }
+    }
+
+    /**
+     * Check if the investment state is the specified one.
+     * @param state_ Investment state
+     */
+    function __checkState(
+        InvestmentStates state_
+    ) private view {
+        if (currState != state_) {
+            revert InvestmentStateError();
+        }
+    }
+
+    /**
+     * Check if investors can withdraw, i.e. if the fund is not paused or the investment is not started yet (so investors can always exit).
+     */
+    function __checkWithdrawNotPaused() private view {
+        if (paused && (currState != InvestmentStates.BEFORE_INVESTMENT)) {
+            revert FundPausedError();
+        }
+    }
+
+    /**
+     * Check if shares can be transferred to the specified investor.
+     * @param to_ Receiver address
+     */
+    function __checkSharesTransfer(
+        address to_
+    ) private view {
+        if (paused) {
+            revert FundPausedError();
+        }
+        if ((currState != InvestmentStates.DURING_INVESTMENT) && (currState != InvestmentStates.AFTER_INVESTMENT)) {
+            revert InvestmentStateError();
+        }
+        if (to_ == address(this)) {
+            revert AddressError(to_);
+        }
+        if (allowlistEnabled && !_allowlist[to_]) {
+            revert InvestorNotAllowedError(to_);
+        }
+    }
+
+    /**
+     * Move the emergency exit votes of transferred shares, so that the same shares cannot vote twice.
+     * @param from_  Sender address
+     * @param to_    Receiver address
+     * @param value_ Amount of shares
+     */
+    function __moveEmergencyExitVotes(
+        address from_,
+        address to_,
+        uint256 value_
+    ) private {
+        if (currState != InvestmentStates.DURING_INVESTMENT) {
+            return;
+        }
+
+        if (_emergencyExitVoters[currRound][from_]) {
+            emergencyExitVotes -= value_;
+        }
+        if (_emergencyExitVoters[currRound][to_]) {
+            emergencyExitVotes += value_;
+        }
+    }
+
+    /**
+     * Compute the allowlist Merkle tree leaf of an investor (double hashed, as OpenZeppelin standard Merkle trees).
+     * @param  investor_ Investor address
+     * @return Leaf
+     */
+    function __allowlistLeaf(
+        address investor_
+    ) private pure returns (bytes32) {
+        return keccak256(bytes.concat(keccak256(abi.encode(investor_))));
+    }
+
+    /**
+     * Go to the after investment state, computing the multiplier on the current funds.
+     */
+    function __startInvestorsWithdraw() private {
+        // Update state
+        currState = InvestmentStates.AFTER_INVESTMENT;
+        stateDeadline = __computeDeadline(minWithdrawDuration);
+        emergencyDeadline = 0;
+        // Get final amount after investment
+        totalAmountAfterInvestment = totalDepositedFunds();
+        // Compute multiplier
+        investmentMultiplier = __computeMultiplier();
+        // Update round
+        InvestmentRound storage round = _rounds[currRound];
+        round.totalAmountAfterInvestment = totalAmountAfterInvestment;
+        round.investmentMultiplier = investmentMultiplier;
+
+        emit InvestorsWithdrawStarted(currRound);
+    }
+
+    /**
+     * Trigger the emergency exit, starting investors withdraw without collecting fees.
+     * Tokens sent directly to the contract are accounted as well, since they may be funds returned by the fund manager.
+     * @param byVote_ True if triggered by investors vote, false if triggered by timeout
+     */
+    function __emergencyExit(
+        bool byVote_
+    ) private {
+        // Funds invested in the strategies belong to investors as well
+        __divestAll();
+        // Multi-token funds pay out pro-rata in the held tokens, so they are not valued in case the oracle is not available
+        if (!isMultiToken()) {
+            __syncFunds();
+        }
+        _rounds[currRound].emergencyExit = true;
+
+        emit EmergencyExitTriggered(currRound, byVote_, totalDepositedFunds());
+
+        __startInvestorsWithdraw();
+    }
+
+    /**
+     * Compute the deadline of a state from its duration.
+     * @param  duration_ Duration in seconds
+     * @return Deadline timestamp (zero if the duration is zero)
+     */
+    function __computeDeadline(
+        uint256 duration_
+    ) private view returns (uint256) {
+        return duration_ != 0 ? block.timestamp + duration_ : 0;
     }
 
     /**
@@ -759,6 +2659,7 @@ contract InvestmentFund is
      */
     function __resetState() private {
         currState = InvestmentStates.INITIAL;
+        stateDeadline = 0;
         totalAmountBeforeInvestment = 0;
         totalAmountAfterInvestment = 0;
         investmentMultiplier = MIN_MULTIPLIER;
@@ -0,0 +1,464 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {IERC4626} from "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Context} from "@openzeppelin/contracts/utils/Context.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {InvestmentFund} from "./InvestmentFund.sol";
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  ERC-4626 vault adapter around an investment fund
+ * @notice The adapter deposits in the fund as a single investor and mints vault shares 1:1 with the fund shares it holds,
+ *         so assets are converted to shares using the ratio between the final and initial amounts of the fund.
+ *         Since fund shares are burned when investors withdraw is stopped, vault shares are only valid in the fund round
+ *         where they were minted. In a later round, deposits are accepted only after all vault shares are redeemed.
+ */
+contract InvestmentFundERC4626 is
+    Context,
+    ERC20,
+    IERC4626,
+    ReentrancyGuard
+{
+    using SafeERC20 for IERC20;
+
+    //=============================================================//
+    //                          CONSTANTS                          //
+    //=============================================================//
+
+    /// Shares name
+    string constant SHARES_NAME = "Investment Fund Vault Share";
+    /// Shares symbol
+    string constant SHARES_SYMBOL = "IFVS";
+
+    //=============================================================//
+    //                            ERRORS                           //
+    //=============================================================//
+
+    /**
+     * Error raised if the fund token is not supported (i.e. native currency or fee-on-transfer tokens)
+     */
+    error FundTokenError();
+
+    /**
+     * Error raised if the amount is higher than the maximum allowed one
+     * @param amount    Amount
+     * @param maxAmount Maximum amount
+     */
+    error MaxAmountError(
+        uint256 amount,
+        uint256 maxAmount
+    );
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    /// Investment fund
+    InvestmentFund public immutable fund;
+    /// Asset token, i.e. the fund token when the adapter is constructed
+    IERC20 private immutable _asset;
+    /// Fund round where the current shares were minted (zero if no shares were ever minted)
+    uint256 public fundRound;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param fund_ Investment fund address (only funds denominated in an ERC-20 token are supported)
+     */
+    constructor(
+        address fund_
+    )
+        ERC20(SHARES_NAME, SHARES_SYMBOL)
+    {
+        if (InvestmentFund(payable(fund_)).isNative()) {
+            revert FundTokenError();
+        }
+
+        fund = InvestmentFund(payable(fund_));
+        _asset = InvestmentFund(payable(fund_)).fundToken();
+    }
+
+    //=============================================================//
+    //                    PUBLIC FUNCTIONS (ALL)                   //
+    //=============================================================//
+
+    /**
+     * Get the asset token
+     * @return Asset token address
+     */
+    function asset() public view override returns (address) {
+        return address(_asset);
+    }
+
+    /**
+     * Get the shares decimals, that are the same of the fund shares
+     * @return Shares decimals
+     */
+    function decimals() public view override(ERC20, IERC20Metadata) returns (uint8) {
+        return fund.decimals();
+    }
+
+    /**
+     * Get the total assets managed by the vault, i.e. the value of the fund shares at the current ratio between the final and initial amounts of the fund
+     * @return Total assets (zero if shares are not valid anymore)
+     */
+    function totalAssets() public view override returns (uint256) {
+        return __sharesValid() ? __toAssets(totalSupply(), Math.Rounding.Floor) : 0;
+    }
+
+    /**
+     * Convert assets to shares
+     * @param assets_ Amount of assets
+     * @return Amount of shares
+     */
+    function convertToShares(
+        uint256 assets_
+    ) public view override returns (uint256) {
+        return __toShares(assets_, Math.Rounding.Floor);
+    }
+
+    /**
+     * Convert shares to assets
+     * @param shares_ Amount of shares
+     * @return Amount of assets
+     */
+    function convertToAssets(
+        uint256 shares_
+    ) public view override returns (uint256) {
+        return __toAssets(shares_, Math.Rounding.Floor);
+    }
+
+    /**
+     * Get the maximum amount of assets that can be deposited, which is zero outside investors deposit and for multi-token funds
+     * The fund maximum investor deposit applies to the vault as a whole and the amount is a multiple of the deposit
+     * multiplicity. Deposits lower than the fund minimum investor deposit are rejected by the fund.
+     * @return Maximum amount of assets
+     */
+    function maxDeposit(
+        address
+    ) public view override returns (uint256) {
+        if (!__depositAllowed()) {
+            return 0;
+        }
+
+        uint256 max_amount = Math.min(
+            fund.maxInvestorDeposit() - fund.depositOfInvestor(address(this)),
+            fund.fundHardCap() - fund.totalDepositedFunds()
+        );
+        return max_amount - (max_amount % fund.depositMultipleOf());
+    }
+
+    /**
+     * Preview the shares minted by depositing the specified assets, which are always 1:1 before the investment
+     * @param assets_ Amount of assets
+     * @return Amount of shares
+     */
+    function previewDeposit(
+        uint256 assets_
+    ) public pure override returns (uint256) {
+        return assets_;
+    }
+
+    /**
+     * Deposit assets in the fund and mint the corresponding shares
+     * @param assets_   Amount of assets
+     * @param receiver_ Shares receiver address
+     * @return Amount of shares
+     */
+    function deposit(
+        uint256 assets_,
+        address receiver_
+    ) public override nonReentrant returns (uint256) {
+        uint256 max_assets = maxDeposit(receiver_);
+        if (assets_ > max_assets) {
+            revert MaxAmountError(assets_, max_assets);
+        }
+
+        uint256 shares = previewDeposit(assets_);
+        __deposit(receiver_, assets_, shares);
+        return shares;
+    }
+
+    /**
+     * Get the maximum amount of shares that can be minted, which is the same of the maximum deposit
+     * @param receiver_ Shares receiver address
+     * @return Maximum amount of shares
+     */
+    function maxMint(
+        address receiver_
+    ) public view override returns (uint256) {
+        return maxDeposit(receiver_);
+    }
+
+    /**
+     * Preview the assets needed for minting the specified shares, which are always 1:1 before the investment
+     * @param shares_ Amount of shares
+     * @return Amount of assets
+     */
+    function previewMint(
+        uint256 shares_
+    ) public pure override returns (uint256) {
+        return shares_;
+    }
+
+    /**
+     * Mint shares by depositing the corresponding assets in the fund
+     * @param shares_   Amount of shares
+     * @param receiver_ Shares receiver address
+     * @return Amount of assets
+     */
+    function mint(
+        uint256 shares_,
+        address receiver_
+    ) public override nonReentrant returns (uint256) {
+        uint256 max_shares = maxMint(receiver_);
+        if (shares_ > max_shares) {
+            revert MaxAmountError(shares_, max_shares);
+        }
+
+        uint256 assets = previewMint(shares_);
+        __deposit(receiver_, assets, shares_);
+        return assets;
+    }
+
+    /**
+     * Get the maximum amount of assets that can be withdrawn by the owner
+     * @param owner_ Shares owner address
+     * @return Maximum amount of assets
+     */
+    function maxWithdraw(
+        address owner_
+    ) public view override returns (uint256) {
+        return __toAssets(maxRedeem(owner_), Math.Rounding.Floor);
+    }
+
+    /**
+     * Preview the shares burned by withdrawing the specified assets
+     * @param assets_ Amount of assets
+     * @return Amount of shares
+     */
+    function previewWithdraw(
+        uint256 assets_
+    ) public view override returns (uint256) {
+        return __toShares(assets_, Math.Rounding.Ceil);
+    }
+
+    /**
+     * Withdraw assets from the fund by burning the corresponding shares
+     * Since shares are rounded up, any rounding dust is kept by the vault.
+     * @param assets_   Amount of assets
+     * @param receiver_ Assets receiver address
+     * @param owner_    Shares owner address
+     * @return Amount of shares
+     */
+    function withdraw(
+        uint256 assets_,
+        address receiver_,
+        address owner_
+    ) public override nonReentrant returns (uint256) {
+        uint256 max_assets = maxWithdraw(owner_);
+        if (assets_ > max_assets) {
+            revert MaxAmountError(assets_, max_assets);
+        }
+
+        uint256 shares = previewWithdraw(assets_);
+        __withdraw(receiver_, owner_, assets_, shares);
+        return shares;
+    }
+
+    /**
+     * Get the maximum amount of shares that can be redeemed by the owner, which is zero during the investment
+     * Before the investment, the remaining deposit of the vault in the fund shall still be valid.
+     * Like fund withdrawals, it's zero if the fund is paused only after the investment.
+     * @param owner_ Shares owner address
+     * @return Maximum amount of shares
+     */
+    function maxRedeem(
+        address owner_
+    ) public view override returns (uint256) {
+        InvestmentFund.InvestmentStates curr_state = fund.currState();
+        if ((fund.paused() && (curr_state != InvestmentFund.InvestmentStates.BEFORE_INVESTMENT)) || !__sharesValid()) {
+            return 0;
+        }
+
+        uint256 shares = balanceOf(owner_);
+
+        if (curr_state == InvestmentFund.InvestmentStates.AFTER_INVESTMENT) {
+            return shares;
+        }
+        if (curr_state != InvestmentFund.InvestmentStates.BEFORE_INVESTMENT) {
+            return 0;
+        }
+
+        uint256 fund_deposit = fund.depositOfInvestor(address(this));
+        if (shares == fund_deposit) {
+            return shares;
+        }
+        // The remaining deposit shall not be lower than the minimum and shall be a multiple of the deposit multiplicity
+        uint256 min_remaining = Math.max(fund_deposit - shares, fund.minInvestorDeposit());
+        uint256 remainder = min_remaining % fund.depositMultipleOf();
+        if (remainder != 0) {
+            min_remaining += fund.depositMultipleOf() - remainder;
+        }
+        return fund_deposit - min_remaining;
+    }
+
+    /**
+     * Preview the assets withdrawn by redeeming the specified shares
+     * @param shares_ Amount of shares
+     * @return Amount of assets
+     */
+    function previewRedeem(
+        uint256 shares_
+    ) public view override returns (uint256) {
+        return __toAssets(shares_, Math.Rounding.Floor);
+    }
+
+    /**
+     * Redeem shares by withdrawing the corresponding assets from the fund
+     * @param shares_   Amount of shares
+     * @param receiver_ Assets receiver address
+     * @param owner_    Shares owner address
+     * @return Amount of assets
+     */
+    function redeem(
+        uint256 shares_,
+        address receiver_,
+        address owner_
+    ) public override nonReentrant returns (uint256) {
+        uint256 max_shares = maxRedeem(owner_);
+        if (shares_ > max_shares) {
+            revert MaxAmountError(shares_, max_shares);
+        }
+
+        uint256 assets = previewRedeem(shares_);
+        __withdraw(receiver_, owner_, assets, shares_);
+        return assets;
+    }
+
+    //=============================================================//
+    //                      PRIVATE FUNCTIONS                      //
+    //=============================================================//
+
+    /**
+     * Deposit assets in the fund and mint shares.
+     * @param receiver_ Shares receiver address
+     * @param assets_   Amount of assets
+     * @param shares_   Amount of shares
+     */
+    function __deposit(
+        address receiver_,
+        uint256 assets_,
+        uint256 shares_
+    ) private {
+        if (totalSupply() == 0) {
+            fundRound = fund.currRound();
+        }
+
+        uint256 fund_deposit = fund.depositOfInvestor(address(this));
+        _asset.safeTransferFrom(_msgSender(), address(this), assets_);
+        _asset.forceApprove(address(fund), assets_);
+        fund.investorDeposit(assets_);
+        // Fund shares shall be the same of vault shares, which is not the case for fee-on-transfer tokens
+        if (fund.depositOfInvestor(address(this)) - fund_deposit != shares_) {
+            revert FundTokenError();
+        }
+        _mint(receiver_, shares_);
+
+        emit Deposit(_msgSender(), receiver_, assets_, shares_);
+    }
+
+    /**
+     * Burn shares and withdraw assets from the fund.
+     * @param receiver_ Assets receiver address
+     * @param owner_    Shares owner address
+     * @param assets_   Amount of assets
+     * @param shares_   Amount of shares
+     */
+    function __withdraw(
+        address receiver_,
+        address owner_,
+        uint256 assets_,
+        uint256 shares_
+    ) private {
+        if (_msgSender() != owner_) {
+            _spendAllowance(owner_, _msgSender(), shares_);
+        }
+
+        _burn(owner_, shares_);
+        fund.investorWithdraw(shares_);
+        _asset.safeTransfer(receiver_, assets_);
+
+        emit Withdraw(_msgSender(), receiver_, owner_, assets_, shares_);
+    }
+
+    /**
+     * Convert assets to shares, i.e. 1:1 before investing and scaled by the ratio between the initial and final amounts of the fund after investing.
+     * @param assets_   Amount of assets
+     * @param rounding_ Rounding direction
+     * @return Amount of shares (zero if the final amount is zero)
+     */
+    function __toShares(
+        uint256 assets_,
+        Math.Rounding rounding_
+    ) private view returns (uint256) {
+        if (fund.currState() != InvestmentFund.InvestmentStates.AFTER_INVESTMENT) {
+            return assets_;
+        }
+        uint256 amount_after = fund.totalAmountAfterInvestment();
+        return amount_after != 0 ? Math.mulDiv(assets_, fund.totalAmountBeforeInvestment(), amount_after, rounding_) : 0;
+    }
+
+    /**
+     * Convert shares to assets, i.e. 1:1 before investing and scaled by the ratio between the final and initial amounts of the fund after investing.
+     * @param shares_   Amount of shares
+     * @param rounding_ Rounding direction
+     * @return Amount of assets
+     */
+    function __toAssets(
+        uint256 shares_,
+        Math.Rounding rounding_
+    ) private view returns (uint256) {
+        if (fund.currState() != InvestmentFund.InvestmentStates.AFTER_INVESTMENT) {
+            return shares_;
+        }
+        return Math.mulDiv(shares_, fund.totalAmountAfterInvestment(), fund.totalAmountBeforeInvestment(), rounding_);
+    }
+
+    /**
+     * Get if the fund currently accepts deposits from the vault.
+     * @return True if deposits are accepted, false otherwise
+     */
+    function __depositAllowed() private view returns (bool) {
+        uint256 state_deadline = fund.stateDeadline();
+        return (fund.currState() == InvestmentFund.InvestmentStates.BEFORE_INVESTMENT) &&
+               !fund.paused() &&
+               ((state_deadline == 0) || (block.timestamp < state_deadline)) &&
+               fund.isInvestorAllowed(address(this)) &&
+               // Multi-token funds only accept deposits of tokens by means of investorDepositToken
+               !fund.isMultiToken() &&
+               (address(fund.fundToken()) == address(_asset)) &&
+               ((totalSupply() == 0) || __sharesValid());
+    }
+
+    /**
+     * Get if the current shares are valid, i.e. minted in the current fund round and not burned by the fund.
+     * @return True if valid, false otherwise
+     */
+    function __sharesValid() private view returns (bool) {
+        return (fundRound == fund.currRound()) && (fund.depositOfInvestor(address(this)) >= totalSupply());
+    }
+}
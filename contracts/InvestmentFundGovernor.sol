@@ -0,0 +1,821 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {Address} from "@openzeppelin/contracts/utils/Address.sol";
+import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import {InvestmentFund} from "./InvestmentFund.sol";
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Governor acting as fund manager of an investment fund
+ * @notice The manager calls the fund through the governor. Sensitive actions (withdrawals above the threshold, changes of
+ *         the fund token, the strategies, the fees, the fee recipient, the remaining funds address or the fund manager) shall be
+ *         proposed instead, and they can be executed only after a delay and the approvals of a quorum of co-managers, so investors
+ *         can react before execution. Proposals expire if not executed within a grace period after the delay.
+ *         Funds received from the fund (withdrawals, fees, remaining funds) are forwarded to the manager.
+ */
+contract InvestmentFundGovernor is
+    ReentrancyGuard
+{
+    using SafeERC20 for IERC20;
+
+    //=============================================================//
+    //                          CONSTANTS                          //
+    //=============================================================//
+
+    /// Maximum delay in seconds
+    uint256 constant MAX_DELAY = 30 days;
+    /// Grace period in seconds after the delay, within which a proposal shall be executed
+    uint256 constant GRACE_PERIOD = 14 days;
+
+    //=============================================================//
+    //                        ENUMERATIVES                         //
+    //=============================================================//
+
+    /// Proposal states
+    enum ProposalStates {
+        NONE,
+        QUEUED,
+        EXECUTED,
+        CANCELLED
+    }
+
+    //=============================================================//
+    //                          STRUCTURES                         //
+    //=============================================================//
+
+    /// Proposal
+    struct Proposal {
+        address target;
+        bytes data;
+        uint256 eta;
+        ProposalStates state;
+    }
+
+    //=============================================================//
+    //                            ERRORS                           //
+    //=============================================================//
+
+    /**
+     * Error raised if an address is not valid
+     * @param addr Address
+     */
+    error AddressError(
+        address addr
+    );
+
+    /**
+     * Error raised if a co-manager already approved a proposal
+     * @param proposalId Proposal ID
+     * @param coManager  Co-manager address
+     */
+    error ApprovalError(
+        uint256 proposalId,
+        address coManager
+    );
+
+    /**
+     * Error raised if the call data is shorter than a function selector
+     * @param data Call data
+     */
+    error CallDataError(
+        bytes data
+    );
+
+    /**
+     * Error raised if the caller is not allowed to call the function
+     * @param caller Caller address
+     */
+    error CallerError(
+        address caller
+    );
+
+    /**
+     * Error raised if a proposal is executed before its delay is passed
+     * @param proposalId Proposal ID
+     * @param eta        Timestamp after which the proposal can be executed
+     */
+    error DelayError(
+        uint256 proposalId,
+        uint256 eta
+    );
+
+    /**
+     * Error raised if a proposal is executed after its grace period
+     * @param proposalId Proposal ID
+     * @param expiry     Timestamp after which the proposal cannot be executed
+     */
+    error ExpiredError(
+        uint256 proposalId,
+        uint256 expiry
+    );
+
+    /**
+     * Error raised if a transfer of native currency fails
+     * @param to     Receiver address
+     * @param amount Amount
+     */
+    error NativeTransferError(
+        address to,
+        uint256 amount
+    );
+
+    /**
+     * Error raised if a proposal is not queued (i.e. not existent, already executed or cancelled)
+     * @param proposalId Proposal ID
+     */
+    error ProposalStateError(
+        uint256 proposalId
+    );
+
+    /**
+     * Error raised if a proposal is executed without the approvals of the quorum
+     * @param proposalId Proposal ID
+     * @param approvals  Current approvals
+     */
+    error QuorumError(
+        uint256 proposalId,
+        uint256 approvals
+    );
+
+    /**
+     * Error raised if a sensitive call is not proposed
+     * @param selector Function selector
+     */
+    error SensitiveCallError(
+        bytes4 selector
+    );
+
+    /**
+     * Error raised if a value is not valid
+     * @param value Value
+     */
+    error ValueError(
+        uint256 value
+    );
+
+    //=============================================================//
+    //                          MODIFIERS                          //
+    //=============================================================//
+
+    /**
+     * Modifier to check if the caller is the manager
+     */
+    modifier onlyManager() {
+        if (msg.sender != manager) {
+            revert CallerError(msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * Modifier to check if the caller is the manager or a co-manager
+     */
+    modifier onlyManagers() {
+        if ((msg.sender != manager) && !isCoManager[msg.sender]) {
+            revert CallerError(msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * Modifier to check if the caller is the governor itself (i.e. an executed proposal)
+     */
+    modifier onlySelf() {
+        if (msg.sender != address(this)) {
+            revert CallerError(msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * Modifier to check if a proposal is queued
+     * @param proposalId_ Proposal ID
+     */
+    modifier onlyQueued(
+        uint256 proposalId_
+    ) {
+        if (_proposals[proposalId_].state != ProposalStates.QUEUED) {
+            revert ProposalStateError(proposalId_);
+        }
+        _;
+    }
+
+    //=============================================================//
+    //                            EVENTS                           //
+    //=============================================================//
+
+    /**
+     * Event emitted when a proposal is created
+     * @param proposalId Proposal ID
+     * @param target     Target address (either the fund or the governor)
+     * @param data       Call data
+     * @param eta        Timestamp after which the proposal can be executed
+     */
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed target,
+        bytes data,
+        uint256 eta
+    );
+
+    /**
+     * Event emitted when a co-manager approves a proposal
+     * @param proposalId Proposal ID
+     * @param coManager  Co-manager address
+     */
+    event ProposalApproved(
+        uint256 indexed proposalId,
+        address indexed coManager
+    );
+
+    /**
+     * Event emitted when a proposal is executed
+     * @param proposalId Proposal ID
+     */
+    event ProposalExecuted(
+        uint256 indexed proposalId
+    );
+
+    /**
+     * Event emitted when a proposal is cancelled
+     * @param proposalId Proposal ID
+     * @param canceller  Address that cancelled the proposal
+     */
+    event ProposalCancelled(
+        uint256 indexed proposalId,
+        address indexed canceller
+    );
+
+    /**
+     * Event emitted when changing the manager
+     * @param oldManager Old manager address
+     * @param newManager New manager address
+     */
+    event ManagerChanged(
+        address oldManager,
+        address newManager
+    );
+
+    /**
+     * Event emitted when adding or removing a co-manager
+     * @param coManager Co-manager address
+     * @param enabled   True if added, false if removed
+     */
+    event CoManagerChanged(
+        address indexed coManager,
+        bool enabled
+    );
+
+    /**
+     * Event emitted when changing the quorum
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event QuorumChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when changing the delay
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event DelayChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    /**
+     * Event emitted when changing the withdraw threshold
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event WithdrawThresholdChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    /// Investment fund
+    InvestmentFund public immutable fund;
+    /// Manager, i.e. the address calling the fund and receiving its funds
+    address public manager;
+    /// Co-managers approving the proposals
+    mapping(address => bool) public isCoManager;
+    /// Number of co-managers approvals needed for executing proposals (zero if not needed)
+    uint256 public quorum;
+    /// Delay in seconds between the creation and the execution of proposals
+    uint256 public delay;
+    /// Maximum amount that can be withdrawn from the fund in a round without proposals (zero if all withdrawals shall be proposed)
+    uint256 public withdrawThreshold;
+    /// Amount withdrawn without proposals in each fund round
+    mapping(uint256 => uint256) public withdrawnAmounts;
+    /// Number of proposals
+    uint256 public proposalsNum;
+    /// Co-managers list
+    address[] private _coManagers;
+    /// Proposals
+    mapping(uint256 => Proposal) private _proposals;
+    /// Approvals of co-managers for each proposal
+    mapping(uint256 => mapping(address => bool)) private _approvals;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * The governor shall then become the fund manager, by being set as pending fund manager and calling acceptFundManager.
+     * @param fund_              Investment fund address
+     * @param manager_           Manager address
+     * @param coManagers_        Co-managers addresses
+     * @param quorum_            Number of co-managers approvals needed for executing proposals
+     * @param delay_             Delay in seconds between the creation and the execution of proposals
+     * @param withdrawThreshold_ Maximum amount that can be withdrawn from the fund in a round without proposals
+     */
+    constructor(
+        address fund_,
+        address manager_,
+        address[] memory coManagers_,
+        uint256 quorum_,
+        uint256 delay_,
+        uint256 withdrawThreshold_
+    ) {
+        if (fund_ == address(0)) {
+            revert AddressError(fund_);
+        }
+        if (manager_ == address(0)) {
+            revert AddressError(manager_);
+        }
+
+        fund = InvestmentFund(payable(fund_));
+        manager = manager_;
+        for (uint256 i = 0; i < coManagers_.length; i++) {
+            __addCoManager(coManagers_[i]);
+        }
+        __setQuorum(quorum_);
+        __setDelay(delay_);
+        withdrawThreshold = withdrawThreshold_;
+    }
+
+    //=============================================================//
+    //                           RECEIVE                           //
+    //=============================================================//
+
+    /**
+     * Receive native currency from the fund, that is forwarded to the manager
+     */
+    receive() external payable {}
+
+    //=============================================================//
+    //                    PUBLIC FUNCTIONS (ALL)                   //
+    //=============================================================//
+
+    /**
+     * Get the co-managers
+     * @return Co-managers addresses
+     */
+    function coManagers() external view returns (address[] memory) {
+        return _coManagers;
+    }
+
+    /**
+     * Get the specified proposal
+     * @param proposalId_ Proposal ID
+     * @return Proposal
+     */
+    function proposal(
+        uint256 proposalId_
+    ) external view returns (Proposal memory) {
+        return _proposals[proposalId_];
+    }
+
+    /**
+     * Get the timestamp after which the specified proposal cannot be executed
+     * @param proposalId_ Proposal ID
+     * @return Expiry timestamp
+     */
+    function proposalExpiry(
+        uint256 proposalId_
+    ) public view returns (uint256) {
+        return _proposals[proposalId_].eta + GRACE_PERIOD;
+    }
+
+    /**
+     * Get the approvals of the specified proposal by the current co-managers
+     * @param proposalId_ Proposal ID
+     * @return approvals Number of approvals
+     */
+    function proposalApprovals(
+        uint256 proposalId_
+    ) public view returns (uint256 approvals) {
+        for (uint256 i = 0; i < _coManagers.length; i++) {
+            if (_approvals[proposalId_][_coManagers[i]]) {
+                approvals++;
+            }
+        }
+    }
+
+    /**
+     * Get if the specified co-manager approved the specified proposal
+     * @param proposalId_ Proposal ID
+     * @param coManager_  Co-manager address
+     * @return True if approved, false otherwise
+     */
+    function hasApproved(
+        uint256 proposalId_,
+        address coManager_
+    ) external view returns (bool) {
+        return _approvals[proposalId_][coManager_];
+    }
+
+    /**
+     * Get if the specified call to the fund is sensitive, so it shall be proposed instead of being called directly
+     * @param data_ Call data
+     * @return True if sensitive, false otherwise
+     */
+    function isSensitiveCall(
+        bytes calldata data_
+    ) public view returns (bool) {
+        if (data_.length < 4) {
+            return false;
+        }
+
+        bytes4 selector = bytes4(data_[:4]);
+        if (
+            (selector == InvestmentFund.setFundToken.selector) ||
+            (selector == InvestmentFund.setFundTokens.selector) ||
+            (selector == InvestmentFund.setStrategies.selector) ||
+            (selector == InvestmentFund.setManagementFee.selector) ||
+            (selector == InvestmentFund.setPerformanceFee.selector) ||
+            (selector == InvestmentFund.setFeeRecipient.selector) ||
+            (selector == InvestmentFund.setRemainingFundsAddress.selector) ||
+            (selector == InvestmentFund.setPendingFundManager.selector)
+        ) {
+            return true;
+        }
+        // The threshold is cumulative, so it cannot be bypassed by splitting withdrawals
+        uint256 withdraw_amount = __withdrawAmount(data_);
+        uint256 withdrawn_amount = withdrawnAmounts[fund.currRound()];
+        return (withdraw_amount != 0) && ((withdrawn_amount >= withdrawThreshold) || (withdraw_amount > withdrawThreshold - withdrawn_amount));
+    }
+
+    /**
+     * Forward the funds held by the governor (e.g. fees or remaining funds sent by the fund) to the manager
+     */
+    function forwardFunds() external nonReentrant {
+        __forwardFunds();
+    }
+
+    //=============================================================//
+    //                 PUBLIC FUNCTIONS (MANAGERS)                 //
+    //=============================================================//
+
+    /**
+     * Called by the manager to call the fund directly, if the call is not sensitive
+     * Tokens deposited by the fund manager are transferred from the manager, which shall approve them to the governor.
+     * @param data_ Call data
+     */
+    function callFund(
+        bytes calldata data_
+    ) external payable onlyManager nonReentrant {
+        if (data_.length < 4) {
+            revert CallDataError(data_);
+        }
+        if (isSensitiveCall(data_)) {
+            revert SensitiveCallError(bytes4(data_[:4]));
+        }
+
+        withdrawnAmounts[fund.currRound()] += __withdrawAmount(data_);
+        __prepareDeposit(data_);
+        Address.functionCallWithValue(address(fund), data_, msg.value);
+        __forwardFunds();
+    }
+
+    /**
+     * Called by the manager to propose a call to the fund or to the governor itself (e.g. for changing the co-managers)
+     * @param target_ Target address (either the fund or the governor)
+     * @param data_   Call data
+     * @return proposalId Proposal ID
+     */
+    function propose(
+        address target_,
+        bytes calldata data_
+    ) external onlyManager returns (uint256 proposalId) {
+        if ((target_ != address(fund)) && (target_ != address(this))) {
+            revert AddressError(target_);
+        }
+
+        proposalId = ++proposalsNum;
+        _proposals[proposalId] = Proposal({
+            target: target_,
+            data: data_,
+            eta: block.timestamp + delay,
+            state: ProposalStates.QUEUED
+        });
+
+        emit ProposalCreated(proposalId, target_, data_, block.timestamp + delay);
+    }
+
+    /**
+     * Called by a co-manager to approve a proposal
+     * @param proposalId_ Proposal ID
+     */
+    function approve(
+        uint256 proposalId_
+    ) external onlyQueued(proposalId_) {
+        if (!isCoManager[msg.sender]) {
+            revert CallerError(msg.sender);
+        }
+        if (_approvals[proposalId_][msg.sender]) {
+            revert ApprovalError(proposalId_, msg.sender);
+        }
+
+        _approvals[proposalId_][msg.sender] = true;
+
+        emit ProposalApproved(proposalId_, msg.sender);
+    }
+
+    /**
+     * Called by the manager or a co-manager to execute a proposal, after its delay and before its expiry, with the approvals of the quorum
+     * @param proposalId_ Proposal ID
+     */
+    function execute(
+        uint256 proposalId_
+    ) external onlyManagers onlyQueued(proposalId_) nonReentrant {
+        Proposal storage prop = _proposals[proposalId_];
+        if (block.timestamp < prop.eta) {
+            revert DelayError(proposalId_, prop.eta);
+        }
+        uint256 expiry = proposalExpiry(proposalId_);
+        if (block.timestamp > expiry) {
+            revert ExpiredError(proposalId_, expiry);
+        }
+        uint256 approvals = proposalApprovals(proposalId_);
+        if (approvals < quorum) {
+            revert QuorumError(proposalId_, approvals);
+        }
+
+        prop.state = ProposalStates.EXECUTED;
+        Address.functionCall(prop.target, prop.data);
+        __forwardFunds();
+
+        emit ProposalExecuted(proposalId_);
+    }
+
+    /**
+     * Called by the manager or a co-manager to cancel a proposal
+     * @param proposalId_ Proposal ID
+     */
+    function cancel(
+        uint256 proposalId_
+    ) external onlyManagers onlyQueued(proposalId_) {
+        _proposals[proposalId_].state = ProposalStates.CANCELLED;
+
+        emit ProposalCancelled(proposalId_, msg.sender);
+    }
+
+    //=============================================================//
+    //                  PUBLIC FUNCTIONS (PROPOSALS)               //
+    //=============================================================//
+
+    /**
+     * Set the manager
+     * @param manager_ Manager address
+     */
+    function setManager(
+        address manager_
+    ) external onlySelf {
+        if (manager_ == address(0)) {
+            revert AddressError(manager_);
+        }
+
+        address old_manager = manager;
+        manager = manager_;
+
+        emit ManagerChanged(old_manager, manager_);
+    }
+
+    /**
+     * Add a co-manager
+     * @param coManager_ Co-manager address
+     */
+    function addCoManager(
+        address coManager_
+    ) external onlySelf {
+        __addCoManager(coManager_);
+    }
+
+    /**
+     * Remove a co-manager, whose approvals are not counted anymore
+     * @param coManager_ Co-manager address
+     */
+    function removeCoManager(
+        address coManager_
+    ) external onlySelf {
+        if (!isCoManager[coManager_]) {
+            revert AddressError(coManager_);
+        }
+        // The quorum shall be lowered first
+        if (_coManagers.length == quorum) {
+            revert ValueError(quorum);
+        }
+
+        for (uint256 i = 0; i < _coManagers.length; i++) {
+            if (_coManagers[i] == coManager_) {
+                _coManagers[i] = _coManagers[_coManagers.length - 1];
+                _coManagers.pop();
+                break;
+            }
+        }
+        isCoManager[coManager_] = false;
+
+        emit CoManagerChanged(coManager_, false);
+    }
+
+    /**
+     * Set the quorum
+     * @param quorum_ Number of co-managers approvals (zero if not needed)
+     */
+    function setQuorum(
+        uint256 quorum_
+    ) external onlySelf {
+        __setQuorum(quorum_);
+    }
+
+    /**
+     * Set the delay
+     * @param delay_ Delay in seconds
+     */
+    function setDelay(
+        uint256 delay_
+    ) external onlySelf {
+        __setDelay(delay_);
+    }
+
+    /**
+     * Set the withdraw threshold
+     * @param withdrawThreshold_ Maximum amount that can be withdrawn in a round without proposals
+     */
+    function setWithdrawThreshold(
+        uint256 withdrawThreshold_
+    ) external onlySelf {
+        uint256 old_value = withdrawThreshold;
+        withdrawThreshold = withdrawThreshold_;
+
+        emit WithdrawThresholdChanged(old_value, withdrawThreshold_);
+    }
+
+    //=============================================================//
+    //                      PRIVATE FUNCTIONS                      //
+    //=============================================================//
+
+    /**
+     * Add a co-manager.
+     * @param coManager_ Co-manager address
+     */
+    function __addCoManager(
+        address coManager_
+    ) private {
+        if ((coManager_ == address(0)) || (coManager_ == manager) || isCoManager[coManager_]) {
+            revert AddressError(coManager_);
+        }
+
+        _coManagers.push(coManager_);
+        isCoManager[coManager_] = true;
+
+        emit CoManagerChanged(coManager_, true);
+    }
+
+    /**
+     * Set the quorum.
+     * @param quorum_ Number of co-managers approvals, not higher than the co-managers
+     */
+    function __setQuorum(
+        uint256 quorum_
+    ) private {
+        if (quorum_ > _coManagers.length) {
+            revert ValueError(quorum_);
+        }
+
+        uint256 old_value = quorum;
+        quorum = quorum_;
+
+        emit QuorumChanged(old_value, quorum_);
+    }
+
+    /**
+     * Set the delay.
+     * @param delay_ Delay in seconds, not higher than the maximum delay
+     */
+    function __setDelay(
+        uint256 delay_
+    ) private {
+        if (delay_ > MAX_DELAY) {
+            revert ValueError(delay_);
+        }
+
+        uint256 old_value = delay;
+        delay = delay_;
+
+        emit DelayChanged(old_value, delay_);
+    }
+
+    /**
+     * Get the amount withdrawn by the specified call to the fund.
+     * For multi-token funds, withdrawals are valued by the token oracle.
+     * @param data_ Call data
+     * @return Withdrawn amount (zero if the call is not a withdrawal)
+     */
+    function __withdrawAmount(
+        bytes calldata data_
+    ) private view returns (uint256) {
+        bytes4 selector = bytes4(data_[:4]);
+        if (selector == InvestmentFund.fundManagerWithdraw.selector) {
+            return abi.decode(data_[4:], (uint256));
+        }
+        if (selector == InvestmentFund.fundManagerWithdrawAll.selector) {
+            return fund.totalDepositedFunds();
+        }
+        if (selector == InvestmentFund.fundManagerWithdrawToken.selector) {
+            (address token, uint256 amount) = abi.decode(data_[4:], (address, uint256));
+            return fund.tokenOracle().tokenValue(token, amount);
+        }
+        return 0;
+    }
+
+    /**
+     * Transfer the tokens deposited by the specified call from the manager and approve them to the fund.
+     * @param data_ Call data
+     */
+    function __prepareDeposit(
+        bytes calldata data_
+    ) private {
+        bytes4 selector = bytes4(data_[:4]);
+        if ((selector == InvestmentFund.fundManagerDeposit.selector) && !fund.isNative()) {
+            __pullTokens(fund.fundToken(), abi.decode(data_[4:], (uint256)));
+        }
+        else if (selector == InvestmentFund.fundManagerDepositToken.selector) {
+            (address token, uint256 amount) = abi.decode(data_[4:], (address, uint256));
+            __pullTokens(IERC20(token), amount);
+        }
+    }
+
+    /**
+     * Transfer the specified tokens from the manager and approve them to the fund.
+     * @param token_  Token
+     * @param amount_ Amount
+     */
+    function __pullTokens(
+        IERC20 token_,
+        uint256 amount_
+    ) private {
+        token_.safeTransferFrom(manager, address(this), amount_);
+        token_.forceApprove(address(fund), amount_);
+    }
+
+    /**
+     * Forward the funds held by the governor to the manager, i.e. native currency, fund token and tokens of multi-token funds.
+     */
+    function __forwardFunds() private {
+        uint256 balance = address(this).balance;
+        if (balance != 0) {
+            (bool success, ) = manager.call{value: balance}("");
+            if (!success) {
+                revert NativeTransferError(manager, balance);
+            }
+        }
+
+        if (!fund.isNative()) {
+            __forwardToken(fund.fundToken());
+        }
+        address[] memory tokens = fund.fundTokens();
+        for (uint256 i = 0; i < tokens.length; i++) {
+            __forwardToken(IERC20(tokens[i]));
+        }
+    }
+
+    /**
+     * Forward the specified token held by the governor to the manager.
+     * @param token_ Token
+     */
+    function __forwardToken(
+        IERC20 token_
+    ) private {
+        uint256 balance = token_.balanceOf(address(this));
+        if (balance != 0) {
+            token_.safeTransfer(manager, balance);
+        }
+    }
+}
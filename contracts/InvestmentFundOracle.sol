@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {Math} from "@openzeppelin/contracts/utils/math/Math.sol";
+import {AggregatorV3Interface} from "./interfaces/AggregatorV3Interface.sol";
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Price oracle for multi-token investment funds
+ * @notice Tokens are valued by means of Chainlink-compatible price feeds, set by the owner for each token.
+ *         Values are expressed in a common unit with 18 decimals (i.e. the unit of the feeds answers, e.g. USD).
+ */
+contract InvestmentFundOracle is
+    Ownable
+{
+    //=============================================================//
+    //                          CONSTANTS                          //
+    //=============================================================//
+
+    /// Decimals of values
+    uint8 constant VALUE_DECIMALS = 18;
+
+    //=============================================================//
+    //                            ERRORS                           //
+    //=============================================================//
+
+    /**
+     * Error raised if the price of a token is not valid (i.e. not positive)
+     * @param token Token address
+     * @param price Price
+     */
+    error PriceError(
+        address token,
+        int256 price
+    );
+
+    /**
+     * Error raised if a token has no price feed
+     * @param token Token address
+     */
+    error PriceFeedError(
+        address token
+    );
+
+    /**
+     * Error raised if the price of a token is older than the maximum price age
+     * @param token     Token address
+     * @param updatedAt Timestamp of the price
+     */
+    error StalePriceError(
+        address token,
+        uint256 updatedAt
+    );
+
+    //=============================================================//
+    //                            EVENTS                           //
+    //=============================================================//
+
+    /**
+     * Event emitted when changing the price feed of a token
+     * @param token   Token address
+     * @param oldFeed Old price feed address
+     * @param newFeed New price feed address (zero if removed)
+     */
+    event PriceFeedChanged(
+        address indexed token,
+        address oldFeed,
+        address newFeed
+    );
+
+    /**
+     * Event emitted when changing the maximum price age
+     * @param oldValue Old value
+     * @param newValue New value
+     */
+    event MaxPriceAgeChanged(
+        uint256 oldValue,
+        uint256 newValue
+    );
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    /// Price feed of each token
+    mapping(address => AggregatorV3Interface) public priceFeeds;
+    /// Maximum age in seconds of prices, older prices are considered stale (zero if not used)
+    uint256 public maxPriceAge;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param maxPriceAge_ Maximum age in seconds of prices (zero if not used)
+     */
+    constructor(
+        uint256 maxPriceAge_
+    )
+        Ownable(_msgSender())
+    {
+        maxPriceAge = maxPriceAge_;
+    }
+
+    //=============================================================//
+    //                    PUBLIC FUNCTIONS (ALL)                   //
+    //=============================================================//
+
+    /**
+     * Get the price of the specified token
+     * @param token_ Token address
+     * @return price    Price of one token unit
+     * @return decimals Price decimals
+     */
+    function priceOf(
+        address token_
+    ) public view returns (uint256 price, uint8 decimals) {
+        AggregatorV3Interface feed = priceFeeds[token_];
+        if (address(feed) == address(0)) {
+            revert PriceFeedError(token_);
+        }
+
+        (, int256 answer, , uint256 updated_at, ) = feed.latestRoundData();
+        if (answer <= 0) {
+            revert PriceError(token_, answer);
+        }
+        if ((maxPriceAge != 0) && (block.timestamp > updated_at + maxPriceAge)) {
+            revert StalePriceError(token_, updated_at);
+        }
+        return (uint256(answer), feed.decimals());
+    }
+
+    /**
+     * Get the value of the specified amount of tokens, rounded down
+     * @param token_  Token address
+     * @param amount_ Amount of tokens
+     * @return Value, with 18 decimals
+     */
+    function tokenValue(
+        address token_,
+        uint256 amount_
+    ) external view returns (uint256) {
+        (uint256 price, uint8 price_decimals) = priceOf(token_);
+        return Math.mulDiv(amount_, price * 10**VALUE_DECIMALS, 10**(IERC20Metadata(token_).decimals() + price_decimals));
+    }
+
+    /**
+     * Get the amount of tokens corresponding to the specified value, rounded down
+     * @param token_ Token address
+     * @param value_ Value, with 18 decimals
+     * @return Amount of tokens
+     */
+    function tokenAmount(
+        address token_,
+        uint256 value_
+    ) external view returns (uint256) {
+        (uint256 price, uint8 price_decimals) = priceOf(token_);
+        return Math.mulDiv(value_, 10**(IERC20Metadata(token_).decimals() + price_decimals), price * 10**VALUE_DECIMALS);
+    }
+
+    //=============================================================//
+    //                   PUBLIC FUNCTIONS (OWNER)                  //
+    //=============================================================//
+
+    /**
+     * Set the price feed of the specified token
+     * @param token_ Token address
+     * @param feed_  Price feed address (zero for removing it)
+     */
+    function setPriceFeed(
+        address token_,
+        address feed_
+    ) external onlyOwner {
+        address old_feed = address(priceFeeds[token_]);
+        priceFeeds[token_] = AggregatorV3Interface(feed_);
+
+        emit PriceFeedChanged(token_, old_feed, feed_);
+    }
+
+    /**
+     * Set the maximum age of prices
+     * @param maxPriceAge_ Maximum age in seconds (zero if not used)
+     */
+    function setMaxPriceAge(
+        uint256 maxPriceAge_
+    ) external onlyOwner {
+        uint256 old_value = maxPriceAge;
+        maxPriceAge = maxPriceAge_;
+
+        emit MaxPriceAgeChanged(old_value, maxPriceAge_);
+    }
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+
+/**
+ * @title  Chainlink price feed interface
+ * @notice Same interface of Chainlink AggregatorV3Interface, so that any Chainlink-compatible price feed can be used
+ */
+interface AggregatorV3Interface {
+    /**
+     * Get the decimals of the answer
+     * @return Decimals
+     */
+    function decimals() external view returns (uint8);
+
+    /**
+     * Get the description of the price feed
+     * @return Description
+     */
+    function description() external view returns (string memory);
+
+    /**
+     * Get the version of the price feed
+     * @return Version
+     */
+    function version() external view returns (uint256);
+
+    /**
+     * Get the data of the specified round
+     * @param _roundId Round ID
+     * @return roundId         Round ID
+     * @return answer          Answer (i.e. price)
+     * @return startedAt       Timestamp when the round started
+     * @return updatedAt       Timestamp when the round was updated
+     * @return answeredInRound Round ID where the answer was computed
+     */
+    function getRoundData(
+        uint80 _roundId
+    ) external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+
+    /**
+     * Get the data of the latest round
+     * @return roundId         Round ID
+     * @return answer          Answer (i.e. price)
+     * @return startedAt       Timestamp when the round started
+     * @return updatedAt       Timestamp when the round was updated
+     * @return answeredInRound Round ID where the answer was computed
+     */
+    function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound);
+}
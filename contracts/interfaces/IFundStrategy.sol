@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+
+/**
+ * @title  Investment strategy interface
+ * @notice Strategies receive the funds invested by the fund (in the fund token, or in native currency for native funds)
+ *         and send them back to it when divesting.
+ */
+interface IFundStrategy {
+    /**
+     * Called by the fund after sending the specified amount of funds to the strategy
+     * @param amount Amount of funds sent
+     */
+    function invest(uint256 amount) external;
+
+    /**
+     * Called by the fund to get back all the funds, that shall be sent to the caller
+     */
+    function divest() external;
+
+    /**
+     * Get the total value of the funds held by the strategy, in the fund token
+     * It's only reported off-chain (e.g. by the client), since the fund accounts the funds actually received when divesting
+     * @return Total value
+     */
+    function totalValue() external view returns (uint256);
+}
@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {ERC20FixedSupply} from "./ERC20FixedSupply.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock ERC20 token with custom decimals (e.g. for mocking stablecoins with 6 decimals)
+ */
+contract MockDecimalsToken is
+    ERC20FixedSupply
+{
+    //=============================================================//
+    //                           CONSTANTS                         //
+    //=============================================================//
+
+    // Token name
+    string constant private TOKEN_NAME = "Mock Decimals Token";
+    // Token symbol
+    string constant private TOKEN_SYMBOL = "MDT";
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    // Token decimals
+    uint8 private _decimals;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param decimals_      Token decimals
+     * @param initialSupply_ Initial supply
+     */
+    constructor (
+        uint8 decimals_,
+        uint256 initialSupply_
+    )
+        ERC20FixedSupply(TOKEN_NAME, TOKEN_SYMBOL, initialSupply_)
+    {
+        _decimals = decimals_;
+    }
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Get the token decimals
+     * @return Token decimals
+     */
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+}
@@ -0,0 +1,92 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {ERC20FixedSupply} from "./ERC20FixedSupply.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock ERC20 token that burns a fee on each transfer
+ */
+contract MockFeeOnTransferToken is
+    ERC20FixedSupply
+{
+    //=============================================================//
+    //                           CONSTANTS                         //
+    //=============================================================//
+
+    // Token name
+    string constant private TOKEN_NAME = "Mock Fee Token";
+    // Token symbol
+    string constant private TOKEN_SYMBOL = "MFT";
+    // Basis points denominator
+    uint256 constant private BPS_DENOMINATOR = 10000;
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    // Transfer fee in basis points
+    uint256 public feeBps;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param initialSupply_ Initial supply
+     * @param feeBps_        Transfer fee in basis points
+     */
+    constructor (
+        uint256 initialSupply_,
+        uint256 feeBps_
+    )
+        ERC20FixedSupply(TOKEN_NAME, TOKEN_SYMBOL, initialSupply_)
+    {
+        feeBps = feeBps_;
+    }
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Set the transfer fee
+     * @param feeBps_ Transfer fee in basis points
+     */
+    function setFeeBps(
+        uint256 feeBps_
+    ) external {
+        feeBps = feeBps_;
+    }
+
+    //=============================================================//
+    //                     INTERNAL FUNCTIONS                      //
+    //=============================================================//
+
+    /**
+     * Transfer tokens, burning the fee (minting and burning are not subject to the fee)
+     * @param from_  Sender address
+     * @param to_    Receiver address
+     * @param value_ Amount
+     */
+    function _update(
+        address from_,
+        address to_,
+        uint256 value_
+    ) internal override {
+        if ((from_ == address(0)) || (to_ == address(0))) {
+            super._update(from_, to_, value_);
+            return;
+        }
+
+        uint256 fee = (value_ * feeBps) / BPS_DENOMINATOR;
+        super._update(from_, address(0), fee);
+        super._update(from_, to_, value_ - fee);
+    }
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock ERC-2771 trusted forwarder, that relays calls appending the sender address to the call data
+ * @notice Signatures of the relayed requests are not verified, so it shall only be used for testing
+ */
+contract MockForwarder
+{
+    //=============================================================//
+    //                           ERRORS                            //
+    //=============================================================//
+
+    /**
+     * Error raised if the relayed call fails
+     * @param returnData Data returned by the call
+     */
+    error RelayError(
+        bytes returnData
+    );
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Relay a call on behalf of the specified sender, forwarding the value sent with the call
+     * @param from_ Sender address
+     * @param to_   Target address
+     * @param data_ Call data
+     */
+    function execute(
+        address from_,
+        address to_,
+        bytes calldata data_
+    ) external payable {
+        (bool success, bytes memory return_data) = to_.call{value: msg.value}(abi.encodePacked(data_, from_));
+        if (!success) {
+            revert RelayError(return_data);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {InvestmentFund} from "../InvestmentFund.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock investor of a native fund, that can try to reenter the fund when receiving funds
+ */
+contract MockNativeInvestor
+{
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    // Investment fund
+    InvestmentFund public immutable fund;
+    // True for reentering the fund when receiving funds
+    bool public reenter;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param fund_ Investment fund address
+     */
+    constructor (
+        address fund_
+    ) {
+        fund = InvestmentFund(payable(fund_));
+    }
+
+    //=============================================================//
+    //                          RECEIVE                            //
+    //=============================================================//
+
+    /**
+     * Receive funds, reentering the fund if required
+     */
+    receive() external payable {
+        if (reenter) {
+            fund.investorWithdrawAll();
+        }
+    }
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Set if the fund shall be reentered when receiving funds
+     * @param reenter_ True for reentering, false otherwise
+     */
+    function setReenter(
+        bool reenter_
+    ) external {
+        reenter = reenter_;
+    }
+
+    /**
+     * Deposit the native currency sent with the call in the fund
+     */
+    function deposit() external payable {
+        fund.investorDeposit{value: msg.value}(msg.value);
+    }
+
+    /**
+     * Withdraw all funds from the fund
+     */
+    function withdrawAll() external {
+        fund.investorWithdrawAll();
+    }
+}
@@ -0,0 +1,145 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {ERC20FixedSupply} from "./ERC20FixedSupply.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock ERC20 token supporting EIP-2612 permits
+ */
+contract MockPermitToken is
+    ERC20FixedSupply,
+    IERC20Permit,
+    Nonces
+{
+    //=============================================================//
+    //                           CONSTANTS                         //
+    //=============================================================//
+
+    // Token name
+    string constant private TOKEN_NAME = "Mock Permit Token";
+    // Token symbol
+    string constant private TOKEN_SYMBOL = "MPT";
+    // EIP-712 domain version
+    string constant private DOMAIN_VERSION = "1";
+    // EIP-712 domain type hash
+    bytes32 constant private DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    // Permit type hash
+    bytes32 constant private PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    //=============================================================//
+    //                           ERRORS                            //
+    //=============================================================//
+
+    /**
+     * Error raised if the permit deadline is expired
+     * @param deadline Permit deadline
+     */
+    error ERC2612ExpiredSignature(
+        uint256 deadline
+    );
+
+    /**
+     * Error raised if the permit signer is not the owner
+     * @param signer Recovered signer
+     * @param owner  Owner address
+     */
+    error ERC2612InvalidSigner(
+        address signer,
+        address owner
+    );
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param initialSupply_ Initial supply
+     */
+    constructor (
+        uint256 initialSupply_
+    )
+        ERC20FixedSupply(TOKEN_NAME, TOKEN_SYMBOL, initialSupply_)
+    {}
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Set the allowance of the spender over the owner tokens, given the owner signed approval
+     * @param owner_    Owner address
+     * @param spender_  Spender address
+     * @param value_    Allowance
+     * @param deadline_ Permit deadline
+     * @param v_        Signature v
+     * @param r_        Signature r
+     * @param s_        Signature s
+     */
+    function permit(
+        address owner_,
+        address spender_,
+        uint256 value_,
+        uint256 deadline_,
+        uint8 v_,
+        bytes32 r_,
+        bytes32 s_
+    ) external override {
+        if (block.timestamp > deadline_) {
+            revert ERC2612ExpiredSignature(deadline_);
+        }
+
+        bytes32 struct_hash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, owner_, spender_, value_, _useNonce(owner_), deadline_)
+        );
+        address signer = ECDSA.recover(
+            keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), struct_hash)),
+            v_,
+            r_,
+            s_
+        );
+        if (signer != owner_) {
+            revert ERC2612InvalidSigner(signer, owner_);
+        }
+
+        _approve(owner_, spender_, value_);
+    }
+
+    /**
+     * Get the current nonce of the owner
+     * @param owner_ Owner address
+     * @return Nonce
+     */
+    function nonces(
+        address owner_
+    ) public view override(IERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner_);
+    }
+
+    /**
+     * Get the EIP-712 domain separator
+     * @return Domain separator
+     */
+    function DOMAIN_SEPARATOR() public view override returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes(TOKEN_NAME)),
+                keccak256(bytes(DOMAIN_VERSION)),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+}
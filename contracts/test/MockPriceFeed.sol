@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {AggregatorV3Interface} from "../interfaces/AggregatorV3Interface.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock Chainlink price feed, whose price can be set
+ */
+contract MockPriceFeed is
+    AggregatorV3Interface
+{
+    //=============================================================//
+    //                           CONSTANTS                         //
+    //=============================================================//
+
+    // Feed description
+    string constant private FEED_DESCRIPTION = "Mock Price Feed";
+    // Feed version
+    uint256 constant private FEED_VERSION = 1;
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    /// Answer decimals
+    uint8 public override decimals;
+    /// Latest round ID
+    uint80 public latestRound;
+    /// Latest answer
+    int256 public latestAnswer;
+    /// Timestamp of the latest answer
+    uint256 public latestTimestamp;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param decimals_ Answer decimals
+     * @param answer_   Initial answer
+     */
+    constructor (
+        uint8 decimals_,
+        int256 answer_
+    ) {
+        decimals = decimals_;
+        setAnswer(answer_);
+    }
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Set the answer, starting a new round
+     * @param answer_ Answer
+     */
+    function setAnswer(
+        int256 answer_
+    ) public {
+        setAnswerWithTimestamp(answer_, block.timestamp);
+    }
+
+    /**
+     * Set the answer with the specified update timestamp, starting a new round
+     * @param answer_    Answer
+     * @param updatedAt_ Update timestamp
+     */
+    function setAnswerWithTimestamp(
+        int256 answer_,
+        uint256 updatedAt_
+    ) public {
+        latestRound++;
+        latestAnswer = answer_;
+        latestTimestamp = updatedAt_;
+    }
+
+    /**
+     * Get the description of the price feed
+     * @return Description
+     */
+    function description() external pure override returns (string memory) {
+        return FEED_DESCRIPTION;
+    }
+
+    /**
+     * Get the version of the price feed
+     * @return Version
+     */
+    function version() external pure override returns (uint256) {
+        return FEED_VERSION;
+    }
+
+    /**
+     * Get the data of the specified round (only the latest one is stored)
+     * @param roundId_ Round ID
+     * @return roundId         Round ID
+     * @return answer          Answer
+     * @return startedAt       Timestamp when the round started
+     * @return updatedAt       Timestamp when the round was updated
+     * @return answeredInRound Round ID where the answer was computed
+     */
+    function getRoundData(
+        uint80 roundId_
+    ) external view override returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound) {
+        return (roundId_, latestAnswer, latestTimestamp, latestTimestamp, roundId_);
+    }
+
+    /**
+     * Get the data of the latest round
+     * @return roundId         Round ID
+     * @return answer          Answer
+     * @return startedAt       Timestamp when the round started
+     * @return updatedAt       Timestamp when the round was updated
+     * @return answeredInRound Round ID where the answer was computed
+     */
+    function latestRoundData() external view override returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound) {
+        return (latestRound, latestAnswer, latestTimestamp, latestTimestamp, latestRound);
+    }
+}
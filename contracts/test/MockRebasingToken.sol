@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {ERC20FixedSupply} from "./ERC20FixedSupply.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock ERC20 token whose balances can be rebased
+ */
+contract MockRebasingToken is
+    ERC20FixedSupply
+{
+    //=============================================================//
+    //                           CONSTANTS                         //
+    //=============================================================//
+
+    // Token name
+    string constant private TOKEN_NAME = "Mock Rebasing Token";
+    // Token symbol
+    string constant private TOKEN_SYMBOL = "MRT";
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param initialSupply_ Initial supply
+     */
+    constructor (
+        uint256 initialSupply_
+    )
+        ERC20FixedSupply(TOKEN_NAME, TOKEN_SYMBOL, initialSupply_)
+    {}
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Rebase the balance of the specified account up
+     * @param account_ Account address
+     * @param amount_  Amount to add
+     */
+    function rebaseUp(
+        address account_,
+        uint256 amount_
+    ) external {
+        _mint(account_, amount_);
+    }
+
+    /**
+     * Rebase the balance of the specified account down
+     * @param account_ Account address
+     * @param amount_  Amount to remove
+     */
+    function rebaseDown(
+        address account_,
+        uint256 amount_
+    ) external {
+        _burn(account_, amount_);
+    }
+}
@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.20;
+
+//=============================================================//
+//                           IMPORTS                           //
+//=============================================================//
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IFundStrategy} from "../interfaces/IFundStrategy.sol";
+
+
+/**
+ * @author Emanuele Bellocchia (ebellocchia@gmail.com)
+ * @title  Mock strategy of a fund, holding the invested funds
+ * @notice Yield is simulated by sending funds directly to the strategy and losses by calling simulateLoss.
+ *         The strategy can be set as failing, so that divesting reverts, or as running out of gas when divesting.
+ */
+contract MockYieldStrategy is
+    IFundStrategy
+{
+    using SafeERC20 for IERC20;
+
+    //=============================================================//
+    //                           CONSTANTS                         //
+    //=============================================================//
+
+    // Token address for the native currency
+    address constant private NATIVE_TOKEN = 0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE;
+
+    //=============================================================//
+    //                           ERRORS                            //
+    //=============================================================//
+
+    /**
+     * Error raised if the caller is not the fund
+     */
+    error CallerError();
+
+    /**
+     * Error raised if the strategy is failing
+     */
+    error FailingError();
+
+    //=============================================================//
+    //                           STORAGE                           //
+    //=============================================================//
+
+    // Fund address
+    address public immutable fund;
+    // Token address (NATIVE_TOKEN for the native currency)
+    address public immutable token;
+    // Total amount invested by the fund
+    uint256 public investedAmount;
+    // True if divesting reverts
+    bool public failing;
+    // True if divesting uses all the gas
+    bool public outOfGas;
+
+    //=============================================================//
+    //                         CONSTRUCTOR                         //
+    //=============================================================//
+
+    /**
+     * Constructor
+     * @param fund_  Fund address
+     * @param token_ Token address (NATIVE_TOKEN for the native currency)
+     */
+    constructor (
+        address fund_,
+        address token_
+    ) {
+        fund = fund_;
+        token = token_;
+    }
+
+    //=============================================================//
+    //                          RECEIVE                            //
+    //=============================================================//
+
+    /**
+     * Receive the native currency, either invested or as yield
+     */
+    receive() external payable {}
+
+    //=============================================================//
+    //                      PUBLIC FUNCTIONS                       //
+    //=============================================================//
+
+    /**
+     * Set if the strategy is failing
+     * @param failing_ True for failing, false otherwise
+     */
+    function setFailing(
+        bool failing_
+    ) external {
+        failing = failing_;
+    }
+
+    /**
+     * Set if the strategy runs out of gas when divesting
+     * @param outOfGas_ True for running out of gas, false otherwise
+     */
+    function setOutOfGas(
+        bool outOfGas_
+    ) external {
+        outOfGas = outOfGas_;
+    }
+
+    /**
+     * Simulate a loss, sending the specified amount to the caller
+     * @param amount_ Amount
+     */
+    function simulateLoss(
+        uint256 amount_
+    ) external {
+        __send(msg.sender, amount_);
+    }
+
+    /**
+     * See {IFundStrategy-invest}
+     */
+    function invest(
+        uint256 amount_
+    ) external override {
+        if (msg.sender != fund) {
+            revert CallerError();
+        }
+        investedAmount += amount_;
+    }
+
+    /**
+     * See {IFundStrategy-divest}
+     */
+    function divest() external override {
+        if (msg.sender != fund) {
+            revert CallerError();
+        }
+        if (failing) {
+            revert FailingError();
+        }
+        while (outOfGas) {}
+        investedAmount = 0;
+        __send(fund, totalValue());
+    }
+
+    /**
+     * See {IFundStrategy-totalValue}
+     */
+    function totalValue() public view override returns (uint256) {
+        return token == NATIVE_TOKEN ? address(this).balance : IERC20(token).balanceOf(address(this));
+    }
+
+    //=============================================================//
+    //                      PRIVATE FUNCTIONS                      //
+    //=============================================================//
+
+    /**
+     * Send funds to the specified address.
+     * @param to_     Receiver address
+     * @param amount_ Amount
+     */
+    function __send(
+        address to_,
+        uint256 amount_
+    ) private {
+        if (token == NATIVE_TOKEN) {
+            (bool success, ) = to_.call{value: amount_}("");
+            if (!success) {
+                revert FailingError();
+            }
+        }
+        else {
+            IERC20(token).safeTransfer(to_, amount_);
+        }
+    }
+}
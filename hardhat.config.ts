@@ -6,6 +6,7 @@ import "hardhat-contract-sizer";
 import "hardhat-docgen";
 // Tasks
 import "./tasks/deploy";
+import "./tasks/fund";
 // Dotenv
 import "dotenv/config";
 
@@ -68,7 +69,9 @@ const config: HardhatUserConfig = {
       optimizer: {
         enabled: true,
         runs: 200
-      }
+      },
+      // Needed for keeping the fund below the contract size limit
+      viaIR: true
     }
   },
   // ABI export
@@ -81,7 +84,7 @@ const config: HardhatUserConfig = {
   },
   // Contract size
   contractSizer: {
-    only: [":InvestmentFund$"],
+    only: [":InvestmentFund$", ":InvestmentFundERC4626$", ":InvestmentFundGovernor$"],
     runOnCompile: true
   },
   // Documentation generation
@@ -0,0 +1,82 @@
+import fs from "fs";
+import path from "path";
+
+//
+// Interfaces
+//
+
+/**
+ * Fund event stored by the indexer (arguments are stored as strings to be serializable)
+ */
+export interface IndexedEvent {
+  round: number;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  name: string;
+  args: { [key: string]: string };
+}
+
+/**
+ * Indexer state
+ */
+export interface IndexerState {
+  fundAddress: string;
+  lastIndexedBlock: number;
+  currentRound: number;
+  events: IndexedEvent[];
+}
+
+/**
+ * Storage for the indexer state
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerState | undefined>;
+  save(state: IndexerState): Promise<void>;
+}
+
+//
+// Classes
+//
+
+/**
+ * Store keeping the indexer state in memory
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private state?: IndexerState;
+
+  async load() : Promise<IndexerState | undefined> {
+    return this.state !== undefined ? structuredClone(this.state) : undefined;
+  }
+
+  async save(
+    state: IndexerState
+  ) : Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Store keeping the indexer state in a JSON file
+ */
+export class JsonFileIndexerStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  async load() : Promise<IndexerState | undefined> {
+    if (!fs.existsSync(this.filePath)) {
+      return undefined;
+    }
+    return JSON.parse(await fs.promises.readFile(this.filePath, "utf8"));
+  }
+
+  async save(
+    state: IndexerState
+  ) : Promise<void> {
+    // Write to a temporary file first, so that the state is not corrupted if the process is interrupted
+    const tmp_file_path: string = `${this.filePath}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tmp_file_path, JSON.stringify(state, null, 2));
+    await fs.promises.rename(tmp_file_path, this.filePath);
+  }
+}
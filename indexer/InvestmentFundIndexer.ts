@@ -0,0 +1,282 @@
+import { BigNumber, constants, providers, utils } from "ethers";
+// Project
+import { InvestmentFund__factory } from "../typechain-types";
+import { IndexedEvent, IndexerState, IndexerStore } from "./IndexerStore";
+
+//
+// Interfaces
+//
+
+/**
+ * Indexer options
+ */
+export interface IndexerOptions {
+  // Block where the indexing starts, if there is no stored state (e.g. fund deployment block)
+  startBlock?: number;
+  // Maximum number of blocks queried at once
+  batchSize?: number;
+}
+
+/**
+ * Investment round rebuilt from the indexed events
+ * A round starts after the previous one is stopped (so it includes the parameters set in the INITIAL state)
+ * and ends when investors withdraw is stopped (or investors deposit is cancelled)
+ */
+export interface InvestmentRound {
+  round: number;
+  completed: boolean;
+  // True if investors deposit was cancelled (so the round was completed without investing)
+  cancelled: boolean;
+  // True if investors withdraw was started by the emergency exit
+  emergencyExit: boolean;
+  // Blocks of the state transitions (undefined if not happened yet)
+  depositStartedBlock?: number;
+  depositStoppedBlock?: number;
+  withdrawStartedBlock?: number;
+  withdrawStoppedBlock?: number;
+  // Totals of the amounts in the events
+  // (funds returned by fundManagerReturnFundsToAllInvestors are not included, since the event has no amounts)
+  investorsDeposits: BigNumber;
+  investorsWithdrawals: BigNumber;
+  fundManagerDeposits: BigNumber;
+  fundManagerWithdrawals: BigNumber;
+  // Amount sent to the remaining funds address when the round is closed
+  remainingFunds: BigNumber;
+  // Investors that deposited or received shares
+  investors: string[];
+  events: IndexedEvent[];
+}
+
+//
+// Constants
+//
+
+// Default number of blocks queried at once
+const DEFAULT_BATCH_SIZE: number = 2000;
+
+/**
+ * Indexer of the events emitted by an InvestmentFund contract.
+ * Events are persisted in a store together with the last indexed block, so that indexing can be resumed.
+ */
+export class InvestmentFundIndexer {
+  private readonly fundInterface: utils.Interface = InvestmentFund__factory.createInterface();
+
+  /**
+   * Constructor
+   * @param provider    Provider
+   * @param fundAddress Fund address
+   * @param store       Store for the indexer state
+   * @param options     Options
+   */
+  constructor(
+    readonly provider: providers.Provider,
+    readonly fundAddress: string,
+    readonly store: IndexerStore,
+    readonly options: IndexerOptions = {}
+  ) {}
+
+  /**
+   * Index the events up to the specified block, starting from the last indexed one
+   * @param toBlock Last block to index (latest if not specified)
+   * @return Number of new indexed events
+   */
+  async sync(
+    toBlock?: number
+  ) : Promise<number> {
+    const state: IndexerState = await this.__loadState();
+    const last_block: number = toBlock ?? await this.provider.getBlockNumber();
+    const batch_size: number = this.options.batchSize ?? DEFAULT_BATCH_SIZE;
+    let new_events_num: number = 0;
+
+    for (let from_block = state.lastIndexedBlock + 1; from_block <= last_block; from_block += batch_size) {
+      const to_block: number = Math.min(from_block + batch_size - 1, last_block);
+      const logs: providers.Log[] = await this.provider.getLogs({
+        address: this.fundAddress,
+        fromBlock: from_block,
+        toBlock: to_block,
+      });
+
+      for (const log of logs) {
+        state.events.push(this.__parseLog(state, log));
+      }
+      new_events_num += logs.length;
+
+      // Save after each batch, so that a failure does not require indexing again
+      state.lastIndexedBlock = to_block;
+      await this.store.save(state);
+    }
+
+    return new_events_num;
+  }
+
+  /**
+   * Get the last indexed block
+   * @return Last indexed block
+   */
+  async lastIndexedBlock() : Promise<number> {
+    return (await this.__loadState()).lastIndexedBlock;
+  }
+
+  /**
+   * Get all indexed events
+   * @return Indexed events
+   */
+  async events() : Promise<IndexedEvent[]> {
+    return (await this.__loadState()).events;
+  }
+
+  /**
+   * Get all investment rounds
+   * @return Investment rounds
+   */
+  async rounds() : Promise<InvestmentRound[]> {
+    const rounds: InvestmentRound[] = [];
+
+    for (const event of await this.events()) {
+      if (rounds.length < event.round) {
+        rounds.push(newRound(event.round));
+      }
+      updateRound(rounds[event.round - 1], event);
+    }
+
+    return rounds;
+  }
+
+  /**
+   * Get the specified investment round
+   * @param round Round number (starting from 1)
+   * @return Investment round, undefined if not existent
+   */
+  async round(
+    round: number
+  ) : Promise<InvestmentRound | undefined> {
+    return (await this.rounds()).find((r) => r.round === round);
+  }
+
+  //
+  // Private functions
+  //
+
+  private async __loadState() : Promise<IndexerState> {
+    const state: IndexerState | undefined = await this.store.load();
+
+    if (state === undefined) {
+      return {
+        fundAddress: this.fundAddress,
+        lastIndexedBlock: (this.options.startBlock ?? 0) - 1,
+        currentRound: 1,
+        events: [],
+      };
+    }
+    if (state.fundAddress.toLowerCase() !== this.fundAddress.toLowerCase()) {
+      throw new Error(`Store contains events of fund ${state.fundAddress}, not ${this.fundAddress}`);
+    }
+    return state;
+  }
+
+  private __parseLog(
+    state: IndexerState,
+    log: providers.Log
+  ) : IndexedEvent {
+    const log_desc: utils.LogDescription = this.fundInterface.parseLog(log);
+
+    const args: { [key: string]: string } = {};
+    log_desc.eventFragment.inputs.forEach((input, i) => args[input.name] = log_desc.args[i].toString());
+
+    const event: IndexedEvent = {
+      round: state.currentRound,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+      name: log_desc.name,
+      args: args,
+    };
+
+    // The round is closed when investors withdraw is stopped or investors deposit is cancelled
+    if (log_desc.name === "InvestorsWithdrawStopped" || log_desc.name === "InvestorsDepositCancelled") {
+      state.currentRound++;
+    }
+
+    return event;
+  }
+}
+
+//
+// Not exported functions
+//
+
+function newRound(
+  round: number
+) : InvestmentRound {
+  return {
+    round: round,
+    completed: false,
+    cancelled: false,
+    emergencyExit: false,
+    investorsDeposits: BigNumber.from(0),
+    investorsWithdrawals: BigNumber.from(0),
+    fundManagerDeposits: BigNumber.from(0),
+    fundManagerWithdrawals: BigNumber.from(0),
+    remainingFunds: BigNumber.from(0),
+    investors: [],
+    events: [],
+  };
+}
+
+function updateRound(
+  round: InvestmentRound,
+  event: IndexedEvent
+) : void {
+  round.events.push(event);
+
+  switch (event.name) {
+    case "InvestorsDepositStarted":
+      round.depositStartedBlock = event.blockNumber;
+      break;
+    case "InvestorsDepositStopped":
+      round.depositStoppedBlock = event.blockNumber;
+      break;
+    case "InvestorsWithdrawStarted":
+      round.withdrawStartedBlock = event.blockNumber;
+      break;
+    case "InvestorsWithdrawStopped":
+      round.withdrawStoppedBlock = event.blockNumber;
+      round.remainingFunds = BigNumber.from(event.args.remainingFunds);
+      round.completed = true;
+      break;
+    case "InvestorsDepositCancelled":
+      round.investorsWithdrawals = round.investorsWithdrawals.add(event.args.refundedAmount);
+      round.cancelled = true;
+      round.completed = true;
+      break;
+    case "EmergencyExitTriggered":
+      round.emergencyExit = true;
+      break;
+    case "InvestorFundsDeposited":
+      round.investorsDeposits = round.investorsDeposits.add(event.args.amount);
+      if (round.investors.indexOf(event.args.investor) === -1) {
+        round.investors.push(event.args.investor);
+      }
+      break;
+    case "Transfer":
+      // Shares transferred between investors (minting and burning are tracked by the fund events)
+      if (event.args.from === constants.AddressZero || event.args.to === constants.AddressZero) {
+        break;
+      }
+      if (round.investors.indexOf(event.args.to) === -1) {
+        round.investors.push(event.args.to);
+      }
+      break;
+    case "InvestorAllFundsWithdrawn":
+    case "InvestorFundsWithdrawn":
+    case "FundManagerFundsReturnedToInvestor":
+      round.investorsWithdrawals = round.investorsWithdrawals.add(event.args.amount);
+      break;
+    case "FundManagerFundsDeposited":
+      round.fundManagerDeposits = round.fundManagerDeposits.add(event.args.amount);
+      break;
+    case "FundManagerFundsWithdrawn":
+      round.fundManagerWithdrawals = round.fundManagerWithdrawals.add(event.args.amount);
+      break;
+  }
+}
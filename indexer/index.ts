@@ -0,0 +1,2 @@
+export * from "./IndexerStore";
+export * from "./InvestmentFundIndexer";
@@ -1,35 +1,118 @@
 import { BigNumber, Contract, ContractFactory } from "ethers";
 import { task } from "hardhat/config";
+// Project
+import { NATIVE_TOKEN } from "../client/InvestmentFundTypes";
 
-task("deploy-live", "Deploy contract in live mode (token address shall be provided)")
-  .addParam("tokenAddress", "Token address")
+task("deploy-live", "Deploy contract in live mode (token address shall be provided, unless the native currency is used)")
+  .addOptionalParam("tokenAddress", "Token address")
+  .addFlag("native", "Use the native currency as fund token")
+  .addOptionalParam("trustedForwarder", "ERC-2771 trusted forwarder address for relaying calls")
   .setAction(async (taskArgs, hre) => {
+    if (!taskArgs.native && taskArgs.tokenAddress === undefined) {
+      throw new Error("Token address shall be provided if the native currency is not used");
+    }
+    const token_address: string = taskArgs.native ? NATIVE_TOKEN : taskArgs.tokenAddress;
+    const trusted_forwarder: string = taskArgs.trustedForwarder ?? hre.ethers.constants.AddressZero;
+
     console.log("Deploying contract in live mode...");
 
     const fund_contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
     const fund_instance: Contract = await fund_contract_factory
-      .deploy(taskArgs.tokenAddress);
+      .deploy(token_address, trusted_forwarder);
     await fund_instance.deployed();
   
-    console.log(`InvestmentFund deployed to ${fund_instance.address} with token address ${taskArgs.tokenAddress}`);
+    console.log(`InvestmentFund deployed to ${fund_instance.address} with ${taskArgs.native ? "native currency" : "token address " + token_address}`);
   });
 
-  task("deploy-test", "Deploy contract in test mode (MockToken will be deployed as token)")
-  .addParam("tokenSupply", "MockToken supply")
+  task("deploy-test", "Deploy contract in test mode (MockToken will be deployed as token, unless the native currency is used)")
+  .addOptionalParam("tokenSupply", "MockToken supply")
+  .addFlag("native", "Use the native currency as fund token")
+  .addOptionalParam("trustedForwarder", "ERC-2771 trusted forwarder address for relaying calls")
   .setAction(async (taskArgs, hre) => {
-    const token_supply: BigNumber = BigNumber.from(taskArgs.tokenSupply);
+    if (!taskArgs.native && taskArgs.tokenSupply === undefined) {
+      throw new Error("MockToken supply shall be provided if the native currency is not used");
+    }
+
+    const trusted_forwarder: string = taskArgs.trustedForwarder ?? hre.ethers.constants.AddressZero;
 
     console.log("Deploying contract in test mode...");
 
+    const fund_contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    if (taskArgs.native) {
+      const fund_instance: Contract = await fund_contract_factory
+        .deploy(NATIVE_TOKEN, trusted_forwarder);
+      await fund_instance.deployed();
+
+      console.log(`InvestmentFund deployed to ${fund_instance.address} with native currency`);
+      return;
+    }
+
+    const token_supply: BigNumber = BigNumber.from(taskArgs.tokenSupply);
     const token_contract_factory: ContractFactory = await hre.ethers.getContractFactory("MockERC20Token");
     const token_instance: Contract = await token_contract_factory
       .deploy(token_supply);
     await token_instance.deployed();
 
-    const fund_contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
     const fund_instance: Contract = await fund_contract_factory
-      .deploy(token_instance.address);
+      .deploy(token_instance.address, trusted_forwarder);
     await fund_instance.deployed();
   
     console.log(`InvestmentFund deployed to ${fund_instance.address} with MockToken address ${token_instance.address}`);
   });
+
+  task("deploy-oracle", "Deploy the price oracle for multi-token funds (price feeds shall be set with oracle:configure)")
+  .addOptionalParam("maxPriceAge", "Maximum age in seconds of prices (zero for not using it)", "0")
+  .setAction(async (taskArgs, hre) => {
+    console.log("Deploying price oracle...");
+
+    const oracle_contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundOracle");
+    const oracle_instance: Contract = await oracle_contract_factory
+      .deploy(BigNumber.from(taskArgs.maxPriceAge));
+    await oracle_instance.deployed();
+  
+    console.log(`InvestmentFundOracle deployed to ${oracle_instance.address} with maximum price age ${taskArgs.maxPriceAge} s`);
+  });
+
+  task("deploy-erc4626", "Deploy the ERC-4626 vault adapter for an existing fund")
+  .addParam("fundAddress", "InvestmentFund address")
+  .setAction(async (taskArgs, hre) => {
+    console.log("Deploying ERC-4626 vault adapter...");
+
+    const vault_contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundERC4626");
+    const vault_instance: Contract = await vault_contract_factory
+      .deploy(taskArgs.fundAddress);
+    await vault_instance.deployed();
+  
+    console.log(`InvestmentFundERC4626 deployed to ${vault_instance.address} with fund address ${taskArgs.fundAddress}`);
+  });
+
+  task("deploy-governor", "Deploy the governor for an existing fund (the fund manager shall then be transferred to it)")
+  .addParam("fundAddress", "InvestmentFund address")
+  .addOptionalParam("manager", "Manager address (deployer if not specified)")
+  .addOptionalParam("coManagers", "Comma-separated list of co-managers approving proposals")
+  .addOptionalParam("quorum", "Number of co-managers approvals required for executing proposals", "0")
+  .addParam("delay", "Delay in seconds before proposals can be executed")
+  .addParam("withdrawThreshold", "Amount that can be withdrawn in each round without proposals")
+  .setAction(async (taskArgs, hre) => {
+    const manager: string = taskArgs.manager ?? await (await hre.ethers.getSigners())[0].getAddress();
+    const co_managers: string[] = taskArgs.coManagers !== undefined
+      ? taskArgs.coManagers.split(",").map((address: string) => address.trim())
+      : [];
+
+    console.log("Deploying governor...");
+
+    const governor_contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundGovernor");
+    const governor_instance: Contract = await governor_contract_factory
+      .deploy(
+        taskArgs.fundAddress,
+        manager,
+        co_managers,
+        BigNumber.from(taskArgs.quorum),
+        BigNumber.from(taskArgs.delay),
+        BigNumber.from(taskArgs.withdrawThreshold)
+      );
+    await governor_instance.deployed();
+  
+    console.log(`InvestmentFundGovernor deployed to ${governor_instance.address} with fund address ${taskArgs.fundAddress}`);
+    console.log("Set the governor as pending fund manager, then accept the role with governor:call --function acceptFundManager");
+  });
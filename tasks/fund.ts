@@ -0,0 +1,1206 @@
+import { BigNumber, Contract, ContractReceipt, ContractTransaction, PayableOverrides, Signer, constants, utils } from "ethers";
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+// Project
+import { AllowlistTree, buildAllowlistTree } from "../client/InvestmentFundAllowlist";
+import { PermitSignature, signPermit } from "../client/InvestmentFundPermit";
+import {
+  SimulatedFees,
+  SimulationResult,
+  computeAmountToWithdraw,
+  computeFees,
+  computeMultiplier,
+  simulateRound
+} from "../client/InvestmentFundSimulator";
+import { NATIVE_TOKEN } from "../client/InvestmentFundTypes";
+
+//
+// Constants
+//
+
+// Investment states names, in the same order of the contract enumerative
+const INVESTMENT_STATES: string[] = [
+  "INITIAL",
+  "BEFORE_INVESTMENT",
+  "DURING_INVESTMENT",
+  "AFTER_INVESTMENT",
+];
+// Governor proposals states names, in the same order of the contract enumerative
+const PROPOSAL_STATES: string[] = [
+  "NONE",
+  "QUEUED",
+  "EXECUTED",
+  "CANCELLED",
+];
+// Validity of the permits signed for deposits, in seconds
+const PERMIT_VALIDITY: number = 3600;
+// Default number of investors whose funds are returned in a single transaction
+const DEFAULT_RETURN_BATCH_SIZE: number = 50;
+// Number of investors read in a single call when building the report
+const INVESTORS_PAGE_SIZE: number = 500;
+
+//
+// Interfaces
+//
+
+interface InvestorReport {
+  address: string;
+  deposit: string;
+  payout: string;
+}
+
+interface FundTokenReport {
+  address: string;
+  symbol: string;
+  decimals: number;
+  funds: string;
+}
+
+interface GovernorProposal {
+  target: string;
+  data: string;
+  eta: BigNumber;
+  state: number;
+}
+
+interface StrategyReport {
+  address: string;
+  value: string;
+}
+
+interface FundReport {
+  address: string;
+  currState: string;
+  currRound: string;
+  fundManager: string;
+  pendingFundManager: string;
+  guardian: string;
+  trustedForwarder: string;
+  paused: boolean;
+  remainingFundsAddr: string;
+  feeRecipient: string;
+  managementFeeBps: string;
+  performanceFeeBps: string;
+  fundToken: {
+    address: string;
+    symbol: string;
+    decimals: number;
+    rebasing: boolean;
+  };
+  fundTokens: FundTokenReport[];
+  tokenOracle: string;
+  payoutToken: string;
+  strategies: StrategyReport[];
+  depositMultipleOf: string;
+  minInvestorDeposit: string;
+  maxInvestorDeposit: string;
+  fundHardCap: string;
+  fundSoftCap: string;
+  allowlistEnabled: boolean;
+  allowlistMerkleRoot: string;
+  depositDuration: string;
+  maxInvestmentDuration: string;
+  minWithdrawDuration: string;
+  stateDeadline: string;
+  emergencyTimeout: string;
+  emergencyDeadline: string;
+  emergencyExitVotes: string;
+  totalDepositedFunds: string;
+  excessFunds: string;
+  totalAmountBeforeInvestment: string;
+  totalAmountAfterInvestment: string;
+  investmentMultiplier: string;
+  projectedFees: string;
+  investors: InvestorReport[];
+  totalPayouts: string;
+  remainingFunds: string;
+}
+
+//
+// Fund manager tasks
+//
+
+task("fund:configure", "Configure the investment parameters (INITIAL state)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("tokenAddress", "Fund token address")
+  .addFlag("rebasing", "Set if the fund token is rebasing (used with --token-address)")
+  .addOptionalParam("fundTokens", "Comma-separated list of the tokens accepted by a multi-token fund (empty for a single-token fund)")
+  .addOptionalParam("tokenOracle", "Oracle valuing the tokens of a multi-token fund (used with --fund-tokens)")
+  .addOptionalParam("strategies", "Comma-separated list of the strategies of the strategy mode (empty for not using it)")
+  .addOptionalParam("remainingFundsAddress", "Address where remaining funds are sent")
+  .addOptionalParam("multipleOf", "Deposit multiplicity")
+  .addOptionalParam("minDeposit", "Minimum investor deposit")
+  .addOptionalParam("maxDeposit", "Maximum investor deposit (cumulative)")
+  .addOptionalParam("hardCap", "Fund hard cap")
+  .addOptionalParam("softCap", "Fund soft cap (zero for not using it)")
+  .addOptionalParam("feeRecipient", "Address receiving the fees")
+  .addOptionalParam("managementFee", "Management fee in basis points")
+  .addOptionalParam("performanceFee", "Performance fee in basis points")
+  .addOptionalParam("depositDuration", "Duration of investors deposit in seconds (zero for not using it)")
+  .addOptionalParam("maxInvestmentDuration", "Maximum duration of the investment in seconds (zero for not using it)")
+  .addOptionalParam("minWithdrawDuration", "Minimum duration of investors withdraw in seconds (zero for not using it)")
+  .addOptionalParam("emergencyTimeout", "Time in seconds after the investment start when anyone can trigger the emergency exit (zero for not using it)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "INITIAL");
+
+    if (taskArgs.tokenAddress !== undefined) {
+      await sendTransaction(fund_instance, "setFundToken", taskArgs.tokenAddress, taskArgs.rebasing);
+    }
+    if (taskArgs.fundTokens !== undefined) {
+      const fund_tokens: string[] = taskArgs.fundTokens !== "" ? parseAddressList(taskArgs.fundTokens) : [];
+      if (fund_tokens.length !== 0 && taskArgs.tokenOracle === undefined) {
+        throw new Error("The token oracle shall be specified for multi-token funds");
+      }
+      await sendTransaction(fund_instance, "setFundTokens", fund_tokens, taskArgs.tokenOracle ?? hre.ethers.constants.AddressZero);
+    }
+    if (taskArgs.strategies !== undefined) {
+      await sendTransaction(fund_instance, "setStrategies", taskArgs.strategies !== "" ? parseAddressList(taskArgs.strategies) : []);
+    }
+    if (taskArgs.remainingFundsAddress !== undefined) {
+      await sendTransaction(fund_instance, "setRemainingFundsAddress", taskArgs.remainingFundsAddress);
+    }
+    if (taskArgs.multipleOf !== undefined) {
+      await sendTransaction(fund_instance, "setDepositMultipleOf", BigNumber.from(taskArgs.multipleOf));
+    }
+    // Minimum and maximum are checked against each other, so the order matters:
+    // the maximum is set first only if the new minimum is not lower than the current maximum
+    const set_max_first: boolean = taskArgs.minDeposit !== undefined &&
+      BigNumber.from(taskArgs.minDeposit).gte(await fund_instance.maxInvestorDeposit());
+    if (taskArgs.maxDeposit !== undefined && set_max_first) {
+      await sendTransaction(fund_instance, "setMaxInvestorDeposit", BigNumber.from(taskArgs.maxDeposit));
+    }
+    if (taskArgs.minDeposit !== undefined) {
+      await sendTransaction(fund_instance, "setMinInvestorDeposit", BigNumber.from(taskArgs.minDeposit));
+    }
+    if (taskArgs.maxDeposit !== undefined && !set_max_first) {
+      await sendTransaction(fund_instance, "setMaxInvestorDeposit", BigNumber.from(taskArgs.maxDeposit));
+    }
+    // Same for soft and hard caps
+    const set_hard_cap_first: boolean = taskArgs.softCap !== undefined &&
+      BigNumber.from(taskArgs.softCap).gt(await fund_instance.fundHardCap());
+    if (taskArgs.hardCap !== undefined && set_hard_cap_first) {
+      await sendTransaction(fund_instance, "setFundHardCap", BigNumber.from(taskArgs.hardCap));
+    }
+    if (taskArgs.softCap !== undefined) {
+      await sendTransaction(fund_instance, "setFundSoftCap", BigNumber.from(taskArgs.softCap));
+    }
+    if (taskArgs.hardCap !== undefined && !set_hard_cap_first) {
+      await sendTransaction(fund_instance, "setFundHardCap", BigNumber.from(taskArgs.hardCap));
+    }
+    if (taskArgs.feeRecipient !== undefined) {
+      await sendTransaction(fund_instance, "setFeeRecipient", taskArgs.feeRecipient);
+    }
+    if (taskArgs.managementFee !== undefined) {
+      await sendTransaction(fund_instance, "setManagementFee", BigNumber.from(taskArgs.managementFee));
+    }
+    if (taskArgs.performanceFee !== undefined) {
+      await sendTransaction(fund_instance, "setPerformanceFee", BigNumber.from(taskArgs.performanceFee));
+    }
+    if (taskArgs.depositDuration !== undefined) {
+      await sendTransaction(fund_instance, "setDepositDuration", BigNumber.from(taskArgs.depositDuration));
+    }
+    if (taskArgs.maxInvestmentDuration !== undefined) {
+      await sendTransaction(fund_instance, "setMaxInvestmentDuration", BigNumber.from(taskArgs.maxInvestmentDuration));
+    }
+    if (taskArgs.minWithdrawDuration !== undefined) {
+      await sendTransaction(fund_instance, "setMinWithdrawDuration", BigNumber.from(taskArgs.minWithdrawDuration));
+    }
+    if (taskArgs.emergencyTimeout !== undefined) {
+      await sendTransaction(fund_instance, "setEmergencyTimeout", BigNumber.from(taskArgs.emergencyTimeout));
+    }
+  });
+
+task("fund:allowlist", "Manage the investors allowlist (enabling/disabling only in INITIAL state, the rest in any state)")
+  .addParam("fundAddress", "Fund address")
+  .addFlag("enable", "Enable the allowlist")
+  .addFlag("disable", "Disable the allowlist")
+  .addOptionalParam("add", "Comma-separated list of investors to add")
+  .addOptionalParam("remove", "Comma-separated list of investors to remove")
+  .addOptionalParam("merkleRoot", "Merkle root of the allowlisted investors (zero for not using it)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    if (taskArgs.enable && taskArgs.disable) {
+      throw new Error("Only one between --enable and --disable can be specified");
+    }
+
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+
+    if (taskArgs.add !== undefined) {
+      await sendTransaction(fund_instance, "setInvestorsAllowed", parseAddressList(taskArgs.add), true);
+    }
+    if (taskArgs.remove !== undefined) {
+      await sendTransaction(fund_instance, "setInvestorsAllowed", parseAddressList(taskArgs.remove), false);
+    }
+    if (taskArgs.merkleRoot !== undefined) {
+      await sendTransaction(fund_instance, "setAllowlistMerkleRoot", utils.hexZeroPad(taskArgs.merkleRoot, 32));
+    }
+    if (taskArgs.enable || taskArgs.disable) {
+      await checkState(fund_instance, "INITIAL");
+      await sendTransaction(fund_instance, "setAllowlistEnabled", taskArgs.enable);
+    }
+  });
+
+task("fund:allowlist-tree", "Build the allowlist Merkle tree and the investors proofs from a CSV file")
+  .addParam("csv", "Path of the CSV file, with the investors addresses in the first column (header is optional)")
+  .addOptionalParam("out", "Path of the JSON file where the Merkle root and proofs are saved (printed if not specified)")
+  .setAction(async (taskArgs) => {
+    const investors: string[] = [];
+    const lines: string[] = fs.readFileSync(taskArgs.csv, "utf8").split(/\r?\n/);
+    lines.forEach((line, i) => {
+      const address: string = line.split(",")[0].trim();
+      // Skip empty lines and header
+      if (address === "" || (i === 0 && !utils.isAddress(address))) {
+        return;
+      }
+      if (!utils.isAddress(address)) {
+        throw new Error(`Invalid address ${address} at line ${i + 1}`);
+      }
+      investors.push(address);
+    });
+
+    const tree: AllowlistTree = buildAllowlistTree(investors);
+    if (taskArgs.out !== undefined) {
+      fs.writeFileSync(taskArgs.out, JSON.stringify(tree, null, 2));
+      console.log(`Merkle tree of ${Object.keys(tree.proofs).length} investors saved to ${taskArgs.out}`);
+      console.log(`Merkle root: ${tree.root}`);
+    }
+    else {
+      console.log(JSON.stringify(tree, null, 2));
+    }
+  });
+
+task("fund:start-deposit", "Start investors deposit (INITIAL -> BEFORE_INVESTMENT)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "INITIAL");
+
+    await sendTransaction(fund_instance, "startInvestorsDeposit");
+  });
+
+task("fund:stop-deposit", "Stop investors deposit (BEFORE_INVESTMENT -> DURING_INVESTMENT, anyone after the deposit deadline)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "BEFORE_INVESTMENT");
+
+    await sendTransaction(fund_instance, "stopInvestorsDeposit");
+  });
+
+task("fund:cancel-deposit", "Cancel investors deposit and refund all investors (BEFORE_INVESTMENT -> INITIAL)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "BEFORE_INVESTMENT");
+
+    await sendTransaction(fund_instance, "cancelInvestorsDeposit");
+  });
+
+task("fund:withdraw", "Withdraw funds for investing them (DURING_INVESTMENT state, all funds if no amount is specified)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("amount", "Amount to withdraw")
+  .addOptionalParam("token", "Token to withdraw from a multi-token fund (all its funds if no amount is specified)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT");
+
+    if (taskArgs.token !== undefined) {
+      const amount: BigNumber = taskArgs.amount !== undefined
+        ? BigNumber.from(taskArgs.amount)
+        : await fund_instance.tokenFunds(taskArgs.token);
+      await sendTransaction(fund_instance, "fundManagerWithdrawToken", taskArgs.token, amount);
+    }
+    else if (taskArgs.amount !== undefined) {
+      await sendTransaction(fund_instance, "fundManagerWithdraw", BigNumber.from(taskArgs.amount));
+    }
+    else {
+      await sendTransaction(fund_instance, "fundManagerWithdrawAll");
+    }
+  });
+
+task("fund:deposit-back", "Deposit back funds after investing them (DURING_INVESTMENT state)")
+  .addParam("fundAddress", "Fund address")
+  .addParam("amount", "Amount to deposit")
+  .addOptionalParam("token", "Token to deposit to a multi-token fund")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const amount: BigNumber = BigNumber.from(taskArgs.amount);
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT");
+
+    if (taskArgs.token !== undefined) {
+      await approveToken(hre, fund_instance, taskArgs.token, amount);
+      await sendTransaction(fund_instance, "fundManagerDepositToken", taskArgs.token, amount);
+      return;
+    }
+    const overrides: PayableOverrides = await prepareFunds(hre, fund_instance, amount);
+    await sendTransaction(fund_instance, "fundManagerDeposit", amount, overrides);
+  });
+
+task("fund:invest", "Invest funds in a strategy of a fund in strategy mode (DURING_INVESTMENT state, all funds if no amount is specified)")
+  .addParam("fundAddress", "Fund address")
+  .addParam("strategy", "Strategy address")
+  .addOptionalParam("amount", "Amount to invest")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT");
+
+    const amount: BigNumber = taskArgs.amount !== undefined
+      ? BigNumber.from(taskArgs.amount)
+      : await fund_instance.totalDepositedFunds();
+    await sendTransaction(fund_instance, "fundManagerInvest", taskArgs.strategy, amount);
+  });
+
+task("fund:divest", "Divest all funds from the strategies of a fund in strategy mode (DURING_INVESTMENT state, or AFTER_INVESTMENT state by any account)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT", "AFTER_INVESTMENT");
+
+    if (INVESTMENT_STATES[await fund_instance.currState()] === "AFTER_INVESTMENT") {
+      await sendTransaction(fund_instance, "divestAllAfterInvestment");
+    }
+    else {
+      await sendTransaction(fund_instance, "fundManagerDivestAll");
+    }
+  });
+
+task("fund:payout-token", "Set the token used for paying out investors of a multi-token fund (any state, only reset in AFTER_INVESTMENT)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("token", "Payout token address (investors are paid out pro-rata in the held tokens if not specified)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    if (taskArgs.token !== undefined) {
+      await checkState(fund_instance, "INITIAL", "BEFORE_INVESTMENT", "DURING_INVESTMENT");
+    }
+    await sendTransaction(fund_instance, "setPayoutToken", taskArgs.token ?? hre.ethers.constants.AddressZero);
+  });
+
+task("fund:start-withdraw", "Start investors withdraw (DURING_INVESTMENT -> AFTER_INVESTMENT, anyone after the maximum investment duration)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT");
+
+    await sendTransaction(fund_instance, "startInvestorsWithdraw");
+  });
+
+task("fund:return-funds", "Return funds to a specific investor or to all investors in batches (AFTER_INVESTMENT state)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("investor", "Investor address (all investors if not specified)")
+  .addOptionalParam("batchSize", "Number of investors whose funds are returned in a single transaction", DEFAULT_RETURN_BATCH_SIZE, types.int)
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "AFTER_INVESTMENT");
+
+    if (taskArgs.investor !== undefined) {
+      await sendTransaction(fund_instance, "fundManagerReturnFundsToInvestor", taskArgs.investor);
+      return;
+    }
+    if (taskArgs.batchSize <= 0) {
+      throw new Error("Batch size shall be greater than zero");
+    }
+
+    // Returned investors are removed, so each batch always starts from the first investor
+    const total_investors: number = (await fund_instance.numberOfInvestors()).toNumber();
+    let remaining_investors: number = total_investors;
+    while (remaining_investors > 0) {
+      const batch_size: number = Math.min(taskArgs.batchSize, remaining_investors);
+      const first_investor: number = total_investors - remaining_investors + 1;
+      console.log(`Returning funds to investors ${first_investor}-${first_investor + batch_size - 1} of ${total_investors}...`);
+
+      await sendTransaction(fund_instance, "fundManagerReturnFundsToInvestorsBatch", 0, batch_size);
+      remaining_investors = (await fund_instance.numberOfInvestors()).toNumber();
+    }
+    console.log(`Funds returned to ${total_investors} investors`);
+  });
+
+task("fund:close", "Stop investors withdraw and send remaining funds (AFTER_INVESTMENT -> INITIAL, anyone after the minimum withdraw duration)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "AFTER_INVESTMENT");
+
+    await sendTransaction(fund_instance, "stopInvestorsWithdraw");
+  });
+
+task("fund:sweep-excess", "Send tokens sent directly to the fund to the remaining funds address (any state)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+
+    await sendTransaction(fund_instance, "sweepExcess");
+  });
+
+//
+// Investor tasks
+//
+
+task("fund:investor-deposit", "Deposit funds as investor (BEFORE_INVESTMENT state)")
+  .addParam("fundAddress", "Fund address")
+  .addParam("amount", "Amount to deposit")
+  .addOptionalParam("proofFile", "JSON file built by fund:allowlist-tree, for depositing with the Merkle proof of the account")
+  .addFlag("permit", "Approve the fund token with an EIP-2612 permit in the deposit transaction, instead of a separate approval")
+  .addOptionalParam("token", "Token to deposit to a multi-token fund (credited with its value returned by the token oracle)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    if (taskArgs.permit && taskArgs.proofFile !== undefined) {
+      throw new Error("Deposits with permit cannot be used with the Merkle proof, add the account to the allowlist first");
+    }
+    if (taskArgs.token !== undefined && (taskArgs.permit || taskArgs.proofFile !== undefined)) {
+      throw new Error("Deposits of multi-token funds cannot be used with permits or the Merkle proof");
+    }
+
+    const amount: BigNumber = BigNumber.from(taskArgs.amount);
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "BEFORE_INVESTMENT");
+
+    if (taskArgs.token !== undefined) {
+      await approveToken(hre, fund_instance, taskArgs.token, amount);
+      await sendTransaction(fund_instance, "investorDepositToken", taskArgs.token, amount);
+      return;
+    }
+
+    if (taskArgs.permit) {
+      const deadline: number = (await hre.ethers.provider.getBlock("latest")).timestamp + PERMIT_VALIDITY;
+      const permit: PermitSignature = await signPermit(
+        fund_instance.signer,
+        await fund_instance.fundToken(),
+        fund_instance.address,
+        amount,
+        deadline
+      );
+      await sendTransaction(fund_instance, "investorDepositWithPermit", amount, permit.deadline, permit.v, permit.r, permit.s);
+      return;
+    }
+
+    const overrides: PayableOverrides = await prepareFunds(hre, fund_instance, amount);
+    if (taskArgs.proofFile !== undefined) {
+      const tree: AllowlistTree = JSON.parse(fs.readFileSync(taskArgs.proofFile, "utf8"));
+      const investor_address: string = await fund_instance.signer.getAddress();
+      const proof: string[] | undefined = tree.proofs[investor_address];
+      if (proof === undefined) {
+        throw new Error(`Account ${investor_address} is not in the allowlist Merkle tree`);
+      }
+      await sendTransaction(fund_instance, "investorDepositWithProof", amount, proof, overrides);
+    }
+    else {
+      await sendTransaction(fund_instance, "investorDeposit", amount, overrides);
+    }
+  });
+
+task("fund:investor-withdraw", "Withdraw funds as investor (BEFORE_INVESTMENT or AFTER_INVESTMENT state, all funds if no amount is specified)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("amount", "Amount to remove from the investor deposit")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "BEFORE_INVESTMENT", "AFTER_INVESTMENT");
+
+    if (taskArgs.amount !== undefined) {
+      await sendTransaction(fund_instance, "investorWithdraw", BigNumber.from(taskArgs.amount));
+    }
+    else {
+      await sendTransaction(fund_instance, "investorWithdrawAll");
+    }
+  });
+
+task("fund:transfer-shares", "Transfer fund shares to another investor (DURING_INVESTMENT or AFTER_INVESTMENT state)")
+  .addParam("fundAddress", "Fund address")
+  .addParam("to", "Receiver address")
+  .addParam("amount", "Amount of shares")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT", "AFTER_INVESTMENT");
+
+    await sendTransaction(fund_instance, "transfer", taskArgs.to, BigNumber.from(taskArgs.amount));
+  });
+
+task("fund:vote-emergency-exit", "Vote for the emergency exit as investor (DURING_INVESTMENT state)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT");
+
+    await sendTransaction(fund_instance, "voteEmergencyExit");
+  });
+
+task("fund:emergency-exit", "Trigger the emergency exit after the emergency timeout (DURING_INVESTMENT -> AFTER_INVESTMENT, any account)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+    await checkState(fund_instance, "DURING_INVESTMENT");
+
+    await sendTransaction(fund_instance, "emergencyExit");
+  });
+
+//
+// Guardian tasks
+//
+
+task("fund:pause", "Pause deposits, withdrawals and fund manager funds movements (any state, investors can still withdraw all funds in BEFORE_INVESTMENT state)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+
+    await sendTransaction(fund_instance, "pause");
+  });
+
+task("fund:unpause", "Unpause the fund (any state)")
+  .addParam("fundAddress", "Fund address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+
+    await sendTransaction(fund_instance, "unpause");
+  });
+
+task("fund:set-guardian", "Transfer the guardian role to a new address (any state)")
+  .addParam("fundAddress", "Fund address")
+  .addParam("guardian", "New guardian address")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const fund_instance: Contract = await getFundContract(hre, taskArgs.fundAddress, taskArgs.account);
+
+    await sendTransaction(fund_instance, "setGuardian", taskArgs.guardian);
+  });
+
+//
+// Governor tasks
+//
+
+task("governor:call", "Call a non-sensitive function of the fund through the governor (tokens of deposits are pulled from the manager)")
+  .addParam("governorAddress", "Governor address")
+  .addParam("function", "Fund function name")
+  .addOptionalParam("args", "Function arguments as JSON array", "[]")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const governor_instance: Contract = await getContract(hre, "InvestmentFundGovernor", taskArgs.governorAddress, taskArgs.account);
+    const fund_instance: Contract = await getFundContract(hre, await governor_instance.fund(), taskArgs.account);
+    const args: unknown[] = JSON.parse(taskArgs.args);
+    const data: string = fund_instance.interface.encodeFunctionData(taskArgs.function, args);
+    if (await governor_instance.isSensitiveCall(data)) {
+      throw new Error(`Call to ${taskArgs.function} is sensitive and shall be proposed with governor:propose`);
+    }
+
+    let overrides: PayableOverrides = {};
+    if (taskArgs.function === "fundManagerDeposit") {
+      if (await fund_instance.isNative()) {
+        overrides = { value: BigNumber.from(args[0]) };
+      }
+      else {
+        await approveToken(hre, governor_instance, await fund_instance.fundToken(), BigNumber.from(args[0]));
+      }
+    }
+    else if (taskArgs.function === "fundManagerDepositToken") {
+      await approveToken(hre, governor_instance, String(args[0]), BigNumber.from(args[1]));
+    }
+    await sendTransaction(governor_instance, "callFund", data, overrides);
+  });
+
+task("governor:propose", "Propose a sensitive call to the fund or a change of the governor configuration, executable after the delay")
+  .addParam("governorAddress", "Governor address")
+  .addParam("function", "Function name")
+  .addOptionalParam("args", "Function arguments as JSON array", "[]")
+  .addFlag("self", "Propose a call to the governor itself (e.g. setQuorum, addCoManager)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const governor_instance: Contract = await getContract(hre, "InvestmentFundGovernor", taskArgs.governorAddress, taskArgs.account);
+    const target_instance: Contract = taskArgs.self
+      ? governor_instance
+      : await getFundContract(hre, await governor_instance.fund(), taskArgs.account);
+    const data: string = target_instance.interface.encodeFunctionData(taskArgs.function, JSON.parse(taskArgs.args));
+
+    await sendTransaction(governor_instance, "propose", target_instance.address, data);
+  });
+
+task("governor:approve", "Approve a proposal as co-manager")
+  .addParam("governorAddress", "Governor address")
+  .addParam("proposalId", "Proposal ID", undefined, types.int)
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const governor_instance: Contract = await getContract(hre, "InvestmentFundGovernor", taskArgs.governorAddress, taskArgs.account);
+    await checkProposalQueued(governor_instance, taskArgs.proposalId);
+
+    await sendTransaction(governor_instance, "approve", taskArgs.proposalId);
+  });
+
+task("governor:execute", "Execute a proposal after its delay, once approved by the quorum (manager or co-managers)")
+  .addParam("governorAddress", "Governor address")
+  .addParam("proposalId", "Proposal ID", undefined, types.int)
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const governor_instance: Contract = await getContract(hre, "InvestmentFundGovernor", taskArgs.governorAddress, taskArgs.account);
+    const proposal: GovernorProposal = await checkProposalQueued(governor_instance, taskArgs.proposalId);
+
+    const latest_block = await hre.ethers.provider.getBlock("latest");
+    if (proposal.eta.gt(latest_block.timestamp)) {
+      throw new Error(`Proposal ${taskArgs.proposalId} cannot be executed before ${formatTimestamp(proposal.eta.toString())}`);
+    }
+    const expiry: BigNumber = await governor_instance.proposalExpiry(taskArgs.proposalId);
+    if (expiry.lt(latest_block.timestamp)) {
+      throw new Error(`Proposal ${taskArgs.proposalId} expired at ${formatTimestamp(expiry.toString())}`);
+    }
+    const approvals: BigNumber = await governor_instance.proposalApprovals(taskArgs.proposalId);
+    const quorum: BigNumber = await governor_instance.quorum();
+    if (approvals.lt(quorum)) {
+      throw new Error(`Proposal ${taskArgs.proposalId} has ${approvals.toString()} approvals, ${quorum.toString()} required`);
+    }
+
+    await sendTransaction(governor_instance, "execute", taskArgs.proposalId);
+  });
+
+task("governor:cancel", "Cancel a proposal (manager or co-managers)")
+  .addParam("governorAddress", "Governor address")
+  .addParam("proposalId", "Proposal ID", undefined, types.int)
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    const governor_instance: Contract = await getContract(hre, "InvestmentFundGovernor", taskArgs.governorAddress, taskArgs.account);
+    await checkProposalQueued(governor_instance, taskArgs.proposalId);
+
+    await sendTransaction(governor_instance, "cancel", taskArgs.proposalId);
+  });
+
+//
+// Oracle tasks
+//
+
+task("oracle:configure", "Configure the price feeds of the oracle valuing the tokens of multi-token funds")
+  .addParam("oracleAddress", "Oracle address")
+  .addOptionalParam("token", "Token address")
+  .addOptionalParam("feed", "Chainlink-compatible price feed of the token (zero address for removing it, used with --token)")
+  .addOptionalParam("maxPriceAge", "Maximum age in seconds of prices (zero for not using it)")
+  .addOptionalParam("account", "Index of the signer account", 0, types.int)
+  .setAction(async (taskArgs, hre) => {
+    if ((taskArgs.token === undefined) !== (taskArgs.feed === undefined)) {
+      throw new Error("Token and price feed shall be specified together");
+    }
+    const oracle_instance: Contract = await getContract(hre, "InvestmentFundOracle", taskArgs.oracleAddress, taskArgs.account);
+
+    if (taskArgs.token !== undefined) {
+      await sendTransaction(oracle_instance, "setPriceFeed", taskArgs.token, taskArgs.feed);
+    }
+    if (taskArgs.maxPriceAge !== undefined) {
+      await sendTransaction(oracle_instance, "setMaxPriceAge", BigNumber.from(taskArgs.maxPriceAge));
+    }
+  });
+
+//
+// Report tasks
+//
+
+task("fund:status", "Print a report of the fund status, investors and projected payouts")
+  .addParam("fundAddress", "Fund address")
+  .addFlag("json", "Print the report in JSON format")
+  .addFlag("csv", "Print the investors table in CSV format")
+  .setAction(async (taskArgs, hre) => {
+    if (taskArgs.json && taskArgs.csv) {
+      throw new Error("Only one output mode between --json and --csv can be specified");
+    }
+
+    const fund_instance: Contract = await hre.ethers.getContractAt("InvestmentFund", taskArgs.fundAddress);
+    const report: FundReport = await buildFundReport(hre, fund_instance);
+
+    if (taskArgs.json) {
+      console.log(JSON.stringify(report, null, 2));
+    }
+    else if (taskArgs.csv) {
+      console.log("investor,deposit,payout");
+      for (const investor of report.investors) {
+        console.log(`${investor.address},${investor.deposit},${investor.payout}`);
+      }
+    }
+    else {
+      printFundReport(report);
+    }
+  });
+
+task("fund:simulate", "Simulate an investment round off-chain, with the same integer math of the contract")
+  .addParam("deposits", "Comma-separated deposits of the investors")
+  .addParam("finalAmount", "Funds held by the fund when investors withdraw is started, before collecting fees")
+  .addOptionalParam("managementFee", "Management fee in basis points", "0")
+  .addOptionalParam("performanceFee", "Performance fee in basis points", "0")
+  .addFlag("json", "Print the result in JSON format")
+  .addFlag("csv", "Print the payouts table in CSV format")
+  .setAction(async (taskArgs) => {
+    if (taskArgs.json && taskArgs.csv) {
+      throw new Error("Only one output mode between --json and --csv can be specified");
+    }
+
+    const result: SimulationResult = simulateRound({
+      deposits: (taskArgs.deposits as string).split(",").map((deposit) => BigInt(deposit.trim())),
+      finalAmount: BigInt(taskArgs.finalAmount),
+      managementFeeBps: BigInt(taskArgs.managementFee),
+      performanceFeeBps: BigInt(taskArgs.performanceFee),
+    });
+
+    if (taskArgs.json) {
+      console.log(JSON.stringify(result, (_, value) => typeof value === "bigint" ? value.toString() : value, 2));
+    }
+    else if (taskArgs.csv) {
+      console.log("investor,deposit,payout,dust,return_bps");
+      result.payouts.forEach((payout, i) => {
+        console.log(`${i + 1},${payout.deposit},${payout.payout},${payout.dust},${payout.returnBps}`);
+      });
+    }
+    else {
+      printSimulationResult(result);
+    }
+  });
+
+task("fund:index", "Index the fund events into a JSON file and print a summary of the investment rounds")
+  .addParam("fundAddress", "Fund address")
+  .addParam("db", "Path of the JSON file where the events are stored")
+  .addOptionalParam("fromBlock", "Block where the indexing starts (only if the file does not exist)", undefined, types.int)
+  .addOptionalParam("toBlock", "Last block to index (latest if not specified)", undefined, types.int)
+  .addOptionalParam("round", "Print the events of the specified round", undefined, types.int)
+  .setAction(async (taskArgs, hre) => {
+    // Imported here because the TypeChain types are only available after compiling, while tasks are loaded before
+    const { InvestmentFundIndexer, JsonFileIndexerStore } = await import("../indexer");
+
+    const indexer = new InvestmentFundIndexer(
+      hre.ethers.provider,
+      taskArgs.fundAddress,
+      new JsonFileIndexerStore(taskArgs.db),
+      { startBlock: taskArgs.fromBlock }
+    );
+    const new_events_num: number = await indexer.sync(taskArgs.toBlock);
+    console.log(`Indexed ${new_events_num} new events up to block ${await indexer.lastIndexedBlock()}`);
+
+    if (taskArgs.round !== undefined) {
+      const round = await indexer.round(taskArgs.round);
+      if (round === undefined) {
+        throw new Error(`Round ${taskArgs.round} not found`);
+      }
+      for (const event of round.events) {
+        const event_args: string[] = Object.entries(event.args).map(([name, value]) => `${name}: ${value}`);
+        console.log(`  [${event.blockNumber}] ${event.name}(${event_args.join(", ")})`);
+      }
+      return;
+    }
+
+    console.table((await indexer.rounds()).map((round) => ({
+      round: round.round,
+      completed: round.completed,
+      cancelled: round.cancelled,
+      emergencyExit: round.emergencyExit,
+      startBlock: round.depositStartedBlock,
+      endBlock: round.withdrawStoppedBlock,
+      investors: round.investors.length,
+      investorsDeposits: round.investorsDeposits.toString(),
+      investorsWithdrawals: round.investorsWithdrawals.toString(),
+      fundManagerDeposits: round.fundManagerDeposits.toString(),
+      fundManagerWithdrawals: round.fundManagerWithdrawals.toString(),
+      remainingFunds: round.remainingFunds.toString(),
+    })));
+  });
+
+//
+// Not exported functions
+//
+
+async function buildFundReport(
+  hre: HardhatRuntimeEnvironment,
+  fundInstance: Contract
+) : Promise<FundReport> {
+  const fund_token: string = await fundInstance.fundToken();
+  const native: boolean = fund_token === NATIVE_TOKEN;
+  const token_instance: Contract = await hre.ethers.getContractAt("IERC20Metadata", fund_token);
+  const curr_state: string = INVESTMENT_STATES[await fundInstance.currState()];
+  const total_amount_before: BigNumber = await fundInstance.totalAmountBeforeInvestment();
+  const management_fee_bps: BigNumber = await fundInstance.managementFeeBps();
+  const performance_fee_bps: BigNumber = await fundInstance.performanceFeeBps();
+  const total_deposited_funds: BigNumber = await fundInstance.totalDepositedFunds();
+  const token_oracle: string = await fundInstance.tokenOracle();
+
+  // Tokens of multi-token funds, whose current value is the balance used by startInvestorsWithdraw
+  const fund_tokens: FundTokenReport[] = [];
+  let current_funds: BigNumber = total_deposited_funds;
+  if (await fundInstance.isMultiToken()) {
+    const oracle_instance: Contract = await hre.ethers.getContractAt("InvestmentFundOracle", token_oracle);
+    let tokens_value: BigNumber = BigNumber.from(0);
+    for (const token of await fundInstance.fundTokens()) {
+      const token_metadata: Contract = await hre.ethers.getContractAt("IERC20Metadata", token);
+      const token_funds: BigNumber = await fundInstance.tokenFunds(token);
+      tokens_value = tokens_value.add(await oracle_instance.tokenValue(token, token_funds));
+      fund_tokens.push({
+        address: token,
+        symbol: await token_metadata.symbol(),
+        decimals: await token_metadata.decimals(),
+        funds: token_funds.toString(),
+      });
+    }
+    if (curr_state === "DURING_INVESTMENT") {
+      current_funds = tokens_value;
+    }
+  }
+
+  // Strategies of the strategy mode, whose funds are divested by startInvestorsWithdraw
+  const strategies: StrategyReport[] = [];
+  for (const strategy of await fundInstance.strategies()) {
+    const strategy_instance: Contract = await hre.ethers.getContractAt("IFundStrategy", strategy);
+    const strategy_value: BigNumber = await strategy_instance.totalValue();
+    strategies.push({
+      address: strategy,
+      value: strategy_value.toString(),
+    });
+    if (curr_state === "DURING_INVESTMENT") {
+      current_funds = current_funds.add(strategy_value);
+    }
+  }
+
+  // Before withdrawals are started, fees and final amount are projected from the current balance
+  // in the same way startInvestorsWithdraw would compute them
+  let total_amount_after: bigint = (await fundInstance.totalAmountAfterInvestment()).toBigInt();
+  let multiplier: bigint = (await fundInstance.investmentMultiplier()).toBigInt();
+  let projected_fees: bigint = 0n;
+  if (curr_state === "DURING_INVESTMENT" && !total_amount_before.isZero()) {
+    const fees: SimulatedFees = computeFees(
+      current_funds.toBigInt(),
+      total_amount_before.toBigInt(),
+      management_fee_bps.toBigInt(),
+      performance_fee_bps.toBigInt()
+    );
+    projected_fees = fees.managementFee + fees.performanceFee;
+    total_amount_after = current_funds.toBigInt() - projected_fees;
+    multiplier = computeMultiplier(total_amount_after, total_amount_before.toBigInt());
+  }
+  // Deposits are scaled only after the investment (or when projecting it)
+  const scaled: boolean = (curr_state === "AFTER_INVESTMENT") || (curr_state === "DURING_INVESTMENT" && !total_amount_before.isZero());
+
+  const investors: InvestorReport[] = [];
+  let total_payouts: BigNumber = BigNumber.from(0);
+  const total_investors: number = (await fundInstance.numberOfInvestors()).toNumber();
+  for (let offset = 0; offset < total_investors; offset += INVESTORS_PAGE_SIZE) {
+    const page = await fundInstance.investorsPage(offset, INVESTORS_PAGE_SIZE);
+
+    for (let i = 0; i < page.investors.length; i++) {
+      const deposit: BigNumber = page.deposits[i];
+      const payout: BigNumber = scaled
+        ? BigNumber.from(computeAmountToWithdraw(deposit.toBigInt(), total_amount_after, total_amount_before.toBigInt()))
+        : deposit;
+
+      total_payouts = total_payouts.add(payout);
+      investors.push({
+        address: page.investors[i],
+        deposit: deposit.toString(),
+        payout: payout.toString(),
+      });
+    }
+  }
+
+  return {
+    address: fundInstance.address,
+    currState: curr_state,
+    currRound: (await fundInstance.currRound()).toString(),
+    fundManager: await fundInstance.fundManager(),
+    pendingFundManager: await fundInstance.pendingFundManager(),
+    guardian: await fundInstance.guardian(),
+    trustedForwarder: await fundInstance.trustedForwarder(),
+    paused: await fundInstance.paused(),
+    remainingFundsAddr: await fundInstance.remainingFundsAddr(),
+    feeRecipient: await fundInstance.feeRecipient(),
+    managementFeeBps: management_fee_bps.toString(),
+    performanceFeeBps: performance_fee_bps.toString(),
+    fundToken: {
+      address: token_instance.address,
+      symbol: native ? "native currency" : await token_instance.symbol(),
+      decimals: native ? 18 : await token_instance.decimals(),
+      rebasing: await fundInstance.rebasingToken(),
+    },
+    fundTokens: fund_tokens,
+    tokenOracle: token_oracle,
+    payoutToken: await fundInstance.payoutToken(),
+    strategies: strategies,
+    depositMultipleOf: (await fundInstance.depositMultipleOf()).toString(),
+    minInvestorDeposit: (await fundInstance.minInvestorDeposit()).toString(),
+    maxInvestorDeposit: (await fundInstance.maxInvestorDeposit()).toString(),
+    fundHardCap: (await fundInstance.fundHardCap()).toString(),
+    fundSoftCap: (await fundInstance.fundSoftCap()).toString(),
+    allowlistEnabled: await fundInstance.allowlistEnabled(),
+    allowlistMerkleRoot: await fundInstance.allowlistMerkleRoot(),
+    depositDuration: (await fundInstance.depositDuration()).toString(),
+    maxInvestmentDuration: (await fundInstance.maxInvestmentDuration()).toString(),
+    minWithdrawDuration: (await fundInstance.minWithdrawDuration()).toString(),
+    stateDeadline: (await fundInstance.stateDeadline()).toString(),
+    emergencyTimeout: (await fundInstance.emergencyTimeout()).toString(),
+    emergencyDeadline: (await fundInstance.emergencyDeadline()).toString(),
+    emergencyExitVotes: (await fundInstance.emergencyExitVotes()).toString(),
+    totalDepositedFunds: total_deposited_funds.toString(),
+    excessFunds: (await fundInstance.excessFunds()).toString(),
+    totalAmountBeforeInvestment: total_amount_before.toString(),
+    totalAmountAfterInvestment: total_amount_after.toString(),
+    investmentMultiplier: multiplier.toString(),
+    projectedFees: projected_fees.toString(),
+    investors: investors,
+    totalPayouts: total_payouts.toString(),
+    // Funds not included in the payouts, i.e. the rounding dust received by the last withdrawing investor
+    // (or swept to remainingFundsAddr by stopInvestorsWithdraw if there are no investors)
+    remainingFunds: current_funds.sub(projected_fees).sub(total_payouts).toString(),
+  };
+}
+
+function printFundReport(
+  report: FundReport
+) : void {
+  console.log(`Fund:                           ${report.address}`);
+  console.log(`State:                          ${report.currState}`);
+  console.log(`Round:                          ${report.currRound}`);
+  console.log(`Fund manager:                   ${report.fundManager}`);
+  console.log(`Pending fund manager:           ${report.pendingFundManager}`);
+  console.log(`Guardian:                       ${report.guardian}`);
+  console.log(`Trusted forwarder:              ${report.trustedForwarder}`);
+  console.log(`Paused:                         ${report.paused ? "yes" : "no"}`);
+  console.log(`Remaining funds address:        ${report.remainingFundsAddr}`);
+  console.log(`Fee recipient:                  ${report.feeRecipient}`);
+  console.log(`Management fee:                 ${report.managementFeeBps} bps`);
+  console.log(`Performance fee:                ${report.performanceFeeBps} bps`);
+  // Amounts of multi-token funds are values returned by the token oracle
+  if (report.fundTokens.length !== 0) {
+    console.log(`Token oracle:                   ${report.tokenOracle}`);
+    console.log(`Payout token:                   ${report.payoutToken !== constants.AddressZero ? report.payoutToken : "none (pro-rata in the held tokens)"}`);
+    console.log("Fund tokens:");
+    console.table(report.fundTokens);
+  }
+  else {
+    console.log(`Fund token:                     ${report.fundToken.address} (${report.fundToken.symbol}, ${report.fundToken.decimals} decimals${report.fundToken.rebasing ? ", rebasing" : ""})`);
+  }
+  if (report.strategies.length !== 0) {
+    console.log("Strategies (value reported by them):");
+    console.table(report.strategies);
+  }
+  console.log(`Deposit multiple of:            ${report.depositMultipleOf}`);
+  console.log(`Minimum investor deposit:       ${report.minInvestorDeposit}`);
+  console.log(`Maximum investor deposit:       ${report.maxInvestorDeposit}`);
+  console.log(`Fund hard cap:                  ${report.fundHardCap}`);
+  console.log(`Fund soft cap:                  ${report.fundSoftCap}`);
+  console.log(`Allowlist:                      ${report.allowlistEnabled ? "enabled" : "disabled"}` +
+    (report.allowlistEnabled ? ` (Merkle root: ${report.allowlistMerkleRoot})` : ""));
+  console.log(`Deposit duration:               ${report.depositDuration} s`);
+  console.log(`Maximum investment duration:    ${report.maxInvestmentDuration} s`);
+  console.log(`Minimum withdraw duration:      ${report.minWithdrawDuration} s`);
+  console.log(`State deadline:                 ${formatTimestamp(report.stateDeadline)}`);
+  console.log(`Emergency timeout:              ${report.emergencyTimeout} s`);
+  console.log(`Emergency deadline:             ${formatTimestamp(report.emergencyDeadline)}`);
+  console.log(`Emergency exit votes:           ${report.emergencyExitVotes}`);
+  console.log(`Total deposited funds:          ${report.totalDepositedFunds}`);
+  console.log(`Excess funds:                   ${report.excessFunds}`);
+  console.log(`Total amount before investment: ${report.totalAmountBeforeInvestment}`);
+  console.log(`Total amount after investment:  ${report.totalAmountAfterInvestment}` +
+    (report.currState === "DURING_INVESTMENT" ? " (projected from current balance)" : ""));
+  console.log(`Investment multiplier:          ${report.investmentMultiplier}` +
+    (report.currState === "DURING_INVESTMENT" ? " (projected from current balance)" : ""));
+  if (report.currState === "DURING_INVESTMENT") {
+    console.log(`Projected fees:                 ${report.projectedFees}`);
+  }
+  console.log(`Number of investors:            ${report.investors.length}`);
+
+  if (report.investors.length !== 0) {
+    console.table(report.investors);
+  }
+
+  console.log(`Total payouts:                  ${report.totalPayouts}`);
+  if (report.remainingFunds !== "0") {
+    if (report.investors.length !== 0) {
+      console.log(`Rounding dust:                  ${report.remainingFunds} (received by the last withdrawing investor)`);
+    }
+    else {
+      console.log(`WARNING: ${report.remainingFunds} tokens are not paid out to investors ` +
+        `and will be sent to ${report.remainingFundsAddr} by stopInvestorsWithdraw`);
+    }
+  }
+  if (report.excessFunds !== "0") {
+    console.log(`WARNING: ${report.excessFunds} tokens were sent directly to the fund and are not paid out to investors, ` +
+      "they can be sent to the remaining funds address with fund:sweep-excess");
+  }
+}
+
+function printSimulationResult(
+  result: SimulationResult
+) : void {
+  console.log(`Total amount before investment: ${result.totalAmountBeforeInvestment}`);
+  console.log(`Management fee:                 ${result.managementFee}`);
+  console.log(`Performance fee:                ${result.performanceFee}`);
+  console.log(`Total amount after investment:  ${result.totalAmountAfterInvestment}`);
+  console.log(`Investment multiplier:          ${result.investmentMultiplier} (informational)`);
+  console.log(`Gross return:                   ${formatBps(result.grossReturnBps)}`);
+  console.log(`Net return:                     ${formatBps(result.netReturnBps)}`);
+
+  console.table(result.payouts.map((payout) => ({
+    deposit: payout.deposit.toString(),
+    payout: payout.payout.toString(),
+    dust: payout.dust.toString(),
+    return: formatBps(payout.returnBps),
+  })));
+
+  console.log(`Total payouts:                  ${result.totalPayouts}`);
+  console.log(`Rounding dust:                  ${result.dust} (received by the last withdrawing investor)`);
+}
+
+function formatBps(
+  bps: bigint
+) : string {
+  const abs_bps: bigint = bps < 0n ? -bps : bps;
+  return `${bps < 0n ? "-" : ""}${abs_bps / 100n}.${(abs_bps % 100n).toString().padStart(2, "0")}%`;
+}
+
+function formatTimestamp(
+  timestamp: string
+) : string {
+  return timestamp !== "0" ? new Date(Number(timestamp) * 1000).toISOString() : "-";
+}
+
+async function getFundContract(
+  hre: HardhatRuntimeEnvironment,
+  fundAddress: string,
+  accountIndex: number
+) : Promise<Contract> {
+  return getContract(hre, "InvestmentFund", fundAddress, accountIndex);
+}
+
+async function getContract(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  address: string,
+  accountIndex: number
+) : Promise<Contract> {
+  const signers: Signer[] = await hre.ethers.getSigners();
+  if (accountIndex < 0 || accountIndex >= signers.length) {
+    throw new Error(`Invalid account index ${accountIndex}, ${signers.length} accounts available`);
+  }
+
+  return hre.ethers.getContractAt(contractName, address, signers[accountIndex]);
+}
+
+function parseAddressList(
+  addresses: string
+) : string[] {
+  return addresses.split(",").map((address) => {
+    if (!utils.isAddress(address.trim())) {
+      throw new Error(`Invalid address ${address}`);
+    }
+    return address.trim();
+  });
+}
+
+async function checkState(
+  fundInstance: Contract,
+  ...allowedStates: string[]
+) : Promise<void> {
+  const curr_state: string = INVESTMENT_STATES[await fundInstance.currState()];
+  if (allowedStates.indexOf(curr_state) === -1) {
+    throw new Error(`Fund is in ${curr_state} state, expected ${allowedStates.join(" or ")}`);
+  }
+}
+
+async function checkProposalQueued(
+  governorInstance: Contract,
+  proposalId: number
+) : Promise<GovernorProposal> {
+  const proposal: GovernorProposal = await governorInstance.proposal(proposalId);
+  const curr_state: string = PROPOSAL_STATES[proposal.state];
+  if (curr_state !== "QUEUED") {
+    throw new Error(`Proposal ${proposalId} is in ${curr_state} state, expected QUEUED`);
+  }
+  return proposal;
+}
+
+async function prepareFunds(
+  hre: HardhatRuntimeEnvironment,
+  fundInstance: Contract,
+  amount: BigNumber
+) : Promise<PayableOverrides> {
+  // Native currency is sent with the transaction
+  if (await fundInstance.isNative()) {
+    return { value: amount };
+  }
+
+  await approveToken(hre, fundInstance, await fundInstance.fundToken(), amount);
+  return {};
+}
+
+async function approveToken(
+  hre: HardhatRuntimeEnvironment,
+  spenderInstance: Contract,
+  token: string,
+  amount: BigNumber
+) : Promise<void> {
+  const token_instance: Contract = await hre.ethers.getContractAt("IERC20", token, spenderInstance.signer);
+  const owner_address: string = await spenderInstance.signer.getAddress();
+
+  const allowance: BigNumber = await token_instance.allowance(owner_address, spenderInstance.address);
+  if (allowance.lt(amount)) {
+    console.log(`Approving ${amount.toString()} tokens to ${spenderInstance.address}...`);
+    await sendTransaction(token_instance, "approve", spenderInstance.address, amount);
+  }
+}
+
+async function sendTransaction(
+  contractInstance: Contract,
+  functionName: string,
+  ...args: unknown[]
+) : Promise<void> {
+  let tx: ContractTransaction;
+  let receipt: ContractReceipt;
+  try {
+    tx = await contractInstance[functionName](...args);
+    console.log(`Transaction sent: ${tx.hash}`);
+    receipt = await tx.wait();
+  }
+  catch (err) {
+    throw await explainTransactionError(contractInstance, functionName, err);
+  }
+  console.log(`Transaction mined in block ${receipt.blockNumber} (gas used: ${receipt.gasUsed.toString()})`);
+
+  for (const event of receipt.events ?? []) {
+    if (event.event === undefined || event.address !== contractInstance.address) {
+      continue;
+    }
+
+    const inputs = contractInstance.interface.getEvent(event.event).inputs;
+    const event_args: string[] = inputs.map((input, i) => `${input.name}: ${event.args![i].toString()}`);
+    console.log(`  ${event.event}(${event_args.join(", ")})`);
+  }
+}
+
+async function explainTransactionError(
+  contractInstance: Contract,
+  functionName: string,
+  err: unknown
+) : Promise<unknown> {
+  // Imported here because the exported ABI is only available after compiling, while tasks are loaded before
+  const { decodeFundError, explainFundError } = await import("../client/InvestmentFundErrorDecoder");
+
+  const decoded_err = decodeFundError(err);
+  if (decoded_err === undefined) {
+    return err;
+  }
+  // Errors bubbled up from the fund by other contracts (e.g. the governor) cannot be cross-checked against the fund state
+  if (!("currState" in contractInstance.functions)) {
+    return new Error(`${functionName} reverted with ${decoded_err.name}: ${decoded_err.message}`);
+  }
+
+  const explained_err = await explainFundError(decoded_err, contractInstance, {
+    functionName: functionName,
+    caller: await contractInstance.signer.getAddress(),
+  });
+  return new Error(`${functionName} reverted with ${explained_err.name}: ${explained_err.message}`);
+}
@@ -14,6 +14,8 @@ type InvetmentStatesType = {
 
 // Null address
 export const NULL_ADDRESS: string = "0x0000000000000000000000000000000000000000";
+// Null bytes32
+export const NULL_BYTES32: string = "0x0000000000000000000000000000000000000000000000000000000000000000";
 // Total investors for testing
 export const TOTAL_TEST_INVESTORS: number = 5;
 // Number of multiple deposits for testing
@@ -30,6 +32,16 @@ export const NEW_MIN_AMOUNT: number = 100;
 export const NEW_MAX_AMOUNT: number = 100000;
 export const NEW_MULTIPLE_OF: number = 10;
 export const DUMMY_AMOUNT: number = 5000;
+// Fees for testing (in basis points)
+export const BPS_DENOMINATOR: number = 10000;
+export const NEW_MANAGEMENT_FEE: number = 200;
+export const NEW_PERFORMANCE_FEE: number = 2000;
+// Durations for testing (in seconds)
+export const MAX_DURATION: number = 3650 * 24 * 60 * 60;
+export const NEW_DEPOSIT_DURATION: number = 7 * 24 * 60 * 60;
+export const NEW_MAX_INVESTMENT_DURATION: number = 30 * 24 * 60 * 60;
+export const NEW_MIN_WITHDRAW_DURATION: number = 14 * 24 * 60 * 60;
+export const NEW_EMERGENCY_TIMEOUT: number = 180 * 24 * 60 * 60;
 // Investment states
 export const InvestmentStates: InvetmentStatesType = {
   INITIAL: 0,
@@ -14,22 +14,33 @@ describe("InvestmentFund.AFTER_INVESTMENT", () => {
     test_ctx = await utils.initAfterInvestmentTestContext();
   });
 
+  // Amount withdrawn for the specified shares, i.e. the shares fraction of the final amount rounded down
+  async function amountToWithdraw(
+    shares: number
+  ) : Promise<number> {
+    const amount_before: number = (await test_ctx.investment_fund.totalAmountBeforeInvestment()).toNumber();
+    const amount_after: number = (await test_ctx.investment_fund.totalAmountAfterInvestment()).toNumber();
+    return Math.floor((shares * amount_after) / amount_before);
+  }
+
   it("should allow investors to withdraw their funds", async () => {
     let total_amount: number = (await test_ctx.investment_fund.totalDepositedFunds()).toNumber();
-    const inv_multiplier: number = (await test_ctx.investment_fund.investmentMultiplier()).toNumber();
 
     for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
       const curr_signer: Signer = test_ctx.accounts.signers[i];
       const curr_address: string = await curr_signer.getAddress();
-      const curr_amount: number = Math.floor((constants.DUMMY_AMOUNT * i * inv_multiplier) / constants.MULTIPLIER_DECIMALS);
+      // The last investor receives all the remaining funds, including the rounding dust
+      const curr_amount: number = (i === constants.TOTAL_TEST_INVESTORS) ? total_amount : await amountToWithdraw(constants.DUMMY_AMOUNT * i);
       const initial_balance: number = (await test_ctx.mock_token.balanceOf(curr_address)).toNumber();
 
       total_amount -= curr_amount;
 
       // Withdraw to account
-      await expect(await test_ctx.investment_fund.connect(curr_signer).investorWithdrawAll())
-        .to.emit(test_ctx.investment_fund, "InvestorAllFundsWithdrawn")
-        .withArgs(curr_address, curr_amount);
+      utils.expectEvent(
+        await test_ctx.fund_client.connect(curr_signer).withdrawAll(),
+        "InvestorAllFundsWithdrawn",
+        curr_address, curr_amount
+      );
       // Check state
       expect(await test_ctx.mock_token.balanceOf(curr_address))
         .to.equal(initial_balance + curr_amount);
@@ -48,22 +59,58 @@ describe("InvestmentFund.AFTER_INVESTMENT", () => {
     }
   });
 
+  it("should allow investors to withdraw part of their funds", async () => {
+    let total_amount: number = (await test_ctx.investment_fund.totalDepositedFunds()).toNumber();
+
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const curr_signer: Signer = test_ctx.accounts.signers[i];
+      const curr_address: string = await curr_signer.getAddress();
+      const curr_deposit: number = constants.DUMMY_AMOUNT * i;
+
+      // Withdraw in two parts, the withdrawn amount is scaled by the investment result
+      for (const deposit_amount of [curr_deposit / 4, curr_deposit * 3 / 4]) {
+        const last_shares: boolean = (i === constants.TOTAL_TEST_INVESTORS) && (deposit_amount !== curr_deposit / 4);
+        const curr_amount: number = last_shares ? total_amount : await amountToWithdraw(deposit_amount);
+        const initial_balance: number = (await test_ctx.mock_token.balanceOf(curr_address)).toNumber();
+
+        total_amount -= curr_amount;
+
+        utils.expectEvent(
+          await test_ctx.fund_client.connect(curr_signer).withdraw(deposit_amount),
+          "InvestorFundsWithdrawn",
+          curr_address, deposit_amount, curr_amount
+        );
+        expect(await test_ctx.mock_token.balanceOf(curr_address))
+          .to.equal(initial_balance + curr_amount);
+        expect(await test_ctx.investment_fund.totalDepositedFunds())
+          .to.equal(total_amount);
+      }
+
+      expect(await test_ctx.investment_fund.depositOfInvestor(curr_address))
+        .to.equal(0);
+      expect(await test_ctx.investment_fund.numberOfInvestors())
+        .to.equal(constants.TOTAL_TEST_INVESTORS - i);
+    }
+  });
+
   it("should allow fund manager to return funds to investors singularly", async () => {
     let total_amount: number = (await test_ctx.investment_fund.totalDepositedFunds()).toNumber();
-    const inv_multiplier: number = (await test_ctx.investment_fund.investmentMultiplier()).toNumber();
 
     for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
       const curr_signer: Signer = test_ctx.accounts.signers[i];
       const curr_address: string = await curr_signer.getAddress();
-      const curr_amount: number = Math.floor((constants.DUMMY_AMOUNT * i * inv_multiplier) / constants.MULTIPLIER_DECIMALS);
+      // The last investor receives all the remaining funds, including the rounding dust
+      const curr_amount: number = (i === constants.TOTAL_TEST_INVESTORS) ? total_amount : await amountToWithdraw(constants.DUMMY_AMOUNT * i);
       const initial_balance: number = (await test_ctx.mock_token.balanceOf(curr_address)).toNumber();
       
       total_amount -= curr_amount;
 
       // Withdraw to investor
-      await expect(await test_ctx.investment_fund.fundManagerReturnFundsToInvestor(curr_address))
-        .to.emit(test_ctx.investment_fund, "FundManagerFundsReturnedToInvestor")
-        .withArgs(curr_address, curr_amount);
+      utils.expectEvent(
+        await test_ctx.fund_client.fundManagerReturnFundsToInvestor(curr_address),
+        "FundManagerFundsReturnedToInvestor",
+        curr_address, curr_amount
+      );
       // Check state
       expect(await test_ctx.mock_token.balanceOf(curr_address))
         .to.equal(initial_balance + curr_amount);
@@ -91,22 +138,79 @@ describe("InvestmentFund.AFTER_INVESTMENT", () => {
     }
 
     // Withdraw to all investor
-    await expect(await test_ctx.investment_fund.fundManagerReturnFundsToAllInvestors())
-      .to.emit(test_ctx.investment_fund, "FundManagerFundsReturnedToAllInvestors");
+    utils.expectEvent(
+      await test_ctx.fund_client.fundManagerReturnFundsToAllInvestors(),
+      "FundManagerFundsReturnedToAllInvestors"
+    );
     // Check state
     expect(await test_ctx.investment_fund.numberOfInvestors())
       .to.equal(0,);
     expect((await test_ctx.investment_fund.allInvestors()).length)
       .to.equal(0);
 
-    // Verify all balances
-    const inv_multiplier: number = (await test_ctx.investment_fund.investmentMultiplier()).toNumber();
-    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+    // Verify all balances, funds are returned starting from the last investor so the first one receives the rounding dust
+    const amount_after: number = (await test_ctx.investment_fund.totalAmountAfterInvestment()).toNumber();
+    let total_amount: number = 0;
+    for (let i = constants.TOTAL_TEST_INVESTORS; i > 0; i--) {
       const curr_address: string = await test_ctx.accounts.signers[i].getAddress();
-      const curr_amount = Math.floor((constants.DUMMY_AMOUNT * i * inv_multiplier) / constants.MULTIPLIER_DECIMALS);
+      const curr_amount = (i === 1) ? amount_after - total_amount : await amountToWithdraw(constants.DUMMY_AMOUNT * i);
       expect(await test_ctx.mock_token.balanceOf(curr_address))
         .to.equal(initial_balances[i - 1] + curr_amount);
+      total_amount += curr_amount;
     }
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(0);
+  });
+
+  it("should allow fund manager to return funds to investors in batches", async () => {
+    const batch_size: number = 2;
+
+    // Store initial balances
+    const initial_balances: number[] = [];
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const curr_address: string = await test_ctx.accounts.signers[i].getAddress();
+      initial_balances.push((await test_ctx.mock_token.balanceOf(curr_address)).toNumber());
+    }
+
+    // The batch in the middle returns funds only to the investors in it
+    const batch_investors: string[] = (await test_ctx.fund_client.investorsPage(1, batch_size)).investors;
+    const result = await test_ctx.fund_client.fundManagerReturnFundsToInvestorsBatch(1, batch_size);
+    expect(result.events.filter((event) => event.name === "FundManagerFundsReturnedToInvestor").map((event) => event.args.investor))
+      .to.have.members(batch_investors);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(constants.TOTAL_TEST_INVESTORS - batch_size);
+    for (const investor of batch_investors) {
+      expect(await test_ctx.investment_fund.depositOfInvestor(investor))
+        .to.equal(0);
+    }
+
+    // Calling it repeatedly from the first investor returns funds to all the remaining ones
+    while (!(await test_ctx.investment_fund.numberOfInvestors()).isZero()) {
+      await test_ctx.fund_client.fundManagerReturnFundsToInvestorsBatch(0, batch_size);
+    }
+    // Every investor receives at least its share of the final amount, and the rounding dust goes to the last one
+    let total_amount: number = 0;
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const curr_address: string = await test_ctx.accounts.signers[i].getAddress();
+      const curr_amount: number = (await test_ctx.mock_token.balanceOf(curr_address)).toNumber() - initial_balances[i - 1];
+      expect(curr_amount)
+        .to.be.gte(await amountToWithdraw(constants.DUMMY_AMOUNT * i));
+      total_amount += curr_amount;
+    }
+    expect(total_amount)
+      .to.equal(await test_ctx.investment_fund.totalAmountAfterInvestment());
+
+    await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(0, batch_size))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "NoInvestorError");
+  });
+
+  it("should revert if the batch of investors is empty", async () => {
+    await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(0, 0))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "NoInvestorError");
+    await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(constants.TOTAL_TEST_INVESTORS, 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "NoInvestorError");
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[1]).fundManagerReturnFundsToInvestorsBatch(0, 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
   });
 
   it("should go to INITIAL state when stopInvestorsWithdraw is called", async () => {
@@ -115,8 +219,11 @@ describe("InvestmentFund.AFTER_INVESTMENT", () => {
     const total_amount: number = (await test_ctx.investment_fund.totalDepositedFunds()).toNumber();
 
     // Go to next state
-    await expect(await test_ctx.investment_fund.stopInvestorsWithdraw())
-      .to.emit(test_ctx.investment_fund, "InvestorsWithdrawStopped");
+    utils.expectEvent(
+      await test_ctx.fund_client.stopInvestorsWithdraw(),
+      "InvestorsWithdrawStopped",
+      1, total_amount
+    );
 
     // Check state (the remaining funds are transferred to the fund manager)
     expect(await test_ctx.investment_fund.currState())
@@ -131,7 +238,7 @@ describe("InvestmentFund.AFTER_INVESTMENT", () => {
     const target_address: string = await test_ctx.accounts.signers[0].getAddress();
 
     // Withdraw all to reset funds
-    await test_ctx.investment_fund.fundManagerReturnFundsToAllInvestors();
+    await test_ctx.fund_client.fundManagerReturnFundsToAllInvestors();
 
     await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestor(target_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
@@ -150,7 +257,7 @@ describe("InvestmentFund.AFTER_INVESTMENT", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.setRemainingFundsAddress(dummy_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
-    await expect(test_ctx.investment_fund.setFundToken(test_ctx.mock_token.address))
+    await expect(test_ctx.investment_fund.setFundToken(test_ctx.mock_token.address, false))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.setDepositMultipleOf(constants.NEW_MULTIPLE_OF))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
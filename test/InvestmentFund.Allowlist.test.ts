@@ -0,0 +1,218 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+// Project
+import {
+  AllowlistTree,
+  InvestorNotAllowedError,
+  allowlistLeaf,
+  buildAllowlistTree,
+  verifyAllowlistProof
+} from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for investors allowlist
+//
+describe("InvestmentFund.Allowlist", () => {
+  // Number of investors in the allowlist Merkle tree
+  const MERKLE_INVESTORS_NUM: number = 3;
+
+  let test_ctx: utils.TestContext;
+  let investor: Signer;
+  let investor_address: string;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+    investor = test_ctx.accounts.signers[1];
+    investor_address = await investor.getAddress();
+  });
+
+  async function initAllowlist() : Promise<void> {
+    await test_ctx.fund_client.setAllowlistEnabled(true);
+    await test_ctx.fund_client.startInvestorsDeposit();
+  }
+
+  async function buildSignersTree() : Promise<AllowlistTree> {
+    const addresses: string[] = [];
+    for (let i = 1; i < (MERKLE_INVESTORS_NUM + 1); i++) {
+      addresses.push(await test_ctx.accounts.signers[i].getAddress());
+    }
+    return buildAllowlistTree(addresses);
+  }
+
+  it("should construct with allowlist disabled", async () => {
+    expect(await test_ctx.investment_fund.allowlistEnabled())
+      .to.equal(false);
+    expect(await test_ctx.investment_fund.allowlistMerkleRoot())
+      .to.equal(constants.NULL_BYTES32);
+    expect(await test_ctx.investment_fund.isInvestorAllowed(investor_address))
+      .to.equal(true);
+  });
+
+  it("should enable and disable allowlist", async () => {
+    utils.expectEvent(
+      await test_ctx.fund_client.setAllowlistEnabled(true),
+      "AllowlistEnabledChanged",
+      true
+    );
+    expect(await test_ctx.investment_fund.allowlistEnabled())
+      .to.equal(true);
+    expect(await test_ctx.investment_fund.isInvestorAllowed(investor_address))
+      .to.equal(false);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setAllowlistEnabled(false),
+      "AllowlistEnabledChanged",
+      false
+    );
+    expect(await test_ctx.investment_fund.allowlistEnabled())
+      .to.equal(false);
+  });
+
+  it("should revert if allowlist is not managed by the fund manager", async () => {
+    await expect(test_ctx.investment_fund.connect(investor).setAllowlistEnabled(true))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.investment_fund.connect(investor).setInvestorAllowed(investor_address, true))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.investment_fund.connect(investor).setInvestorsAllowed([investor_address], true))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.investment_fund.connect(investor).setAllowlistMerkleRoot(allowlistLeaf(investor_address)))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+  });
+
+  it("should only enable allowlist in the initial state", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    await expect(test_ctx.investment_fund.setAllowlistEnabled(true))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+  });
+
+  it("should revert if a non-allowlisted investor deposits", async () => {
+    await initAllowlist();
+
+    await expect(test_ctx.investment_fund.connect(investor).investorDeposit(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestorNotAllowedError")
+      .withArgs(investor_address);
+    await expect(test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(InvestorNotAllowedError, `investor ${investor_address} is not in the allowlist`);
+  });
+
+  it("should allow deposits of individually allowlisted investors", async () => {
+    await initAllowlist();
+
+    // Investors can be added while deposits are open
+    utils.expectEvent(
+      await test_ctx.fund_client.setInvestorAllowed(investor_address, true),
+      "InvestorAllowlistChanged",
+      investor_address, true
+    );
+    expect(await test_ctx.investment_fund.isInvestorAllowed(investor_address))
+      .to.equal(true);
+
+    await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+    expect(await test_ctx.investment_fund.depositOfInvestor(investor_address))
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    // Removed investors cannot deposit anymore, but they can still withdraw
+    utils.expectEvent(
+      await test_ctx.fund_client.setInvestorAllowed(investor_address, false),
+      "InvestorAllowlistChanged",
+      investor_address, false
+    );
+    await expect(test_ctx.investment_fund.connect(investor).investorDeposit(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestorNotAllowedError")
+      .withArgs(investor_address);
+    await test_ctx.fund_client.connect(investor).withdrawAll();
+  });
+
+  it("should allow deposits of investors allowlisted in batch", async () => {
+    await initAllowlist();
+
+    const investors: Signer[] = test_ctx.accounts.signers.slice(1, constants.TOTAL_TEST_INVESTORS + 1);
+    const investors_addresses: string[] = await Promise.all(investors.map((signer) => signer.getAddress()));
+
+    const result = await test_ctx.fund_client.setInvestorsAllowed(investors_addresses, true);
+    expect(result.events.filter((e) => e.name === "InvestorAllowlistChanged").length)
+      .to.equal(investors_addresses.length);
+
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(constants.TOTAL_TEST_INVESTORS);
+
+    await expect(test_ctx.investment_fund.setInvestorsAllowed([investor_address, constants.NULL_ADDRESS], true))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AddressError")
+      .withArgs(constants.NULL_ADDRESS);
+  });
+
+  it("should allow deposits of investors with a valid Merkle proof", async () => {
+    const tree: AllowlistTree = await buildSignersTree();
+    await initAllowlist();
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setAllowlistMerkleRoot(tree.root),
+      "AllowlistMerkleRootChanged",
+      constants.NULL_BYTES32, tree.root
+    );
+
+    for (let i = 1; i < (MERKLE_INVESTORS_NUM + 1); i++) {
+      const curr_investor: Signer = test_ctx.accounts.signers[i];
+      const curr_investor_address: string = await curr_investor.getAddress();
+
+      utils.expectEvent(
+        await test_ctx.fund_client.connect(curr_investor).deposit(constants.DUMMY_AMOUNT, tree.proofs[curr_investor_address]),
+        "InvestorAllowlistChanged",
+        curr_investor_address, true
+      );
+      // The proof is not needed anymore
+      expect(await test_ctx.investment_fund.isInvestorAllowed(curr_investor_address))
+        .to.equal(true);
+      await test_ctx.fund_client.connect(curr_investor).deposit(constants.DUMMY_AMOUNT);
+    }
+  });
+
+  it("should revert if the Merkle proof is not valid", async () => {
+    const tree: AllowlistTree = await buildSignersTree();
+    const other_investor: Signer = test_ctx.accounts.signers[MERKLE_INVESTORS_NUM + 1];
+    const other_investor_address: string = await other_investor.getAddress();
+
+    await initAllowlist();
+    await test_ctx.fund_client.setAllowlistMerkleRoot(tree.root);
+
+    await expect(test_ctx.investment_fund.connect(other_investor).investorDepositWithProof(constants.DUMMY_AMOUNT, tree.proofs[investor_address]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestorNotAllowedError")
+      .withArgs(other_investor_address);
+    await expect(test_ctx.fund_client.connect(other_investor).deposit(constants.DUMMY_AMOUNT, tree.proofs[investor_address]))
+      .to.be.rejectedWith(InvestorNotAllowedError, "the Merkle proof is not valid");
+
+    // Proofs are not valid anymore if the root is changed
+    await test_ctx.fund_client.setAllowlistMerkleRoot(constants.NULL_BYTES32);
+    await expect(test_ctx.investment_fund.connect(investor).investorDepositWithProof(constants.DUMMY_AMOUNT, tree.proofs[investor_address]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestorNotAllowedError")
+      .withArgs(investor_address);
+  });
+
+  it("should build allowlist Merkle trees", async () => {
+    // Single investor: the root is the leaf itself
+    const single_tree: AllowlistTree = buildAllowlistTree([investor_address.toLowerCase()]);
+    expect(single_tree.root)
+      .to.equal(allowlistLeaf(investor_address));
+    expect(single_tree.proofs[investor_address])
+      .to.deep.equal([]);
+
+    // Odd number of investors, with duplicates
+    const addresses: string[] = await Promise.all(test_ctx.accounts.signers.slice(0, 5).map((signer) => signer.getAddress()));
+    const tree: AllowlistTree = buildAllowlistTree([...addresses, addresses[0]]);
+    expect(Object.keys(tree.proofs).length)
+      .to.equal(addresses.length);
+    for (const address of addresses) {
+      expect(verifyAllowlistProof(address, tree.proofs[address], tree.root))
+        .to.equal(true);
+    }
+    expect(verifyAllowlistProof(await test_ctx.accounts.signers[6].getAddress(), tree.proofs[addresses[0]], tree.root))
+      .to.equal(false);
+
+    expect(() => buildAllowlistTree([]))
+      .to.throw("at least one investor");
+  });
+});
@@ -29,9 +29,11 @@ describe("InvestmentFund.BEFORE_INVESTMENT", () => {
         total_amount += curr_amount;
 
         // Deposit from account
-        await expect(await test_ctx.investment_fund.connect(curr_signer).investorDeposit(curr_amount))
-          .to.emit(test_ctx.investment_fund, "InvestorFundsDeposited")
-          .withArgs(curr_address, curr_amount);
+        utils.expectEvent(
+          await test_ctx.fund_client.connect(curr_signer).deposit(curr_amount),
+          "InvestorFundsDeposited",
+          curr_address, curr_amount
+        );
         // Check state
         expect(await test_ctx.mock_token.balanceOf(curr_address))
           .to.equal(initial_balance - curr_amount);
@@ -61,9 +63,11 @@ describe("InvestmentFund.BEFORE_INVESTMENT", () => {
       total_amount -= curr_amount;
 
       // Withdraw to account
-      await expect(await test_ctx.investment_fund.connect(curr_signer).investorWithdrawAll())
-        .to.emit(test_ctx.investment_fund, "InvestorAllFundsWithdrawn")
-        .withArgs(curr_address, curr_amount);
+      utils.expectEvent(
+        await test_ctx.fund_client.connect(curr_signer).withdrawAll(),
+        "InvestorAllFundsWithdrawn",
+        curr_address, curr_amount
+      );
       // Check state
       expect(await test_ctx.mock_token.balanceOf(curr_address))
         .to.equal(initial_balance + curr_amount);
@@ -82,14 +86,83 @@ describe("InvestmentFund.BEFORE_INVESTMENT", () => {
     }
   });
 
+  it("should get investors in pages", async () => {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    const all_investors: string[] = await test_ctx.investment_fund.allInvestors();
+    const page_size: number = 2;
+    for (let offset = 0; offset < constants.TOTAL_TEST_INVESTORS; offset += page_size) {
+      const page = await test_ctx.fund_client.investorsPage(offset, page_size);
+      expect(page.investors)
+        .to.deep.equal(all_investors.slice(offset, offset + page_size));
+      for (let i = 0; i < page.investors.length; i++) {
+        expect(page.deposits[i])
+          .to.equal(await test_ctx.investment_fund.depositOfInvestor(page.investors[i]));
+      }
+    }
+
+    // Pages are limited to the number of investors
+    expect((await test_ctx.investment_fund.investorsPage(0, constants.TOTAL_TEST_INVESTORS + 1)).investors)
+      .to.deep.equal(all_investors);
+    expect((await test_ctx.investment_fund.investorsPage(constants.TOTAL_TEST_INVESTORS, 1)).investors.length)
+      .to.equal(0);
+    expect((await test_ctx.investment_fund.investorsPage(1, 0)).investors.length)
+      .to.equal(0);
+  });
+
+  it("should allow investors to withdraw part of their deposit", async () => {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    let total_amount: number = (await test_ctx.investment_fund.totalDepositedFunds()).toNumber();
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const curr_signer: Signer = test_ctx.accounts.signers[i];
+      const curr_address: string = await curr_signer.getAddress();
+      const curr_amount: number = (constants.DUMMY_AMOUNT / 2) * i;
+      const initial_balance: number = (await test_ctx.mock_token.balanceOf(curr_address)).toNumber();
+
+      total_amount -= curr_amount;
+
+      // Withdraw half of the deposit
+      utils.expectEvent(
+        await test_ctx.fund_client.connect(curr_signer).withdraw(curr_amount),
+        "InvestorFundsWithdrawn",
+        curr_address, curr_amount, curr_amount
+      );
+      // Check state (investor is kept)
+      expect(await test_ctx.mock_token.balanceOf(curr_address))
+        .to.equal(initial_balance + curr_amount);
+      expect(await test_ctx.investment_fund.depositOfInvestor(curr_address))
+        .to.equal(constants.DUMMY_AMOUNT * i - curr_amount);
+      expect(await test_ctx.investment_fund.numberOfInvestors())
+        .to.equal(constants.TOTAL_TEST_INVESTORS);
+      expect(await test_ctx.investment_fund.totalDepositedFunds())
+        .to.equal(total_amount);
+    }
+
+    // Withdraw the remaining deposit
+    const curr_signer: Signer = test_ctx.accounts.signers[1];
+    const curr_address: string = await curr_signer.getAddress();
+    await test_ctx.fund_client.connect(curr_signer).withdraw(constants.DUMMY_AMOUNT / 2);
+
+    expect(await test_ctx.investment_fund.depositOfInvestor(curr_address))
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(constants.TOTAL_TEST_INVESTORS - 1);
+    expect((await test_ctx.investment_fund.allInvestors()).indexOf(curr_address))
+      .to.equal(-1);
+  });
+
   it("should go to DURING_INVESTMENT state when stopInvestorsDeposit is called", async () => {
     // Simulate some deposits
-    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.investment_fund);
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
     const total_deposit: BigNumber = await test_ctx.investment_fund.totalDepositedFunds();
 
     // Go to next state
-    await expect(await test_ctx.investment_fund.stopInvestorsDeposit())
-      .to.emit(test_ctx.investment_fund, "InvestorsDepositStopped");
+    utils.expectEvent(
+      await test_ctx.fund_client.stopInvestorsDeposit(),
+      "InvestorsDepositStopped",
+      1
+    );
     // Check state
     expect(await test_ctx.investment_fund.currState())
       .to.equal(constants.InvestmentStates.DURING_INVESTMENT);
@@ -120,6 +193,27 @@ describe("InvestmentFund.BEFORE_INVESTMENT", () => {
     await expect(test_ctx.investment_fund.connect(investor_account).investorWithdrawAll())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
       .withArgs(0);
+    await expect(test_ctx.investment_fund.connect(investor_account).investorWithdraw(min_investment))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(min_investment);
+
+    // Partial withdraw shall leave a valid deposit
+    const depositor_account: Signer = test_ctx.accounts.signers[1];
+    const deposit: number = min_investment * 2;
+    await test_ctx.fund_client.connect(depositor_account).deposit(deposit);
+
+    await expect(test_ctx.investment_fund.connect(depositor_account).investorWithdraw(0))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(0);
+    await expect(test_ctx.investment_fund.connect(depositor_account).investorWithdraw(deposit + multiple_deposit_of))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(deposit + multiple_deposit_of);
+    await expect(test_ctx.investment_fund.connect(depositor_account).investorWithdraw(min_investment + multiple_deposit_of))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(min_investment + multiple_deposit_of);
+    await expect(test_ctx.investment_fund.connect(depositor_account).investorWithdraw(multiple_deposit_of / 2))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(multiple_deposit_of / 2);
   });
 
   it("should revert if not allowed functions are called", async () => {
@@ -131,7 +225,7 @@ describe("InvestmentFund.BEFORE_INVESTMENT", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.setRemainingFundsAddress(dummy_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
-    await expect(test_ctx.investment_fund.setFundToken(test_ctx.mock_token.address))
+    await expect(test_ctx.investment_fund.setFundToken(test_ctx.mock_token.address, false))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.setDepositMultipleOf(constants.NEW_MULTIPLE_OF))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
@@ -149,6 +243,8 @@ describe("InvestmentFund.BEFORE_INVESTMENT", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.fundManagerReturnFundsToAllInvestors())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(0, constants.TOTAL_TEST_INVESTORS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.startInvestorsDeposit())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.startInvestorsWithdraw())
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+// Project
+import { AmountError, InvestmentStates, ValueError } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for investor and fund caps
+//
+describe("InvestmentFund.Caps", () => {
+  // Total deposited by investors in initInvestorsDeposit
+  const TOTAL_DEPOSITS: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+  });
+
+  it("should construct with no caps", async () => {
+    const constructed_ctx: utils.TestContext = await utils.initConstructedTestContext();
+
+    expect(await constructed_ctx.investment_fund.fundHardCap())
+      .to.equal(constants.UINT256_MAX);
+    expect(await constructed_ctx.investment_fund.fundSoftCap())
+      .to.equal(0);
+  });
+
+  it("should set caps", async () => {
+    utils.expectEvent(
+      await test_ctx.fund_client.setFundHardCap(TOTAL_DEPOSITS),
+      "FundHardCapChanged",
+      constants.UINT256_MAX, TOTAL_DEPOSITS
+    );
+    expect(await test_ctx.investment_fund.fundHardCap())
+      .to.equal(TOTAL_DEPOSITS);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setFundSoftCap(TOTAL_DEPOSITS),
+      "FundSoftCapChanged",
+      0, TOTAL_DEPOSITS
+    );
+    expect(await test_ctx.investment_fund.fundSoftCap())
+      .to.equal(TOTAL_DEPOSITS);
+
+    // Soft cap can be disabled
+    await test_ctx.fund_client.setFundSoftCap(0);
+    expect(await test_ctx.investment_fund.fundSoftCap())
+      .to.equal(0);
+  });
+
+  it("should revert if caps are not valid", async () => {
+    await test_ctx.fund_client.setFundHardCap(TOTAL_DEPOSITS);
+    await test_ctx.fund_client.setFundSoftCap(TOTAL_DEPOSITS / 2);
+
+    await expect(test_ctx.investment_fund.setFundHardCap(0))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(0);
+    await expect(test_ctx.investment_fund.setFundHardCap(TOTAL_DEPOSITS / 2 - 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(TOTAL_DEPOSITS / 2 - 1);
+    await expect(test_ctx.investment_fund.setFundSoftCap(TOTAL_DEPOSITS + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(TOTAL_DEPOSITS + 1);
+    await expect(test_ctx.fund_client.setFundSoftCap(TOTAL_DEPOSITS + 1))
+      .to.be.rejectedWith(ValueError, `fund soft cap ${TOTAL_DEPOSITS + 1} shall not be higher than the fund hard cap ${TOTAL_DEPOSITS}`);
+
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).setFundHardCap(TOTAL_DEPOSITS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).setFundSoftCap(TOTAL_DEPOSITS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    await expect(test_ctx.investment_fund.setFundHardCap(TOTAL_DEPOSITS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.setFundSoftCap(TOTAL_DEPOSITS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+  });
+
+  it("should limit the cumulative deposit of an investor", async () => {
+    const investor: Signer = test_ctx.accounts.signers[1];
+    const investor_address: string = await investor.getAddress();
+    const curr_amount: number = constants.DUMMY_AMOUNT / constants.MULTIPLE_DEPOSIT_NUM;
+
+    await test_ctx.fund_client.setMaxInvestorDeposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    // Reach the maximum deposit with multiple deposits
+    for (let i = 0; i < constants.MULTIPLE_DEPOSIT_NUM; i++) {
+      await test_ctx.fund_client.connect(investor).deposit(curr_amount);
+    }
+    expect(await test_ctx.investment_fund.depositOfInvestor(investor_address))
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    await expect(test_ctx.investment_fund.connect(investor).investorDeposit(constants.NEW_MIN_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(constants.NEW_MIN_AMOUNT);
+    await expect(test_ctx.fund_client.connect(investor).deposit(constants.NEW_MIN_AMOUNT))
+      .to.be.rejectedWith(
+        AmountError,
+        `investor deposit ${constants.DUMMY_AMOUNT + constants.NEW_MIN_AMOUNT} would be higher than the maximum investor deposit ${constants.DUMMY_AMOUNT}`
+      );
+
+    // Other investors are not affected
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[2]).deposit(constants.DUMMY_AMOUNT);
+
+    // Withdrawing allows depositing again
+    await test_ctx.fund_client.connect(investor).withdraw(curr_amount);
+    await test_ctx.fund_client.connect(investor).deposit(curr_amount);
+    expect(await test_ctx.investment_fund.depositOfInvestor(investor_address))
+      .to.equal(constants.DUMMY_AMOUNT);
+  });
+
+  it("should limit the total deposits to the hard cap", async () => {
+    const hard_cap: number = constants.DUMMY_AMOUNT * 3;
+    const investor: Signer = test_ctx.accounts.signers[3];
+
+    await test_ctx.fund_client.setFundHardCap(hard_cap);
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[1]).deposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[2]).deposit(constants.DUMMY_AMOUNT * 2);
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(hard_cap);
+
+    await expect(test_ctx.investment_fund.connect(investor).investorDeposit(constants.NEW_MIN_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(constants.NEW_MIN_AMOUNT);
+    await expect(test_ctx.fund_client.connect(investor).deposit(constants.NEW_MIN_AMOUNT))
+      .to.be.rejectedWith(
+        AmountError,
+        `total deposited funds ${hard_cap + constants.NEW_MIN_AMOUNT} would be higher than the fund hard cap ${hard_cap}`
+      );
+
+    // Withdrawing allows depositing again
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[1]).withdrawAll();
+    await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(hard_cap);
+  });
+
+  it("should allow stopping investors deposit only if the soft cap is reached", async () => {
+    await test_ctx.fund_client.setFundSoftCap(TOTAL_DEPOSITS);
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    // Not reached
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[1]).withdrawAll();
+
+    const total_deposits: number = TOTAL_DEPOSITS - constants.DUMMY_AMOUNT;
+    await expect(test_ctx.investment_fund.stopInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(total_deposits);
+    await expect(test_ctx.fund_client.stopInvestorsDeposit())
+      .to.be.rejectedWith(AmountError, `total deposited funds ${total_deposits} are lower than the fund soft cap ${TOTAL_DEPOSITS}`);
+
+    // Reached
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[1]).deposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    expect(await test_ctx.investment_fund.totalAmountBeforeInvestment())
+      .to.equal(TOTAL_DEPOSITS);
+  });
+
+  it("should refund all investors when investors deposit is cancelled", async () => {
+    const initial_balances: BigNumber[] = [];
+
+    await test_ctx.fund_client.setFundSoftCap(TOTAL_DEPOSITS + constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.startInvestorsDeposit();
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      initial_balances.push(await test_ctx.mock_token.balanceOf(await test_ctx.accounts.signers[i].getAddress()));
+    }
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).cancelInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    const result = await test_ctx.fund_client.cancelInvestorsDeposit();
+    utils.expectEvent(
+      result,
+      "InvestorsDepositCancelled",
+      1, TOTAL_DEPOSITS
+    );
+
+    // Check state
+    expect(await test_ctx.investment_fund.currState())
+      .to.equal(InvestmentStates.INITIAL);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(0);
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      expect(await test_ctx.mock_token.balanceOf(await test_ctx.accounts.signers[i].getAddress()))
+        .to.equal(initial_balances[i - 1]);
+    }
+
+    // The round is closed and a new one can be started
+    expect((await test_ctx.investment_fund.roundInfo(1)).endBlock)
+      .to.equal(result.receipt.blockNumber);
+    await expect(test_ctx.investment_fund.cancelInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+
+    await test_ctx.fund_client.startInvestorsDeposit();
+    expect(await test_ctx.investment_fund.currRound())
+      .to.equal(2);
+  });
+});
@@ -20,22 +20,28 @@ describe("InvestmentFund.ChangeFundManager", () => {
     const other_address: string = await other_account.getAddress();
   
     // Request fund manager change
-    await expect(await test_ctx.investment_fund.setPendingFundManager(other_address))
-      .to.emit(test_ctx.investment_fund, "FundManagerPendingSet")
-      .withArgs(other_address);
+    utils.expectEvent(
+      await test_ctx.fund_client.setPendingFundManager(other_address),
+      "FundManagerPendingSet",
+      other_address
+    );
     // Check
     expect(await test_ctx.investment_fund.pendingFundManager())
       .to.equal(other_address);
 
     // Accept fund manager
-    await expect(await test_ctx.investment_fund.connect(other_account).acceptFundManager())
-      .to.emit(test_ctx.investment_fund, "FundManagerChanged")
-      .withArgs(fund_manager_address, other_address);
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(other_account).acceptFundManager(),
+      "FundManagerChanged",
+      fund_manager_address, other_address
+    );
     // Check
     expect(await test_ctx.investment_fund.fundManager())
       .to.equal(other_address);
     expect(await test_ctx.investment_fund.remainingFundsAddr())
       .to.equal(other_address);
+    expect(await test_ctx.investment_fund.feeRecipient())
+      .to.equal(other_address);
     expect(await test_ctx.investment_fund.pendingFundManager())
       .to.equal(constants.NULL_ADDRESS);
   });
@@ -48,7 +54,7 @@ describe("InvestmentFund.ChangeFundManager", () => {
     await expect(test_ctx.investment_fund.setPendingFundManager(fund_manager_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerChangeError");
     // Accept from the wrong account
-    await test_ctx.investment_fund.setPendingFundManager(other_address);
+    await test_ctx.fund_client.setPendingFundManager(other_address);
     await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[2]).acceptFundManager())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerChangeError");
   });
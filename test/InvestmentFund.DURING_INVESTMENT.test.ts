@@ -23,25 +23,31 @@ describe("InvestmentFund.DURING_INVESTMENT", () => {
     const deposit_amount: number = total_deposit / 4;
 
     // Test withdraw
-    await expect(await test_ctx.investment_fund.fundManagerWithdraw(withdraw_amount))
-      .to.emit(test_ctx.investment_fund, "FundManagerFundsWithdrawn")
-      .withArgs(fund_manager_address, withdraw_amount);
+    utils.expectEvent(
+      await test_ctx.fund_client.fundManagerWithdraw(withdraw_amount),
+      "FundManagerFundsWithdrawn",
+      fund_manager_address, withdraw_amount
+    );
     expect(await test_ctx.mock_token.balanceOf(fund_manager_address))
       .to.equal(initial_owner_bal + withdraw_amount);
     expect(await test_ctx.investment_fund.totalDepositedFunds())
       .to.equal(total_deposit - withdraw_amount);
     // Test deposit
-    await expect(await test_ctx.investment_fund.fundManagerDeposit(deposit_amount))
-      .to.emit(test_ctx.investment_fund, "FundManagerFundsDeposited")
-      .withArgs(fund_manager_address, deposit_amount); 
+    utils.expectEvent(
+      await test_ctx.fund_client.fundManagerDeposit(deposit_amount),
+      "FundManagerFundsDeposited",
+      fund_manager_address, deposit_amount
+    );
     expect(await test_ctx.mock_token.balanceOf(fund_manager_address))
       .to.equal(initial_owner_bal + withdraw_amount - deposit_amount);
     expect(await test_ctx.investment_fund.totalDepositedFunds())
       .to.equal(withdraw_amount + deposit_amount);
     // Test withdraw all
-    await expect(await test_ctx.investment_fund.fundManagerWithdrawAll())
-      .to.emit(test_ctx.investment_fund, "FundManagerFundsWithdrawn")
-      .withArgs(fund_manager_address, total_deposit - withdraw_amount + deposit_amount); 
+    utils.expectEvent(
+      await test_ctx.fund_client.fundManagerWithdrawAll(),
+      "FundManagerFundsWithdrawn",
+      fund_manager_address, total_deposit - withdraw_amount + deposit_amount
+    );
     expect(await test_ctx.mock_token.balanceOf(fund_manager_address))
       .to.equal(initial_owner_bal + total_deposit);
     expect(await test_ctx.investment_fund.totalDepositedFunds())
@@ -50,13 +56,16 @@ describe("InvestmentFund.DURING_INVESTMENT", () => {
 
   it("should go to AFTER_INVESTMENT state when startInvestorsWithdraw is called", async () => {
     // Simulate some deposits
-    await test_ctx.investment_fund.fundManagerDeposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.fundManagerDeposit(constants.DUMMY_AMOUNT);
     const amount_before_inv: number = (await test_ctx.investment_fund.totalAmountBeforeInvestment()).toNumber();
     const deposit_before_inv: number = (await test_ctx.investment_fund.totalDepositedFunds()).toNumber();
 
     // Go to next state
-    await expect(await test_ctx.investment_fund.startInvestorsWithdraw())
-      .to.emit(test_ctx.investment_fund, "InvestorsWithdrawStarted");
+    utils.expectEvent(
+      await test_ctx.fund_client.startInvestorsWithdraw(),
+      "InvestorsWithdrawStarted",
+      1
+    );
     // Compute new values
     const amount_after_inv: number = (await test_ctx.investment_fund.totalAmountAfterInvestment()).toNumber();
     const inv_multiplier: number = Math.floor((amount_after_inv * constants.MULTIPLIER_DECIMALS) / amount_before_inv);
@@ -88,7 +97,7 @@ describe("InvestmentFund.DURING_INVESTMENT", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.setRemainingFundsAddress(dummy_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
-    await expect(test_ctx.investment_fund.setFundToken(test_ctx.mock_token.address))
+    await expect(test_ctx.investment_fund.setFundToken(test_ctx.mock_token.address, false))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.setDepositMultipleOf(constants.NEW_MULTIPLE_OF))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
@@ -100,10 +109,14 @@ describe("InvestmentFund.DURING_INVESTMENT", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.investorWithdrawAll())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.investorWithdraw(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestor(dummy_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.fundManagerReturnFundsToAllInvestors())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(0, constants.TOTAL_TEST_INVESTORS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.startInvestorsDeposit())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.stopInvestorsDeposit())
@@ -0,0 +1,235 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { DeadlineError, FundManagerCallerError, InvestmentStates, NoInvestorError, TransactionResult, ValueError } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for time windows and deadlines
+//
+describe("InvestmentFund.Deadlines", () => {
+  let test_ctx: utils.TestContext;
+  let other_account: Signer;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+    other_account = test_ctx.accounts.signers[1];
+  });
+
+  async function initDurations() : Promise<void> {
+    await test_ctx.fund_client.setDepositDuration(constants.NEW_DEPOSIT_DURATION);
+    await test_ctx.fund_client.setMaxInvestmentDuration(constants.NEW_MAX_INVESTMENT_DURATION);
+    await test_ctx.fund_client.setMinWithdrawDuration(constants.NEW_MIN_WITHDRAW_DURATION);
+  }
+
+  // Get the expected deadline of a state entered with the specified transaction
+  async function expectedDeadline(
+    result: TransactionResult,
+    duration: number
+  ) : Promise<number> {
+    return (await hre.ethers.provider.getBlock(result.receipt.blockNumber)).timestamp + duration;
+  }
+
+  it("should construct with no durations", async () => {
+    expect(await test_ctx.investment_fund.depositDuration())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.maxInvestmentDuration())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.minWithdrawDuration())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.stateDeadline())
+      .to.equal(0);
+  });
+
+  it("should set durations", async () => {
+    utils.expectEvent(
+      await test_ctx.fund_client.setDepositDuration(constants.NEW_DEPOSIT_DURATION),
+      "DepositDurationChanged",
+      0, constants.NEW_DEPOSIT_DURATION
+    );
+    expect(await test_ctx.investment_fund.depositDuration())
+      .to.equal(constants.NEW_DEPOSIT_DURATION);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setMaxInvestmentDuration(constants.NEW_MAX_INVESTMENT_DURATION),
+      "MaxInvestmentDurationChanged",
+      0, constants.NEW_MAX_INVESTMENT_DURATION
+    );
+    expect(await test_ctx.investment_fund.maxInvestmentDuration())
+      .to.equal(constants.NEW_MAX_INVESTMENT_DURATION);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setMinWithdrawDuration(constants.NEW_MIN_WITHDRAW_DURATION),
+      "MinWithdrawDurationChanged",
+      0, constants.NEW_MIN_WITHDRAW_DURATION
+    );
+    expect(await test_ctx.investment_fund.minWithdrawDuration())
+      .to.equal(constants.NEW_MIN_WITHDRAW_DURATION);
+
+    // Durations can be disabled
+    await test_ctx.fund_client.setDepositDuration(0);
+    expect(await test_ctx.investment_fund.depositDuration())
+      .to.equal(0);
+  });
+
+  it("should revert if durations are not valid", async () => {
+    await expect(test_ctx.investment_fund.setDepositDuration(constants.MAX_DURATION + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(constants.MAX_DURATION + 1);
+    await expect(test_ctx.investment_fund.setMaxInvestmentDuration(constants.MAX_DURATION + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(constants.MAX_DURATION + 1);
+    await expect(test_ctx.investment_fund.setMinWithdrawDuration(constants.MAX_DURATION + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(constants.MAX_DURATION + 1);
+    await expect(test_ctx.fund_client.setMinWithdrawDuration(constants.MAX_DURATION + 1))
+      .to.be.rejectedWith(ValueError, `duration ${constants.MAX_DURATION + 1} seconds shall not be higher than ${constants.MAX_DURATION} seconds`);
+
+    await expect(test_ctx.investment_fund.connect(other_account).setDepositDuration(constants.NEW_DEPOSIT_DURATION))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    await expect(test_ctx.investment_fund.setDepositDuration(constants.NEW_DEPOSIT_DURATION))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.setMaxInvestmentDuration(constants.NEW_MAX_INVESTMENT_DURATION))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.setMinWithdrawDuration(constants.NEW_MIN_WITHDRAW_DURATION))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+  });
+
+  it("should not allow anyone to trigger transitions if no durations are set", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await time.increase(constants.MAX_DURATION);
+
+    await expect(test_ctx.investment_fund.connect(other_account).stopInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.fund_client.connect(other_account).stopInvestorsDeposit())
+      .to.be.rejectedWith(FundManagerCallerError, "no deadline is set");
+  });
+
+  it("should close investors deposit after the deposit deadline", async () => {
+    await initDurations();
+
+    const result: TransactionResult = await test_ctx.fund_client.startInvestorsDeposit();
+    const deadline: number = await expectedDeadline(result, constants.NEW_DEPOSIT_DURATION);
+    expect(await test_ctx.investment_fund.stateDeadline())
+      .to.equal(deadline);
+
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    // Only the fund manager can stop investors deposit before the deadline
+    await expect(test_ctx.investment_fund.connect(other_account).stopInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.fund_client.connect(other_account).stopInvestorsDeposit())
+      .to.be.rejectedWith(FundManagerCallerError, `the deadline ${deadline} is not reached yet`);
+
+    await time.increaseTo(deadline);
+
+    await expect(test_ctx.investment_fund.connect(other_account).investorDeposit(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "DeadlineError")
+      .withArgs(deadline);
+    await expect(test_ctx.fund_client.connect(other_account).deposit(constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(DeadlineError, `investors deposit closed at ${deadline}`);
+
+    // Investors can still withdraw
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[2]).withdrawAll();
+
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(other_account).stopInvestorsDeposit(),
+      "InvestorsDepositStopped",
+      1
+    );
+  });
+
+  it("should not stop investors deposit if there are no deposits", async () => {
+    await initDurations();
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await time.increaseTo(await test_ctx.investment_fund.stateDeadline());
+
+    // The soft cap is not set, but the investment result could not be computed without deposits
+    await expect(test_ctx.investment_fund.connect(other_account).stopInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "NoInvestorError");
+    await expect(test_ctx.investment_fund.stopInvestorsDeposit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "NoInvestorError");
+    await expect(test_ctx.fund_client.connect(other_account).stopInvestorsDeposit())
+      .to.be.rejectedWith(NoInvestorError);
+
+    // Investors deposit can still be cancelled by the fund manager
+    await test_ctx.fund_client.cancelInvestorsDeposit();
+    expect(await test_ctx.investment_fund.currState())
+      .to.equal(InvestmentStates.INITIAL);
+  });
+
+  it("should allow anyone to start investors withdraw after the maximum investment duration", async () => {
+    await initDurations();
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    const result: TransactionResult = await test_ctx.fund_client.stopInvestorsDeposit();
+    const deadline: number = await expectedDeadline(result, constants.NEW_MAX_INVESTMENT_DURATION);
+    expect(await test_ctx.investment_fund.stateDeadline())
+      .to.equal(deadline);
+
+    await time.increaseTo(deadline - 60);
+    await expect(test_ctx.investment_fund.connect(other_account).startInvestorsWithdraw())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    await time.increaseTo(deadline);
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(other_account).startInvestorsWithdraw(),
+      "InvestorsWithdrawStarted",
+      1
+    );
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(constants.MIN_MULTIPLIER);
+  });
+
+  it("should allow the fund manager to trigger transitions before deadlines", async () => {
+    await initDurations();
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+    await test_ctx.fund_client.startInvestorsWithdraw();
+
+    expect(await test_ctx.investment_fund.currState())
+      .to.equal(constants.InvestmentStates.AFTER_INVESTMENT);
+  });
+
+  it("should guarantee the minimum withdraw duration to investors", async () => {
+    await initDurations();
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    const result: TransactionResult = await test_ctx.fund_client.startInvestorsWithdraw();
+    const deadline: number = await expectedDeadline(result, constants.NEW_MIN_WITHDRAW_DURATION);
+    expect(await test_ctx.investment_fund.stateDeadline())
+      .to.equal(deadline);
+
+    // Not even the fund manager can stop investors withdraw before the deadline
+    await expect(test_ctx.investment_fund.stopInvestorsWithdraw())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "DeadlineError")
+      .withArgs(deadline);
+    await expect(test_ctx.fund_client.stopInvestorsWithdraw())
+      .to.be.rejectedWith(DeadlineError, `investors withdraw cannot be stopped before ${deadline}`);
+    await expect(test_ctx.investment_fund.connect(other_account).stopInvestorsWithdraw())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    await test_ctx.fund_client.connect(other_account).withdrawAll();
+    await time.increaseTo(deadline);
+
+    // Unclaimed funds are sent to the remaining funds address
+    const investor_deposits: BigNumber = await test_ctx.investment_fund.totalDepositedFunds();
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(other_account).stopInvestorsWithdraw(),
+      "InvestorsWithdrawStopped",
+      1, investor_deposits
+    );
+    expect(await test_ctx.investment_fund.stateDeadline())
+      .to.equal(0);
+  });
+});
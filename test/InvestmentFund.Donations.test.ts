@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+// Project
+import { AmountError } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for tokens sent directly to the fund
+//
+describe("InvestmentFund.Donations", () => {
+  // Total deposited by investors in initInvestorsDeposit
+  const TOTAL_DEPOSITS: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+  const DONATION_AMOUNT: number = constants.DUMMY_AMOUNT * 3;
+
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initBeforeInvestmentTestContext();
+  });
+
+  async function donate(
+    amount: number
+  ) : Promise<void> {
+    await test_ctx.mock_token.transfer(test_ctx.investment_fund.address, amount);
+  }
+
+  it("should not account donations before investment", async () => {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await donate(DONATION_AMOUNT);
+
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(TOTAL_DEPOSITS);
+    expect(await test_ctx.investment_fund.excessFunds())
+      .to.equal(DONATION_AMOUNT);
+
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    expect(await test_ctx.investment_fund.totalAmountBeforeInvestment())
+      .to.equal(TOTAL_DEPOSITS);
+  });
+
+  it("should not distort the multiplier and payouts with donations during investment", async () => {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+    await test_ctx.fund_client.fundManagerDeposit(constants.DUMMY_AMOUNT);
+    await donate(DONATION_AMOUNT);
+    await test_ctx.fund_client.startInvestorsWithdraw();
+
+    const amount_after: number = TOTAL_DEPOSITS + constants.DUMMY_AMOUNT;
+    const multiplier: BigNumber = BigNumber.from(amount_after).mul(constants.MULTIPLIER_DECIMALS).div(TOTAL_DEPOSITS);
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(amount_after);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(multiplier);
+
+    let total_payouts: BigNumber = BigNumber.from(0);
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const investor: Signer = test_ctx.accounts.signers[i];
+      // The last investor receives the rounding dust
+      const payout: BigNumber = (i === constants.TOTAL_TEST_INVESTORS)
+        ? BigNumber.from(amount_after).sub(total_payouts)
+        : BigNumber.from(constants.DUMMY_AMOUNT * i).mul(amount_after).div(TOTAL_DEPOSITS);
+
+      utils.expectEvent(
+        await test_ctx.fund_client.connect(investor).withdrawAll(),
+        "InvestorAllFundsWithdrawn",
+        await investor.getAddress(), payout
+      );
+      total_payouts = total_payouts.add(payout);
+    }
+
+    // Investors received all funds, the donation is kept apart
+    expect(total_payouts)
+      .to.equal(amount_after);
+    utils.expectEvent(
+      await test_ctx.fund_client.stopInvestorsWithdraw(),
+      "InvestorsWithdrawStopped",
+      1, 0
+    );
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.excessFunds())
+      .to.equal(DONATION_AMOUNT);
+  });
+
+  it("should not allow the fund manager to withdraw donations during investment", async () => {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+    await donate(DONATION_AMOUNT);
+
+    await expect(test_ctx.investment_fund.fundManagerWithdraw(TOTAL_DEPOSITS + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(TOTAL_DEPOSITS + 1);
+    await expect(test_ctx.fund_client.fundManagerWithdraw(TOTAL_DEPOSITS + 1))
+      .to.be.rejectedWith(AmountError, `higher than the deposited funds ${TOTAL_DEPOSITS}`);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.fundManagerWithdrawAll(),
+      "FundManagerFundsWithdrawn",
+      await test_ctx.accounts.fund_manager.getAddress(), TOTAL_DEPOSITS
+    );
+    expect(await test_ctx.investment_fund.excessFunds())
+      .to.equal(DONATION_AMOUNT);
+  });
+
+  it("should sweep excess funds to the remaining funds address", async () => {
+    // Set a different remaining funds address
+    test_ctx = await utils.initInitialTestContext();
+    const remaining_funds_address: string = await test_ctx.accounts.signers[0].getAddress();
+    await test_ctx.fund_client.setRemainingFundsAddress(remaining_funds_address);
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await donate(DONATION_AMOUNT);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.sweepExcess(),
+      "ExcessFundsSwept",
+      remaining_funds_address, DONATION_AMOUNT
+    );
+    expect(await test_ctx.mock_token.balanceOf(remaining_funds_address))
+      .to.equal(DONATION_AMOUNT);
+    expect(await test_ctx.investment_fund.excessFunds())
+      .to.equal(0);
+    // Investors funds are not touched
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(TOTAL_DEPOSITS);
+    expect(await test_ctx.mock_token.balanceOf(test_ctx.investment_fund.address))
+      .to.equal(TOTAL_DEPOSITS);
+  });
+
+  it("should revert if sweeping with no excess funds or by another account", async () => {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    await expect(test_ctx.investment_fund.sweepExcess())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(0);
+    await expect(test_ctx.fund_client.sweepExcess())
+      .to.be.rejectedWith(AmountError, "there are no excess funds to sweep");
+
+    await donate(DONATION_AMOUNT);
+
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).sweepExcess())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+  });
+});
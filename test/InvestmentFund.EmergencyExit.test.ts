@@ -0,0 +1,197 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { AmountError, EmergencyExitError, TransactionResult, ValueError } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for emergency exit
+//
+describe("InvestmentFund.EmergencyExit", () => {
+  // Total deposited by investors in initInvestorsDeposit
+  const TOTAL_DEPOSITS: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+  });
+
+  // Go to DURING_INVESTMENT state, with the fund manager that withdrew all funds
+  async function initInvestment() : Promise<TransactionResult> {
+    await test_ctx.fund_client.setManagementFee(constants.NEW_MANAGEMENT_FEE);
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    const result: TransactionResult = await test_ctx.fund_client.stopInvestorsDeposit();
+    await test_ctx.fund_client.fundManagerWithdrawAll();
+
+    return result;
+  }
+
+  // Expect investors withdraw to be started by the emergency exit, distributing the specified amount
+  async function expectEmergencyExit(
+    result: TransactionResult,
+    byVote: boolean,
+    totalAmount: number
+  ) : Promise<void> {
+    utils.expectEvent(
+      result,
+      "EmergencyExitTriggered",
+      1, byVote, totalAmount
+    );
+    expect(result.events.find((e) => e.name === "InvestorsWithdrawStarted"))
+      .not.to.be.undefined;
+    // No fees are collected
+    expect(result.events.find((e) => e.name === "FeesCollected"))
+      .to.be.undefined;
+
+    expect(await test_ctx.investment_fund.currState())
+      .to.equal(constants.InvestmentStates.AFTER_INVESTMENT);
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(totalAmount);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(BigNumber.from(totalAmount).mul(constants.MULTIPLIER_DECIMALS).div(TOTAL_DEPOSITS));
+    expect((await test_ctx.investment_fund.roundInfo(1)).emergencyExit)
+      .to.equal(true);
+  }
+
+  it("should set emergency timeout", async () => {
+    expect(await test_ctx.investment_fund.emergencyTimeout())
+      .to.equal(0);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setEmergencyTimeout(constants.NEW_EMERGENCY_TIMEOUT),
+      "EmergencyTimeoutChanged",
+      0, constants.NEW_EMERGENCY_TIMEOUT
+    );
+    expect(await test_ctx.investment_fund.emergencyTimeout())
+      .to.equal(constants.NEW_EMERGENCY_TIMEOUT);
+
+    await expect(test_ctx.fund_client.setEmergencyTimeout(constants.MAX_DURATION + 1))
+      .to.be.rejectedWith(ValueError, "shall not be higher than");
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[1]).setEmergencyTimeout(0))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+  });
+
+  it("should trigger emergency exit after the timeout", async () => {
+    const other_account: Signer = test_ctx.accounts.signers[0];
+    // Funds returned directly to the contract by the fund manager
+    const returned_amount: number = TOTAL_DEPOSITS / 2;
+
+    await test_ctx.fund_client.setEmergencyTimeout(constants.NEW_EMERGENCY_TIMEOUT);
+    const result: TransactionResult = await initInvestment();
+    const deadline: number = (await hre.ethers.provider.getBlock(result.receipt.blockNumber)).timestamp + constants.NEW_EMERGENCY_TIMEOUT;
+    expect(await test_ctx.investment_fund.emergencyDeadline())
+      .to.equal(deadline);
+
+    await expect(test_ctx.investment_fund.connect(other_account).emergencyExit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "EmergencyExitError");
+    await expect(test_ctx.fund_client.connect(other_account).emergencyExit())
+      .to.be.rejectedWith(EmergencyExitError, `emergency exit cannot be triggered before ${deadline}`);
+
+    await test_ctx.mock_token.transfer(test_ctx.investment_fund.address, returned_amount);
+    await time.increaseTo(deadline);
+
+    await expectEmergencyExit(
+      await test_ctx.fund_client.connect(other_account).emergencyExit(),
+      false,
+      returned_amount
+    );
+    expect(await test_ctx.investment_fund.emergencyDeadline())
+      .to.equal(0);
+
+    // Investors reclaim pro-rata
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const investor: Signer = test_ctx.accounts.signers[i];
+      utils.expectEvent(
+        await test_ctx.fund_client.connect(investor).withdrawAll(),
+        "InvestorAllFundsWithdrawn",
+        await investor.getAddress(), BigNumber.from(constants.DUMMY_AMOUNT * i).mul(returned_amount).div(TOTAL_DEPOSITS)
+      );
+    }
+  });
+
+  it("should revert if emergency timeout is not set", async () => {
+    await initInvestment();
+    await time.increase(constants.MAX_DURATION);
+
+    await expect(test_ctx.investment_fund.emergencyExit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "EmergencyExitError");
+    await expect(test_ctx.fund_client.emergencyExit())
+      .to.be.rejectedWith(EmergencyExitError, "emergency timeout is not set");
+  });
+
+  it("should trigger emergency exit when investors holding the majority of deposits vote", async () => {
+    await initInvestment();
+
+    // Investors 1 to 4 hold 10/15 of deposits, the majority is reached by the vote of investor 4
+    let votes: number = 0;
+    for (let i = 1; i < constants.TOTAL_TEST_INVESTORS; i++) {
+      const investor: Signer = test_ctx.accounts.signers[i];
+      const investor_address: string = await investor.getAddress();
+      votes += constants.DUMMY_AMOUNT * i;
+
+      const result: TransactionResult = await test_ctx.fund_client.connect(investor).voteEmergencyExit();
+      utils.expectEvent(
+        result,
+        "EmergencyExitVoted",
+        1, investor_address, votes
+      );
+      expect(await test_ctx.investment_fund.hasVotedEmergencyExit(investor_address))
+        .to.equal(true);
+
+      if (i < constants.TOTAL_TEST_INVESTORS - 1) {
+        expect(result.events.find((e) => e.name === "EmergencyExitTriggered"))
+          .to.be.undefined;
+        await expect(test_ctx.investment_fund.connect(investor).voteEmergencyExit())
+          .to.be.revertedWithCustomError(test_ctx.investment_fund, "EmergencyExitError");
+        await expect(test_ctx.fund_client.connect(investor).voteEmergencyExit())
+          .to.be.rejectedWith(EmergencyExitError, `investor ${investor_address} already voted`);
+      }
+      else {
+        await expectEmergencyExit(result, true, 0);
+      }
+    }
+  });
+
+  it("should revert if the emergency exit is voted by a non-investor or in other states", async () => {
+    await expect(test_ctx.investment_fund.voteEmergencyExit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.emergencyExit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+
+    await initInvestment();
+
+    await expect(test_ctx.investment_fund.voteEmergencyExit())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(0);
+    await expect(test_ctx.fund_client.voteEmergencyExit())
+      .to.be.rejectedWith(AmountError, "investor has no funds deposited");
+  });
+
+  it("should reset votes in the next round", async () => {
+    const investor: Signer = test_ctx.accounts.signers[1];
+
+    await initInvestment();
+    await test_ctx.fund_client.connect(investor).voteEmergencyExit();
+    expect(await test_ctx.investment_fund.emergencyExitVotes())
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    await test_ctx.fund_client.fundManagerDeposit(TOTAL_DEPOSITS);
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    expect(await test_ctx.investment_fund.emergencyExitVotes())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.hasVotedEmergencyExit(await investor.getAddress()))
+      .to.equal(false);
+    expect((await test_ctx.investment_fund.roundInfo(1)).emergencyExit)
+      .to.equal(false);
+  });
+});
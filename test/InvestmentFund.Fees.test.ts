@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+// Project
+import { TransactionResult } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for management and performance fees
+//
+describe("InvestmentFund.Fees", () => {
+  // Total deposited by investors in initInvestorsDeposit
+  const TOTAL_DEPOSITS: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+  // Management fee on the total deposits
+  const MANAGEMENT_FEE: number = (TOTAL_DEPOSITS * constants.NEW_MANAGEMENT_FEE) / constants.BPS_DENOMINATOR;
+
+  let test_ctx: utils.TestContext;
+  let fee_recipient: Signer;
+  let fee_recipient_address: string;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+    fee_recipient = test_ctx.accounts.signers[0];
+    fee_recipient_address = await fee_recipient.getAddress();
+  });
+
+  async function initFees(
+    managementFee: number,
+    performanceFee: number
+  ) : Promise<void> {
+    await test_ctx.fund_client.setFeeRecipient(fee_recipient_address);
+    await test_ctx.fund_client.setManagementFee(managementFee);
+    await test_ctx.fund_client.setPerformanceFee(performanceFee);
+  }
+
+  // Go to DURING_INVESTMENT state and simulate the specified profit (or loss, if negative)
+  async function initInvestment(
+    profit: number
+  ) : Promise<void> {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    if (profit > 0) {
+      await test_ctx.fund_client.fundManagerDeposit(profit);
+    }
+    else if (profit < 0) {
+      await test_ctx.fund_client.fundManagerWithdraw(-profit);
+    }
+  }
+
+  async function expectFees(
+    managementFee: number,
+    performanceFee: number
+  ) : Promise<void> {
+    const initial_balance: BigNumber = await test_ctx.mock_token.balanceOf(fee_recipient_address);
+    const total_amount: BigNumber = await test_ctx.investment_fund.totalDepositedFunds();
+    const amount_after: BigNumber = total_amount.sub(managementFee + performanceFee);
+
+    const result: TransactionResult = await test_ctx.fund_client.startInvestorsWithdraw();
+    if (managementFee + performanceFee !== 0) {
+      utils.expectEvent(
+        result,
+        "FeesCollected",
+        1, fee_recipient_address, managementFee, performanceFee
+      );
+    }
+    else {
+      expect(result.events.find((e) => e.name === "FeesCollected"))
+        .to.be.undefined;
+    }
+
+    expect(await test_ctx.mock_token.balanceOf(fee_recipient_address))
+      .to.equal(initial_balance.add(managementFee + performanceFee));
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(amount_after);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(amount_after.mul(constants.MULTIPLIER_DECIMALS).div(TOTAL_DEPOSITS));
+
+    const round = await test_ctx.investment_fund.roundInfo(1);
+    expect(round.managementFee)
+      .to.equal(managementFee);
+    expect(round.performanceFee)
+      .to.equal(performanceFee);
+  }
+
+  it("should construct with no fees", async () => {
+    expect(await test_ctx.investment_fund.feeRecipient())
+      .to.equal(await test_ctx.accounts.fund_manager.getAddress());
+    expect(await test_ctx.investment_fund.managementFeeBps())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.performanceFeeBps())
+      .to.equal(0);
+  });
+
+  it("should set fee parameters", async () => {
+    const fund_manager_address: string = await test_ctx.accounts.fund_manager.getAddress();
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setFeeRecipient(fee_recipient_address),
+      "FeeRecipientChanged",
+      fund_manager_address, fee_recipient_address
+    );
+    expect(await test_ctx.investment_fund.feeRecipient())
+      .to.equal(fee_recipient_address);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setManagementFee(constants.NEW_MANAGEMENT_FEE),
+      "ManagementFeeChanged",
+      0, constants.NEW_MANAGEMENT_FEE
+    );
+    expect(await test_ctx.investment_fund.managementFeeBps())
+      .to.equal(constants.NEW_MANAGEMENT_FEE);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.setPerformanceFee(constants.NEW_PERFORMANCE_FEE),
+      "PerformanceFeeChanged",
+      0, constants.NEW_PERFORMANCE_FEE
+    );
+    expect(await test_ctx.investment_fund.performanceFeeBps())
+      .to.equal(constants.NEW_PERFORMANCE_FEE);
+
+    // Fees can be disabled
+    await test_ctx.fund_client.setManagementFee(0);
+    expect(await test_ctx.investment_fund.managementFeeBps())
+      .to.equal(0);
+  });
+
+  it("should revert if fee parameters are not valid", async () => {
+    await expect(test_ctx.investment_fund.setFeeRecipient(constants.NULL_ADDRESS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AddressError")
+      .withArgs(constants.NULL_ADDRESS);
+    await expect(test_ctx.investment_fund.setManagementFee(constants.BPS_DENOMINATOR + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(constants.BPS_DENOMINATOR + 1);
+    await expect(test_ctx.investment_fund.setPerformanceFee(constants.BPS_DENOMINATOR + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(constants.BPS_DENOMINATOR + 1);
+
+    await expect(test_ctx.investment_fund.connect(fee_recipient).setManagementFee(constants.NEW_MANAGEMENT_FEE))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.investment_fund.connect(fee_recipient).setPerformanceFee(constants.NEW_PERFORMANCE_FEE))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect(test_ctx.investment_fund.connect(fee_recipient).setFeeRecipient(fee_recipient_address))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    await expect(test_ctx.investment_fund.setManagementFee(constants.NEW_MANAGEMENT_FEE))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.setPerformanceFee(constants.NEW_PERFORMANCE_FEE))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.setFeeRecipient(fee_recipient_address))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+  });
+
+  it("should collect management and performance fees in case of profit", async () => {
+    const profit: number = TOTAL_DEPOSITS / 5;
+
+    await initFees(constants.NEW_MANAGEMENT_FEE, constants.NEW_PERFORMANCE_FEE);
+    await initInvestment(profit);
+
+    // Performance fee is computed on the profit left after the management fee
+    await expectFees(
+      MANAGEMENT_FEE,
+      ((profit - MANAGEMENT_FEE) * constants.NEW_PERFORMANCE_FEE) / constants.BPS_DENOMINATOR
+    );
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.be.gt(constants.MIN_MULTIPLIER);
+  });
+
+  it("should only collect management fee in case of loss", async () => {
+    await initFees(constants.NEW_MANAGEMENT_FEE, constants.NEW_PERFORMANCE_FEE);
+    await initInvestment(-TOTAL_DEPOSITS / 5);
+
+    await expectFees(MANAGEMENT_FEE, 0);
+  });
+
+  it("should only collect management fee in case of break-even", async () => {
+    await initFees(constants.NEW_MANAGEMENT_FEE, constants.NEW_PERFORMANCE_FEE);
+    await initInvestment(0);
+
+    await expectFees(MANAGEMENT_FEE, 0);
+  });
+
+  it("should not collect performance fee if the profit does not cover the management fee", async () => {
+    await initFees(constants.NEW_MANAGEMENT_FEE, constants.NEW_PERFORMANCE_FEE);
+    await initInvestment(MANAGEMENT_FEE);
+
+    await expectFees(MANAGEMENT_FEE, 0);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(constants.MIN_MULTIPLIER);
+  });
+
+  it("should not collect fees if disabled", async () => {
+    await initInvestment(TOTAL_DEPOSITS / 5);
+
+    await expectFees(0, 0);
+  });
+
+  it("should cap management fee to the available funds", async () => {
+    const remaining_amount: number = constants.DUMMY_AMOUNT;
+
+    await initFees(constants.BPS_DENOMINATOR, constants.NEW_PERFORMANCE_FEE);
+    await initInvestment(remaining_amount - TOTAL_DEPOSITS);
+
+    await expectFees(remaining_amount, 0);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(0);
+  });
+
+  it("should pay investors the funds left after fees", async () => {
+    const investor: Signer = test_ctx.accounts.signers[1];
+    const investor_address: string = await investor.getAddress();
+
+    await initFees(constants.NEW_MANAGEMENT_FEE, constants.NEW_PERFORMANCE_FEE);
+    await initInvestment(TOTAL_DEPOSITS / 5);
+    await test_ctx.fund_client.startInvestorsWithdraw();
+
+    const deposit: BigNumber = await test_ctx.investment_fund.depositOfInvestor(investor_address);
+    const multiplier: BigNumber = await test_ctx.investment_fund.investmentMultiplier();
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(investor).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      investor_address, deposit.mul(multiplier).div(constants.MULTIPLIER_DECIMALS)
+    );
+  });
+});
@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, ContractTransaction, Signer } from "ethers";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+// Project
+import {
+  FundTokenError,
+  InvestmentFundClient,
+  NATIVE_TOKEN,
+  PermitError,
+  PermitSignature,
+  signPermit
+} from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for gasless deposits with EIP-2612 permits and ERC-2771 meta-transactions
+//
+describe("InvestmentFund.Gasless", () => {
+  const PERMIT_VALIDITY: number = 3600;
+
+  let fund_manager: Signer;
+  let investor: Signer;
+  let relayer: Signer;
+  let token: Contract;
+  let forwarder: Contract;
+  let investment_fund: Contract;
+  let fund_client: InvestmentFundClient;
+
+  beforeEach(async () => {
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    fund_manager = all_signers[0];
+    investor = all_signers[1];
+    relayer = all_signers[2];
+
+    const token_factory: ContractFactory = await hre.ethers.getContractFactory("MockPermitToken");
+    token = await token_factory.deploy(constants.TOKEN_SUPPLY);
+    await token.deployed();
+    await token.transfer(await investor.getAddress(), constants.DUMMY_AMOUNT * 2);
+
+    const forwarder_factory: ContractFactory = await hre.ethers.getContractFactory("MockForwarder");
+    forwarder = await forwarder_factory.deploy();
+    await forwarder.deployed();
+
+    const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    investment_fund = await fund_factory.deploy(token.address, forwarder.address);
+    await investment_fund.deployed();
+    fund_client = InvestmentFundClient.connect(investment_fund.address, fund_manager);
+
+    await fund_client.startInvestorsDeposit();
+  });
+
+  async function permitDeadline() : Promise<number> {
+    return (await time.latest()) + PERMIT_VALIDITY;
+  }
+
+  // Relay a call to the fund on behalf of the specified sender
+  async function relay(
+    from: Signer,
+    functionName: string,
+    ...args: unknown[]
+  ) : Promise<ContractTransaction> {
+    return forwarder.connect(relayer).execute(
+      await from.getAddress(),
+      investment_fund.address,
+      investment_fund.interface.encodeFunctionData(functionName, args)
+    );
+  }
+
+  describe("Permit", () => {
+    it("should deposit with a permit", async () => {
+      const investor_address: string = await investor.getAddress();
+      const permit: PermitSignature = await signPermit(investor, token.address, investment_fund.address, constants.DUMMY_AMOUNT, await permitDeadline());
+
+      await expect(investment_fund.connect(investor).investorDepositWithPermit(constants.DUMMY_AMOUNT, permit.deadline, permit.v, permit.r, permit.s))
+        .to.emit(investment_fund, "InvestorFundsDeposited")
+        .withArgs(investor_address, constants.DUMMY_AMOUNT);
+      expect(await investment_fund.depositOfInvestor(investor_address))
+        .to.equal(constants.DUMMY_AMOUNT);
+      expect(await token.balanceOf(investment_fund.address))
+        .to.equal(constants.DUMMY_AMOUNT);
+      expect(await token.allowance(investor_address, investment_fund.address))
+        .to.equal(0);
+      expect(await token.nonces(investor_address))
+        .to.equal(1);
+    });
+
+    it("should deposit with a permit using the client", async () => {
+      const investor_address: string = await investor.getAddress();
+
+      utils.expectEvent(
+        await fund_client.connect(investor).depositWithPermit(constants.DUMMY_AMOUNT, await permitDeadline()),
+        "InvestorFundsDeposited",
+        investor_address, constants.DUMMY_AMOUNT
+      );
+      expect(await investment_fund.depositOfInvestor(investor_address))
+        .to.equal(constants.DUMMY_AMOUNT);
+    });
+
+    it("should deposit if the permit was front-run", async () => {
+      const investor_address: string = await investor.getAddress();
+      const permit: PermitSignature = await signPermit(investor, token.address, investment_fund.address, constants.DUMMY_AMOUNT, await permitDeadline());
+
+      // The permit is submitted by someone else, so it cannot be used again by the fund
+      await token.connect(relayer).permit(investor_address, investment_fund.address, constants.DUMMY_AMOUNT, permit.deadline, permit.v, permit.r, permit.s);
+
+      await expect(investment_fund.connect(investor).investorDepositWithPermit(constants.DUMMY_AMOUNT, permit.deadline, permit.v, permit.r, permit.s))
+        .to.emit(investment_fund, "InvestorFundsDeposited")
+        .withArgs(investor_address, constants.DUMMY_AMOUNT);
+    });
+
+    it("should revert if the permit is not valid and the allowance is not enough", async () => {
+      const investor_address: string = await investor.getAddress();
+      const permit: PermitSignature = await signPermit(investor, token.address, investment_fund.address, constants.DUMMY_AMOUNT, await permitDeadline());
+
+      // Amount different from the signed one
+      await expect(investment_fund.connect(investor).investorDepositWithPermit(constants.DUMMY_AMOUNT * 2, permit.deadline, permit.v, permit.r, permit.s))
+        .to.be.revertedWithCustomError(investment_fund, "PermitError")
+        .withArgs(investor_address, constants.DUMMY_AMOUNT * 2);
+      // Expired permit
+      await expect(fund_client.connect(investor).depositWithPermit(constants.DUMMY_AMOUNT, await time.latest()))
+        .to.be.rejectedWith(PermitError, `permit of investor ${investor_address} is not valid and the allowance is lower than ${constants.DUMMY_AMOUNT}`);
+    });
+
+    it("should not deposit with a permit in native funds", async () => {
+      const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+      const native_fund: Contract = await fund_factory.deploy(NATIVE_TOKEN, constants.NULL_ADDRESS);
+      await native_fund.deployed();
+      const native_client: InvestmentFundClient = InvestmentFundClient.connect(native_fund.address, fund_manager);
+      await native_client.startInvestorsDeposit();
+
+      const permit: PermitSignature = await signPermit(investor, token.address, native_fund.address, constants.DUMMY_AMOUNT, await permitDeadline());
+      await expect(native_fund.connect(investor).investorDepositWithPermit(constants.DUMMY_AMOUNT, permit.deadline, permit.v, permit.r, permit.s))
+        .to.be.revertedWithCustomError(native_fund, "FundTokenError");
+      await expect(native_client.connect(investor).depositWithPermit(constants.DUMMY_AMOUNT, permit.deadline))
+        .to.be.rejectedWith(FundTokenError, "permits are not supported by the native currency");
+    });
+  });
+
+  describe("Trusted forwarder", () => {
+    it("should construct with the trusted forwarder", async () => {
+      expect(await fund_client.trustedForwarder())
+        .to.equal(forwarder.address);
+      expect(await investment_fund.isTrustedForwarder(forwarder.address))
+        .to.equal(true);
+
+      // Not used by default
+      const test_ctx: utils.TestContext = await utils.initConstructedTestContext();
+      expect(await test_ctx.fund_client.trustedForwarder())
+        .to.equal(constants.NULL_ADDRESS);
+    });
+
+    it("should relay deposits and withdrawals of investors", async () => {
+      const investor_address: string = await investor.getAddress();
+      await token.connect(investor).approve(investment_fund.address, constants.DUMMY_AMOUNT);
+
+      await expect(relay(investor, "investorDeposit", constants.DUMMY_AMOUNT))
+        .to.emit(investment_fund, "InvestorFundsDeposited")
+        .withArgs(investor_address, constants.DUMMY_AMOUNT);
+      expect(await investment_fund.depositOfInvestor(investor_address))
+        .to.equal(constants.DUMMY_AMOUNT);
+      expect(await investment_fund.depositOfInvestor(forwarder.address))
+        .to.equal(0);
+
+      await expect(relay(investor, "investorWithdrawAll"))
+        .to.changeTokenBalances(token, [investor, investment_fund], [constants.DUMMY_AMOUNT, -constants.DUMMY_AMOUNT]);
+      expect(await investment_fund.numberOfInvestors())
+        .to.equal(0);
+    });
+
+    it("should relay deposits with a permit, so the investor doesn't need any transaction", async () => {
+      const investor_address: string = await investor.getAddress();
+      const permit: PermitSignature = await signPermit(investor, token.address, investment_fund.address, constants.DUMMY_AMOUNT, await permitDeadline());
+      const investor_balance: BigNumber = await investor.getBalance();
+
+      await expect(relay(investor, "investorDepositWithPermit", constants.DUMMY_AMOUNT, permit.deadline, permit.v, permit.r, permit.s))
+        .to.emit(investment_fund, "InvestorFundsDeposited")
+        .withArgs(investor_address, constants.DUMMY_AMOUNT);
+      expect(await investor.getBalance())
+        .to.equal(investor_balance);
+    });
+
+    it("should relay calls of the fund manager", async () => {
+      await token.connect(investor).approve(investment_fund.address, constants.DUMMY_AMOUNT);
+      await relay(investor, "investorDeposit", constants.DUMMY_AMOUNT);
+
+      await expect(relay(fund_manager, "stopInvestorsDeposit"))
+        .to.emit(investment_fund, "InvestorsDepositStopped");
+      expect(await investment_fund.currState())
+        .to.equal(constants.InvestmentStates.DURING_INVESTMENT);
+
+      // Relaying on behalf of another address doesn't grant its roles
+      await expect(relay(investor, "startInvestorsWithdraw"))
+        .to.be.revertedWithCustomError(forwarder, "RelayError");
+    });
+
+    it("should not use the sender appended by an untrusted forwarder", async () => {
+      const forwarder_factory: ContractFactory = await hre.ethers.getContractFactory("MockForwarder");
+      const untrusted_forwarder: Contract = await forwarder_factory.deploy();
+      await untrusted_forwarder.deployed();
+
+      // The caller is the untrusted forwarder itself, which is not the fund manager
+      await expect(
+        untrusted_forwarder.execute(
+          await fund_manager.getAddress(),
+          investment_fund.address,
+          investment_fund.interface.encodeFunctionData("stopInvestorsDeposit")
+        )
+      ).to.be.revertedWithCustomError(untrusted_forwarder, "RelayError");
+    });
+  });
+});
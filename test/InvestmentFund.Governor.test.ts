@@ -0,0 +1,459 @@
+import { expect } from "chai";
+import { BigNumber, BigNumberish, Contract, ContractFactory, ContractTransaction, Signer } from "ethers";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+// Project
+import { NATIVE_TOKEN } from "../client";
+import * as constants from "./Constants";
+
+//
+// Tests for the governor acting as fund manager, with delayed and approved proposals for sensitive actions
+//
+describe("InvestmentFund.Governor", () => {
+  const QUORUM: number = 2;
+  const DELAY: number = 24 * 60 * 60;
+  const MAX_DELAY: number = 30 * 24 * 60 * 60;
+  const WITHDRAW_THRESHOLD: number = 1000;
+  const DEPOSIT: number = 1500;
+
+  let manager: Signer;
+  let co_managers: Signer[];
+  let investor: Signer;
+  let token: Contract;
+  let investment_fund: Contract;
+  let governor: Contract;
+
+  beforeEach(async () => {
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    manager = all_signers[0];
+    co_managers = all_signers.slice(1, 4);
+    investor = all_signers[4];
+
+    const token_factory: ContractFactory = await hre.ethers.getContractFactory("MockERC20Token");
+    token = await token_factory.deploy(constants.TOKEN_SUPPLY);
+    await token.deployed();
+    await token.transfer(await investor.getAddress(), DEPOSIT);
+
+    await initFund(token.address);
+  });
+
+  // Deploy the fund and the governor, that becomes the fund manager
+  async function initFund(
+    fundToken: string
+  ) : Promise<void> {
+    const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    investment_fund = await fund_factory.deploy(fundToken, constants.NULL_ADDRESS);
+    await investment_fund.deployed();
+
+    governor = await deployGovernor(
+      await Promise.all(co_managers.map((co_manager) => co_manager.getAddress())),
+      QUORUM,
+      DELAY
+    );
+    await investment_fund.setPendingFundManager(governor.address);
+    await callFund("acceptFundManager");
+  }
+
+  async function deployGovernor(
+    coManagers: string[],
+    quorum: number,
+    delay: number
+  ) : Promise<Contract> {
+    const governor_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundGovernor");
+    const governor_instance: Contract = await governor_factory.deploy(
+      investment_fund.address,
+      await manager.getAddress(),
+      coManagers,
+      quorum,
+      delay,
+      WITHDRAW_THRESHOLD
+    );
+    await governor_instance.deployed();
+    return governor_instance;
+  }
+
+  // Call the fund through the governor
+  async function callFund(
+    functionName: string,
+    ...args: BigNumberish[]
+  ) : Promise<ContractTransaction> {
+    return governor.callFund(investment_fund.interface.encodeFunctionData(functionName, args));
+  }
+
+  // Propose a call to the fund, returning the proposal ID
+  async function proposeFund(
+    functionName: string,
+    ...args: BigNumberish[]
+  ) : Promise<BigNumber> {
+    await governor.propose(investment_fund.address, investment_fund.interface.encodeFunctionData(functionName, args));
+    return governor.proposalsNum();
+  }
+
+  // Propose a call to the governor itself, returning the proposal ID
+  async function proposeGovernor(
+    functionName: string,
+    ...args: BigNumberish[]
+  ) : Promise<BigNumber> {
+    await governor.propose(governor.address, governor.interface.encodeFunctionData(functionName, args));
+    return governor.proposalsNum();
+  }
+
+  // Approve the proposal by the quorum and wait for the delay
+  async function approveAndWait(
+    proposalId: BigNumber
+  ) : Promise<void> {
+    for (let i = 0; i < QUORUM; i++) {
+      await governor.connect(co_managers[i]).approve(proposalId);
+    }
+    await time.increase(DELAY);
+  }
+
+  // Start the investment with the deposit of the investor
+  async function startInvestment() : Promise<void> {
+    await callFund("startInvestorsDeposit");
+    await token.connect(investor).approve(investment_fund.address, DEPOSIT);
+    await investment_fund.connect(investor).investorDeposit(DEPOSIT);
+    await callFund("stopInvestorsDeposit");
+  }
+
+  it("should construct correctly", async () => {
+    expect(await investment_fund.fundManager())
+      .to.equal(governor.address);
+    expect(await governor.fund())
+      .to.equal(investment_fund.address);
+    expect(await governor.manager())
+      .to.equal(await manager.getAddress());
+    expect(await governor.coManagers())
+      .to.deep.equal(await Promise.all(co_managers.map((co_manager) => co_manager.getAddress())));
+    expect(await governor.quorum())
+      .to.equal(QUORUM);
+    expect(await governor.delay())
+      .to.equal(DELAY);
+    expect(await governor.withdrawThreshold())
+      .to.equal(WITHDRAW_THRESHOLD);
+  });
+
+  it("should revert if constructed with invalid parameters", async () => {
+    const co_manager_address: string = await co_managers[0].getAddress();
+    const governor_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundGovernor");
+
+    await expect(deployGovernor([co_manager_address], 2, DELAY))
+      .to.be.revertedWithCustomError(governor_factory, "ValueError")
+      .withArgs(2);
+    await expect(deployGovernor([], 0, MAX_DELAY + 1))
+      .to.be.revertedWithCustomError(governor_factory, "ValueError")
+      .withArgs(MAX_DELAY + 1);
+    await expect(deployGovernor([co_manager_address, co_manager_address], 1, DELAY))
+      .to.be.revertedWithCustomError(governor_factory, "AddressError")
+      .withArgs(co_manager_address);
+    await expect(deployGovernor([await manager.getAddress()], 1, DELAY))
+      .to.be.revertedWithCustomError(governor_factory, "AddressError")
+      .withArgs(await manager.getAddress());
+    await expect(governor_factory.deploy(constants.NULL_ADDRESS, await manager.getAddress(), [], 0, DELAY, WITHDRAW_THRESHOLD))
+      .to.be.revertedWithCustomError(governor_factory, "AddressError")
+      .withArgs(constants.NULL_ADDRESS);
+  });
+
+  it("should call non-sensitive functions of the fund directly", async () => {
+    await expect(callFund("setMaxInvestmentDuration", constants.NEW_MAX_INVESTMENT_DURATION))
+      .to.emit(investment_fund, "MaxInvestmentDurationChanged");
+    expect(await investment_fund.maxInvestmentDuration())
+      .to.equal(constants.NEW_MAX_INVESTMENT_DURATION);
+
+    // Call data shall include the function selector
+    for (const data of ["0x", "0x1234"]) {
+      await expect(governor.callFund(data))
+        .to.be.revertedWithCustomError(governor, "CallDataError")
+        .withArgs(data);
+    }
+    // Errors of the fund are bubbled up
+    await expect(callFund("startInvestorsWithdraw"))
+      .to.be.revertedWithCustomError(investment_fund, "InvestmentStateError");
+    await expect(governor.connect(investor).callFund(investment_fund.interface.encodeFunctionData("startInvestorsDeposit")))
+      .to.be.revertedWithCustomError(governor, "CallerError")
+      .withArgs(await investor.getAddress());
+  });
+
+  it("should not call sensitive functions of the fund directly", async () => {
+    const sensitive_calls: [string, (BigNumberish | boolean | string[])[]][] = [
+      ["setFundToken", [token.address, false]],
+      ["setFundTokens", [[token.address], governor.address]],
+      ["setStrategies", [[governor.address]]],
+      ["setManagementFee", [constants.NEW_MANAGEMENT_FEE]],
+      ["setPerformanceFee", [constants.NEW_PERFORMANCE_FEE]],
+      ["setFeeRecipient", [await investor.getAddress()]],
+      ["setRemainingFundsAddress", [await investor.getAddress()]],
+      ["setPendingFundManager", [await investor.getAddress()]],
+    ];
+
+    for (const [function_name, args] of sensitive_calls) {
+      const data: string = investment_fund.interface.encodeFunctionData(function_name, args);
+      expect(await governor.isSensitiveCall(data))
+        .to.equal(true);
+      await expect(governor.callFund(data))
+        .to.be.revertedWithCustomError(governor, "SensitiveCallError")
+        .withArgs(investment_fund.interface.getSighash(function_name));
+    }
+  });
+
+  it("should withdraw up to the threshold directly and forward funds to the manager", async () => {
+    await startInvestment();
+
+    await expect(callFund("fundManagerWithdraw", 600))
+      .to.changeTokenBalances(token, [manager, governor, investment_fund], [600, 0, -600]);
+    // The threshold is cumulative in the round
+    await expect(callFund("fundManagerWithdraw", WITHDRAW_THRESHOLD - 600 + 1))
+      .to.be.revertedWithCustomError(governor, "SensitiveCallError")
+      .withArgs(investment_fund.interface.getSighash("fundManagerWithdraw"));
+    await expect(callFund("fundManagerWithdrawAll"))
+      .to.be.revertedWithCustomError(governor, "SensitiveCallError")
+      .withArgs(investment_fund.interface.getSighash("fundManagerWithdrawAll"));
+    await callFund("fundManagerWithdraw", WITHDRAW_THRESHOLD - 600);
+    expect(await governor.withdrawnAmounts(1))
+      .to.equal(WITHDRAW_THRESHOLD);
+
+    // Deposits are transferred from the manager
+    await token.approve(governor.address, WITHDRAW_THRESHOLD);
+    await expect(callFund("fundManagerDeposit", WITHDRAW_THRESHOLD))
+      .to.changeTokenBalances(token, [manager, governor, investment_fund], [-WITHDRAW_THRESHOLD, 0, WITHDRAW_THRESHOLD]);
+  });
+
+  it("should forward fees and remaining funds sent to the governor", async () => {
+    // Fee recipient and remaining funds address are the governor after accepting the fund manager role
+    expect(await investment_fund.feeRecipient())
+      .to.equal(governor.address);
+    const proposal_id: BigNumber = await proposeFund("setManagementFee", constants.NEW_MANAGEMENT_FEE);
+    await approveAndWait(proposal_id);
+    await governor.execute(proposal_id);
+    await callFund("setMaxInvestmentDuration", constants.NEW_MAX_INVESTMENT_DURATION);
+    await startInvestment();
+
+    // Anyone can start investors withdraw after the deadline, so fees stay in the governor until forwarded
+    const fee: number = (DEPOSIT * constants.NEW_MANAGEMENT_FEE) / constants.BPS_DENOMINATOR;
+    await time.increase(constants.NEW_MAX_INVESTMENT_DURATION);
+    await investment_fund.connect(investor).startInvestorsWithdraw();
+    expect(await token.balanceOf(governor.address))
+      .to.equal(fee);
+    await expect(governor.connect(investor).forwardFunds())
+      .to.changeTokenBalances(token, [manager, governor], [fee, -fee]);
+  });
+
+  it("should forward the native currency to the manager", async () => {
+    await initFund(NATIVE_TOKEN);
+    await callFund("startInvestorsDeposit");
+    await investment_fund.connect(investor).investorDeposit(DEPOSIT, { value: DEPOSIT });
+    await callFund("stopInvestorsDeposit");
+
+    await expect(callFund("fundManagerWithdraw", WITHDRAW_THRESHOLD))
+      .to.changeEtherBalances([manager, governor, investment_fund], [WITHDRAW_THRESHOLD, 0, -WITHDRAW_THRESHOLD]);
+    await expect(governor.callFund(investment_fund.interface.encodeFunctionData("fundManagerDeposit", [WITHDRAW_THRESHOLD]), { value: WITHDRAW_THRESHOLD }))
+      .to.changeEtherBalances([manager, investment_fund], [-WITHDRAW_THRESHOLD, WITHDRAW_THRESHOLD]);
+  });
+
+  it("should execute proposals after the delay and with the quorum", async () => {
+    await startInvestment();
+
+    const data: string = investment_fund.interface.encodeFunctionData("fundManagerWithdrawAll");
+    const tx = await governor.propose(investment_fund.address, data);
+    const eta: number = (await time.latest()) + DELAY;
+    await expect(tx)
+      .to.emit(governor, "ProposalCreated")
+      .withArgs(1, investment_fund.address, data, eta);
+    const proposal = await governor.proposal(1);
+    expect(proposal.target)
+      .to.equal(investment_fund.address);
+    expect(proposal.data)
+      .to.equal(data);
+    expect(proposal.eta)
+      .to.equal(eta);
+
+    // Delay not passed
+    await expect(governor.execute(1))
+      .to.be.revertedWithCustomError(governor, "DelayError")
+      .withArgs(1, eta);
+    // Quorum not reached
+    await time.increaseTo(eta);
+    await expect(governor.connect(co_managers[0]).approve(1))
+      .to.emit(governor, "ProposalApproved")
+      .withArgs(1, await co_managers[0].getAddress());
+    await expect(governor.execute(1))
+      .to.be.revertedWithCustomError(governor, "QuorumError")
+      .withArgs(1, 1);
+    await expect(governor.connect(co_managers[0]).approve(1))
+      .to.be.revertedWithCustomError(governor, "ApprovalError")
+      .withArgs(1, await co_managers[0].getAddress());
+    await expect(governor.connect(investor).approve(1))
+      .to.be.revertedWithCustomError(governor, "CallerError")
+      .withArgs(await investor.getAddress());
+    await governor.connect(co_managers[1]).approve(1);
+    expect(await governor.proposalApprovals(1))
+      .to.equal(2);
+
+    // Co-managers can execute too
+    await expect(governor.connect(co_managers[2]).execute(1))
+      .to.emit(governor, "ProposalExecuted")
+      .withArgs(1)
+      .and.to.changeTokenBalances(token, [manager, investment_fund], [DEPOSIT, -DEPOSIT]);
+    await expect(governor.execute(1))
+      .to.be.revertedWithCustomError(governor, "ProposalStateError")
+      .withArgs(1);
+  });
+
+  it("should not execute proposals after the grace period", async () => {
+    const GRACE_PERIOD: number = 14 * 24 * 60 * 60;
+
+    const proposal_id: BigNumber = await proposeFund("setRemainingFundsAddress", await investor.getAddress());
+    const expiry: BigNumber = (await governor.proposal(proposal_id)).eta.add(GRACE_PERIOD);
+    expect(await governor.proposalExpiry(proposal_id))
+      .to.equal(expiry);
+
+    await approveAndWait(proposal_id);
+    await time.increaseTo(expiry.add(1));
+    await expect(governor.execute(proposal_id))
+      .to.be.revertedWithCustomError(governor, "ExpiredError")
+      .withArgs(proposal_id, expiry);
+
+    // Expired proposals can be cancelled
+    await expect(governor.cancel(proposal_id))
+      .to.emit(governor, "ProposalCancelled")
+      .withArgs(proposal_id, await manager.getAddress());
+  });
+
+  it("should bubble up errors of executed proposals", async () => {
+    // Withdrawals are not allowed in the INITIAL state
+    const proposal_id: BigNumber = await proposeFund("fundManagerWithdrawAll");
+    await approveAndWait(proposal_id);
+
+    await expect(governor.execute(proposal_id))
+      .to.be.revertedWithCustomError(investment_fund, "InvestmentStateError");
+    expect((await governor.proposal(proposal_id)).state)
+      .to.equal(1);
+  });
+
+  it("should change sensitive parameters of the fund by proposals", async () => {
+    const new_address: string = await investor.getAddress();
+
+    const proposal_id: BigNumber = await proposeFund("setRemainingFundsAddress", new_address);
+    await approveAndWait(proposal_id);
+    await expect(governor.execute(proposal_id))
+      .to.emit(investment_fund, "RemainingFundsAddressChanged");
+    expect(await investment_fund.remainingFundsAddr())
+      .to.equal(new_address);
+
+    // Leaving the governor
+    const leave_id: BigNumber = await proposeFund("setPendingFundManager", new_address);
+    await approveAndWait(leave_id);
+    await governor.connect(co_managers[0]).execute(leave_id);
+    await investment_fund.connect(investor).acceptFundManager();
+    expect(await investment_fund.fundManager())
+      .to.equal(new_address);
+  });
+
+  it("should cancel proposals", async () => {
+    const proposal_id: BigNumber = await proposeFund("setRemainingFundsAddress", await investor.getAddress());
+
+    await expect(governor.connect(investor).cancel(proposal_id))
+      .to.be.revertedWithCustomError(governor, "CallerError")
+      .withArgs(await investor.getAddress());
+    // A single co-manager can cancel, so investors can be protected
+    await expect(governor.connect(co_managers[2]).cancel(proposal_id))
+      .to.emit(governor, "ProposalCancelled")
+      .withArgs(proposal_id, await co_managers[2].getAddress());
+    expect((await governor.proposal(proposal_id)).state)
+      .to.equal(3);
+
+    await expect(governor.connect(co_managers[0]).approve(proposal_id))
+      .to.be.revertedWithCustomError(governor, "ProposalStateError")
+      .withArgs(proposal_id);
+    await time.increase(DELAY);
+    await expect(governor.execute(proposal_id))
+      .to.be.revertedWithCustomError(governor, "ProposalStateError")
+      .withArgs(proposal_id);
+    await expect(governor.cancel(proposal_id))
+      .to.be.revertedWithCustomError(governor, "ProposalStateError")
+      .withArgs(proposal_id);
+    // Not existent
+    await expect(governor.execute(proposal_id.add(1)))
+      .to.be.revertedWithCustomError(governor, "ProposalStateError")
+      .withArgs(proposal_id.add(1));
+  });
+
+  it("should only propose calls to the fund or the governor", async () => {
+    await expect(governor.propose(token.address, token.interface.encodeFunctionData("transfer", [await manager.getAddress(), 1])))
+      .to.be.revertedWithCustomError(governor, "AddressError")
+      .withArgs(token.address);
+    await expect(governor.connect(co_managers[0]).propose(investment_fund.address, "0x"))
+      .to.be.revertedWithCustomError(governor, "CallerError")
+      .withArgs(await co_managers[0].getAddress());
+  });
+
+  it("should change the governor configuration by proposals", async () => {
+    const new_co_manager: Signer = investor;
+    const new_co_manager_address: string = await new_co_manager.getAddress();
+
+    await expect(governor.setQuorum(1))
+      .to.be.revertedWithCustomError(governor, "CallerError")
+      .withArgs(await manager.getAddress());
+
+    const add_id: BigNumber = await proposeGovernor("addCoManager", new_co_manager_address);
+    const quorum_id: BigNumber = await proposeGovernor("setQuorum", 4);
+    const delay_id: BigNumber = await proposeGovernor("setDelay", 2 * DELAY);
+    const threshold_id: BigNumber = await proposeGovernor("setWithdrawThreshold", 0);
+    for (const proposal_id of [add_id, quorum_id, delay_id, threshold_id]) {
+      await governor.connect(co_managers[0]).approve(proposal_id);
+      await governor.connect(co_managers[1]).approve(proposal_id);
+    }
+    await time.increase(DELAY);
+
+    await expect(governor.execute(add_id))
+      .to.emit(governor, "CoManagerChanged")
+      .withArgs(new_co_manager_address, true);
+    await expect(governor.execute(delay_id))
+      .to.emit(governor, "DelayChanged")
+      .withArgs(DELAY, 2 * DELAY);
+    await expect(governor.execute(quorum_id))
+      .to.emit(governor, "QuorumChanged")
+      .withArgs(QUORUM, 4);
+    // The quorum is now 4
+    await expect(governor.execute(threshold_id))
+      .to.be.revertedWithCustomError(governor, "QuorumError")
+      .withArgs(threshold_id, 2);
+    await governor.connect(co_managers[2]).approve(threshold_id);
+    await governor.connect(new_co_manager).approve(threshold_id);
+    await governor.execute(threshold_id);
+
+    // All withdrawals shall be proposed now
+    expect(await governor.isSensitiveCall(investment_fund.interface.encodeFunctionData("fundManagerWithdraw", [1])))
+      .to.equal(true);
+  });
+
+  it("should not count the approvals of removed co-managers", async () => {
+    const removed_address: string = await co_managers[0].getAddress();
+    const proposal_id: BigNumber = await proposeFund("setRemainingFundsAddress", await investor.getAddress());
+    await approveAndWait(proposal_id);
+
+    const remove_id: BigNumber = await proposeGovernor("removeCoManager", removed_address);
+    await approveAndWait(remove_id);
+    await expect(governor.execute(remove_id))
+      .to.emit(governor, "CoManagerChanged")
+      .withArgs(removed_address, false);
+    expect(await governor.isCoManager(removed_address))
+      .to.equal(false);
+
+    await expect(governor.execute(proposal_id))
+      .to.be.revertedWithCustomError(governor, "QuorumError")
+      .withArgs(proposal_id, 1);
+    await expect(governor.connect(co_managers[0]).execute(proposal_id))
+      .to.be.revertedWithCustomError(governor, "CallerError")
+      .withArgs(removed_address);
+
+    // The quorum cannot be higher than the co-managers
+    const remove_again_id: BigNumber = await proposeGovernor("removeCoManager", await co_managers[1].getAddress());
+    await governor.connect(co_managers[1]).approve(remove_again_id);
+    await governor.connect(co_managers[2]).approve(remove_again_id);
+    await time.increase(DELAY);
+    await expect(governor.execute(remove_again_id))
+      .to.be.revertedWithCustomError(governor, "ValueError")
+      .withArgs(QUORUM);
+  });
+});
@@ -52,54 +52,67 @@ describe("InvestmentFund.INITIAL", () => {
     const other_address: string = await test_ctx.accounts.signers[0].getAddress();
   
     // setRemainingFundsAddress
-    await expect(await test_ctx.investment_fund.setRemainingFundsAddress(other_address))
-      .to.emit(test_ctx.investment_fund, "RemainingFundsAddressChanged")
-      .withArgs(fund_manager_address, other_address);
+    utils.expectEvent(
+      await test_ctx.fund_client.setRemainingFundsAddress(other_address),
+      "RemainingFundsAddressChanged",
+      fund_manager_address, other_address
+    );
     expect(await test_ctx.investment_fund.remainingFundsAddr())
       .to.equal(other_address);
 
     // setFundToken
     const mock_token_2: Contract = await utils.deployMockERC20TokenContract(test_ctx.accounts, 10);
-    await expect(await test_ctx.investment_fund.setFundToken(mock_token_2.address))
-      .to.emit(test_ctx.investment_fund, "FundTokenChanged")
-      .withArgs(test_ctx.mock_token.address, mock_token_2.address);
+    utils.expectEvent(
+      await test_ctx.fund_client.setFundToken(mock_token_2.address),
+      "FundTokenChanged",
+      test_ctx.mock_token.address, mock_token_2.address, false
+    );
     expect(await test_ctx.investment_fund.fundToken())
       .to.equal(mock_token_2.address);
 
     // setDepositMultipleOf
-    await expect(await test_ctx.investment_fund.setDepositMultipleOf(constants.NEW_MULTIPLE_OF))
-      .to.emit(test_ctx.investment_fund, "DepositMultipleOfChanged")
-      .withArgs(1, constants.NEW_MULTIPLE_OF);
+    utils.expectEvent(
+      await test_ctx.fund_client.setDepositMultipleOf(constants.NEW_MULTIPLE_OF),
+      "DepositMultipleOfChanged",
+      1, constants.NEW_MULTIPLE_OF
+    );
     expect(await test_ctx.investment_fund.depositMultipleOf())
       .to.equal(constants.NEW_MULTIPLE_OF);
 
     // setMinInvestorDeposit
-    await expect(await test_ctx.investment_fund.setMinInvestorDeposit(constants.NEW_MIN_AMOUNT))
-      .to.emit(test_ctx.investment_fund, "MinInvestorDepositChanged")
-      .withArgs(1, constants.NEW_MIN_AMOUNT);
+    utils.expectEvent(
+      await test_ctx.fund_client.setMinInvestorDeposit(constants.NEW_MIN_AMOUNT),
+      "MinInvestorDepositChanged",
+      1, constants.NEW_MIN_AMOUNT
+    );
     expect(await test_ctx.investment_fund.minInvestorDeposit())
       .to.equal(constants.NEW_MIN_AMOUNT);
 
     // setMaxInvestorDeposit
-    await expect(await test_ctx.investment_fund.setMaxInvestorDeposit(constants.NEW_MAX_AMOUNT))
-      .to.emit(test_ctx.investment_fund, "MaxInvestorDepositChanged")
-      .withArgs(constants.UINT256_MAX, constants.NEW_MAX_AMOUNT);
+    utils.expectEvent(
+      await test_ctx.fund_client.setMaxInvestorDeposit(constants.NEW_MAX_AMOUNT),
+      "MaxInvestorDepositChanged",
+      constants.UINT256_MAX, constants.NEW_MAX_AMOUNT
+    );
     expect(await test_ctx.investment_fund.maxInvestorDeposit())
       .to.equal(constants.NEW_MAX_AMOUNT);
   });
 
   it("should go to BEFORE_INVESTMENT state when startInvestorsDeposit is called", async () => {
-    await expect(await test_ctx.investment_fund.startInvestorsDeposit())
-      .to.emit(test_ctx.investment_fund, "InvestorsDepositStarted");
+    utils.expectEvent(
+      await test_ctx.fund_client.startInvestorsDeposit(),
+      "InvestorsDepositStarted",
+      1
+    );
     expect(await test_ctx.investment_fund.currState())
       .to.equal(constants.InvestmentStates.BEFORE_INVESTMENT);
   });
 
   it("should revert if set functions are called with invalid parameters", async () => {
     // Set parameters
-    await test_ctx.investment_fund.setMinInvestorDeposit(constants.NEW_MIN_AMOUNT);
-    await test_ctx.investment_fund.setMaxInvestorDeposit(constants.NEW_MAX_AMOUNT);
-    await test_ctx.investment_fund.setDepositMultipleOf(constants.NEW_MULTIPLE_OF);
+    await test_ctx.fund_client.setMinInvestorDeposit(constants.NEW_MIN_AMOUNT);
+    await test_ctx.fund_client.setMaxInvestorDeposit(constants.NEW_MAX_AMOUNT);
+    await test_ctx.fund_client.setDepositMultipleOf(constants.NEW_MULTIPLE_OF);
 
     // Check reverts
     await expect(test_ctx.investment_fund.setDepositMultipleOf(0))
@@ -131,7 +144,7 @@ describe("InvestmentFund.INITIAL", () => {
 
     await expect(test_ctx.investment_fund.connect(other_account).setRemainingFundsAddress(other_address))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
-    await expect(test_ctx.investment_fund.connect(other_account).setFundToken(test_ctx.mock_token.address))
+    await expect(test_ctx.investment_fund.connect(other_account).setFundToken(test_ctx.mock_token.address, false))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
     await expect(test_ctx.investment_fund.connect(other_account).setDepositMultipleOf(1))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
@@ -157,6 +170,8 @@ describe("InvestmentFund.INITIAL", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.investorWithdrawAll())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.investorWithdraw(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.fundManagerDeposit(constants.DUMMY_AMOUNT))
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.fundManagerWithdraw(constants.DUMMY_AMOUNT))
@@ -167,6 +182,8 @@ describe("InvestmentFund.INITIAL", () => {
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.fundManagerReturnFundsToAllInvestors())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(0, constants.TOTAL_TEST_INVESTORS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.stopInvestorsDeposit())
       .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
     await expect(test_ctx.investment_fund.startInvestorsWithdraw())
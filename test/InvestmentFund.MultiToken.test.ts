@@ -0,0 +1,454 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, ContractTransaction, Signer } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+// Project
+import { AmountError, FundTokenError, InvestmentFundClient, NATIVE_TOKEN, TransactionResult } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for multi-token funds, with deposits valued by the token oracle
+//
+describe("InvestmentFund.MultiToken", () => {
+  // Stablecoin-like token with 6 decimals, valued 1
+  const STABLE_DECIMALS: number = 6;
+  const STABLE_PRICE: BigNumber = parseUnits("1", 8);
+  // ETH-like token with 18 decimals, valued 2000
+  const ETH_DECIMALS: number = 18;
+  const ETH_PRICE: BigNumber = parseUnits("2000", 8);
+  const PRICE_DECIMALS: number = 8;
+  const TOKEN_SUPPLY: BigNumber = parseUnits("1", 30);
+  const MAX_PRICE_AGE: number = 3600;
+  // Deposits: 1000 stable (valued 1000) and 1 ETH (valued 2000)
+  const STABLE_DEPOSIT: BigNumber = parseUnits("1000", STABLE_DECIMALS);
+  const ETH_DEPOSIT: BigNumber = parseUnits("1", ETH_DECIMALS);
+  const STABLE_DEPOSIT_VALUE: BigNumber = parseUnits("1000", 18);
+  const ETH_DEPOSIT_VALUE: BigNumber = parseUnits("2000", 18);
+
+  let fund_manager: Signer;
+  let investors: Signer[];
+  let stable_token: Contract;
+  let eth_token: Contract;
+  let stable_feed: Contract;
+  let eth_feed: Contract;
+  let oracle: Contract;
+  let investment_fund: Contract;
+  let fund_client: InvestmentFundClient;
+
+  beforeEach(async () => {
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    fund_manager = all_signers[0];
+    investors = all_signers.slice(1, 3);
+
+    const token_factory: ContractFactory = await hre.ethers.getContractFactory("MockDecimalsToken");
+    stable_token = await token_factory.deploy(STABLE_DECIMALS, TOKEN_SUPPLY);
+    await stable_token.deployed();
+    eth_token = await token_factory.deploy(ETH_DECIMALS, TOKEN_SUPPLY);
+    await eth_token.deployed();
+
+    const feed_factory: ContractFactory = await hre.ethers.getContractFactory("MockPriceFeed");
+    stable_feed = await feed_factory.deploy(PRICE_DECIMALS, STABLE_PRICE);
+    await stable_feed.deployed();
+    eth_feed = await feed_factory.deploy(PRICE_DECIMALS, ETH_PRICE);
+    await eth_feed.deployed();
+
+    const oracle_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundOracle");
+    oracle = await oracle_factory.deploy(MAX_PRICE_AGE);
+    await oracle.deployed();
+    await oracle.setPriceFeed(stable_token.address, stable_feed.address);
+    await oracle.setPriceFeed(eth_token.address, eth_feed.address);
+
+    const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    investment_fund = await fund_factory.deploy(stable_token.address, constants.NULL_ADDRESS);
+    await investment_fund.deployed();
+    fund_client = InvestmentFundClient.connect(investment_fund.address, fund_manager);
+
+    await stable_token.transfer(await investors[0].getAddress(), STABLE_DEPOSIT.mul(2));
+    await eth_token.transfer(await investors[1].getAddress(), ETH_DEPOSIT.mul(2));
+    await fund_client.setFundTokens([stable_token.address, eth_token.address], oracle.address);
+  });
+
+  // Deposit the stablecoin by the first investor and ETH by the second one
+  async function depositTokens() : Promise<void> {
+    await fund_client.connect(investors[0]).depositToken(stable_token.address, STABLE_DEPOSIT);
+    await fund_client.connect(investors[1]).depositToken(eth_token.address, ETH_DEPOSIT);
+  }
+
+  // Transaction sent by the client, for checking balance changes
+  async function clientTx(
+    result: Promise<TransactionResult>
+  ) : Promise<ContractTransaction> {
+    return (await result).tx;
+  }
+
+  // Amount of the specified token held by the fund that corresponds to the value, pro-rata on the total value
+  async function proRataAmount(
+    token: Contract,
+    value: BigNumber,
+    totalValue: BigNumber
+  ) : Promise<BigNumber> {
+    return (await investment_fund.tokenFunds(token.address)).mul(value).div(totalValue);
+  }
+
+  it("should set the fund tokens", async () => {
+    expect(await fund_client.isMultiToken())
+      .to.equal(true);
+    expect(await fund_client.fundTokens())
+      .to.deep.equal([stable_token.address, eth_token.address]);
+    expect((await fund_client.tokenOracle()).address)
+      .to.equal(oracle.address);
+    expect(await fund_client.payoutToken())
+      .to.equal(constants.NULL_ADDRESS);
+    // Shares have the same decimals of values
+    expect(await investment_fund.decimals())
+      .to.equal(18);
+
+    // Going back to a single-token fund
+    await expect(investment_fund.setFundTokens([], constants.NULL_ADDRESS))
+      .to.emit(investment_fund, "FundTokensChanged")
+      .withArgs([], constants.NULL_ADDRESS);
+    expect(await fund_client.isMultiToken())
+      .to.equal(false);
+    expect(await investment_fund.decimals())
+      .to.equal(STABLE_DECIMALS);
+  });
+
+  it("should revert if setting invalid fund tokens", async () => {
+    await expect(investment_fund.setFundTokens([stable_token.address], constants.NULL_ADDRESS))
+      .to.be.revertedWithCustomError(investment_fund, "AddressError")
+      .withArgs(constants.NULL_ADDRESS);
+    await expect(investment_fund.setFundTokens([stable_token.address, constants.NULL_ADDRESS], oracle.address))
+      .to.be.revertedWithCustomError(investment_fund, "AddressError")
+      .withArgs(constants.NULL_ADDRESS);
+    await expect(investment_fund.setFundTokens([NATIVE_TOKEN], oracle.address))
+      .to.be.revertedWithCustomError(investment_fund, "AddressError")
+      .withArgs(NATIVE_TOKEN);
+    await expect(investment_fund.setFundTokens([stable_token.address, eth_token.address, stable_token.address], oracle.address))
+      .to.be.revertedWithCustomError(investment_fund, "AddressError")
+      .withArgs(stable_token.address);
+    await expect(investment_fund.connect(investors[0]).setFundTokens([stable_token.address], oracle.address))
+      .to.be.revertedWithCustomError(investment_fund, "FundManagerCallerError");
+
+    await fund_client.startInvestorsDeposit();
+    await expect(investment_fund.setFundTokens([stable_token.address], oracle.address))
+      .to.be.revertedWithCustomError(investment_fund, "InvestmentStateError");
+  });
+
+  it("should deposit tokens at their oracle value", async () => {
+    const investor_address: string = await investors[1].getAddress();
+    await fund_client.startInvestorsDeposit();
+
+    await eth_token.connect(investors[1]).approve(investment_fund.address, ETH_DEPOSIT);
+    await expect(investment_fund.connect(investors[1]).investorDepositToken(eth_token.address, ETH_DEPOSIT))
+      .to.emit(investment_fund, "TokenFundsDeposited")
+      .withArgs(investor_address, eth_token.address, ETH_DEPOSIT)
+      .and.to.emit(investment_fund, "InvestorFundsDeposited")
+      .withArgs(investor_address, ETH_DEPOSIT_VALUE);
+    utils.expectEvent(
+      await fund_client.connect(investors[0]).depositToken(stable_token.address, STABLE_DEPOSIT),
+      "InvestorFundsDeposited",
+      await investors[0].getAddress(), STABLE_DEPOSIT_VALUE
+    );
+
+    expect(await investment_fund.depositOfInvestor(investor_address))
+      .to.equal(ETH_DEPOSIT_VALUE);
+    expect(await investment_fund.balanceOf(investor_address))
+      .to.equal(ETH_DEPOSIT_VALUE);
+    expect(await fund_client.tokenFunds(stable_token.address))
+      .to.equal(STABLE_DEPOSIT);
+    expect(await fund_client.tokenFunds(eth_token.address))
+      .to.equal(ETH_DEPOSIT);
+    expect(await investment_fund.totalDepositedFunds())
+      .to.equal(STABLE_DEPOSIT_VALUE.add(ETH_DEPOSIT_VALUE));
+    // Tokens are accounted separately, so there are no excess funds
+    expect(await investment_fund.excessFunds())
+      .to.equal(0);
+  });
+
+  it("should revert if depositing tokens not accepted by the fund", async () => {
+    const token_factory: ContractFactory = await hre.ethers.getContractFactory("MockDecimalsToken");
+    const other_token: Contract = await token_factory.deploy(STABLE_DECIMALS, TOKEN_SUPPLY);
+    await other_token.deployed();
+    await fund_client.startInvestorsDeposit();
+
+    await expect(investment_fund.investorDepositToken(other_token.address, STABLE_DEPOSIT))
+      .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+    await expect(fund_client.depositToken(other_token.address, STABLE_DEPOSIT))
+      .to.be.rejectedWith(FundTokenError, "token is not accepted by the fund");
+    // The fund token is not used by multi-token funds
+    await stable_token.approve(investment_fund.address, STABLE_DEPOSIT);
+    await expect(investment_fund.investorDeposit(STABLE_DEPOSIT))
+      .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+    await expect(fund_client.deposit(STABLE_DEPOSIT))
+      .to.be.rejectedWith(FundTokenError, "multi-token funds only accept deposits of their tokens");
+  });
+
+  it("should apply the deposit limits to values", async () => {
+    const investor_address: string = await investors[1].getAddress();
+    await fund_client.setMaxInvestorDeposit(parseUnits("1500", 18));
+    await fund_client.startInvestorsDeposit();
+
+    // 1 ETH is valued 2000, above the maximum deposit
+    await eth_token.connect(investors[1]).approve(investment_fund.address, ETH_DEPOSIT);
+    await expect(investment_fund.connect(investors[1]).investorDepositToken(eth_token.address, ETH_DEPOSIT))
+      .to.be.revertedWithCustomError(investment_fund, "AmountError")
+      .withArgs(ETH_DEPOSIT_VALUE);
+    await expect(fund_client.connect(investors[1]).depositToken(eth_token.address, ETH_DEPOSIT))
+      .to.be.rejectedWith(AmountError, `deposit ${ETH_DEPOSIT_VALUE.toString()} is higher than the maximum investor deposit`);
+
+    await fund_client.connect(investors[1]).depositToken(eth_token.address, ETH_DEPOSIT.div(2));
+    expect(await investment_fund.depositOfInvestor(investor_address))
+      .to.equal(ETH_DEPOSIT_VALUE.div(2));
+  });
+
+  it("should refund tokens pro-rata before investment", async () => {
+    const investor_address: string = await investors[0].getAddress();
+    const total_value: BigNumber = STABLE_DEPOSIT_VALUE.add(ETH_DEPOSIT_VALUE);
+    const withdraw_value: BigNumber = STABLE_DEPOSIT_VALUE.div(2);
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+
+    const stable_amount: BigNumber = await proRataAmount(stable_token, withdraw_value, total_value);
+    const eth_amount: BigNumber = await proRataAmount(eth_token, withdraw_value, total_value);
+    await expect(investment_fund.connect(investors[0]).investorWithdraw(withdraw_value))
+      .to.changeTokenBalances(stable_token, [investor_address, investment_fund.address], [stable_amount, stable_amount.mul(-1)])
+      .and.to.changeTokenBalances(eth_token, [investor_address, investment_fund.address], [eth_amount, eth_amount.mul(-1)]);
+    expect(await investment_fund.depositOfInvestor(investor_address))
+      .to.equal(STABLE_DEPOSIT_VALUE.sub(withdraw_value));
+    expect(await investment_fund.tokenFunds(stable_token.address))
+      .to.equal(STABLE_DEPOSIT.sub(stable_amount));
+  });
+
+  it("should refund tokens pro-rata when investors deposit is cancelled", async () => {
+    const total_value: BigNumber = STABLE_DEPOSIT_VALUE.add(ETH_DEPOSIT_VALUE);
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+
+    // The last investor is refunded first with its value fraction of each token, the first one with all the remaining tokens
+    const stable_amount: BigNumber = await proRataAmount(stable_token, ETH_DEPOSIT_VALUE, total_value);
+    const eth_amount: BigNumber = await proRataAmount(eth_token, ETH_DEPOSIT_VALUE, total_value);
+    await expect(clientTx(fund_client.cancelInvestorsDeposit()))
+      .to.changeTokenBalances(stable_token, investors, [STABLE_DEPOSIT.sub(stable_amount), stable_amount])
+      .and.to.changeTokenBalances(eth_token, investors, [ETH_DEPOSIT.sub(eth_amount), eth_amount]);
+
+    // No tokens are carried into the next round
+    expect(await investment_fund.tokenFunds(stable_token.address))
+      .to.equal(0);
+    expect(await investment_fund.tokenFunds(eth_token.address))
+      .to.equal(0);
+    expect(await investment_fund.totalDepositedFunds())
+      .to.equal(0);
+  });
+
+  it("should move tokens during investment", async () => {
+    const fund_manager_address: string = await fund_manager.getAddress();
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+    await fund_client.stopInvestorsDeposit();
+
+    utils.expectEvent(
+      await fund_client.fundManagerWithdrawToken(eth_token.address, ETH_DEPOSIT),
+      "TokenFundsWithdrawn",
+      fund_manager_address, eth_token.address, ETH_DEPOSIT
+    );
+    expect(await investment_fund.tokenFunds(eth_token.address))
+      .to.equal(0);
+    await expect(investment_fund.fundManagerWithdrawToken(eth_token.address, 1))
+      .to.be.revertedWithCustomError(investment_fund, "AmountError")
+      .withArgs(1);
+    await expect(fund_client.fundManagerWithdrawToken(eth_token.address, 1))
+      .to.be.rejectedWith(AmountError, "amount 1 is higher than the token funds 0");
+
+    utils.expectEvent(
+      await fund_client.fundManagerDepositToken(stable_token.address, STABLE_DEPOSIT),
+      "TokenFundsDeposited",
+      fund_manager_address, stable_token.address, STABLE_DEPOSIT
+    );
+    expect(await investment_fund.tokenFunds(stable_token.address))
+      .to.equal(STABLE_DEPOSIT.mul(2));
+    // Funds are valued only when investors withdraw is started
+    expect(await investment_fund.totalDepositedFunds())
+      .to.equal(STABLE_DEPOSIT_VALUE.add(ETH_DEPOSIT_VALUE));
+
+    await expect(investment_fund.fundManagerDepositToken(NATIVE_TOKEN, 1))
+      .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+    await expect(investment_fund.fundManagerDeposit(1))
+      .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+  });
+
+  it("should pay out pro-rata in the held tokens after investment", async () => {
+    const fee_recipient: string = await fund_manager.getAddress();
+    const total_value_before: BigNumber = STABLE_DEPOSIT_VALUE.add(ETH_DEPOSIT_VALUE);
+    // ETH price increases, so the held tokens are valued 3600
+    const total_value: BigNumber = parseUnits("3600", 18);
+    await fund_client.setManagementFee(constants.NEW_MANAGEMENT_FEE);
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+    await fund_client.stopInvestorsDeposit();
+    await eth_feed.setAnswer(parseUnits("2600", PRICE_DECIMALS));
+
+    // Fees are collected pro-rata in the held tokens
+    const management_fee: BigNumber = total_value_before.mul(constants.NEW_MANAGEMENT_FEE).div(constants.BPS_DENOMINATOR);
+    const stable_fee: BigNumber = await proRataAmount(stable_token, management_fee, total_value);
+    const eth_fee: BigNumber = await proRataAmount(eth_token, management_fee, total_value);
+    await expect(investment_fund.startInvestorsWithdraw())
+      .to.changeTokenBalances(stable_token, [fee_recipient, investment_fund.address], [stable_fee, stable_fee.mul(-1)])
+      .and.to.changeTokenBalances(eth_token, [fee_recipient, investment_fund.address], [eth_fee, eth_fee.mul(-1)]);
+    const total_value_after: BigNumber = total_value.sub(management_fee);
+    expect(await investment_fund.totalAmountAfterInvestment())
+      .to.equal(total_value_after);
+
+    // First investor receives its shares fraction of each token
+    const payout_value: BigNumber = STABLE_DEPOSIT_VALUE.mul(total_value_after).div(total_value_before);
+    const stable_amount: BigNumber = await proRataAmount(stable_token, payout_value, total_value_after);
+    const eth_amount: BigNumber = await proRataAmount(eth_token, payout_value, total_value_after);
+    await expect(clientTx(fund_client.connect(investors[0]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[0]], [stable_amount])
+      .and.to.changeTokenBalances(eth_token, [investors[0]], [eth_amount]);
+
+    // Last investor receives all the remaining tokens
+    const stable_remaining: BigNumber = await investment_fund.tokenFunds(stable_token.address);
+    const eth_remaining: BigNumber = await investment_fund.tokenFunds(eth_token.address);
+    await expect(clientTx(fund_client.connect(investors[1]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[1]], [stable_remaining])
+      .and.to.changeTokenBalances(eth_token, [investors[1]], [eth_remaining]);
+    expect(await stable_token.balanceOf(investment_fund.address))
+      .to.equal(0);
+    expect(await eth_token.balanceOf(investment_fund.address))
+      .to.equal(0);
+  });
+
+  it("should pay out in the payout token after investment", async () => {
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+    await fund_client.stopInvestorsDeposit();
+
+    // The fund manager swaps ETH for the stablecoin and invests it, with a 20% profit
+    await fund_client.fundManagerWithdrawToken(eth_token.address, ETH_DEPOSIT);
+    await fund_client.fundManagerDepositToken(stable_token.address, parseUnits("2600", STABLE_DECIMALS));
+    utils.expectEvent(
+      await fund_client.setPayoutToken(stable_token.address),
+      "PayoutTokenChanged",
+      constants.NULL_ADDRESS, stable_token.address
+    );
+    await fund_client.startInvestorsWithdraw();
+
+    await expect(clientTx(fund_client.connect(investors[0]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[0]], [parseUnits("1200", STABLE_DECIMALS)]);
+    await expect(clientTx(fund_client.connect(investors[1]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[1]], [parseUnits("2400", STABLE_DECIMALS)]);
+    expect(await stable_token.balanceOf(investment_fund.address))
+      .to.equal(0);
+  });
+
+  it("should pay out pro-rata if there is not enough payout token", async () => {
+    await fund_client.setPayoutToken(stable_token.address);
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+    await fund_client.stopInvestorsDeposit();
+    await fund_client.startInvestorsWithdraw();
+
+    // The first investor is paid out in the stablecoin, then the held ones are not enough for the second investor
+    await expect(clientTx(fund_client.connect(investors[0]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[0]], [STABLE_DEPOSIT]);
+    await expect(clientTx(fund_client.connect(investors[1]).withdrawAll()))
+      .to.changeTokenBalances(eth_token, [investors[1]], [ETH_DEPOSIT]);
+  });
+
+  it("should send the tokens left by the payout token to the remaining funds address", async () => {
+    const remaining_funds_addr: string = await fund_manager.getAddress();
+    await fund_client.setPayoutToken(stable_token.address);
+    await fund_client.startInvestorsDeposit();
+    await fund_client.connect(investors[0]).depositToken(stable_token.address, STABLE_DEPOSIT);
+    await fund_client.stopInvestorsDeposit();
+    await fund_client.startInvestorsWithdraw();
+
+    // The stablecoin price doubles after the funds were valued, so half of them are enough for the payout
+    await stable_feed.setAnswer(STABLE_PRICE.mul(2));
+    await expect(clientTx(fund_client.connect(investors[0]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[0]], [STABLE_DEPOSIT.div(2)]);
+
+    await expect(clientTx(fund_client.stopInvestorsWithdraw()))
+      .to.changeTokenBalances(stable_token, [remaining_funds_addr, investment_fund.address], [STABLE_DEPOSIT.div(2), STABLE_DEPOSIT.div(-2)]);
+  });
+
+  it("should revert if setting an invalid payout token", async () => {
+    await expect(investment_fund.setPayoutToken(NATIVE_TOKEN))
+      .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+    await expect(fund_client.setPayoutToken(NATIVE_TOKEN))
+      .to.be.rejectedWith(FundTokenError, "token is not accepted by the fund");
+    await expect(investment_fund.connect(investors[0]).setPayoutToken(stable_token.address))
+      .to.be.revertedWithCustomError(investment_fund, "FundManagerCallerError");
+
+    // Only reset after investors withdraw is started
+    await fund_client.setPayoutToken(stable_token.address);
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+    await fund_client.stopInvestorsDeposit();
+    await fund_client.startInvestorsWithdraw();
+    await expect(investment_fund.setPayoutToken(eth_token.address))
+      .to.be.revertedWithCustomError(investment_fund, "InvestmentStateError");
+    utils.expectEvent(
+      await fund_client.setPayoutToken(constants.NULL_ADDRESS),
+      "PayoutTokenChanged",
+      stable_token.address, constants.NULL_ADDRESS
+    );
+  });
+
+  it("should revert if prices are not valid", async () => {
+    await fund_client.startInvestorsDeposit();
+    await eth_token.connect(investors[1]).approve(investment_fund.address, ETH_DEPOSIT);
+
+    await eth_feed.setAnswer(0);
+    await expect(investment_fund.connect(investors[1]).investorDepositToken(eth_token.address, ETH_DEPOSIT))
+      .to.be.revertedWithCustomError(oracle, "PriceError")
+      .withArgs(eth_token.address, 0);
+
+    const updated_at: number = (await time.latest()) - MAX_PRICE_AGE - 1;
+    await eth_feed.setAnswerWithTimestamp(ETH_PRICE, updated_at);
+    await expect(investment_fund.connect(investors[1]).investorDepositToken(eth_token.address, ETH_DEPOSIT))
+      .to.be.revertedWithCustomError(oracle, "StalePriceError")
+      .withArgs(eth_token.address, updated_at);
+
+    await oracle.setPriceFeed(eth_token.address, constants.NULL_ADDRESS);
+    await expect(investment_fund.connect(investors[1]).investorDepositToken(eth_token.address, ETH_DEPOSIT))
+      .to.be.revertedWithCustomError(oracle, "PriceFeedError")
+      .withArgs(eth_token.address);
+    await expect(oracle.connect(investors[0]).setPriceFeed(eth_token.address, eth_feed.address))
+      .to.be.revertedWithCustomError(oracle, "OwnableUnauthorizedAccount");
+  });
+
+  it("should pay out pro-rata in case of emergency exit, without using the oracle", async () => {
+    await fund_client.setPayoutToken(stable_token.address);
+    await fund_client.setEmergencyTimeout(constants.NEW_EMERGENCY_TIMEOUT);
+    await fund_client.startInvestorsDeposit();
+    await depositTokens();
+    await fund_client.stopInvestorsDeposit();
+
+    // The oracle is not available anymore
+    await eth_feed.setAnswer(0);
+    await time.increase(constants.NEW_EMERGENCY_TIMEOUT);
+    await fund_client.connect(investors[0]).emergencyExit();
+
+    const total_value: BigNumber = STABLE_DEPOSIT_VALUE.add(ETH_DEPOSIT_VALUE);
+    const stable_amount: BigNumber = await proRataAmount(stable_token, STABLE_DEPOSIT_VALUE, total_value);
+    const eth_amount: BigNumber = await proRataAmount(eth_token, STABLE_DEPOSIT_VALUE, total_value);
+    await expect(clientTx(fund_client.connect(investors[0]).withdrawAll()))
+      .to.changeTokenBalances(stable_token, [investors[0]], [stable_amount])
+      .and.to.changeTokenBalances(eth_token, [investors[0]], [eth_amount]);
+    await fund_client.connect(investors[1]).withdrawAll();
+    expect(await investment_fund.tokenFunds(stable_token.address))
+      .to.equal(0);
+    expect(await investment_fund.tokenFunds(eth_token.address))
+      .to.equal(0);
+  });
+
+  it("should not sweep excess funds", async () => {
+    await expect(investment_fund.sweepExcess())
+      .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+    await expect(fund_client.sweepExcess())
+      .to.be.rejectedWith(FundTokenError, "nor for multi-token funds");
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { InvestmentFundClient, NATIVE_TOKEN, NativeTransferError } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for funds denominated in the native currency
+//
+describe("InvestmentFund.Native", () => {
+  let fund_manager: Signer;
+  let investors: Signer[];
+  let investment_fund: Contract;
+  let fund_client: InvestmentFundClient;
+
+  beforeEach(async () => {
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    fund_manager = all_signers[0];
+    investors = all_signers.slice(1, constants.TOTAL_TEST_INVESTORS + 1);
+
+    const contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    investment_fund = await contract_factory.deploy(NATIVE_TOKEN, constants.NULL_ADDRESS);
+    await investment_fund.deployed();
+    fund_client = InvestmentFundClient.connect(investment_fund.address, fund_manager);
+  });
+
+  async function initInvestorsDeposit() : Promise<void> {
+    await fund_client.startInvestorsDeposit();
+    for (let i = 0; i < investors.length; i++) {
+      await fund_client.connect(investors[i]).deposit(constants.DUMMY_AMOUNT * (i + 1));
+    }
+  }
+
+  it("should construct a native fund", async () => {
+    expect(await investment_fund.fundToken())
+      .to.equal(NATIVE_TOKEN);
+    expect(await fund_client.isNative())
+      .to.equal(true);
+    expect(await investment_fund.decimals())
+      .to.equal(18);
+
+    // ERC-20 funds are not native
+    const test_ctx: utils.TestContext = await utils.initConstructedTestContext();
+    expect(await test_ctx.fund_client.isNative())
+      .to.equal(false);
+  });
+
+  it("should deposit and withdraw native currency before the investment", async () => {
+    const investor: Signer = investors[0];
+    await fund_client.startInvestorsDeposit();
+
+    await expect((await fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT)).tx)
+      .to.changeEtherBalances([investor, investment_fund], [-constants.DUMMY_AMOUNT, constants.DUMMY_AMOUNT]);
+    expect(await investment_fund.depositOfInvestor(await investor.getAddress()))
+      .to.equal(constants.DUMMY_AMOUNT);
+    expect(await investment_fund.totalDepositedFunds())
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    await expect((await fund_client.connect(investor).withdraw(constants.DUMMY_AMOUNT / 2)).tx)
+      .to.changeEtherBalances([investor, investment_fund], [constants.DUMMY_AMOUNT / 2, -constants.DUMMY_AMOUNT / 2]);
+    await expect((await fund_client.connect(investor).withdrawAll()).tx)
+      .to.changeEtherBalances([investor, investment_fund], [constants.DUMMY_AMOUNT / 2, -constants.DUMMY_AMOUNT / 2]);
+    expect(await investment_fund.numberOfInvestors())
+      .to.equal(0);
+  });
+
+  it("should revert if the sent value doesn't match the amount", async () => {
+    await fund_client.startInvestorsDeposit();
+
+    await expect(investment_fund.connect(investors[0]).investorDeposit(constants.DUMMY_AMOUNT, { value: constants.DUMMY_AMOUNT - 1 }))
+      .to.be.revertedWithCustomError(investment_fund, "AmountError")
+      .withArgs(constants.DUMMY_AMOUNT - 1);
+    await expect(investment_fund.connect(investors[0]).investorDeposit(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(investment_fund, "AmountError")
+      .withArgs(0);
+
+    // Native currency cannot be sent to ERC-20 funds
+    const test_ctx: utils.TestContext = await utils.initBeforeInvestmentTestContext();
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[1]).investorDeposit(constants.DUMMY_AMOUNT, { value: 1 }))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError")
+      .withArgs(1);
+  });
+
+  it("should run a full investment round with native currency", async () => {
+    const fee_recipient: Signer = investors[investors.length - 1];
+    const remaining_funds: Signer = investors[investors.length - 2];
+    await fund_client.setFeeRecipient(await fee_recipient.getAddress());
+    await fund_client.setRemainingFundsAddress(await remaining_funds.getAddress());
+    await fund_client.setManagementFee(constants.NEW_MANAGEMENT_FEE);
+
+    await initInvestorsDeposit();
+    await fund_client.stopInvestorsDeposit();
+
+    // Fund manager invests and deposits back with a profit
+    const total_deposits: BigNumber = await investment_fund.totalDepositedFunds();
+    await expect((await fund_client.fundManagerWithdrawAll()).tx)
+      .to.changeEtherBalances([fund_manager, investment_fund], [total_deposits, total_deposits.mul(-1)]);
+    const total_after: BigNumber = total_deposits.add(constants.DUMMY_AMOUNT);
+    await expect((await fund_client.fundManagerDeposit(total_after)).tx)
+      .to.changeEtherBalances([fund_manager, investment_fund], [total_after.mul(-1), total_after]);
+
+    // Fees are sent in native currency
+    const fee_recipient_balance: BigNumber = await fee_recipient.getBalance();
+    await fund_client.startInvestorsWithdraw();
+    const round = await investment_fund.roundInfo(1);
+    expect(await fee_recipient.getBalance())
+      .to.equal(fee_recipient_balance.add(round.managementFee).add(round.performanceFee));
+
+    // Investors receive the deposit scaled by the investment multiplier
+    const multiplier: BigNumber = await investment_fund.investmentMultiplier();
+    const investor: Signer = investors[0];
+    const payout: BigNumber = multiplier.mul(constants.DUMMY_AMOUNT).div(constants.MULTIPLIER_DECIMALS);
+    await expect((await fund_client.connect(investor).withdrawAll()).tx)
+      .to.changeEtherBalance(investor, payout);
+    await expect((await fund_client.fundManagerReturnFundsToInvestor(await investors[1].getAddress())).tx)
+      .to.changeEtherBalance(investors[1], payout.mul(2));
+
+    // Unclaimed funds are sent to the remaining funds address
+    const remaining_amount: BigNumber = await investment_fund.totalDepositedFunds();
+    await expect((await fund_client.stopInvestorsWithdraw()).tx)
+      .to.changeEtherBalances([remaining_funds, investment_fund], [remaining_amount, remaining_amount.mul(-1)]);
+  });
+
+  it("should account native currency sent directly to the fund as excess funds", async () => {
+    await initInvestorsDeposit();
+    await fund_manager.sendTransaction({ to: investment_fund.address, value: constants.DUMMY_AMOUNT });
+
+    expect(await investment_fund.excessFunds())
+      .to.equal(constants.DUMMY_AMOUNT);
+    await expect((await fund_client.sweepExcess()).tx)
+      .to.changeEtherBalance(investment_fund, -constants.DUMMY_AMOUNT);
+    expect(await investment_fund.excessFunds())
+      .to.equal(0);
+
+    // Native currency cannot be sent to ERC-20 funds
+    const test_ctx: utils.TestContext = await utils.initConstructedTestContext();
+    await expect(fund_manager.sendTransaction({ to: test_ctx.investment_fund.address, value: constants.DUMMY_AMOUNT }))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundTokenError");
+  });
+
+  it("should revert if native currency cannot be sent", async () => {
+    // A token contract cannot receive native currency
+    const test_ctx: utils.TestContext = await utils.initConstructedTestContext();
+    await fund_client.setRemainingFundsAddress(test_ctx.mock_token.address);
+    await fund_manager.sendTransaction({ to: investment_fund.address, value: constants.DUMMY_AMOUNT });
+
+    await expect(investment_fund.sweepExcess())
+      .to.be.revertedWithCustomError(investment_fund, "NativeTransferError")
+      .withArgs(test_ctx.mock_token.address, constants.DUMMY_AMOUNT);
+    await expect(fund_client.sweepExcess())
+      .to.be.rejectedWith(NativeTransferError, `native currency transfer of ${constants.DUMMY_AMOUNT} to ${test_ctx.mock_token.address} failed`);
+  });
+
+  it("should not allow reentering the fund when sending native currency", async () => {
+    const contract_factory: ContractFactory = await hre.ethers.getContractFactory("MockNativeInvestor");
+    const mock_investor: Contract = await contract_factory.deploy(investment_fund.address);
+    await mock_investor.deployed();
+
+    await fund_client.startInvestorsDeposit();
+    await mock_investor.deposit({ value: constants.DUMMY_AMOUNT });
+    expect(await investment_fund.depositOfInvestor(mock_investor.address))
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    await mock_investor.setReenter(true);
+    await expect(mock_investor.withdrawAll())
+      .to.be.revertedWithCustomError(investment_fund, "NativeTransferError")
+      .withArgs(mock_investor.address, constants.DUMMY_AMOUNT);
+
+    await mock_investor.setReenter(false);
+    await expect(mock_investor.withdrawAll())
+      .to.changeEtherBalances([mock_investor, investment_fund], [constants.DUMMY_AMOUNT, -constants.DUMMY_AMOUNT]);
+  });
+
+  it("should not allow the ERC-4626 adapter for native funds", async () => {
+    const contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundERC4626");
+    await expect(contract_factory.deploy(investment_fund.address))
+      .to.be.revertedWithCustomError(contract_factory, "FundTokenError");
+  });
+});
@@ -0,0 +1,234 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { FundTokenError, InvestmentFundClient, NATIVE_TOKEN } from "../client";
+import {
+  ERC20FixedSupply,
+  MockFeeOnTransferToken,
+  MockFeeOnTransferToken__factory,
+  MockRebasingToken,
+  MockRebasingToken__factory
+} from "../typechain-types";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for fee-on-transfer and rebasing fund tokens
+//
+describe("InvestmentFund.NonStandardTokens", () => {
+  const TRANSFER_FEE_BPS: number = 100;
+  const REBASE_AMOUNT: number = 3000;
+
+  let fund_manager: Signer;
+  let investors: Signer[];
+  let token: ERC20FixedSupply;
+  let investment_fund: Contract;
+  let fund_client: InvestmentFundClient;
+
+  beforeEach(async () => {
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    fund_manager = all_signers[0];
+    investors = all_signers.slice(1, constants.TOTAL_TEST_INVESTORS + 1);
+  });
+
+  async function initFund(
+    tokenInstance: ERC20FixedSupply
+  ) : Promise<void> {
+    token = tokenInstance;
+    await token.deployed();
+
+    const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    investment_fund = await fund_factory.deploy(token.address, constants.NULL_ADDRESS);
+    await investment_fund.deployed();
+    fund_client = InvestmentFundClient.connect(investment_fund.address, fund_manager);
+
+    await token.approve(investment_fund.address, constants.TOKEN_SUPPLY);
+    for (const investor of investors) {
+      await token.transfer(await investor.getAddress(), constants.DUMMY_AMOUNT * 2);
+      await token.connect(investor).approve(investment_fund.address, constants.TOKEN_SUPPLY);
+    }
+  }
+
+  async function initInvestorsDeposit() : Promise<void> {
+    await fund_client.startInvestorsDeposit();
+    for (const investor of investors) {
+      await fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+    }
+  }
+
+  // Expect the accounted funds to be covered by the token balance
+  async function expectFundsCovered() : Promise<void> {
+    expect(await token.balanceOf(investment_fund.address))
+      .to.be.gte(await investment_fund.totalDepositedFunds());
+  }
+
+  describe("Fee-on-transfer tokens", () => {
+    let fee_token: MockFeeOnTransferToken;
+
+    beforeEach(async () => {
+      fee_token = await new MockFeeOnTransferToken__factory(fund_manager).deploy(constants.TOKEN_SUPPLY, TRANSFER_FEE_BPS);
+      await initFund(fee_token);
+    });
+
+    it("should credit deposits by the received amount", async () => {
+      const investor: Signer = investors[0];
+      const investor_address: string = await investor.getAddress();
+      const received_amount: number = constants.DUMMY_AMOUNT - (constants.DUMMY_AMOUNT * TRANSFER_FEE_BPS / constants.BPS_DENOMINATOR);
+      await fund_client.startInvestorsDeposit();
+
+      utils.expectEvent(
+        await fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT),
+        "InvestorFundsDeposited",
+        investor_address, received_amount
+      );
+      expect(await investment_fund.depositOfInvestor(investor_address))
+        .to.equal(received_amount);
+      expect(await investment_fund.totalDepositedFunds())
+        .to.equal(received_amount);
+      expect(await token.balanceOf(investment_fund.address))
+        .to.equal(received_amount);
+      expect(await investment_fund.excessFunds())
+        .to.equal(0);
+    });
+
+    it("should check the investment parameters on the received amount", async () => {
+      const investor: Signer = investors[0];
+      // 1% of the sent amount is burned, so the received amount is 990
+      const sent_amount: number = 1000;
+      const received_amount: number = 990;
+      await fund_client.setDepositMultipleOf(100);
+      await fund_client.setMinInvestorDeposit(sent_amount);
+      await fund_client.startInvestorsDeposit();
+
+      // Below the minimum deposit and not a multiple of the deposit multiplicity
+      await expect(investment_fund.connect(investor).investorDeposit(sent_amount))
+        .to.be.revertedWithCustomError(investment_fund, "AmountError")
+        .withArgs(received_amount);
+      // Nothing received
+      await fee_token.setFeeBps(constants.BPS_DENOMINATOR);
+      await expect(investment_fund.connect(investor).investorDeposit(sent_amount))
+        .to.be.revertedWithCustomError(investment_fund, "AmountError")
+        .withArgs(0);
+      expect(await investment_fund.numberOfInvestors())
+        .to.equal(0);
+    });
+
+    it("should pay all investors in a full investment round", async () => {
+      await initInvestorsDeposit();
+      await fund_client.stopInvestorsDeposit();
+      await expectFundsCovered();
+
+      // The fund manager deposits back the withdrawn funds, paying the fee twice
+      await fund_client.fundManagerWithdrawAll();
+      const manager_deposit: BigNumber = (await investment_fund.totalAmountBeforeInvestment()).add(constants.DUMMY_AMOUNT);
+      const result = await fund_client.fundManagerDeposit(manager_deposit);
+      const received_amount: BigNumber = manager_deposit.sub(manager_deposit.mul(TRANSFER_FEE_BPS).div(constants.BPS_DENOMINATOR));
+      utils.expectEvent(
+        result,
+        "FundManagerFundsDeposited",
+        await fund_manager.getAddress(), received_amount
+      );
+      expect(await investment_fund.totalDepositedFunds())
+        .to.equal(received_amount);
+
+      await fund_client.startInvestorsWithdraw();
+      for (const investor of investors) {
+        await fund_client.connect(investor).withdrawAll();
+        await expectFundsCovered();
+      }
+      expect(await investment_fund.numberOfInvestors())
+        .to.equal(0);
+
+      await fund_client.stopInvestorsWithdraw();
+      expect(await investment_fund.currState())
+        .to.equal(constants.InvestmentStates.INITIAL);
+    });
+
+    it("should not allow the ERC-4626 adapter to deposit", async () => {
+      const vault_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundERC4626");
+      const vault: Contract = await vault_factory.deploy(investment_fund.address);
+      await vault.deployed();
+
+      const investor: Signer = investors[0];
+      await token.connect(investor).approve(vault.address, constants.TOKEN_SUPPLY);
+      await fund_client.startInvestorsDeposit();
+
+      await expect(vault.connect(investor).deposit(constants.DUMMY_AMOUNT, await investor.getAddress()))
+        .to.be.revertedWithCustomError(token, "ERC20InsufficientBalance");
+    });
+  });
+
+  describe("Rebasing tokens", () => {
+    let rebasing_token: MockRebasingToken;
+
+    beforeEach(async () => {
+      rebasing_token = await new MockRebasingToken__factory(fund_manager).deploy(constants.TOKEN_SUPPLY);
+      await initFund(rebasing_token);
+    });
+
+    it("should set a rebasing fund token", async () => {
+      expect(await investment_fund.rebasingToken())
+        .to.equal(false);
+
+      utils.expectEvent(
+        await fund_client.setFundToken(token.address, true),
+        "FundTokenChanged",
+        token.address, token.address, true
+      );
+      expect(await fund_client.rebasingToken())
+        .to.equal(true);
+
+      // The native currency cannot be rebasing
+      await expect(investment_fund.setFundToken(NATIVE_TOKEN, true))
+        .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+      await expect(fund_client.setFundToken(NATIVE_TOKEN, true))
+        .to.be.rejectedWith(FundTokenError, "the native currency cannot be rebasing");
+    });
+
+    it("should account rebases to investors when investors withdraw is started", async () => {
+      await fund_client.setFundToken(token.address, true);
+      await initInvestorsDeposit();
+      await fund_client.stopInvestorsDeposit();
+
+      const total_before: BigNumber = await investment_fund.totalAmountBeforeInvestment();
+      await rebasing_token.rebaseUp(investment_fund.address, REBASE_AMOUNT);
+      expect(await investment_fund.excessFunds())
+        .to.equal(REBASE_AMOUNT);
+
+      // Rebases belong to investors, so they cannot be swept
+      await expect(investment_fund.sweepExcess())
+        .to.be.revertedWithCustomError(investment_fund, "FundTokenError");
+      await expect(fund_client.sweepExcess())
+        .to.be.rejectedWith(FundTokenError, "excess funds cannot be swept for rebasing tokens, since rebases belong to investors");
+
+      await fund_client.startInvestorsWithdraw();
+      expect(await investment_fund.totalAmountAfterInvestment())
+        .to.equal(total_before.add(REBASE_AMOUNT));
+      expect(await investment_fund.investmentMultiplier())
+        .to.equal(total_before.add(REBASE_AMOUNT).mul(constants.MULTIPLIER_DECIMALS).div(total_before));
+      expect(await investment_fund.excessFunds())
+        .to.equal(0);
+    });
+
+    it("should close the round after a negative rebase", async () => {
+      await fund_client.setFundToken(token.address, true);
+      await initInvestorsDeposit();
+      await fund_client.stopInvestorsDeposit();
+      await fund_client.startInvestorsWithdraw();
+
+      await rebasing_token.rebaseDown(investment_fund.address, REBASE_AMOUNT);
+      await fund_client.connect(investors[0]).withdrawAll();
+
+      // Remaining funds are the ones actually held by the contract
+      const remaining_funds: BigNumber = await token.balanceOf(investment_fund.address);
+      utils.expectEvent(
+        await fund_client.stopInvestorsWithdraw(),
+        "InvestorsWithdrawStopped",
+        1, remaining_funds
+      );
+      expect(await token.balanceOf(investment_fund.address))
+        .to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+// Project
+import { AddressError, FundNotPausedError, FundPausedError, GuardianCallerError } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for pause and guardian role
+//
+describe("InvestmentFund.Pause", () => {
+  let test_ctx: utils.TestContext;
+  let investor: Signer;
+  let guardian: Signer;
+  let guardian_address: string;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+    investor = test_ctx.accounts.signers[1];
+    guardian = test_ctx.accounts.signers[6];
+    guardian_address = await guardian.getAddress();
+
+    // Use a guardian different from the fund manager
+    await test_ctx.fund_client.setGuardian(guardian_address);
+  });
+
+  async function pause() : Promise<void> {
+    await test_ctx.fund_client.connect(guardian).pause();
+  }
+
+  // Go to DURING_INVESTMENT state with all test investors
+  async function initDuringInvestment() : Promise<void> {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+  }
+
+  // Go to AFTER_INVESTMENT state with all test investors
+  async function initAfterInvestment() : Promise<void> {
+    await initDuringInvestment();
+    await test_ctx.fund_client.startInvestorsWithdraw();
+  }
+
+  async function expectPaused(
+    fnPromise: Promise<unknown>
+  ) : Promise<void> {
+    await expect(fnPromise)
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundPausedError");
+  }
+
+  it("should construct with the fund manager as guardian and not paused", async () => {
+    const fund_manager_address: string = await test_ctx.accounts.fund_manager.getAddress();
+    const new_test_ctx: utils.TestContext = await utils.initConstructedTestContext();
+
+    expect(await new_test_ctx.investment_fund.guardian())
+      .to.equal(fund_manager_address);
+    expect(await new_test_ctx.investment_fund.paused())
+      .to.equal(false);
+  });
+
+  it("should set the guardian", async () => {
+    const new_guardian_address: string = await test_ctx.accounts.signers[7].getAddress();
+
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(guardian).setGuardian(new_guardian_address),
+      "GuardianChanged",
+      guardian_address, new_guardian_address
+    );
+    expect(await test_ctx.investment_fund.guardian())
+      .to.equal(new_guardian_address);
+  });
+
+  it("should revert if the guardian is not valid or not the caller", async () => {
+    await expect(test_ctx.investment_fund.connect(guardian).setGuardian(constants.NULL_ADDRESS))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AddressError")
+      .withArgs(constants.NULL_ADDRESS);
+    await expect(test_ctx.fund_client.connect(guardian).setGuardian(constants.NULL_ADDRESS))
+      .to.be.rejectedWith(AddressError);
+
+    // The fund manager is not the guardian anymore
+    await expect(test_ctx.investment_fund.setGuardian(guardian_address))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "GuardianCallerError");
+    await expect(test_ctx.investment_fund.pause())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "GuardianCallerError");
+    await expect(test_ctx.fund_client.pause())
+      .to.be.rejectedWith(GuardianCallerError, `is not the guardian ${guardian_address}`);
+
+    await pause();
+    await expect(test_ctx.investment_fund.connect(investor).unpause())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "GuardianCallerError");
+  });
+
+  it("should pause and unpause in any state", async () => {
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(guardian).pause(),
+      "FundPaused",
+      guardian_address
+    );
+    expect(await test_ctx.investment_fund.paused())
+      .to.equal(true);
+
+    await expect(test_ctx.investment_fund.connect(guardian).pause())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundPausedError");
+    await expect(test_ctx.fund_client.connect(guardian).pause())
+      .to.be.rejectedWith(FundPausedError, "fund is already paused");
+
+    // State transitions that don't move funds are still allowed
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(guardian).unpause(),
+      "FundUnpaused",
+      guardian_address
+    );
+    expect(await test_ctx.investment_fund.paused())
+      .to.equal(false);
+
+    await expect(test_ctx.investment_fund.connect(guardian).unpause())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundNotPausedError");
+    await expect(test_ctx.fund_client.connect(guardian).unpause())
+      .to.be.rejectedWith(FundNotPausedError);
+  });
+
+  it("should pause investors deposit before investment, but not withdrawals", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT * 2);
+    await pause();
+
+    await expectPaused(test_ctx.investment_fund.connect(investor).investorDeposit(constants.DUMMY_AMOUNT));
+    await expectPaused(test_ctx.investment_fund.connect(investor).investorDepositWithProof(constants.DUMMY_AMOUNT, []));
+    await expect(test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(FundPausedError, "investorDeposit cannot be called until the guardian unpauses it");
+
+    // Investors can always get their funds back before the investment
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(investor).withdraw(constants.DUMMY_AMOUNT),
+      "InvestorFundsWithdrawn",
+      await investor.getAddress(), constants.DUMMY_AMOUNT, constants.DUMMY_AMOUNT
+    );
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(investor).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      await investor.getAddress(), constants.DUMMY_AMOUNT
+    );
+  });
+
+  it("should cancel investors deposit while paused", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await pause();
+
+    await test_ctx.fund_client.cancelInvestorsDeposit();
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(0);
+    expect(await test_ctx.mock_token.balanceOf(test_ctx.investment_fund.address))
+      .to.equal(0);
+  });
+
+  it("should pause shares transfers", async () => {
+    const other_investor: Signer = test_ctx.accounts.signers[2];
+    await initDuringInvestment();
+    await pause();
+
+    await expectPaused(test_ctx.investment_fund.connect(investor).transfer(await other_investor.getAddress(), constants.DUMMY_AMOUNT));
+    await expect(test_ctx.fund_client.connect(investor).transferShares(await other_investor.getAddress(), constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(FundPausedError, "transfer cannot be called until the guardian unpauses it");
+
+    await test_ctx.fund_client.connect(guardian).unpause();
+    await test_ctx.fund_client.connect(investor).transferShares(await other_investor.getAddress(), constants.DUMMY_AMOUNT);
+  });
+
+  it("should pause fund manager funds movements during investment", async () => {
+    await initDuringInvestment();
+    await test_ctx.mock_token.transfer(test_ctx.investment_fund.address, constants.DUMMY_AMOUNT);
+    await pause();
+
+    await expectPaused(test_ctx.investment_fund.fundManagerDeposit(constants.DUMMY_AMOUNT));
+    await expectPaused(test_ctx.investment_fund.fundManagerWithdraw(constants.DUMMY_AMOUNT));
+    await expectPaused(test_ctx.investment_fund.fundManagerWithdrawAll());
+    await expectPaused(test_ctx.investment_fund.startInvestorsWithdraw());
+    await expectPaused(test_ctx.investment_fund.sweepExcess());
+    await expect(test_ctx.fund_client.fundManagerWithdrawAll())
+      .to.be.rejectedWith(FundPausedError);
+
+    await test_ctx.fund_client.connect(guardian).unpause();
+    await test_ctx.fund_client.fundManagerWithdrawAll();
+    await test_ctx.fund_client.sweepExcess();
+  });
+
+  it("should pause withdrawals after investment", async () => {
+    await initAfterInvestment();
+    const investor_address: string = await investor.getAddress();
+    await pause();
+
+    await expectPaused(test_ctx.investment_fund.connect(investor).investorWithdrawAll());
+    await expectPaused(test_ctx.investment_fund.connect(investor).investorWithdraw(constants.DUMMY_AMOUNT));
+    await expectPaused(test_ctx.investment_fund.fundManagerReturnFundsToInvestor(investor_address));
+    await expectPaused(test_ctx.investment_fund.fundManagerReturnFundsToAllInvestors());
+    await expectPaused(test_ctx.investment_fund.fundManagerReturnFundsToInvestorsBatch(0, constants.TOTAL_TEST_INVESTORS));
+    await expectPaused(test_ctx.investment_fund.stopInvestorsWithdraw());
+    await expect(test_ctx.fund_client.connect(investor).withdrawAll())
+      .to.be.rejectedWith(FundPausedError, "investors can only withdraw their funds before the investment");
+    await expect(test_ctx.fund_client.connect(investor).withdraw(constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(FundPausedError, "investors can only withdraw their funds before the investment");
+
+    await test_ctx.fund_client.connect(guardian).unpause();
+    await test_ctx.fund_client.connect(investor).withdrawAll();
+    await test_ctx.fund_client.fundManagerReturnFundsToAllInvestors();
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+  });
+});
@@ -0,0 +1,187 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { InvestmentFundClient } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Fuzz tests for the payouts of investors after investment
+//
+describe("InvestmentFund.Payouts", () => {
+  const RANDOM_SEED: number = 0x5eed;
+  const SCENARIOS_NUM: number = 8;
+  // Token supply, large enough for all scenarios
+  const TOKEN_SUPPLY: bigint = 10n ** 40n;
+  // Maximum deposit of the scenarios, up to large pools of 18-decimal tokens
+  const MAX_DEPOSITS: bigint[] = [10n ** 4n, 10n ** 24n];
+
+  let fund_manager: Signer;
+  let investors: Signer[];
+  let token: Contract;
+  let investment_fund: Contract;
+  let fund_client: InvestmentFundClient;
+
+  beforeEach(async () => {
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    fund_manager = all_signers[0];
+    investors = all_signers.slice(1, constants.TOTAL_TEST_INVESTORS + 1);
+  });
+
+  async function initFund() : Promise<void> {
+    const token_factory: ContractFactory = await hre.ethers.getContractFactory("MockERC20Token");
+    token = await token_factory.deploy(TOKEN_SUPPLY);
+    await token.deployed();
+    const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    investment_fund = await fund_factory.deploy(token.address, constants.NULL_ADDRESS);
+    await investment_fund.deployed();
+    fund_client = InvestmentFundClient.connect(investment_fund.address, fund_manager);
+  }
+
+  // Run the investment round up to investors withdraw, with the specified deposits and final amount
+  async function runRound(
+    deposits: bigint[],
+    finalAmount: bigint
+  ) : Promise<void> {
+    await fund_client.startInvestorsDeposit();
+    for (let i = 0; i < deposits.length; i++) {
+      await token.transfer(await investors[i].getAddress(), deposits[i]);
+      await token.connect(investors[i]).approve(investment_fund.address, deposits[i]);
+      await fund_client.connect(investors[i]).deposit(deposits[i]);
+    }
+    await fund_client.stopInvestorsDeposit();
+
+    await token.approve(investment_fund.address, finalAmount);
+    await fund_client.fundManagerWithdrawAll();
+    if (finalAmount !== 0n) {
+      await fund_client.fundManagerDeposit(finalAmount);
+    }
+    await fund_client.startInvestorsWithdraw();
+  }
+
+  async function tokenBalances(
+    accounts: Signer[]
+  ) : Promise<bigint[]> {
+    return Promise.all(accounts.map(async (account) => (await token.balanceOf(await account.getAddress())).toBigInt()));
+  }
+
+  it("should pay out exactly the returned amount in random scenarios", async () => {
+    const random: () => number = utils.randomGenerator(RANDOM_SEED);
+
+    for (let scenario = 0; scenario < SCENARIOS_NUM; scenario++) {
+      const max_deposit: bigint = MAX_DEPOSITS[scenario % MAX_DEPOSITS.length];
+      const investors_num: number = Number(utils.randomBigInt(random, 1n, BigInt(constants.TOTAL_TEST_INVESTORS)));
+      const deposits: bigint[] = [...Array(investors_num)].map(() => utils.randomBigInt(random, 1n, max_deposit));
+      const total_deposits: bigint = deposits.reduce((sum, deposit) => sum + deposit, 0n);
+      const final_amount: bigint = utils.randomBigInt(random, 0n, total_deposits * 3n);
+      const scenario_desc: string = `scenario ${scenario}: deposits [${deposits.join(", ")}], final amount ${final_amount}`;
+
+      await initFund();
+      await fund_client.setManagementFee(utils.randomBigInt(random, 0n, 500n));
+      await fund_client.setPerformanceFee(utils.randomBigInt(random, 0n, 3000n));
+      await runRound(deposits, final_amount);
+
+      const amount_after: bigint = (await investment_fund.totalAmountAfterInvestment()).toBigInt();
+      const initial_balances: bigint[] = await tokenBalances(investors);
+      // Number of withdrawals of each investor, since every rounded withdrawal can lose less than one unit
+      const withdrawals_num: number[] = Array(investors_num).fill(1);
+
+      // Each investor exits in a random way
+      for (let i = 0; i < investors_num; i++) {
+        const investor: Signer = investors[i];
+        const investor_address: string = await investor.getAddress();
+        const exit_type: number = Math.floor(random() * 3);
+
+        if (exit_type === 0) {
+          await fund_client.connect(investor).withdrawAll();
+        }
+        else if (exit_type === 1) {
+          const part: bigint = utils.randomBigInt(random, 1n, deposits[i]);
+          await fund_client.connect(investor).withdraw(part);
+          if (part !== deposits[i]) {
+            await fund_client.connect(investor).withdrawAll();
+            withdrawals_num[i]++;
+          }
+        }
+        else if (random() < 0.5) {
+          await fund_client.fundManagerReturnFundsToInvestor(investor_address);
+        }
+      }
+      // Funds of the remaining investors are returned in batches
+      while (!(await investment_fund.numberOfInvestors()).isZero()) {
+        await fund_client.fundManagerReturnFundsToInvestorsBatch(0, 2);
+      }
+
+      // The sum of payouts is exactly the returned amount, and each investor received its share of it up to the rounding
+      const payouts: bigint[] = (await tokenBalances(investors)).map((balance, i) => balance - initial_balances[i]);
+      expect(payouts.reduce((sum, payout) => sum + payout, 0n), scenario_desc)
+        .to.equal(amount_after);
+      let total_dust: bigint = 0n;
+      for (let i = 0; i < investors_num; i++) {
+        const pro_rata_payout: bigint = (deposits[i] * amount_after) / total_deposits;
+        expect(payouts[i] > pro_rata_payout - BigInt(withdrawals_num[i]), scenario_desc)
+          .to.equal(true);
+        total_dust += payouts[i] - pro_rata_payout;
+      }
+      // The rounding dust is less than one unit for each investor
+      expect(total_dust < BigInt(investors_num), scenario_desc)
+        .to.equal(true);
+
+      expect(await token.balanceOf(investment_fund.address), scenario_desc)
+        .to.equal(0);
+      utils.expectEvent(
+        await fund_client.stopInvestorsWithdraw(),
+        "InvestorsWithdrawStopped",
+        1, 0
+      );
+    }
+  });
+
+  it("should pay out tiny returns of large pools", async () => {
+    const deposits: bigint[] = [10n ** 24n, 10n ** 24n, 10n ** 24n];
+    // The multiplier is truncated to zero, while payouts are computed in full precision
+    const final_amount: bigint = 10n ** 11n;
+
+    await initFund();
+    await runRound(deposits, final_amount);
+    expect(await investment_fund.investmentMultiplier())
+      .to.equal(0);
+
+    const payout: BigNumber = BigNumber.from(final_amount / 3n);
+    for (let i = 0; i < deposits.length - 1; i++) {
+      utils.expectEvent(
+        await fund_client.connect(investors[i]).withdrawAll(),
+        "InvestorAllFundsWithdrawn",
+        await investors[i].getAddress(), payout
+      );
+    }
+    // The last investor receives the rounding dust
+    utils.expectEvent(
+      await fund_client.connect(investors[deposits.length - 1]).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      await investors[deposits.length - 1].getAddress(), payout.add(1)
+    );
+    expect(await investment_fund.totalDepositedFunds())
+      .to.equal(0);
+  });
+
+  it("should pay out large returns without overflowing", async () => {
+    const deposits: bigint[] = [1n, 2n];
+    const final_amount: bigint = 10n ** 39n;
+
+    await initFund();
+    await runRound(deposits, final_amount);
+
+    utils.expectEvent(
+      await fund_client.connect(investors[0]).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      await investors[0].getAddress(), BigNumber.from(final_amount / 3n)
+    );
+    utils.expectEvent(
+      await fund_client.connect(investors[1]).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      await investors[1].getAddress(), BigNumber.from(final_amount - final_amount / 3n)
+    );
+  });
+});
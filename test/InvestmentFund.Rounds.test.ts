@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+// Project
+import { TransactionResult } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for the investment rounds history
+//
+describe("InvestmentFund.Rounds", () => {
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initBeforeInvestmentTestContext();
+  });
+
+  // Run the current round up to the end, with the specified fund manager profit (or loss, if negative).
+  // Only the first investor withdraws, the funds of the other ones are sent to the remaining funds address.
+  async function runRound(
+    roundId: number,
+    profit: number
+  ) : Promise<BigNumber> {
+    // Give investors the funds for depositing again
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      await test_ctx.mock_token.transfer(await test_ctx.accounts.signers[i].getAddress(), constants.DUMMY_AMOUNT * i);
+    }
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.stopInvestorsDeposit(),
+      "InvestorsDepositStopped",
+      roundId
+    );
+    if (profit > 0) {
+      await test_ctx.fund_client.fundManagerDeposit(profit);
+    }
+    else if (profit < 0) {
+      await test_ctx.fund_client.fundManagerWithdraw(-profit);
+    }
+    utils.expectEvent(
+      await test_ctx.fund_client.startInvestorsWithdraw(),
+      "InvestorsWithdrawStarted",
+      roundId
+    );
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[1]).withdrawAll();
+
+    const remaining_funds: BigNumber = await test_ctx.investment_fund.totalDepositedFunds();
+    const result: TransactionResult = await test_ctx.fund_client.stopInvestorsWithdraw();
+    utils.expectEvent(
+      result,
+      "InvestorsWithdrawStopped",
+      roundId, remaining_funds
+    );
+
+    return BigNumber.from(result.receipt.blockNumber);
+  }
+
+  it("should start from no round", async () => {
+    const constructed_ctx: utils.TestContext = await utils.initConstructedTestContext();
+
+    expect(await constructed_ctx.investment_fund.currRound())
+      .to.equal(0);
+    await expect(constructed_ctx.investment_fund.roundInfo(1))
+      .to.be.revertedWithCustomError(constructed_ctx.investment_fund, "ValueError")
+      .withArgs(1);
+  });
+
+  it("should store the history of consecutive rounds", async () => {
+    const total_deposits: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+    const profits: number[] = [constants.DUMMY_AMOUNT, -constants.DUMMY_AMOUNT, 0];
+    const start_blocks: number[] = [(await test_ctx.investment_fund.roundInfo(1)).startBlock.toNumber()];
+    const end_blocks: BigNumber[] = [];
+
+    for (let i = 0; i < profits.length; i++) {
+      const round_id: number = i + 1;
+      if (i > 0) {
+        const result: TransactionResult = await test_ctx.fund_client.startInvestorsDeposit();
+        utils.expectEvent(result, "InvestorsDepositStarted", round_id);
+        start_blocks.push(result.receipt.blockNumber);
+      }
+      expect(await test_ctx.investment_fund.currRound())
+        .to.equal(round_id);
+
+      end_blocks.push(await runRound(round_id, profits[i]));
+    }
+
+    // The current state is reset, but the history is kept
+    expect(await test_ctx.investment_fund.totalAmountBeforeInvestment())
+      .to.equal(0);
+
+    for (let i = 0; i < profits.length; i++) {
+      const round = await test_ctx.investment_fund.roundInfo(i + 1);
+      const amount_after: number = total_deposits + profits[i];
+      const multiplier: BigNumber = BigNumber.from(amount_after).mul(constants.MULTIPLIER_DECIMALS).div(total_deposits);
+      // Only the first investor withdrew
+      const payout: BigNumber = multiplier.mul(constants.DUMMY_AMOUNT).div(constants.MULTIPLIER_DECIMALS);
+
+      expect(round.startBlock)
+        .to.equal(start_blocks[i]);
+      expect(round.endBlock)
+        .to.equal(end_blocks[i]);
+      expect(round.totalAmountBeforeInvestment)
+        .to.equal(total_deposits);
+      expect(round.totalAmountAfterInvestment)
+        .to.equal(amount_after);
+      expect(round.investmentMultiplier)
+        .to.equal(multiplier);
+      expect(round.numberOfInvestors)
+        .to.equal(constants.TOTAL_TEST_INVESTORS);
+      expect(round.remainingFunds)
+        .to.equal(BigNumber.from(amount_after).sub(payout));
+    }
+
+    await expect(test_ctx.investment_fund.roundInfo(0))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(0);
+    await expect(test_ctx.investment_fund.roundInfo(profits.length + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ValueError")
+      .withArgs(profits.length + 1);
+  });
+
+  it("should update the current round while in progress", async () => {
+    const investor: Signer = test_ctx.accounts.signers[1];
+
+    // Investors that withdraw before the investment are not counted
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.connect(investor).withdrawAll();
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    let round = await test_ctx.investment_fund.roundInfo(1);
+    expect(round.numberOfInvestors)
+      .to.equal(constants.TOTAL_TEST_INVESTORS - 1);
+    expect(round.totalAmountBeforeInvestment)
+      .to.equal(await test_ctx.investment_fund.totalAmountBeforeInvestment());
+    expect(round.investmentMultiplier)
+      .to.equal(0);
+    expect(round.endBlock)
+      .to.equal(0);
+
+    await test_ctx.fund_client.startInvestorsWithdraw();
+
+    round = await test_ctx.investment_fund.roundInfo(1);
+    expect(round.totalAmountAfterInvestment)
+      .to.equal(await test_ctx.investment_fund.totalAmountAfterInvestment());
+    expect(round.investmentMultiplier)
+      .to.equal(constants.MIN_MULTIPLIER);
+    expect(round.endBlock)
+      .to.equal(0);
+  });
+});
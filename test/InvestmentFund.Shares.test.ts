@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+// Project
+import { AmountError, InvestmentStateError, InvestorNotAllowedError, TransactionResult } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for fund shares
+//
+describe("InvestmentFund.Shares", () => {
+  // Total deposited by investors in initInvestorsDeposit
+  const TOTAL_DEPOSITS: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+
+  let test_ctx: utils.TestContext;
+  let investor: Signer;
+  let investor_address: string;
+  let other_investor: Signer;
+  let other_investor_address: string;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initBeforeInvestmentTestContext();
+    investor = test_ctx.accounts.signers[1];
+    investor_address = await investor.getAddress();
+    other_investor = test_ctx.accounts.signers[2];
+    other_investor_address = await other_investor.getAddress();
+  });
+
+  // Go to DURING_INVESTMENT state with all test investors
+  async function initDuringInvestment() : Promise<void> {
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+  }
+
+  it("should construct with no shares", async () => {
+    expect(await test_ctx.investment_fund.name())
+      .to.equal("Investment Fund Share");
+    expect(await test_ctx.investment_fund.symbol())
+      .to.equal("IFS");
+    expect(await test_ctx.investment_fund.decimals())
+      .to.equal(await test_ctx.mock_token.decimals());
+    expect(await test_ctx.investment_fund.totalSupply())
+      .to.equal(0);
+  });
+
+  it("should mint shares on deposit and burn them on withdraw", async () => {
+    const result: TransactionResult = await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT * 2);
+    utils.expectEvent(
+      result,
+      "Transfer",
+      constants.NULL_ADDRESS, investor_address, constants.DUMMY_AMOUNT * 2
+    );
+    expect(await test_ctx.investment_fund.balanceOf(investor_address))
+      .to.equal(constants.DUMMY_AMOUNT * 2);
+    expect(await test_ctx.investment_fund.totalSupply())
+      .to.equal(constants.DUMMY_AMOUNT * 2);
+
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(investor).withdraw(constants.DUMMY_AMOUNT),
+      "Transfer",
+      investor_address, constants.NULL_ADDRESS, constants.DUMMY_AMOUNT
+    );
+    expect(await test_ctx.investment_fund.balanceOf(investor_address))
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    await test_ctx.fund_client.connect(investor).withdrawAll();
+    expect(await test_ctx.investment_fund.balanceOf(investor_address))
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.totalSupply())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(0);
+  });
+
+  it("should revert if shares are transferred before investment", async () => {
+    await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+
+    await expect(test_ctx.investment_fund.connect(investor).transfer(other_investor_address, constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+    await expect(test_ctx.fund_client.connect(investor).transferShares(other_investor_address, constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(InvestmentStateError);
+  });
+
+  it("should transfer shares between investors during investment", async () => {
+    await initDuringInvestment();
+
+    // Partial transfer to another investor
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(investor).transferShares(other_investor_address, constants.DUMMY_AMOUNT / 2),
+      "Transfer",
+      investor_address, other_investor_address, constants.DUMMY_AMOUNT / 2
+    );
+    expect(await test_ctx.investment_fund.depositOfInvestor(investor_address))
+      .to.equal(constants.DUMMY_AMOUNT / 2);
+    expect(await test_ctx.investment_fund.depositOfInvestor(other_investor_address))
+      .to.equal(constants.DUMMY_AMOUNT * 2 + constants.DUMMY_AMOUNT / 2);
+
+    // Transferring all shares removes the investor
+    await test_ctx.fund_client.connect(investor).transferShares(other_investor_address, constants.DUMMY_AMOUNT / 2);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(constants.TOTAL_TEST_INVESTORS - 1);
+    expect(await test_ctx.investment_fund.allInvestors())
+      .not.to.include(investor_address);
+    expect(await test_ctx.investment_fund.totalSupply())
+      .to.equal(TOTAL_DEPOSITS);
+
+    await expect(test_ctx.investment_fund.connect(investor).transfer(other_investor_address, 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "ERC20InsufficientBalance")
+      .withArgs(investor_address, 0, 1);
+    await expect(test_ctx.fund_client.connect(investor).transferShares(other_investor_address, 1))
+      .to.be.rejectedWith(AmountError, "amount 1 is higher than the investor shares 0");
+  });
+
+  it("should pay out the new holder of transferred shares", async () => {
+    const new_holder: Signer = test_ctx.accounts.signers[constants.TOTAL_TEST_INVESTORS + 1];
+    const new_holder_address: string = await new_holder.getAddress();
+
+    await initDuringInvestment();
+
+    // Shares can also be transferred by an approved spender to an account that never deposited
+    await test_ctx.investment_fund.connect(investor).approve(other_investor_address, constants.DUMMY_AMOUNT);
+    await test_ctx.investment_fund.connect(other_investor).transferFrom(investor_address, new_holder_address, constants.DUMMY_AMOUNT);
+    expect(await test_ctx.investment_fund.allInvestors())
+      .to.include(new_holder_address);
+
+    // Double the funds
+    await test_ctx.fund_client.fundManagerDeposit(TOTAL_DEPOSITS);
+    await test_ctx.fund_client.startInvestorsWithdraw();
+
+    await expect(test_ctx.fund_client.connect(investor).withdrawAll())
+      .to.be.rejectedWith(AmountError, "investor has no funds deposited");
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(new_holder).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      new_holder_address, constants.DUMMY_AMOUNT * 2
+    );
+    expect(await test_ctx.mock_token.balanceOf(new_holder_address))
+      .to.equal(constants.DUMMY_AMOUNT * 2);
+  });
+
+  it("should allow transfers after investment", async () => {
+    await initDuringInvestment();
+    await test_ctx.fund_client.startInvestorsWithdraw();
+
+    await test_ctx.fund_client.connect(investor).transferShares(other_investor_address, constants.DUMMY_AMOUNT);
+
+    const other_investor_shares: BigNumber = await test_ctx.investment_fund.balanceOf(other_investor_address);
+    utils.expectEvent(
+      await test_ctx.fund_client.connect(other_investor).withdrawAll(),
+      "InvestorAllFundsWithdrawn",
+      other_investor_address, other_investor_shares
+    );
+  });
+
+  it("should revert if shares are transferred to the fund or to non-allowlisted investors", async () => {
+    const new_holder_address: string = await test_ctx.accounts.signers[constants.TOTAL_TEST_INVESTORS + 1].getAddress();
+
+    await initDuringInvestment();
+
+    await expect(test_ctx.investment_fund.connect(investor).transfer(test_ctx.investment_fund.address, constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AddressError")
+      .withArgs(test_ctx.investment_fund.address);
+
+    // Allowlist can only be enabled in the initial state, so start a new round with it
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+    await test_ctx.fund_client.setAllowlistEnabled(true);
+    await test_ctx.fund_client.setInvestorAllowed(investor_address, true);
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    await expect(test_ctx.investment_fund.connect(investor).transfer(new_holder_address, constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestorNotAllowedError")
+      .withArgs(new_holder_address);
+    await expect(test_ctx.fund_client.connect(investor).transferShares(new_holder_address, constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(InvestorNotAllowedError, `shares cannot be transferred to ${new_holder_address}`);
+  });
+
+  it("should move emergency exit votes with transferred shares", async () => {
+    await initDuringInvestment();
+
+    await test_ctx.fund_client.connect(investor).voteEmergencyExit();
+    expect(await test_ctx.investment_fund.emergencyExitVotes())
+      .to.equal(constants.DUMMY_AMOUNT);
+
+    // Shares that already voted cannot vote again
+    await test_ctx.fund_client.connect(investor).transferShares(other_investor_address, constants.DUMMY_AMOUNT);
+    expect(await test_ctx.investment_fund.emergencyExitVotes())
+      .to.equal(0);
+
+    // Shares received by a voter are counted
+    await test_ctx.fund_client.connect(other_investor).voteEmergencyExit();
+    await test_ctx.fund_client.connect(test_ctx.accounts.signers[3]).transferShares(other_investor_address, constants.DUMMY_AMOUNT);
+    expect(await test_ctx.investment_fund.emergencyExitVotes())
+      .to.equal(constants.DUMMY_AMOUNT * 4);
+  });
+
+  it("should burn the shares of remaining investors when investors withdraw is stopped", async () => {
+    await initDuringInvestment();
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    await test_ctx.fund_client.connect(investor).withdrawAll();
+
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+    expect(await test_ctx.investment_fund.totalSupply())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.balanceOf(other_investor_address))
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(0);
+  });
+});
@@ -0,0 +1,389 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { AmountError, FundTokenError, InvestmentFundClient, NATIVE_TOKEN, StrategyError, TransactionResult } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for the strategy mode, with funds only invested in registered strategies
+//
+describe("InvestmentFund.Strategy", () => {
+  // Total deposited by investors in initInvestorsDeposit
+  const TOTAL_DEPOSITS: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+
+  let test_ctx: utils.TestContext;
+  let strategies: Contract[];
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+    strategies = [
+      await deployStrategy(test_ctx.investment_fund, test_ctx.mock_token.address),
+      await deployStrategy(test_ctx.investment_fund, test_ctx.mock_token.address),
+    ];
+  });
+
+  async function deployStrategy(
+    investmentFund: Contract,
+    token: string
+  ) : Promise<Contract> {
+    const strategy_factory: ContractFactory = await hre.ethers.getContractFactory("MockYieldStrategy");
+    const strategy: Contract = await strategy_factory.deploy(investmentFund.address, token);
+    await strategy.deployed();
+
+    return strategy;
+  }
+
+  // Register the strategies and go to DURING_INVESTMENT state
+  async function initInvestment() : Promise<void> {
+    await test_ctx.fund_client.setStrategies(strategies.map((s) => s.address));
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+  }
+
+  // Expect investors to withdraw their deposits scaled by the specified total amount
+  async function expectInvestorsWithdraw(
+    totalAmount: number
+  ) : Promise<void> {
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const investor: Signer = test_ctx.accounts.signers[i];
+      const amount: number = constants.DUMMY_AMOUNT * i * totalAmount / TOTAL_DEPOSITS;
+      await expect((await test_ctx.fund_client.connect(investor).withdrawAll()).tx)
+        .to.changeTokenBalances(test_ctx.mock_token, [investor], [amount]);
+    }
+    expect(await test_ctx.mock_token.balanceOf(test_ctx.investment_fund.address))
+      .to.equal(0);
+  }
+
+  it("should set the strategies", async () => {
+    const strategy_addresses: string[] = strategies.map((s) => s.address);
+
+    expect(await test_ctx.fund_client.isStrategyMode())
+      .to.equal(false);
+    expect(await test_ctx.fund_client.strategies())
+      .to.deep.equal([]);
+
+    await expect(test_ctx.investment_fund.setStrategies(strategy_addresses))
+      .to.emit(test_ctx.investment_fund, "StrategiesChanged")
+      .withArgs(strategy_addresses);
+    expect(await test_ctx.fund_client.isStrategyMode())
+      .to.equal(true);
+    expect(await test_ctx.fund_client.strategies())
+      .to.deep.equal(strategy_addresses);
+
+    // Going back to free fund manager withdrawals
+    await expect((await test_ctx.fund_client.setStrategies([])).tx)
+      .to.emit(test_ctx.investment_fund, "StrategiesChanged")
+      .withArgs([]);
+    expect(await test_ctx.fund_client.isStrategyMode())
+      .to.equal(false);
+  });
+
+  it("should revert if setting invalid strategies", async () => {
+    // Strategies shall be contracts
+    await expect(test_ctx.investment_fund.setStrategies([strategies[0].address, await test_ctx.accounts.signers[0].getAddress()]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AddressError");
+    await expect(test_ctx.investment_fund.setStrategies([constants.NULL_ADDRESS]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AddressError");
+    // Only the fund manager
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).setStrategies([strategies[0].address]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+
+    // Only in INITIAL state
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await expect(test_ctx.investment_fund.setStrategies([strategies[0].address]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "InvestmentStateError");
+  });
+
+  it("should not allow multi-token funds in strategy mode", async () => {
+    const oracle_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundOracle");
+    const oracle: Contract = await oracle_factory.deploy(3600);
+    await oracle.deployed();
+
+    await test_ctx.fund_client.setStrategies([strategies[0].address]);
+    await expect(test_ctx.investment_fund.setFundTokens([test_ctx.mock_token.address], oracle.address))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundTokenError");
+    await expect(test_ctx.fund_client.setFundTokens([test_ctx.mock_token.address], oracle.address))
+      .to.be.rejectedWith(FundTokenError, "multi-token funds cannot be in strategy mode");
+
+    await test_ctx.fund_client.setStrategies([]);
+    await test_ctx.fund_client.setFundTokens([test_ctx.mock_token.address], oracle.address);
+    await expect(test_ctx.investment_fund.setStrategies([strategies[0].address]))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundTokenError");
+    await expect(test_ctx.fund_client.setStrategies([strategies[0].address]))
+      .to.be.rejectedWith(FundTokenError, "multi-token funds cannot be in strategy mode");
+  });
+
+  it("should not allow fund manager withdrawals in strategy mode", async () => {
+    await initInvestment();
+
+    await expect(test_ctx.investment_fund.fundManagerWithdraw(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "StrategyError");
+    await expect(test_ctx.investment_fund.fundManagerWithdrawAll())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "StrategyError");
+    await expect(test_ctx.fund_client.fundManagerWithdraw(constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(StrategyError, "funds can only be invested in the strategies");
+    await expect(test_ctx.fund_client.fundManagerWithdrawAll())
+      .to.be.rejectedWith(StrategyError, "funds can only be invested in the strategies");
+  });
+
+  it("should invest funds in the strategies", async () => {
+    const invest_amount: number = TOTAL_DEPOSITS / 5;
+    await initInvestment();
+
+    await expect(test_ctx.investment_fund.fundManagerInvest(strategies[0].address, invest_amount))
+      .to.emit(test_ctx.investment_fund, "StrategyInvested")
+      .withArgs(strategies[0].address, invest_amount)
+      .and.to.changeTokenBalances(test_ctx.mock_token, [test_ctx.investment_fund, strategies[0]], [-invest_amount, invest_amount]);
+    utils.expectEvent(
+      await test_ctx.fund_client.fundManagerInvest(strategies[1].address, invest_amount),
+      "StrategyInvested",
+      strategies[1].address, invest_amount
+    );
+
+    expect(await strategies[0].investedAmount())
+      .to.equal(invest_amount);
+    expect(await strategies[1].investedAmount())
+      .to.equal(invest_amount);
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(TOTAL_DEPOSITS - 2 * invest_amount);
+    expect(await test_ctx.fund_client.strategiesValue())
+      .to.equal(2 * invest_amount);
+  });
+
+  it("should revert if investing funds not correctly", async () => {
+    await initInvestment();
+
+    // Not registered strategy
+    const other_strategy: Contract = await deployStrategy(test_ctx.investment_fund, test_ctx.mock_token.address);
+    await expect(test_ctx.investment_fund.fundManagerInvest(other_strategy.address, constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "StrategyError");
+    await expect(test_ctx.fund_client.fundManagerInvest(other_strategy.address, constants.DUMMY_AMOUNT))
+      .to.be.rejectedWith(StrategyError, "strategy is not registered");
+    // Invalid amounts
+    await expect(test_ctx.investment_fund.fundManagerInvest(strategies[0].address, 0))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError");
+    await expect(test_ctx.investment_fund.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS + 1))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError");
+    await expect(test_ctx.fund_client.fundManagerInvest(strategies[0].address, 0))
+      .to.be.rejectedWith(AmountError, "amount shall not be zero");
+    await expect(test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS + 1))
+      .to.be.rejectedWith(AmountError, "is higher than the deposited funds");
+    // Only the fund manager
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).fundManagerInvest(strategies[0].address, constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    // Only the fund can invest in the strategy
+    await expect(strategies[0].invest(constants.DUMMY_AMOUNT))
+      .to.be.revertedWithCustomError(strategies[0], "CallerError");
+  });
+
+  it("should compute the multiplier from the funds returned by the strategies", async () => {
+    const yield_amount: number = TOTAL_DEPOSITS / 10;
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS / 2);
+    await test_ctx.fund_client.fundManagerInvest(strategies[1].address, TOTAL_DEPOSITS / 2);
+    // Yield earned by the first strategy
+    await test_ctx.mock_token.transfer(strategies[0].address, yield_amount);
+
+    const total_amount: number = TOTAL_DEPOSITS + yield_amount;
+    const result: TransactionResult = await test_ctx.fund_client.startInvestorsWithdraw();
+    utils.expectEvent(
+      result,
+      "StrategiesDivested",
+      total_amount
+    );
+    expect(await test_ctx.fund_client.strategiesValue())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(total_amount);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(BigNumber.from(total_amount).mul(constants.MULTIPLIER_DECIMALS).div(TOTAL_DEPOSITS));
+
+    await expectInvestorsWithdraw(total_amount);
+  });
+
+  it("should compute the multiplier on losses of the strategies", async () => {
+    const loss_amount: number = TOTAL_DEPOSITS / 5;
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS);
+    await strategies[0].simulateLoss(loss_amount);
+
+    const total_amount: number = TOTAL_DEPOSITS - loss_amount;
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(total_amount);
+
+    await expectInvestorsWithdraw(total_amount);
+  });
+
+  it("should divest all funds from the strategies during the investment", async () => {
+    const yield_amount: number = TOTAL_DEPOSITS / 10;
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS);
+    await test_ctx.mock_token.transfer(strategies[0].address, yield_amount);
+
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).fundManagerDivestAll())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "FundManagerCallerError");
+    await expect((await test_ctx.fund_client.fundManagerDivestAll()).tx)
+      .to.emit(test_ctx.investment_fund, "StrategiesDivested")
+      .withArgs(TOTAL_DEPOSITS + yield_amount)
+      .and.to.changeTokenBalances(test_ctx.mock_token, [test_ctx.investment_fund, strategies[0]], [TOTAL_DEPOSITS + yield_amount, -(TOTAL_DEPOSITS + yield_amount)]);
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(TOTAL_DEPOSITS + yield_amount);
+
+    // Funds can be reinvested in another strategy
+    await test_ctx.fund_client.fundManagerInvest(strategies[1].address, TOTAL_DEPOSITS + yield_amount);
+    expect(await strategies[1].totalValue())
+      .to.equal(TOTAL_DEPOSITS + yield_amount);
+
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    await expectInvestorsWithdraw(TOTAL_DEPOSITS + yield_amount);
+  });
+
+  it("should skip failing strategies when divesting", async () => {
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS / 2);
+    await test_ctx.fund_client.fundManagerInvest(strategies[1].address, TOTAL_DEPOSITS / 2);
+    await strategies[1].setFailing(true);
+
+    // Only the funds returned by the working strategy are distributed
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(TOTAL_DEPOSITS / 2);
+    expect(await strategies[1].totalValue())
+      .to.equal(TOTAL_DEPOSITS / 2);
+
+    // The first investor withdraws before the funds left in the failing strategy are divested
+    await expect((await test_ctx.fund_client.connect(test_ctx.accounts.signers[1]).withdrawAll()).tx)
+      .to.changeTokenBalances(test_ctx.mock_token, [test_ctx.accounts.signers[1]], [constants.DUMMY_AMOUNT / 2]);
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).divestAllAfterInvestment())
+      .to.emit(test_ctx.investment_fund, "StrategiesDivested")
+      .withArgs(0);
+
+    // Once the strategy works again, anyone can divest and the funds are distributed to the remaining shares
+    const remaining_shares: number = TOTAL_DEPOSITS - constants.DUMMY_AMOUNT;
+    const total_amount: number = (TOTAL_DEPOSITS / 2) + Math.floor((TOTAL_DEPOSITS / 2) * TOTAL_DEPOSITS / remaining_shares);
+    await strategies[1].setFailing(false);
+    await expect((await test_ctx.fund_client.connect(test_ctx.accounts.signers[0]).divestAllAfterInvestment()).tx)
+      .to.emit(test_ctx.investment_fund, "StrategiesDivested")
+      .withArgs(TOTAL_DEPOSITS / 2)
+      .and.to.changeTokenBalances(test_ctx.mock_token, [test_ctx.investment_fund, strategies[1]], [TOTAL_DEPOSITS / 2, -(TOTAL_DEPOSITS / 2)]);
+    expect(await test_ctx.investment_fund.totalAmountAfterInvestment())
+      .to.equal(total_amount);
+    expect(await test_ctx.investment_fund.investmentMultiplier())
+      .to.equal(BigNumber.from(total_amount).mul(constants.MULTIPLIER_DECIMALS).div(TOTAL_DEPOSITS));
+    expect((await test_ctx.investment_fund.roundInfo(1)).totalAmountAfterInvestment)
+      .to.equal(total_amount);
+
+    let withdrawn_amount: BigNumber = BigNumber.from(0);
+    for (let i = 2; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      const investor: Signer = test_ctx.accounts.signers[i];
+      const balance: BigNumber = await test_ctx.mock_token.balanceOf(await investor.getAddress());
+      await test_ctx.fund_client.connect(investor).withdrawAll();
+      withdrawn_amount = withdrawn_amount.add((await test_ctx.mock_token.balanceOf(await investor.getAddress())).sub(balance));
+    }
+    expect(withdrawn_amount)
+      .to.equal(TOTAL_DEPOSITS - (constants.DUMMY_AMOUNT / 2));
+    expect(await test_ctx.mock_token.balanceOf(test_ctx.investment_fund.address))
+      .to.equal(0);
+  });
+
+  it("should revert if a strategy runs out of gas when divesting", async () => {
+    const GAS_LIMIT: number = 1000000;
+    await test_ctx.fund_client.setEmergencyTimeout(constants.NEW_EMERGENCY_TIMEOUT);
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS / 2);
+    await test_ctx.fund_client.fundManagerInvest(strategies[1].address, TOTAL_DEPOSITS / 2);
+    await strategies[1].setOutOfGas(true);
+
+    // The gas limit is chosen by the caller, so the strategy cannot be skipped by anyone (not even the fund manager)
+    await expect(test_ctx.investment_fund.startInvestorsWithdraw({ gasLimit: GAS_LIMIT }))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "StrategyError");
+    await expect(test_ctx.investment_fund.fundManagerDivestAll({ gasLimit: GAS_LIMIT }))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "StrategyError");
+    await time.increaseTo(await test_ctx.investment_fund.emergencyDeadline());
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).emergencyExit({ gasLimit: GAS_LIMIT }))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "StrategyError");
+
+    await strategies[1].setOutOfGas(false);
+    await expect(test_ctx.investment_fund.startInvestorsWithdraw({ gasLimit: GAS_LIMIT }))
+      .to.emit(test_ctx.investment_fund, "StrategiesDivested")
+      .withArgs(TOTAL_DEPOSITS);
+
+    await expectInvestorsWithdraw(TOTAL_DEPOSITS);
+  });
+
+  it("should not divest after the investment if all shares are withdrawn", async () => {
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS / 2);
+    await test_ctx.fund_client.fundManagerInvest(strategies[1].address, TOTAL_DEPOSITS / 2);
+    await strategies[1].setFailing(true);
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    await test_ctx.fund_client.fundManagerReturnFundsToAllInvestors();
+
+    // The funds are not accounted, so they cannot be sent to the remaining funds address
+    await strategies[1].setFailing(false);
+    await expect(test_ctx.investment_fund.connect(test_ctx.accounts.signers[0]).divestAllAfterInvestment())
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "NoInvestorError");
+    expect(await test_ctx.mock_token.balanceOf(strategies[1].address))
+      .to.equal(TOTAL_DEPOSITS / 2);
+    expect(await test_ctx.investment_fund.totalDepositedFunds())
+      .to.equal(0);
+  });
+
+  it("should divest all funds from the strategies on emergency exit", async () => {
+    await test_ctx.fund_client.setEmergencyTimeout(constants.NEW_EMERGENCY_TIMEOUT);
+    await initInvestment();
+    await test_ctx.fund_client.fundManagerInvest(strategies[0].address, TOTAL_DEPOSITS);
+
+    await time.increaseTo(await test_ctx.investment_fund.emergencyDeadline());
+    const result: TransactionResult = await test_ctx.fund_client.connect(test_ctx.accounts.signers[0]).emergencyExit();
+    utils.expectEvent(
+      result,
+      "StrategiesDivested",
+      TOTAL_DEPOSITS
+    );
+    utils.expectEvent(
+      result,
+      "EmergencyExitTriggered",
+      1, false, TOTAL_DEPOSITS
+    );
+    expect(await strategies[0].totalValue())
+      .to.equal(0);
+
+    await expectInvestorsWithdraw(TOTAL_DEPOSITS);
+  });
+
+  it("should invest native funds in the strategies", async () => {
+    const fund_manager: Signer = test_ctx.accounts.fund_manager;
+    const investors: Signer[] = test_ctx.accounts.signers.slice(1, constants.TOTAL_TEST_INVESTORS + 1);
+    const yield_amount: number = TOTAL_DEPOSITS / 10;
+
+    const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+    const native_fund: Contract = await fund_factory.deploy(NATIVE_TOKEN, constants.NULL_ADDRESS);
+    await native_fund.deployed();
+    const native_client: InvestmentFundClient = InvestmentFundClient.connect(native_fund.address, fund_manager);
+    const native_strategy: Contract = await deployStrategy(native_fund, NATIVE_TOKEN);
+
+    await native_client.setStrategies([native_strategy.address]);
+    await native_client.startInvestorsDeposit();
+    for (let i = 0; i < investors.length; i++) {
+      await native_client.connect(investors[i]).deposit(constants.DUMMY_AMOUNT * (i + 1));
+    }
+    await native_client.stopInvestorsDeposit();
+
+    await expect((await native_client.fundManagerInvest(native_strategy.address, TOTAL_DEPOSITS)).tx)
+      .to.changeEtherBalances([native_fund, native_strategy], [-TOTAL_DEPOSITS, TOTAL_DEPOSITS]);
+    await fund_manager.sendTransaction({ to: native_strategy.address, value: yield_amount });
+
+    await expect((await native_client.startInvestorsWithdraw()).tx)
+      .to.changeEtherBalances([native_fund, native_strategy], [TOTAL_DEPOSITS + yield_amount, -(TOTAL_DEPOSITS + yield_amount)]);
+    expect(await native_fund.totalAmountAfterInvestment())
+      .to.equal(TOTAL_DEPOSITS + yield_amount);
+    await expect((await native_client.connect(investors[0]).withdrawAll()).tx)
+      .to.changeEtherBalances([investors[0]], [constants.DUMMY_AMOUNT * (TOTAL_DEPOSITS + yield_amount) / TOTAL_DEPOSITS]);
+  });
+});
@@ -0,0 +1,126 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+// Project
+import {
+  AddressError,
+  AmountError,
+  FundManagerCallerError,
+  FundManagerChangeError,
+  InvestmentStateError,
+  InvestmentStates,
+  NoInvestorError,
+  TransactionResult,
+  ValueError
+} from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for InvestmentFundClient
+//
+describe("InvestmentFundClient", () => {
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initBeforeInvestmentTestContext();
+  });
+
+  it("should validate deposits before sending them", async () => {
+    const investor_client = test_ctx.fund_client.connect(test_ctx.accounts.signers[1]);
+
+    await expect(investor_client.deposit(0))
+      .to.be.rejectedWith(AmountError, "deposit shall not be zero");
+    await expect(investor_client.deposit(constants.NEW_MIN_AMOUNT - constants.NEW_MULTIPLE_OF))
+      .to.be.rejectedWith(AmountError, `lower than the minimum investor deposit ${constants.NEW_MIN_AMOUNT}`);
+    await expect(investor_client.deposit(constants.NEW_MAX_AMOUNT + constants.NEW_MULTIPLE_OF))
+      .to.be.rejectedWith(AmountError, `higher than the maximum investor deposit ${constants.NEW_MAX_AMOUNT}`);
+    await expect(investor_client.deposit(constants.NEW_MIN_AMOUNT + 1))
+      .to.be.rejectedWith(AmountError, `deposit ${constants.NEW_MIN_AMOUNT + 1} is not a multiple of ${constants.NEW_MULTIPLE_OF}`);
+    await expect(investor_client.withdrawAll())
+      .to.be.rejectedWith(AmountError, "investor has no funds deposited");
+    await expect(investor_client.withdraw(constants.NEW_MIN_AMOUNT))
+      .to.be.rejectedWith(AmountError, "investor has no funds deposited");
+
+    // No transaction shall be sent
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(0);
+
+    // Partial withdraw shall leave a valid deposit
+    await investor_client.deposit(constants.NEW_MIN_AMOUNT * 2);
+    await expect(investor_client.withdraw(constants.NEW_MIN_AMOUNT * 3))
+      .to.be.rejectedWith(AmountError, `amount ${constants.NEW_MIN_AMOUNT * 3} is higher than the investor deposit ${constants.NEW_MIN_AMOUNT * 2}`);
+    await expect(investor_client.withdraw(constants.NEW_MIN_AMOUNT + constants.NEW_MULTIPLE_OF))
+      .to.be.rejectedWith(AmountError, `remaining deposit ${constants.NEW_MIN_AMOUNT - constants.NEW_MULTIPLE_OF} is lower than the minimum investor deposit`);
+    await expect(investor_client.withdraw(constants.NEW_MULTIPLE_OF / 2))
+      .to.be.rejectedWith(AmountError, `is not a multiple of ${constants.NEW_MULTIPLE_OF}`);
+  });
+
+  it("should validate the state before sending transactions", async () => {
+    const err: InvestmentStateError = await expect(test_ctx.fund_client.startInvestorsWithdraw())
+      .to.be.rejectedWith(InvestmentStateError);
+    expect(err.currState)
+      .to.equal(InvestmentStates.BEFORE_INVESTMENT);
+
+    await expect(test_ctx.fund_client.fundManagerWithdrawAll())
+      .to.be.rejectedWith(InvestmentStateError, "BEFORE_INVESTMENT");
+    await expect(test_ctx.fund_client.setDepositMultipleOf(constants.NEW_MULTIPLE_OF))
+      .to.be.rejectedWith(InvestmentStateError, "BEFORE_INVESTMENT");
+  });
+
+  it("should approve the fund token and return the fund events", async () => {
+    const investor: Signer = test_ctx.accounts.signers[1];
+    const investor_address: string = await investor.getAddress();
+
+    // Reset allowance
+    await test_ctx.mock_token.connect(investor).approve(test_ctx.investment_fund.address, 0);
+
+    const result: TransactionResult = await test_ctx.fund_client.connect(investor).deposit(constants.DUMMY_AMOUNT);
+    expect(await test_ctx.mock_token.allowance(investor_address, test_ctx.investment_fund.address))
+      .to.equal(0);
+    // Token events shall not be included, only the shares minted by the fund
+    expect(result.events.length)
+      .to.equal(2);
+    expect(result.events[0].name)
+      .to.equal("Transfer");
+    expect(result.events[1].name)
+      .to.equal("InvestorFundsDeposited");
+    expect(result.events[1].args.investor)
+      .to.equal(investor_address);
+    expect(result.events[1].args.amount)
+      .to.equal(constants.DUMMY_AMOUNT);
+  });
+
+  it("should decode the custom errors raised by the contract", async () => {
+    const fund_manager_address: string = await test_ctx.accounts.fund_manager.getAddress();
+    const other_client = test_ctx.fund_client.connect(test_ctx.accounts.signers[0]);
+
+    await expect(other_client.stopInvestorsDeposit())
+      .to.be.rejectedWith(FundManagerCallerError, `is not the fund manager ${fund_manager_address}`);
+
+    // Go back to INITIAL state
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+    await test_ctx.fund_client.startInvestorsWithdraw();
+    await test_ctx.fund_client.fundManagerReturnFundsToAllInvestors();
+
+    await expect(test_ctx.fund_client.fundManagerReturnFundsToAllInvestors())
+      .to.be.rejectedWith(NoInvestorError);
+
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+
+    const value_err: ValueError = await expect(test_ctx.fund_client.setDepositMultipleOf(0))
+      .to.be.rejectedWith(ValueError);
+    expect(value_err.value)
+      .to.equal(0);
+    const address_err: AddressError = await expect(test_ctx.fund_client.setRemainingFundsAddress(constants.NULL_ADDRESS))
+      .to.be.rejectedWith(AddressError);
+    expect(address_err.addr)
+      .to.equal(constants.NULL_ADDRESS);
+    await expect(test_ctx.fund_client.setPendingFundManager(fund_manager_address))
+      .to.be.rejectedWith(FundManagerChangeError);
+    await expect(test_ctx.fund_client.setMinInvestorDeposit(constants.NEW_MAX_AMOUNT))
+      .to.be.rejectedWith(ValueError, `shall be lower than the maximum investor deposit ${constants.NEW_MAX_AMOUNT}`);
+    await expect(test_ctx.fund_client.setManagementFee(constants.BPS_DENOMINATOR + 1))
+      .to.be.rejectedWith(ValueError, `fee ${constants.BPS_DENOMINATOR + 1} bps shall not be higher than ${constants.BPS_DENOMINATOR} bps`);
+  });
+});
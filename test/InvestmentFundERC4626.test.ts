@@ -0,0 +1,324 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for the ERC-4626 vault adapter
+//
+describe("InvestmentFundERC4626", () => {
+  const VAULT_AMOUNT: number = 1000;
+
+  let test_ctx: utils.TestContext;
+  let vault: Contract;
+  let investor: Signer;
+  let other_investor: Signer;
+  let investor_addr: string;
+  let other_investor_addr: string;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initInitialTestContext();
+    vault = await deployVault();
+
+    investor = test_ctx.accounts.signers[1];
+    other_investor = test_ctx.accounts.signers[2];
+    investor_addr = await investor.getAddress();
+    other_investor_addr = await other_investor.getAddress();
+
+    await test_ctx.mock_token.connect(investor).approve(vault.address, constants.TOKEN_SUPPLY);
+    await test_ctx.mock_token.connect(other_investor).approve(vault.address, constants.TOKEN_SUPPLY);
+  });
+
+  async function deployVault() : Promise<Contract> {
+    const contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundERC4626");
+    const instance: Contract = await contract_factory.deploy(test_ctx.investment_fund.address);
+    await instance.deployed();
+
+    return instance;
+  }
+
+  // Expect all the maximum amounts to be zero for the specified account
+  async function expectNoMaxAmounts(
+    account: string
+  ) : Promise<void> {
+    expect(await vault.maxDeposit(account))
+      .to.equal(0);
+    expect(await vault.maxMint(account))
+      .to.equal(0);
+    expect(await vault.maxWithdraw(account))
+      .to.equal(0);
+    expect(await vault.maxRedeem(account))
+      .to.equal(0);
+  }
+
+  // Bring the fund to the AFTER_INVESTMENT state with some profit, with the vault holding the specified deposit
+  async function initAfterInvestment(
+    vaultAmount: number
+  ) : Promise<void> {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await vault.connect(investor).deposit(vaultAmount, investor_addr);
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+    await test_ctx.fund_client.fundManagerDeposit(constants.DUMMY_AMOUNT);
+    await test_ctx.fund_client.startInvestorsWithdraw();
+  }
+
+  it("should construct correctly", async () => {
+    expect(await vault.fund())
+      .to.equal(test_ctx.investment_fund.address);
+    expect(await vault.asset())
+      .to.equal(test_ctx.mock_token.address);
+    expect(await vault.decimals())
+      .to.equal(await test_ctx.mock_token.decimals());
+    expect(await vault.totalAssets())
+      .to.equal(0);
+    expect(await vault.totalSupply())
+      .to.equal(0);
+    expect(await vault.fundRound())
+      .to.equal(0);
+    // Conversions are 1:1 until the investment ends
+    expect(await vault.convertToShares(VAULT_AMOUNT))
+      .to.equal(VAULT_AMOUNT);
+    expect(await vault.convertToAssets(VAULT_AMOUNT))
+      .to.equal(VAULT_AMOUNT);
+
+    // No deposit in INITIAL state
+    await expectNoMaxAmounts(investor_addr);
+    await expect(vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr))
+      .to.be.revertedWithCustomError(vault, "MaxAmountError")
+      .withArgs(VAULT_AMOUNT, 0);
+  });
+
+  it("should deposit and mint before the investment", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(constants.NEW_MAX_AMOUNT);
+    expect(await vault.maxMint(investor_addr))
+      .to.equal(constants.NEW_MAX_AMOUNT);
+    expect(await vault.previewDeposit(VAULT_AMOUNT))
+      .to.equal(VAULT_AMOUNT);
+    expect(await vault.previewMint(VAULT_AMOUNT))
+      .to.equal(VAULT_AMOUNT);
+
+    await expect(vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr))
+      .to.emit(vault, "Deposit")
+      .withArgs(investor_addr, investor_addr, VAULT_AMOUNT, VAULT_AMOUNT);
+    await expect(vault.connect(investor).mint(VAULT_AMOUNT, other_investor_addr))
+      .to.emit(vault, "Deposit")
+      .withArgs(investor_addr, other_investor_addr, VAULT_AMOUNT, VAULT_AMOUNT);
+
+    // The vault is a single investor of the fund
+    expect(await test_ctx.investment_fund.depositOfInvestor(vault.address))
+      .to.equal(VAULT_AMOUNT * 2);
+    expect(await test_ctx.investment_fund.numberOfInvestors())
+      .to.equal(1);
+    expect(await vault.balanceOf(investor_addr))
+      .to.equal(VAULT_AMOUNT);
+    expect(await vault.balanceOf(other_investor_addr))
+      .to.equal(VAULT_AMOUNT);
+    expect(await vault.totalAssets())
+      .to.equal(VAULT_AMOUNT * 2);
+    expect(await vault.fundRound())
+      .to.equal(1);
+
+    // The maximum investor deposit applies to the vault as a whole
+    const max_deposit: number = constants.NEW_MAX_AMOUNT - (VAULT_AMOUNT * 2);
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(max_deposit);
+    await expect(vault.connect(investor).deposit(max_deposit + constants.NEW_MULTIPLE_OF, investor_addr))
+      .to.be.revertedWithCustomError(vault, "MaxAmountError")
+      .withArgs(max_deposit + constants.NEW_MULTIPLE_OF, max_deposit);
+    // Deposit rules of the fund still apply
+    await expect(vault.connect(investor).deposit(VAULT_AMOUNT + 1, investor_addr))
+      .to.be.revertedWithCustomError(test_ctx.investment_fund, "AmountError");
+  });
+
+  it("should not allow deposits in multi-token funds", async () => {
+    const oracle_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFundOracle");
+    const oracle: Contract = await oracle_factory.deploy(0);
+    await oracle.deployed();
+    await test_ctx.fund_client.setFundTokens([test_ctx.mock_token.address], oracle.address);
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(0);
+    expect(await vault.maxMint(investor_addr))
+      .to.equal(0);
+    await expect(vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr))
+      .to.be.revertedWithCustomError(vault, "MaxAmountError")
+      .withArgs(VAULT_AMOUNT, 0);
+  });
+
+  it("should limit deposits to the hard cap as a multiple of the deposit multiplicity", async () => {
+    const hard_cap: number = VAULT_AMOUNT + (constants.NEW_MULTIPLE_OF / 2);
+    await test_ctx.fund_client.setFundHardCap(hard_cap);
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(VAULT_AMOUNT);
+
+    await vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr);
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(0);
+  });
+
+  it("should withdraw and redeem before the investment", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr);
+
+    // Owner of all shares can redeem everything
+    expect(await vault.maxRedeem(investor_addr))
+      .to.equal(VAULT_AMOUNT);
+    expect(await vault.maxWithdraw(investor_addr))
+      .to.equal(VAULT_AMOUNT);
+
+    // Partial owners cannot leave an invalid deposit in the fund
+    const transfer_amount: number = 45;
+    await vault.connect(investor).transfer(other_investor_addr, transfer_amount);
+    expect(await vault.maxRedeem(investor_addr))
+      .to.equal(VAULT_AMOUNT - constants.NEW_MIN_AMOUNT);
+    expect(await vault.maxRedeem(other_investor_addr))
+      .to.equal(transfer_amount - 5);
+
+    await expect(vault.connect(investor).redeem(VAULT_AMOUNT - transfer_amount, investor_addr, investor_addr))
+      .to.be.revertedWithCustomError(vault, "MaxAmountError")
+      .withArgs(VAULT_AMOUNT - transfer_amount, VAULT_AMOUNT - constants.NEW_MIN_AMOUNT);
+
+    const token_balance: BigNumber = await test_ctx.mock_token.balanceOf(investor_addr);
+    await expect(vault.connect(investor).withdraw(VAULT_AMOUNT / 2, investor_addr, investor_addr))
+      .to.emit(vault, "Withdraw")
+      .withArgs(investor_addr, investor_addr, investor_addr, VAULT_AMOUNT / 2, VAULT_AMOUNT / 2);
+    expect(await test_ctx.mock_token.balanceOf(investor_addr))
+      .to.equal(token_balance.add(VAULT_AMOUNT / 2));
+    expect(await test_ctx.investment_fund.depositOfInvestor(vault.address))
+      .to.equal(VAULT_AMOUNT / 2);
+
+    // Redeem on behalf of the owner requires allowance
+    await expect(vault.connect(other_investor).redeem(10, other_investor_addr, investor_addr))
+      .to.be.revertedWithCustomError(vault, "ERC20InsufficientAllowance");
+    await vault.connect(investor).approve(other_investor_addr, 10);
+    await vault.connect(other_investor).redeem(10, other_investor_addr, investor_addr);
+    expect(await vault.balanceOf(investor_addr))
+      .to.equal((VAULT_AMOUNT / 2) - transfer_amount - 10);
+    expect(await vault.allowance(investor_addr, other_investor_addr))
+      .to.equal(0);
+  });
+
+  it("should not allow any operation during the investment", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr);
+    await test_ctx.fund_client.stopInvestorsDeposit();
+
+    await expectNoMaxAmounts(investor_addr);
+    expect(await vault.totalAssets())
+      .to.equal(VAULT_AMOUNT);
+
+    await expect(vault.connect(investor).redeem(VAULT_AMOUNT, investor_addr, investor_addr))
+      .to.be.revertedWithCustomError(vault, "MaxAmountError")
+      .withArgs(VAULT_AMOUNT, 0);
+    await expect(vault.connect(investor).withdraw(VAULT_AMOUNT, investor_addr, investor_addr))
+      .to.be.revertedWithCustomError(vault, "MaxAmountError")
+      .withArgs(VAULT_AMOUNT, 0);
+  });
+
+  it("should only allow redeeming before the investment if the fund is paused", async () => {
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr);
+    await test_ctx.fund_client.pause();
+
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(0);
+    expect(await vault.maxMint(investor_addr))
+      .to.equal(0);
+    expect(await vault.maxRedeem(investor_addr))
+      .to.equal(VAULT_AMOUNT);
+    await expect(vault.connect(investor).redeem(VAULT_AMOUNT, investor_addr, investor_addr))
+      .to.changeTokenBalances(test_ctx.mock_token, [investor], [VAULT_AMOUNT]);
+  });
+
+  it("should not allow any operation if the fund is paused after the investment", async () => {
+    await initAfterInvestment(VAULT_AMOUNT);
+    await test_ctx.fund_client.pause();
+
+    await expectNoMaxAmounts(investor_addr);
+  });
+
+  it("should redeem with profit after the investment", async () => {
+    await initAfterInvestment(VAULT_AMOUNT);
+
+    const multiplier: BigNumber = await test_ctx.investment_fund.investmentMultiplier();
+    const expected_assets: BigNumber = multiplier.mul(VAULT_AMOUNT).div(constants.MULTIPLIER_DECIMALS);
+    expect(expected_assets)
+      .to.be.gt(VAULT_AMOUNT);
+
+    expect(await vault.totalAssets())
+      .to.equal(expected_assets);
+    expect(await vault.convertToAssets(VAULT_AMOUNT))
+      .to.equal(expected_assets);
+    expect(await vault.previewRedeem(VAULT_AMOUNT))
+      .to.equal(expected_assets);
+    expect(await vault.maxRedeem(investor_addr))
+      .to.equal(VAULT_AMOUNT);
+    expect(await vault.maxWithdraw(investor_addr))
+      .to.equal(expected_assets);
+    // No deposit after the investment
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(0);
+
+    const token_balance: BigNumber = await test_ctx.mock_token.balanceOf(investor_addr);
+    await expect(vault.connect(investor).redeem(VAULT_AMOUNT, investor_addr, investor_addr))
+      .to.emit(vault, "Withdraw")
+      .withArgs(investor_addr, investor_addr, investor_addr, expected_assets, VAULT_AMOUNT);
+    expect(await test_ctx.mock_token.balanceOf(investor_addr))
+      .to.equal(token_balance.add(expected_assets));
+    expect(await vault.totalSupply())
+      .to.equal(0);
+    expect(await test_ctx.investment_fund.depositOfInvestor(vault.address))
+      .to.equal(0);
+  });
+
+  it("should round withdrawals in favor of the vault after the investment", async () => {
+    await initAfterInvestment(VAULT_AMOUNT);
+
+    const assets: number = 101;
+    const shares: BigNumber = await vault.previewWithdraw(assets);
+    // Shares are rounded up, so they are never lower than the converted ones
+    expect(shares)
+      .to.be.gte(await vault.convertToShares(assets));
+    expect(await vault.previewRedeem(shares))
+      .to.be.gte(assets);
+
+    const token_balance: BigNumber = await test_ctx.mock_token.balanceOf(investor_addr);
+    await vault.connect(investor).withdraw(assets, investor_addr, investor_addr);
+    expect(await test_ctx.mock_token.balanceOf(investor_addr))
+      .to.equal(token_balance.add(assets));
+    expect(await vault.balanceOf(investor_addr))
+      .to.equal(shares.mul(-1).add(VAULT_AMOUNT));
+  });
+
+  it("should invalidate shares not redeemed before the round is closed", async () => {
+    await initAfterInvestment(VAULT_AMOUNT);
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    expect(await vault.totalAssets())
+      .to.equal(0);
+    await expectNoMaxAmounts(investor_addr);
+  });
+
+  it("should allow deposits in a new round if all shares were redeemed", async () => {
+    await initAfterInvestment(VAULT_AMOUNT);
+    await vault.connect(investor).redeem(VAULT_AMOUNT, investor_addr, investor_addr);
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+    await test_ctx.fund_client.startInvestorsDeposit();
+
+    expect(await vault.maxDeposit(investor_addr))
+      .to.equal(constants.NEW_MAX_AMOUNT);
+    await vault.connect(investor).deposit(VAULT_AMOUNT, investor_addr);
+    expect(await vault.fundRound())
+      .to.equal(2);
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+// Project
+import {
+  DecodedFundError,
+  decodeFundError,
+  decodeFundErrorData,
+  explainFundError
+} from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for the custom errors decoder
+//
+describe("InvestmentFundErrorDecoder", () => {
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    test_ctx = await utils.initBeforeInvestmentTestContext();
+  });
+
+  async function decodeRevert(
+    txPromise: Promise<unknown>
+  ) : Promise<DecodedFundError> {
+    try {
+      await txPromise;
+    }
+    catch (err) {
+      const decoded_err: DecodedFundError | undefined = decodeFundError(err);
+      expect(decoded_err)
+        .to.not.be.undefined;
+      return decoded_err!;
+    }
+    throw new Error("Transaction not reverted");
+  }
+
+  it("should decode revert data of all custom errors", async () => {
+    const fund_interface = test_ctx.investment_fund.interface;
+    const dummy_address: string = await test_ctx.accounts.signers[0].getAddress();
+    const test_cases: [string, unknown[], string][] = [
+      ["AddressError", [dummy_address], `address ${dummy_address} is not valid`],
+      ["AmountError", [constants.DUMMY_AMOUNT], `amount ${constants.DUMMY_AMOUNT} is not valid`],
+      ["FundManagerCallerError", [], "caller is not the fund manager"],
+      ["FundManagerChangeError", [], "fund manager cannot be changed"],
+      ["FundTokenError", [], "fund token is not valid"],
+      ["InvestmentStateError", [], "function cannot be called in the current investment state"],
+      ["NoInvestorError", [], "there are no investors in the fund"],
+      ["ValueError", [constants.NEW_MULTIPLE_OF], `value ${constants.NEW_MULTIPLE_OF} is not valid`],
+    ];
+
+    for (const [error_name, error_args, error_msg] of test_cases) {
+      const decoded_err: DecodedFundError | undefined = decodeFundErrorData(
+        fund_interface.encodeErrorResult(error_name, error_args)
+      );
+
+      expect(decoded_err)
+        .to.not.be.undefined;
+      expect(decoded_err!.name)
+        .to.equal(error_name);
+      expect(decoded_err!.selector)
+        .to.equal(fund_interface.getSighash(error_name));
+      expect(decoded_err!.message)
+        .to.equal(error_msg);
+    }
+
+    // Not a custom error of the fund
+    expect(decodeFundErrorData("0x12345678"))
+      .to.be.undefined;
+  });
+
+  it("should explain amount errors using the fund parameters", async () => {
+    const investor: Signer = test_ctx.accounts.signers[1];
+    const amount: number = constants.NEW_MIN_AMOUNT + (constants.NEW_MULTIPLE_OF / 2);
+
+    const decoded_err: DecodedFundError = await decodeRevert(
+      test_ctx.investment_fund.connect(investor).investorDeposit(amount)
+    );
+    expect(decoded_err.name)
+      .to.equal("AmountError");
+    expect(decoded_err.args.amount)
+      .to.equal(amount);
+
+    const explained_err: DecodedFundError = await explainFundError(decoded_err, test_ctx.investment_fund, {
+      functionName: "investorDeposit",
+    });
+    expect(explained_err.message)
+      .to.equal(`deposit ${amount} is not a multiple of ${constants.NEW_MULTIPLE_OF}`);
+
+    const withdraw_err: DecodedFundError = await explainFundError(
+      await decodeRevert(test_ctx.investment_fund.connect(investor).investorWithdrawAll()),
+      test_ctx.investment_fund,
+      { functionName: "investorWithdrawAll" }
+    );
+    expect(withdraw_err.message)
+      .to.equal("investor has no funds deposited");
+  });
+
+  it("should explain state and caller errors", async () => {
+    const fund_manager_address: string = await test_ctx.accounts.fund_manager.getAddress();
+    const other_account: Signer = test_ctx.accounts.signers[0];
+    const other_address: string = await other_account.getAddress();
+
+    const state_err: DecodedFundError = await explainFundError(
+      await decodeRevert(test_ctx.investment_fund.startInvestorsWithdraw()),
+      test_ctx.investment_fund,
+      { functionName: "startInvestorsWithdraw" }
+    );
+    expect(state_err.message)
+      .to.equal("startInvestorsWithdraw cannot be called in the BEFORE_INVESTMENT state");
+
+    const caller_err: DecodedFundError = await explainFundError(
+      await decodeRevert(test_ctx.investment_fund.connect(other_account).stopInvestorsDeposit()),
+      test_ctx.investment_fund,
+      { caller: other_address }
+    );
+    expect(caller_err.message)
+      .to.equal(`caller ${other_address} is not the fund manager ${fund_manager_address}`);
+  });
+});
@@ -0,0 +1,145 @@
+import { expect } from "chai";
+import fs from "fs";
+import hre from "hardhat";
+import os from "os";
+import path from "path";
+// Project
+import {
+  IndexedEvent,
+  InvestmentFundIndexer,
+  InvestmentRound,
+  JsonFileIndexerStore,
+  MemoryIndexerStore
+} from "../indexer";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Tests for the events indexer
+//
+describe("InvestmentFundIndexer", () => {
+  let test_ctx: utils.TestContext;
+
+  beforeEach(async () => {
+    // Run a full round and start a new one
+    test_ctx = await utils.initAfterInvestmentTestContext();
+    for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
+      await test_ctx.fund_client.connect(test_ctx.accounts.signers[i]).withdrawAll();
+    }
+    await test_ctx.fund_client.stopInvestorsWithdraw();
+    await test_ctx.fund_client.startInvestorsDeposit();
+    await utils.initInvestorsDeposit(test_ctx.accounts, test_ctx.fund_client);
+  });
+
+  function newIndexer(
+    store = new MemoryIndexerStore()
+  ) : InvestmentFundIndexer {
+    return new InvestmentFundIndexer(hre.ethers.provider, test_ctx.investment_fund.address, store, {
+      batchSize: 5,
+    });
+  }
+
+  it("should segment events into rounds", async () => {
+    const indexer: InvestmentFundIndexer = newIndexer();
+    await indexer.sync();
+
+    const rounds: InvestmentRound[] = await indexer.rounds();
+    expect(rounds.length)
+      .to.equal(2);
+
+    const total_deposits: number = constants.DUMMY_AMOUNT * (constants.TOTAL_TEST_INVESTORS * (constants.TOTAL_TEST_INVESTORS + 1) / 2);
+    const first_round: InvestmentRound = rounds[0];
+    expect(first_round.completed)
+      .to.equal(true);
+    expect(first_round.events[0].name)
+      .to.equal("DepositMultipleOfChanged");
+    expect(first_round.depositStartedBlock)
+      .to.be.lessThan(first_round.depositStoppedBlock!);
+    expect(first_round.withdrawStartedBlock)
+      .to.be.lessThan(first_round.withdrawStoppedBlock!);
+    expect(first_round.investors.length)
+      .to.equal(constants.TOTAL_TEST_INVESTORS);
+    expect(first_round.investorsDeposits)
+      .to.equal(total_deposits);
+    expect(first_round.fundManagerDeposits)
+      .to.equal(constants.DUMMY_AMOUNT);
+    expect(first_round.fundManagerWithdrawals)
+      .to.equal(0);
+    // Payouts include the profit, apart from rounding dust
+    expect(first_round.investorsWithdrawals)
+      .to.be.gt(total_deposits);
+    expect(first_round.investorsWithdrawals)
+      .to.be.lte(total_deposits + constants.DUMMY_AMOUNT);
+    // All funds are either paid out or swept
+    expect(first_round.investorsWithdrawals.add(first_round.remainingFunds))
+      .to.equal(total_deposits + constants.DUMMY_AMOUNT);
+
+    const second_round: InvestmentRound = (await indexer.round(2))!;
+    expect(second_round.completed)
+      .to.equal(false);
+    expect(second_round.depositStartedBlock)
+      .to.not.be.undefined;
+    expect(second_round.depositStoppedBlock)
+      .to.be.undefined;
+    expect(second_round.investorsDeposits)
+      .to.equal(total_deposits);
+    expect(await indexer.round(3))
+      .to.be.undefined;
+  });
+
+  it("should resume from the last indexed block", async () => {
+    const store: MemoryIndexerStore = new MemoryIndexerStore();
+    const all_events: IndexedEvent[] = await (async () => {
+      const indexer: InvestmentFundIndexer = newIndexer();
+      await indexer.sync();
+      return indexer.events();
+    })();
+
+    // Index up to the middle, then resume with a new indexer on the same store
+    const middle_block: number = all_events[Math.floor(all_events.length / 2)].blockNumber;
+    expect(await newIndexer(store).sync(middle_block))
+      .to.be.lessThan(all_events.length);
+
+    const indexer: InvestmentFundIndexer = newIndexer(store);
+    expect(await indexer.lastIndexedBlock())
+      .to.equal(middle_block);
+    await indexer.sync();
+    expect(await indexer.events())
+      .to.deep.equal(all_events);
+
+    // Nothing new to index
+    expect(await indexer.sync())
+      .to.equal(0);
+    expect((await indexer.events()).length)
+      .to.equal(all_events.length);
+  });
+
+  it("should persist events in a JSON file", async () => {
+    const tmp_dir: string = await fs.promises.mkdtemp(path.join(os.tmpdir(), "fund-indexer-"));
+    const db_path: string = path.join(tmp_dir, "db", "fund.json");
+
+    try {
+      await newIndexer(new JsonFileIndexerStore(db_path)).sync();
+      expect(fs.existsSync(db_path))
+        .to.equal(true);
+
+      const indexer: InvestmentFundIndexer = newIndexer(new JsonFileIndexerStore(db_path));
+      expect(await indexer.sync())
+        .to.equal(0);
+      expect((await indexer.rounds()).length)
+        .to.equal(2);
+
+      // Store of a different fund shall not be used
+      const other_indexer: InvestmentFundIndexer = new InvestmentFundIndexer(
+        hre.ethers.provider,
+        test_ctx.mock_token.address,
+        new JsonFileIndexerStore(db_path)
+      );
+      await expect(other_indexer.sync())
+        .to.be.rejectedWith(Error, "Store contains events of fund");
+    }
+    finally {
+      await fs.promises.rm(tmp_dir, { recursive: true, force: true });
+    }
+  });
+});
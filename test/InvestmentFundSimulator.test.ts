@@ -0,0 +1,127 @@
+import { expect } from "chai";
+import { BigNumber, Contract, ContractFactory, Signer } from "ethers";
+import hre from "hardhat";
+// Project
+import { InvestmentFundClient, SimulationResult, simulateRound } from "../client";
+import * as constants from "./Constants";
+import * as utils from "./Utils";
+
+//
+// Property-based tests of the simulator against the contract
+//
+describe("InvestmentFundSimulator", () => {
+  const RANDOM_SEED: number = 0x1f0dd;
+  const SCENARIOS_NUM: number = 8;
+  // Token supply, large enough for all scenarios
+  const TOKEN_SUPPLY: bigint = 10n ** 40n;
+  // Maximum deposit of the scenarios, so that both small (with more rounding) and big amounts are tested
+  const MAX_DEPOSITS: bigint[] = [10n ** 3n, 10n ** 9n, 10n ** 24n];
+
+  it("should compute the same results of the contract in random scenarios", async () => {
+    const random: () => number = utils.randomGenerator(RANDOM_SEED);
+    const all_signers: Signer[] = await hre.ethers.getSigners();
+    const fund_manager: Signer = all_signers[0];
+
+    for (let scenario = 0; scenario < SCENARIOS_NUM; scenario++) {
+      // Random scenario
+      const max_deposit: bigint = MAX_DEPOSITS[scenario % MAX_DEPOSITS.length];
+      const investors: Signer[] = all_signers.slice(1, 1 + Number(utils.randomBigInt(random, 1n, BigInt(constants.TOTAL_TEST_INVESTORS))));
+      const deposits: bigint[] = investors.map(() => utils.randomBigInt(random, 1n, max_deposit));
+      const total_deposits: bigint = deposits.reduce((sum, deposit) => sum + deposit, 0n);
+      // From a total loss to three times the deposits
+      const final_amount: bigint = utils.randomBigInt(random, 0n, total_deposits * 3n);
+      const management_fee_bps: bigint = utils.randomBigInt(random, 0n, 500n);
+      const performance_fee_bps: bigint = utils.randomBigInt(random, 0n, 3000n);
+      // Investors withdraw in random order, so the simulation takes the deposits in the same order
+      const withdraw_order: number[] = investors.map((_, i) => i).sort(() => random() - 0.5);
+      const scenario_desc: string = `scenario ${scenario}: deposits [${deposits.join(", ")}], final amount ${final_amount}, ` +
+        `fees ${management_fee_bps}/${performance_fee_bps} bps, withdraw order [${withdraw_order.join(", ")}]`;
+
+      const simulation: SimulationResult = simulateRound({
+        deposits: withdraw_order.map((i) => deposits[i]),
+        finalAmount: final_amount,
+        managementFeeBps: management_fee_bps,
+        performanceFeeBps: performance_fee_bps,
+      });
+
+      // Same scenario on the contract
+      const token_factory: ContractFactory = await hre.ethers.getContractFactory("MockERC20Token");
+      const token: Contract = await token_factory.deploy(TOKEN_SUPPLY);
+      await token.deployed();
+      const fund_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
+      const investment_fund: Contract = await fund_factory.deploy(token.address, constants.NULL_ADDRESS);
+      await investment_fund.deployed();
+      const fund_client: InvestmentFundClient = InvestmentFundClient.connect(investment_fund.address, fund_manager);
+
+      await fund_client.setManagementFee(management_fee_bps);
+      await fund_client.setPerformanceFee(performance_fee_bps);
+      await fund_client.startInvestorsDeposit();
+      for (let i = 0; i < investors.length; i++) {
+        await token.transfer(await investors[i].getAddress(), deposits[i]);
+        await token.connect(investors[i]).approve(investment_fund.address, deposits[i]);
+        await fund_client.connect(investors[i]).deposit(deposits[i]);
+      }
+      await fund_client.stopInvestorsDeposit();
+
+      // The fund manager invests all funds and deposits back the final amount
+      await token.approve(investment_fund.address, final_amount);
+      await fund_client.fundManagerWithdrawAll();
+      if (final_amount !== 0n) {
+        await fund_client.fundManagerDeposit(final_amount);
+      }
+      await fund_client.startInvestorsWithdraw();
+
+      const round = await investment_fund.roundInfo(1);
+      expect(round.totalAmountBeforeInvestment, scenario_desc)
+        .to.equal(simulation.totalAmountBeforeInvestment);
+      expect(round.managementFee, scenario_desc)
+        .to.equal(simulation.managementFee);
+      expect(round.performanceFee, scenario_desc)
+        .to.equal(simulation.performanceFee);
+      expect(round.totalAmountAfterInvestment, scenario_desc)
+        .to.equal(simulation.totalAmountAfterInvestment);
+      expect(round.investmentMultiplier, scenario_desc)
+        .to.equal(simulation.investmentMultiplier);
+
+      for (let j = 0; j < withdraw_order.length; j++) {
+        const result = await fund_client.connect(investors[withdraw_order[j]]).withdrawAll();
+        const withdrawn_amount: BigNumber = result.events.find((event) => event.name === "InvestorAllFundsWithdrawn")!.args.amount;
+        expect(withdrawn_amount, scenario_desc)
+          .to.equal(simulation.payouts[j].payout);
+      }
+
+      // The rounding dust was received by the last investor
+      expect(await token.balanceOf(investment_fund.address), scenario_desc)
+        .to.equal(0);
+    }
+  });
+
+  it("should report payouts, dust and effective returns", async () => {
+    const simulation: SimulationResult = simulateRound({
+      deposits: [1000n, 2000n, 3333n],
+      finalAmount: 7000n,
+      managementFeeBps: 200n,
+      performanceFeeBps: 2000n,
+    });
+
+    expect(simulation.totalAmountBeforeInvestment).to.equal(6333n);
+    expect(simulation.managementFee).to.equal(126n);
+    expect(simulation.performanceFee).to.equal(108n);
+    expect(simulation.totalAmountAfterInvestment).to.equal(6766n);
+    expect(simulation.payouts.map((payout) => payout.payout)).to.deep.equal([1068n, 2136n, 3562n]);
+    expect(simulation.payouts.map((payout) => payout.dust)).to.deep.equal([0n, 0n, 2n]);
+    expect(simulation.payouts.map((payout) => payout.returnBps)).to.deep.equal([680n, 680n, 687n]);
+    expect(simulation.totalPayouts).to.equal(6766n);
+    expect(simulation.dust).to.equal(2n);
+    expect(simulation.grossReturnBps).to.equal(1053n);
+    expect(simulation.netReturnBps).to.equal(683n);
+
+    // Losses give negative returns
+    expect(simulateRound({ deposits: [1000n], finalAmount: 900n }).netReturnBps).to.equal(-1000n);
+
+    expect(() => simulateRound({ deposits: [], finalAmount: 0n }))
+      .to.throw("At least one deposit shall be specified");
+    expect(() => simulateRound({ deposits: [1000n, 0n], finalAmount: 0n }))
+      .to.throw("Deposits shall be greater than zero");
+  });
+});
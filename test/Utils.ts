@@ -1,5 +1,7 @@
+import { expect } from "chai";
 import { Contract, ContractFactory, Signer } from "ethers";
 import hre from "hardhat";
+import { FundEvent, InvestmentFundClient, TransactionResult } from "../client";
 import * as constants from "./Constants";
 
 //
@@ -21,6 +23,7 @@ export interface TestContext {
   accounts: Accounts;
   mock_token: Contract;
   investment_fund: Contract;
+  fund_client: InvestmentFundClient;
 }
 
 //
@@ -42,13 +45,13 @@ export async function deployMockERC20TokenContract(
 
 export async function initInvestorsDeposit(
   accounts: Accounts,
-  investmentFund: Contract
+  fundClient: InvestmentFundClient
 ) : Promise<void> {
   for (let i = 1; i < (constants.TOTAL_TEST_INVESTORS + 1); i++) {
     const curr_amount: number = constants.DUMMY_AMOUNT * i;
     const curr_signer: Signer = accounts.signers[i];
 
-    await investmentFund.connect(curr_signer).investorDeposit(curr_amount);
+    await fundClient.connect(curr_signer).deposit(curr_amount);
   }
 }
 
@@ -56,20 +59,29 @@ export async function initConstructedTestContext() : Promise<TestContext> {
   const accounts: Accounts = await initAccounts();
   const mock_token: Contract = await deployMockERC20TokenContract(accounts, constants.TOKEN_SUPPLY);
   const investment_fund: Contract = await deployInvestmentFundContract(mock_token);
+  const fund_client: InvestmentFundClient = InvestmentFundClient.connect(investment_fund.address, accounts.fund_manager);
 
   return {
     accounts,
     mock_token,
-    investment_fund
+    investment_fund,
+    fund_client
   };
 }
 
-export async function initBeforeInvestmentTestContext() : Promise<TestContext> {
+export async function initInitialTestContext() : Promise<TestContext> {
   const text_ctx: TestContext = await initConstructedTestContext();
 
   await initInvestors(text_ctx.accounts, text_ctx.investment_fund, text_ctx.mock_token);
-  await initInvestmentParams(text_ctx.investment_fund);
-  await text_ctx.investment_fund.startInvestorsDeposit();
+  await initInvestmentParams(text_ctx.fund_client);
+
+  return text_ctx;
+}
+
+export async function initBeforeInvestmentTestContext() : Promise<TestContext> {
+  const text_ctx: TestContext = await initInitialTestContext();
+
+  await text_ctx.fund_client.startInvestorsDeposit();
 
   return text_ctx;
 }
@@ -77,8 +89,8 @@ export async function initBeforeInvestmentTestContext() : Promise<TestContext> {
 export async function initDuringInvestmentTestContext() : Promise<TestContext> {
   const text_ctx: TestContext = await initBeforeInvestmentTestContext();
 
-  await initInvestorsDeposit(text_ctx.accounts, text_ctx.investment_fund);
-  await text_ctx.investment_fund.stopInvestorsDeposit();
+  await initInvestorsDeposit(text_ctx.accounts, text_ctx.fund_client);
+  await text_ctx.fund_client.stopInvestorsDeposit();
 
   return text_ctx;
 }
@@ -86,8 +98,8 @@ export async function initDuringInvestmentTestContext() : Promise<TestContext> {
 export async function initAfterInvestmentTestContext() : Promise<TestContext> {
   const text_ctx: TestContext = await initDuringInvestmentTestContext();
 
-  await text_ctx.investment_fund.fundManagerDeposit(constants.DUMMY_AMOUNT);
-  await text_ctx.investment_fund.startInvestorsWithdraw();
+  await text_ctx.fund_client.fundManagerDeposit(constants.DUMMY_AMOUNT);
+  await text_ctx.fund_client.startInvestorsWithdraw();
 
   return text_ctx;
 }
@@ -106,6 +118,49 @@ export async function getInvestorDeposit(
   return (await investmentFund.depositOfInvestor(investorAddress)).toNumber();
 }
 
+export function expectEvent(
+  result: TransactionResult,
+  eventName: string,
+  ...eventArgs: unknown[]
+) : void {
+  const event: FundEvent | undefined = result.events.find((e) => e.name === eventName);
+
+  expect(event, `${eventName} not emitted`)
+    .to.not.be.undefined;
+  expect(event!.args.length)
+    .to.equal(eventArgs.length);
+  for (let i = 0; i < eventArgs.length; i++) {
+    expect(event!.args[i])
+      .to.equal(eventArgs[i]);
+  }
+}
+
+// Mulberry32 generator, so that random scenarios can be reproduced from the seed
+export function randomGenerator(
+  seed: number
+) : () => number {
+  let state: number = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t: number = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random integer in [min, max]
+export function randomBigInt(
+  random: () => number,
+  min: bigint,
+  max: bigint
+) : bigint {
+  let value: bigint = 0n;
+  for (let range: bigint = max - min + 1n; range > 0n; range >>= 32n) {
+    value = (value << 32n) | BigInt(Math.floor(random() * 4294967296));
+  }
+  return min + (value % (max - min + 1n));
+}
+
 //
 // Not exported functions
 //
@@ -131,7 +186,7 @@ async function deployInvestmentFundContract(
   mockToken: Contract
 ) : Promise<Contract> {
   const contract_factory: ContractFactory = await hre.ethers.getContractFactory("InvestmentFund");
-  const instance: Contract = await contract_factory.deploy(mockToken.address);
+  const instance: Contract = await contract_factory.deploy(mockToken.address, constants.NULL_ADDRESS);
   await instance.deployed();
 
   return instance;
@@ -160,9 +215,9 @@ async function initInvestors(
 }
 
 async function initInvestmentParams(
-  investmentFund: Contract
+  fundClient: InvestmentFundClient
 ) : Promise<void> {
-  await investmentFund.setDepositMultipleOf(constants.NEW_MULTIPLE_OF);
-  await investmentFund.setMinInvestorDeposit(constants.NEW_MIN_AMOUNT);
-  await investmentFund.setMaxInvestorDeposit(constants.NEW_MAX_AMOUNT);
+  await fundClient.setDepositMultipleOf(constants.NEW_MULTIPLE_OF);
+  await fundClient.setMinInvestorDeposit(constants.NEW_MIN_AMOUNT);
+  await fundClient.setMaxInvestorDeposit(constants.NEW_MAX_AMOUNT);
 }